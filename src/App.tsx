@@ -12,7 +12,14 @@ import LeadStatuses from './pages/LeadStatuses';
 import LeadQuestions from './pages/LeadQuestions';
 import ApiKeys from './pages/ApiKeys';
 import ApiDashboard from './pages/ApiDashboard';
+import ApiRequestLog from './pages/ApiRequestLog';
+import ApiDocs from './pages/ApiDocs';
 import AssignmentRules from './pages/AssignmentRules';
+import LeadScoring from './pages/LeadScoring';
+import WhatsAppTemplates from './pages/WhatsAppTemplates';
+import EmailTemplates from './pages/EmailTemplates';
+import MyDay from './pages/MyDay';
+import Chat from './pages/Chat';
 import Settings from './pages/Settings';
 
 function Layout({ children }: { children: React.ReactNode }) {
@@ -44,13 +51,20 @@ function App() {
         <Route path="/" element={<ProtectedRoute><SalesLeads /></ProtectedRoute>} />
         <Route path="/retention" element={<ProtectedRoute><Retention /></ProtectedRoute>} />
         <Route path="/lead/:id" element={<ProtectedRoute><LeadDetails /></ProtectedRoute>} />
+        <Route path="/my-day" element={<ProtectedRoute><MyDay /></ProtectedRoute>} />
+        <Route path="/chat" element={<ProtectedRoute><Chat /></ProtectedRoute>} />
         <Route path="/users" element={<ProtectedRoute requireAdmin><UserManagement /></ProtectedRoute>} />
         <Route path="/user/:id" element={<ProtectedRoute requireAdmin><UserDetails /></ProtectedRoute>} />
         <Route path="/statuses" element={<ProtectedRoute requireAdmin><LeadStatuses /></ProtectedRoute>} />
         <Route path="/questions" element={<ProtectedRoute requireAdmin><LeadQuestions /></ProtectedRoute>} />
         <Route path="/api" element={<ProtectedRoute requireAdmin><ApiKeys /></ProtectedRoute>} />
         <Route path="/api/dashboard" element={<ProtectedRoute requireAdmin><ApiDashboard /></ProtectedRoute>} />
+        <Route path="/api/requests" element={<ProtectedRoute requireAdmin><ApiRequestLog /></ProtectedRoute>} />
+        <Route path="/api/docs" element={<ProtectedRoute requireAdmin><ApiDocs /></ProtectedRoute>} />
         <Route path="/assignment-rules" element={<ProtectedRoute requireAdmin><AssignmentRules /></ProtectedRoute>} />
+        <Route path="/lead-scoring" element={<ProtectedRoute requireAdmin><LeadScoring /></ProtectedRoute>} />
+        <Route path="/whatsapp-templates" element={<ProtectedRoute requireAdmin><WhatsAppTemplates /></ProtectedRoute>} />
+        <Route path="/email-templates" element={<ProtectedRoute requireAdmin><EmailTemplates /></ProtectedRoute>} />
         <Route path="/settings" element={<ProtectedRoute requireAdmin><Settings /></ProtectedRoute>} />
         <Route path="*" element={<Navigate to="/" />} />
       </Routes>
@@ -38,7 +38,7 @@ const AddDepositModal: React.FC<AddDepositModalProps> = ({ isOpen, onClose, lead
       // Get current lead data
       const { data: lead, error: leadError } = await supabase
         .from('leads') 
-        .select('balance, total_deposits, has_deposited')
+        .select('balance, total_deposits, ftd_date')
         .eq('id', leadId)
         .single();
 
@@ -53,7 +53,9 @@ const AddDepositModal: React.FC<AddDepositModalProps> = ({ isOpen, onClose, lead
         total_deposits: newTotalDeposits,
         status: 'Deposited'
       };
-      if (!lead.has_deposited) {
+      // has_deposited is already flipped by the deposits trigger, so the
+      // first deposit is recognised by the missing ftd_date
+      if (!lead.ftd_date) {
         updatePayload.ftd_date = new Date().toISOString();
       }
 
@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
-import { supabase, type UserProfile, getCurrentUser, getUserPermissions, getSubordinateIds } from '../lib/supabase';
+import { supabase, type UserProfile, getCurrentUser, getUserPermissions, getSubordinateIds, getAgentCapacity } from '../lib/supabase';
 import { useQuery } from '@tanstack/react-query';
+import { getAvailabilityOption, getEffectiveAvailability, isUnavailable } from '../utils/availability';
 
 interface AssignAgentSelectProps {
   value: string | null;
@@ -34,6 +35,17 @@ const AssignAgentSelect: React.FC<AssignAgentSelectProps> = ({ value, onChange,
   });
 
 
+  // Users at their lead limit can't be picked, the current assignee stays selectable
+  const { data: fullUserIds = [] } = useQuery({
+    queryKey: ['agentCapacity'],
+    queryFn: async () => {
+      const capacity = await getAgentCapacity();
+      return capacity.filter(c => !c.has_capacity).map(c => c.user_id);
+    },
+    enabled: !!currentUser && allUsers.length > 0,
+    staleTime: 60 * 1000,
+  });
+
   const { data: deskGroups = [], isLoading, isFetching } = useQuery({
     queryKey: ['deskGroups', currentUser?.id, currentUser?.role, allUsers.length],
     queryFn: async () => {
@@ -158,6 +170,14 @@ const AssignAgentSelect: React.FC<AssignAgentSelectProps> = ({ value, onChange,
   const canAssign = permissions?.clients?.assign || false;
 
   const renderedOptions = useMemo(() => {
+    // Flag users auto-assignment would skip
+    const getUserSuffix = (user: UserProfile) => {
+      const notes = [];
+      if (isUnavailable(user)) notes.push(getAvailabilityOption(getEffectiveAvailability(user)).label.toLowerCase());
+      if (fullUserIds.includes(user.id)) notes.push('full');
+      return notes.length > 0 ? ` (${notes.join(', ')})` : '';
+    };
+
     const assignedUserInList = value ? allUsers.find(u => u.id === value) : null;
     const hasAssignedUser = value && (assignedUserInList || assignedUserName);
     const hasGroups = deskGroups.length > 0 && deskGroups.some(g => g.members.length > 0);
@@ -171,8 +191,8 @@ const AssignAgentSelect: React.FC<AssignAgentSelectProps> = ({ value, onChange,
           {deskGroups.map((group) => (
             <optgroup key={group.deskName} label={`-- ${group.deskName}`}>
               {group.members.map((user) => (
-                <option key={user.id} value={user.id}>
-                  -- -- {user.full_name}
+                <option key={user.id} value={user.id} disabled={user.id !== value && fullUserIds.includes(user.id)}>
+                  -- -- {user.full_name}{getUserSuffix(user)}
                 </option>
               ))}
             </optgroup>
@@ -181,8 +201,8 @@ const AssignAgentSelect: React.FC<AssignAgentSelectProps> = ({ value, onChange,
       ) : allUsers.length > 0 ? (
         <>
           {allUsers.filter(u => ['agent', 'manager', 'desk'].includes(u.role)).map((user) => (
-            <option key={user.id} value={user.id}>
-              {user.full_name}
+            <option key={user.id} value={user.id} disabled={user.id !== value && fullUserIds.includes(user.id)}>
+              {user.full_name}{getUserSuffix(user)}
             </option>
           ))}
         </>
@@ -190,7 +210,7 @@ const AssignAgentSelect: React.FC<AssignAgentSelectProps> = ({ value, onChange,
         <option value="" disabled>Loading users...</option>
       )
     };
-  }, [deskGroups, allUsers, value, assignedUserName]);
+  }, [deskGroups, allUsers, value, assignedUserName, fullUserIds]);
 
   if (!currentUser || (currentUser.role === 'agent' && !canAssign)) {
     if (isLoading) {
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { TIMEZONES } from '../utils/time';
+import { WEEKDAYS } from '../utils/assignmentRules';
+
+interface Settings {
+  unavailable_reassign_minutes: number | null;
+  sla_minutes: number | null;
+  sla_days: number[];
+  sla_work_start: string;
+  sla_work_end: string;
+  sla_timezone: string;
+  priority_score: number | null;
+}
+
+const toMinutesInput = (value: number | null) => value?.toString() ?? '';
+
+const fromMinutesInput = (value: string) => (value.trim() === '' ? null : Math.max(1, parseInt(value, 10)));
+
+const AssignmentSettings: React.FC = () => {
+  const [form, setForm] = useState({
+    unavailable_reassign_minutes: '',
+    sla_minutes: '',
+    sla_days: [1, 2, 3, 4, 5],
+    sla_work_start: '09:00',
+    sla_work_end: '18:00',
+    sla_timezone: 'UTC',
+    priority_score: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('lead_assignment_settings')
+          .select('unavailable_reassign_minutes, sla_minutes, sla_days, sla_work_start, sla_work_end, sla_timezone, priority_score')
+          .single();
+
+        if (error) throw error;
+        const settings = data as Settings;
+        setForm({
+          unavailable_reassign_minutes: toMinutesInput(settings.unavailable_reassign_minutes),
+          sla_minutes: toMinutesInput(settings.sla_minutes),
+          sla_days: settings.sla_days,
+          sla_work_start: settings.sla_work_start.slice(0, 5),
+          sla_work_end: settings.sla_work_end.slice(0, 5),
+          sla_timezone: settings.sla_timezone,
+          priority_score: settings.priority_score?.toString() ?? '',
+        });
+      } catch (error) {
+        console.error('Error fetching assignment settings:', error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const toggleDay = (day: number) => {
+    setForm({
+      ...form,
+      sla_days: form.sla_days.includes(day)
+        ? form.sla_days.filter((d) => d !== day)
+        : [...form.sla_days, day].sort(),
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.sla_work_start >= form.sla_work_end) {
+      toast.error('Working hours must end after they start');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('lead_assignment_settings')
+        .update({
+          unavailable_reassign_minutes: fromMinutesInput(form.unavailable_reassign_minutes),
+          sla_minutes: fromMinutesInput(form.sla_minutes),
+          sla_days: form.sla_days,
+          sla_work_start: form.sla_work_start,
+          sla_work_end: form.sla_work_end,
+          sla_timezone: form.sla_timezone,
+          priority_score: form.priority_score.trim() === '' ? null : parseInt(form.priority_score, 10),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+      toast.success('Assignment settings saved');
+    } catch (error) {
+      console.error('Error saving assignment settings:', error);
+      toast.error('Failed to save assignment settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'px-3 py-1 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <form onSubmit={handleSave} className="bg-gray-800 rounded-lg p-4 mb-6 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="unavailable-reassign-minutes" className="text-gray-300">
+          Reassign untouched new leads of offline or on leave agents after
+        </label>
+        <input
+          id="unavailable-reassign-minutes"
+          type="number"
+          min="1"
+          value={form.unavailable_reassign_minutes}
+          onChange={(e) => setForm({ ...form, unavailable_reassign_minutes: e.target.value })}
+          placeholder="Never"
+          className={`w-24 ${inputClassName}`}
+        />
+        <span className="text-gray-300">minutes</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="sla-minutes" className="text-gray-300">
+          SLA: reassign new leads with no status change or comment after
+        </label>
+        <input
+          id="sla-minutes"
+          type="number"
+          min="1"
+          value={form.sla_minutes}
+          onChange={(e) => setForm({ ...form, sla_minutes: e.target.value })}
+          placeholder="Never"
+          className={`w-24 ${inputClassName}`}
+        />
+        <span className="text-gray-300">working minutes, on</span>
+        <div className="flex gap-1">
+          {WEEKDAYS.map((day) => (
+            <button
+              key={day.value}
+              type="button"
+              onClick={() => toggleDay(day.value)}
+              className={`px-2 py-1 rounded ${
+                form.sla_days.includes(day.value) ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+            >
+              {day.label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="time"
+          value={form.sla_work_start}
+          onChange={(e) => setForm({ ...form, sla_work_start: e.target.value })}
+          className={inputClassName}
+          required
+        />
+        <span className="text-gray-300">-</span>
+        <input
+          type="time"
+          value={form.sla_work_end}
+          onChange={(e) => setForm({ ...form, sla_work_end: e.target.value })}
+          className={inputClassName}
+          required
+        />
+        <select
+          value={form.sla_timezone}
+          onChange={(e) => setForm({ ...form, sla_timezone: e.target.value })}
+          className={inputClassName}
+        >
+          {['UTC', ...TIMEZONES].map((timezone) => (
+            <option key={timezone} value={timezone}>
+              {timezone}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="priority-score" className="text-gray-300">
+          Send new leads scoring at least
+        </label>
+        <input
+          id="priority-score"
+          type="number"
+          value={form.priority_score}
+          onChange={(e) => setForm({ ...form, priority_score: e.target.value })}
+          placeholder="Off"
+          className={`w-24 ${inputClassName}`}
+        />
+        <span className="text-gray-300">to the least loaded agent of their rule's pool</span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          SLA reassignments go to the next agent in the lead's rule pool and notify the previous agent's manager
+        </p>
+        <button
+          type="submit"
+          className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-500 disabled:opacity-50 flex items-center space-x-2"
+          disabled={saving}
+        >
+          <Save size={14} />
+          <span>{saving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AssignmentSettings;
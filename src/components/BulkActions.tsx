@@ -1,8 +1,9 @@
 import React from 'react';
-import { Users, Trash2, Shuffle } from 'lucide-react';
-import { supabase, type Lead, getCurrentUser, getSubordinateIds } from '../lib/supabase';
+import { Users, Trash2, Shuffle, Mail } from 'lucide-react';
+import { supabase, type Lead, getCurrentUser, getSubordinateIds, getUserPermissions } from '../lib/supabase';
 import AssignAgentSelect from './AssignAgentSelect';
 import RandomAssignModal from './RandomAssignModal';
+import SendEmailModal from './SendEmailModal';
 import toast from 'react-hot-toast';
 
 interface BulkActionsProps {
@@ -14,6 +15,8 @@ interface BulkActionsProps {
 const BulkActions: React.FC<BulkActionsProps> = ({ selectedLeads, statuses, onActionComplete }) => {
   const [isAdmin, setIsAdmin] = React.useState(false);
   const [isRandomAssignModalOpen, setIsRandomAssignModalOpen] = React.useState(false);
+  const [isSendEmailModalOpen, setIsSendEmailModalOpen] = React.useState(false);
+  const [canEmail, setCanEmail] = React.useState(false);
   const [availableAgents, setAvailableAgents] = React.useState<any[]>([]);
   const [currentUser, setCurrentUser] = React.useState<any>(null);
 
@@ -25,6 +28,9 @@ const BulkActions: React.FC<BulkActionsProps> = ({ selectedLeads, statuses, onAc
   const checkUserRole = async () => {
     const user = await getCurrentUser();
     setIsAdmin(user?.role === 'admin' || user?.role === 'desk');
+
+    const permissions = await getUserPermissions();
+    setCanEmail(user?.role === 'admin' || permissions?.clients?.email || false);
   };
 
   const fetchAvailableAgents = async () => {
@@ -197,6 +203,16 @@ const BulkActions: React.FC<BulkActionsProps> = ({ selectedLeads, statuses, onAc
           <span>Randomly Assign</span>
         </button>
 
+        {canEmail && (
+          <button
+            onClick={() => setIsSendEmailModalOpen(true)}
+            className="px-3 py-2 bg-purple-600 rounded flex items-center space-x-2 hover:bg-purple-500 text-sm"
+          >
+            <Mail size={14} />
+            <span>Send Email</span>
+          </button>
+        )}
+
         {isAdmin && (
           <button
             onClick={handleDeleteLeads}
@@ -216,6 +232,13 @@ const BulkActions: React.FC<BulkActionsProps> = ({ selectedLeads, statuses, onAc
       availableAgents={availableAgents}
       onAssignmentComplete={onActionComplete}
     />
+
+    <SendEmailModal
+      isOpen={isSendEmailModalOpen}
+      onClose={() => setIsSendEmailModalOpen(false)}
+      selectedLeads={selectedLeads}
+      onSent={onActionComplete}
+    />
     </>
   );
 };
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Phone, PhoneOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, type Lead } from '../lib/supabase';
+import {
+  getTelephonyProvider,
+  getCallOutcomeLabel,
+  formatCallDuration,
+  type CallHandle,
+  type CallResult,
+  type CallState,
+} from '../lib/telephony';
+
+interface CallButtonProps {
+  lead: Lead;
+  currentUserId: string;
+  onCallLogged: () => void;
+}
+
+const STATE_LABELS: Record<CallState, string> = {
+  dialing: 'Dialing...',
+  ringing: 'Ringing...',
+  in_progress: 'In call',
+  ended: 'Call ended',
+};
+
+const CallButton: React.FC<CallButtonProps> = ({ lead, currentUserId, onCallLogged }) => {
+  const [callState, setCallState] = useState<CallState | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [activeCall, setActiveCall] = useState<CallHandle | null>(null);
+  const callRef = useRef<CallHandle | null>(null);
+
+  // Ticks while the client is on the line
+  useEffect(() => {
+    if (callState !== 'in_progress') return;
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed((seconds) => seconds + 1), 1000);
+    return () => clearInterval(timer);
+  }, [callState]);
+
+  // Leaving the lead page ends the call, it still gets logged
+  useEffect(() => () => callRef.current?.hangUp(), []);
+
+  const logCall = async (providerId: string, result: CallResult) => {
+    const outcome = getCallOutcomeLabel(result.outcome).toLowerCase();
+    const description = result.outcome === 'answered'
+      ? `Outgoing call to ${lead.phone}, ${outcome}, ${formatCallDuration(result.durationSeconds)}`
+      : `Outgoing call to ${lead.phone}, ${outcome}`;
+
+    const { error } = await supabase.from('lead_activities').insert({
+      lead_id: lead.id,
+      type: 'call',
+      description,
+      metadata: {
+        provider: providerId,
+        provider_call_id: result.providerCallId,
+        user_id: currentUserId,
+        phone: lead.phone,
+        outcome: result.outcome,
+        started_at: result.startedAt,
+        answered_at: result.answeredAt,
+        ended_at: result.endedAt,
+        duration_seconds: result.durationSeconds,
+        recording_url: result.recordingUrl,
+      },
+    });
+
+    if (error) throw error;
+  };
+
+  const handleCall = async () => {
+    if (!lead.phone) {
+      toast.error('This lead has no phone number');
+      return;
+    }
+
+    try {
+      const provider = getTelephonyProvider();
+      setCallState('dialing');
+      const call = await provider.dial(lead.phone, { leadId: lead.id, onStateChange: setCallState });
+      callRef.current = call;
+      setActiveCall(call);
+
+      const result = await call.result;
+      await logCall(provider.id, result);
+
+      toast.success(`Call ${getCallOutcomeLabel(result.outcome).toLowerCase()}`);
+      onCallLogged();
+    } catch (error) {
+      console.error('Error placing call:', error);
+      toast.error('Failed to place call');
+    } finally {
+      callRef.current = null;
+      setActiveCall(null);
+      setCallState(null);
+    }
+  };
+
+  if (callState) {
+    return (
+      <div className="px-4 py-2 bg-gray-700 rounded-lg flex items-center space-x-3">
+        <Phone size={16} className="text-green-500 animate-pulse" />
+        <span className="text-sm">
+          {STATE_LABELS[callState]}
+          {callState === 'in_progress' && ` ${formatCallDuration(elapsed)}`}
+        </span>
+        <button
+          onClick={() => activeCall?.hangUp()}
+          disabled={!activeCall || callState === 'ended'}
+          className="p-1.5 bg-red-600 rounded-full hover:bg-red-500 disabled:opacity-50"
+          title="Hang up"
+        >
+          <PhoneOff size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleCall}
+      className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500"
+    >
+      <Phone size={16} />
+      <span>Call</span>
+    </button>
+  );
+};
+
+export default CallButton;
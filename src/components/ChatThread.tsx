@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Send, Trash2, Link2, X } from 'lucide-react';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+import { supabase, type ChatMessage } from '../lib/supabase';
+
+interface ChatThreadProps {
+  roomId: string;
+  currentUserId: string;
+  canDelete: boolean;
+  initialLeadId: number | null;
+}
+
+const ChatThread: React.FC<ChatThreadProps> = ({ roomId, currentUserId, canDelete, initialLeadId }) => {
+  const [body, setBody] = useState('');
+  const [leadId, setLeadId] = useState(initialLeadId ? String(initialLeadId) : '');
+  const [showLeadInput, setShowLeadInput] = useState(!!initialLeadId);
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+
+  // New messages arrive through the realtime subscription of the chat page
+  const { data: messages, isLoading } = useQuery({
+    queryKey: ['chatMessages', roomId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .select('*, sender:user_profiles!chat_messages_sender_id_fkey(full_name), lead:leads(id, first_name, last_name)')
+        .eq('room_id', roomId)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as ChatMessage[];
+    }
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView();
+
+    // Everything shown counts as read
+    supabase
+      .from('chat_room_members')
+      .update({ last_read_at: new Date().toISOString() })
+      .eq('room_id', roomId)
+      .eq('user_id', currentUserId)
+      .then(({ error }) => {
+        if (error) console.error('Error marking chat as read:', error);
+        queryClient.invalidateQueries({ queryKey: ['chatRooms'] });
+      });
+  }, [messages, roomId, currentUserId, queryClient]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      setSending(true);
+      const { error } = await supabase
+        .from('chat_messages')
+        .insert({
+          room_id: roomId,
+          sender_id: currentUserId,
+          body: body.trim(),
+          lead_id: leadId ? parseInt(leadId, 10) : null,
+        });
+
+      if (error) throw error;
+
+      setBody('');
+      setLeadId('');
+      setShowLeadInput(false);
+      queryClient.invalidateQueries({ queryKey: ['chatMessages', roomId] });
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      toast.error(leadId ? 'Failed to send message, check that you can see the linked lead' : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleDelete = async (messageId: string) => {
+    if (!window.confirm('Are you sure you want to delete this message?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('chat_messages')
+        .delete()
+        .eq('id', messageId);
+
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['chatMessages', roomId] });
+    } catch (error) {
+      console.error('Error deleting chat message:', error);
+      toast.error('Failed to delete message');
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-y-auto space-y-3 p-4">
+        {isLoading ? (
+          <div className="text-sm text-gray-400">Loading messages...</div>
+        ) : !messages || messages.length === 0 ? (
+          <div className="text-sm text-gray-400">No messages yet</div>
+        ) : (
+          messages.map((message) => {
+            const own = message.sender_id === currentUserId;
+            return (
+              <div key={message.id} className={clsx('flex group', own ? 'justify-end' : 'justify-start')}>
+                <div className={clsx('max-w-[70%] rounded-lg px-3 py-2', own ? 'bg-blue-800' : 'bg-gray-700')}>
+                  <div className="flex items-center justify-between space-x-3 text-xs text-gray-400 mb-1">
+                    <span>{own ? 'You' : message.sender?.full_name || 'Deleted user'}</span>
+                    <div className="flex items-center space-x-2">
+                      <span>{new Date(message.created_at).toLocaleString()}</span>
+                      {canDelete && (
+                        <button
+                          onClick={() => handleDelete(message.id)}
+                          className="text-red-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                          title="Delete message"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+                  {message.lead_id && (
+                    message.lead ? (
+                      <Link
+                        to={`/lead/${message.lead.id}`}
+                        className="mt-2 inline-flex items-center space-x-1 text-xs text-blue-300 hover:text-blue-200"
+                      >
+                        <Link2 size={12} />
+                        <span>
+                          {message.lead.first_name} {message.lead.last_name} #{message.lead.id}
+                        </span>
+                      </Link>
+                    ) : (
+                      <span className="mt-2 inline-flex items-center space-x-1 text-xs text-gray-400">
+                        <Link2 size={12} />
+                        <span>Lead #{message.lead_id}</span>
+                      </span>
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="border-t border-gray-700 p-4 space-y-2">
+        {showLeadInput && (
+          <div className="flex items-center space-x-2">
+            <Link2 size={16} className="text-gray-400" />
+            <input
+              type="number"
+              min="1"
+              value={leadId}
+              onChange={(e) => setLeadId(e.target.value)}
+              placeholder="Lead ID"
+              className="w-40 bg-gray-700 rounded-lg px-3 py-1 text-sm"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                setLeadId('');
+                setShowLeadInput(false);
+              }}
+              className="text-gray-400 hover:text-white"
+              title="Remove lead"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        <div className="flex space-x-2">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend(e);
+              }
+            }}
+            placeholder="Write a message..."
+            className="flex-1 h-12 bg-gray-700 rounded-lg px-3 py-2 resize-none"
+          />
+          {!showLeadInput && (
+            <button
+              type="button"
+              onClick={() => setShowLeadInput(true)}
+              className="px-3 bg-gray-700 rounded-lg hover:bg-gray-600"
+              title="Link a lead"
+            >
+              <Link2 size={16} />
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={sending || !body.trim()}
+            className="px-4 bg-blue-600 rounded-lg hover:bg-blue-500 disabled:opacity-50"
+            title="Send"
+          >
+            <Send size={16} />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChatThread;
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { X } from "lucide-react";
 import { supabase, type UserProfile } from "../lib/supabase";
 import toast from "react-hot-toast";
+import { COUNTRIES_BY_NAME } from "../utils/countries";
 
 interface CreateLeadModalProps {
   isOpen: boolean;
@@ -135,14 +136,20 @@ const CreateLeadModal: React.FC<CreateLeadModalProps> = ({
 
           <div>
             <label className="block text-sm text-gray-400">Country</label>
-            <input
-              type="text"
+            <select
               className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
               value={formData.country}
               onChange={(e) =>
                 setFormData({ ...formData, country: e.target.value })
               }
-            />
+            >
+              <option value="">Select a country</option>
+              {COUNTRIES_BY_NAME.map((country) => (
+                <option key={country.code} value={country.name}>
+                  {country.name}
+                </option>
+              ))}
+            </select>
           </div>
 
           <div>
@@ -191,13 +198,16 @@ const CreateLeadModal: React.FC<CreateLeadModalProps> = ({
                 setFormData({ ...formData, assigned_to: e.target.value })
               }
             >
-              <option value="">Unassigned</option>
+              <option value="">Assignment rules</option>
               {agents.map((agent) => (
                 <option key={agent.id} value={agent.id}>
                   {agent.full_name}
                 </option>
               ))}
             </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Leads without an agent are assigned by the matching assignment rule, if any
+            </p>
           </div>
 
           <div className="flex justify-end space-x-3 mt-6">
@@ -3,59 +3,47 @@ import { supabase } from '../lib/supabase';
 import { X } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useUsers } from '../hooks/useUsers';
+import { TIMEZONES } from '../utils/time';
+import { COUNTRIES_BY_NAME } from '../utils/countries';
+import { COUNTRY_GROUPS, Distribution, RuleConditions, WEEKDAYS } from '../utils/assignmentRules';
+
+interface PoolAgent {
+  agent_id: string;
+  weight: number;
+}
 
 interface CreateRuleModalProps {
   isOpen: boolean;
   onClose: () => void;
   onRuleCreated: () => void;
-  editingRule?: {
+  editingRule?: (RuleConditions & {
     id: string;
-    source_name: string;
-    country_code: string;
-    assigned_agent_id: string;
+    distribution: Distribution;
     priority: number;
-  } | null;
+    agents: PoolAgent[];
+  }) | null;
 }
 
-const COUNTRIES = [
-  { code: 'DE', name: 'Germany' },
-  { code: 'UK', name: 'United Kingdom' },
-  { code: 'US', name: 'United States' },
-  { code: 'FR', name: 'France' },
-  { code: 'ES', name: 'Spain' },
-  { code: 'IT', name: 'Italy' },
-  { code: 'NL', name: 'Netherlands' },
-  { code: 'BE', name: 'Belgium' },
-  { code: 'AT', name: 'Austria' },
-  { code: 'CH', name: 'Switzerland' },
-  { code: 'PL', name: 'Poland' },
-  { code: 'SE', name: 'Sweden' },
-  { code: 'NO', name: 'Norway' },
-  { code: 'DK', name: 'Denmark' },
-  { code: 'FI', name: 'Finland' },
-  { code: 'IE', name: 'Ireland' },
-  { code: 'PT', name: 'Portugal' },
-  { code: 'GR', name: 'Greece' },
-  { code: 'CZ', name: 'Czech Republic' },
-  { code: 'RO', name: 'Romania' },
-  { code: 'HU', name: 'Hungary' },
-  { code: 'CA', name: 'Canada' },
-  { code: 'AU', name: 'Australia' },
-  { code: 'NZ', name: 'New Zealand' },
-  { code: 'JP', name: 'Japan' },
-  { code: 'KR', name: 'South Korea' },
-  { code: 'SG', name: 'Singapore' },
-  { code: 'AE', name: 'United Arab Emirates' },
-  { code: 'SA', name: 'Saudi Arabia' },
-  { code: 'ZA', name: 'South Africa' },
-  { code: 'BR', name: 'Brazil' },
-  { code: 'MX', name: 'Mexico' },
-  { code: 'AR', name: 'Argentina' },
-  { code: 'CL', name: 'Chile' },
-  { code: 'IN', name: 'India' },
-  { code: 'CN', name: 'China' },
+const DISTRIBUTIONS: { value: Distribution; label: string; description: string }[] = [
+  { value: 'round_robin', label: 'Round robin', description: 'Agents take turns, the one assigned longest ago goes next' },
+  { value: 'weighted', label: 'Weighted', description: 'Each agent gets a share of leads proportional to its weight' },
+  { value: 'least_loaded', label: 'Least loaded', description: 'The agent with the fewest open (not converted) leads goes next' },
 ];
 
+const emptyForm = {
+  source_name: '',
+  country_codes: [] as string[],
+  funnel: '',
+  brand: '',
+  desk: '',
+  active_days: [] as number[],
+  active_from: '',
+  active_until: '',
+  timezone: '',
+  distribution: 'round_robin' as Distribution,
+  priority: 0,
+};
+
 const CreateRuleModal: React.FC<CreateRuleModalProps> = ({
   isOpen,
   onClose,
@@ -63,47 +51,119 @@ const CreateRuleModal: React.FC<CreateRuleModalProps> = ({
   editingRule,
 }) => {
   const { users } = useUsers();
-  const [formData, setFormData] = useState({
-    source_name: '',
-    country_code: '',
-    assigned_agent_id: '',
-    priority: 0,
-  });
+  const [formData, setFormData] = useState(emptyForm);
+  const [pool, setPool] = useState<PoolAgent[]>([]);
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     if (editingRule) {
       setFormData({
-        source_name: editingRule.source_name,
-        country_code: editingRule.country_code,
-        assigned_agent_id: editingRule.assigned_agent_id,
+        source_name: editingRule.source_name || '',
+        country_codes: editingRule.country_codes || [],
+        funnel: editingRule.funnel || '',
+        brand: editingRule.brand || '',
+        desk: editingRule.desk || '',
+        active_days: editingRule.active_days || [],
+        active_from: editingRule.active_from?.slice(0, 5) || '',
+        active_until: editingRule.active_until?.slice(0, 5) || '',
+        timezone: editingRule.timezone || '',
+        distribution: editingRule.distribution,
         priority: editingRule.priority,
       });
+      setPool(editingRule.agents.map(({ agent_id, weight }) => ({ agent_id, weight })));
     } else {
-      setFormData({
-        source_name: '',
-        country_code: '',
-        assigned_agent_id: '',
-        priority: 0,
-      });
+      setFormData(emptyForm);
+      setPool([]);
     }
   }, [editingRule, isOpen]);
 
+  const addCountries = (codes: string[]) => {
+    setFormData((current) => ({
+      ...current,
+      country_codes: Array.from(new Set([...current.country_codes, ...codes])),
+    }));
+  };
+
+  const removeCountry = (code: string) => {
+    setFormData((current) => ({
+      ...current,
+      country_codes: current.country_codes.filter((c) => c !== code),
+    }));
+  };
+
+  const toggleDay = (day: number) => {
+    setFormData((current) => ({
+      ...current,
+      active_days: current.active_days.includes(day)
+        ? current.active_days.filter((d) => d !== day)
+        : [...current.active_days, day].sort(),
+    }));
+  };
+
+  const toggleAgent = (agentId: string) => {
+    setPool((current) =>
+      current.some((a) => a.agent_id === agentId)
+        ? current.filter((a) => a.agent_id !== agentId)
+        : [...current, { agent_id: agentId, weight: 1 }]
+    );
+  };
+
+  const setAgentWeight = (agentId: string, weight: number) => {
+    setPool((current) => current.map((a) => (a.agent_id === agentId ? { ...a, weight } : a)));
+  };
+
+  // Upserting keeps assigned_count and last_assigned_at of agents that stay in the pool,
+  // so round robin and weighted rotation continue where they left off
+  const savePool = async (ruleId: string) => {
+    const agentIds = pool.map((a) => a.agent_id);
+    const { error: deleteError } = await supabase
+      .from('lead_assignment_rule_agents')
+      .delete()
+      .eq('rule_id', ruleId)
+      .not('agent_id', 'in', `(${agentIds.join(',')})`);
+
+    if (deleteError) throw deleteError;
+
+    const { error: upsertError } = await supabase
+      .from('lead_assignment_rule_agents')
+      .upsert(
+        pool.map((a) => ({ rule_id: ruleId, agent_id: a.agent_id, weight: a.weight })),
+        { onConflict: 'rule_id,agent_id' }
+      );
+
+    if (upsertError) throw upsertError;
+  };
+
+  // Empty fields mean "any", stored as NULL
+  const ruleFields = () => ({
+    source_name: formData.source_name.trim() || null,
+    country_codes: formData.country_codes.length > 0 ? formData.country_codes : null,
+    funnel: formData.funnel.trim() || null,
+    brand: formData.brand.trim() || null,
+    desk: formData.desk.trim() || null,
+    active_days: formData.active_days.length > 0 && formData.active_days.length < 7 ? formData.active_days : null,
+    active_from: formData.active_from || null,
+    active_until: formData.active_until || null,
+    timezone: formData.timezone || null,
+    distribution: formData.distribution,
+    priority: formData.priority,
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!formData.source_name.trim()) {
-      toast.error('Source name is required');
+    if (!!formData.active_from !== !!formData.active_until) {
+      toast.error('Set both the start and end of the time window, or neither');
       return;
     }
 
-    if (!formData.country_code) {
-      toast.error('Country is required');
+    if (pool.length === 0) {
+      toast.error('Please select at least one agent');
       return;
     }
 
-    if (!formData.assigned_agent_id) {
-      toast.error('Please select an agent');
+    if (pool.some((a) => !Number.isInteger(a.weight) || a.weight < 1)) {
+      toast.error('Weights must be whole numbers of at least 1');
       return;
     }
 
@@ -113,34 +173,24 @@ const CreateRuleModal: React.FC<CreateRuleModalProps> = ({
       if (editingRule) {
         const { error } = await supabase
           .from('lead_assignment_rules')
-          .update({
-            source_name: formData.source_name.trim(),
-            country_code: formData.country_code,
-            assigned_agent_id: formData.assigned_agent_id,
-            priority: formData.priority,
-          })
+          .update(ruleFields())
           .eq('id', editingRule.id);
 
         if (error) throw error;
+        await savePool(editingRule.id);
         toast.success('Assignment rule updated successfully');
       } else {
-        const { error } = await supabase
+        const { data: rule, error } = await supabase
           .from('lead_assignment_rules')
           .insert({
-            source_name: formData.source_name.trim(),
-            country_code: formData.country_code,
-            assigned_agent_id: formData.assigned_agent_id,
-            priority: formData.priority,
+            ...ruleFields(),
             is_active: true,
-          });
-
-        if (error) {
-          if (error.code === '23505') {
-            toast.error('A rule with this source, country, and agent already exists');
-            return;
-          }
-          throw error;
-        }
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        await savePool(rule.id);
         toast.success('Assignment rule created successfully');
       }
 
@@ -159,7 +209,7 @@ const CreateRuleModal: React.FC<CreateRuleModalProps> = ({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-gray-800 rounded-lg max-w-md w-full">
+      <div className="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex justify-between items-center p-6 border-b border-gray-700">
           <h2 className="text-xl font-bold">
             {editingRule ? 'Edit Assignment Rule' : 'Create Assignment Rule'}
@@ -176,60 +226,207 @@ const CreateRuleModal: React.FC<CreateRuleModalProps> = ({
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           <div>
             <label className="block text-sm font-medium mb-2">
-              Source Name <span className="text-red-500">*</span>
+              Source Name
             </label>
             <input
               type="text"
               value={formData.source_name}
               onChange={(e) => setFormData({ ...formData, source_name: e.target.value })}
               className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder="e.g., test234243432"
+              placeholder="Any source"
               disabled={submitting}
-              required
             />
             <p className="text-xs text-gray-400 mt-1">
-              The API key prefix as shown in the Source column of leads
+              The API key prefix as shown in the Source column of leads. Leave empty to match any source
             </p>
           </div>
 
           <div>
             <label className="block text-sm font-medium mb-2">
-              Country <span className="text-red-500">*</span>
+              Countries
             </label>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {COUNTRY_GROUPS.map((group) => (
+                <button
+                  key={group.name}
+                  type="button"
+                  onClick={() => addCountries(group.codes)}
+                  className="px-2 py-1 bg-gray-700 rounded text-xs hover:bg-gray-600"
+                  title={group.codes.join(', ')}
+                  disabled={submitting}
+                >
+                  + {group.name}
+                </button>
+              ))}
+            </div>
             <select
-              value={formData.country_code}
-              onChange={(e) => setFormData({ ...formData, country_code: e.target.value })}
+              value=""
+              onChange={(e) => e.target.value && addCountries([e.target.value])}
               className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
               disabled={submitting}
-              required
             >
-              <option value="">Select a country</option>
-              {COUNTRIES.map((country) => (
+              <option value="">Add a country</option>
+              {COUNTRIES_BY_NAME.filter((country) => !formData.country_codes.includes(country.code)).map((country) => (
                 <option key={country.code} value={country.code}>
                   {country.name} ({country.code})
                 </option>
               ))}
             </select>
+            {formData.country_codes.length > 0 ? (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {formData.country_codes.map((code) => (
+                  <span key={code} className="px-2 py-1 bg-purple-600 rounded-full text-xs flex items-center space-x-1">
+                    <span>{code}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeCountry(code)}
+                      className="hover:text-gray-300"
+                      disabled={submitting}
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400 mt-1">No countries selected, the rule matches any country</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            {(['funnel', 'brand', 'desk'] as const).map((field) => (
+              <div key={field}>
+                <label className="block text-sm font-medium mb-2 capitalize">
+                  {field}
+                </label>
+                <input
+                  type="text"
+                  value={formData[field]}
+                  onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Any"
+                  disabled={submitting}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Schedule
+            </label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleDay(day.value)}
+                  className={`px-3 py-1 rounded text-sm ${
+                    formData.active_days.includes(day.value) ? 'bg-blue-600 hover:bg-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  disabled={submitting}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <input
+                type="time"
+                value={formData.active_from}
+                onChange={(e) => setFormData({ ...formData, active_from: e.target.value })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="From"
+                disabled={submitting}
+              />
+              <input
+                type="time"
+                value={formData.active_until}
+                onChange={(e) => setFormData({ ...formData, active_until: e.target.value })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Until"
+                disabled={submitting}
+              />
+              <select
+                value={formData.timezone}
+                onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={submitting}
+              >
+                <option value="">Lead's local time</option>
+                {['UTC', ...TIMEZONES].map((timezone) => (
+                  <option key={timezone} value={timezone}>
+                    {timezone}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              No days or times means always. A window like 22:00 - 06:00 runs overnight.
+              Lead's local time uses the timezone of the lead's country, UTC when it is unknown
+            </p>
           </div>
 
           <div>
             <label className="block text-sm font-medium mb-2">
-              Assign To <span className="text-red-500">*</span>
+              Distribution
             </label>
             <select
-              value={formData.assigned_agent_id}
-              onChange={(e) => setFormData({ ...formData, assigned_agent_id: e.target.value })}
+              value={formData.distribution}
+              onChange={(e) => setFormData({ ...formData, distribution: e.target.value as Distribution })}
               className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
               disabled={submitting}
-              required
             >
-              <option value="">Select an agent</option>
-              {activeAgents.map((user) => (
-                <option key={user.id} value={user.id}>
-                  {user.full_name} ({user.role})
+              {DISTRIBUTIONS.map((d) => (
+                <option key={d.value} value={d.value}>
+                  {d.label}
                 </option>
               ))}
             </select>
+            <p className="text-xs text-gray-400 mt-1">
+              {DISTRIBUTIONS.find((d) => d.value === formData.distribution)?.description}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Agent Pool <span className="text-red-500">*</span>
+            </label>
+            <div className="max-h-48 overflow-y-auto bg-gray-700 border border-gray-600 rounded divide-y divide-gray-600">
+              {activeAgents.map((user) => {
+                const poolAgent = pool.find((a) => a.agent_id === user.id);
+                return (
+                  <div key={user.id} className="flex items-center justify-between px-3 py-2">
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!poolAgent}
+                        onChange={() => toggleAgent(user.id)}
+                        className="rounded border-gray-600 bg-gray-800"
+                        disabled={submitting}
+                      />
+                      <span className="text-sm">
+                        {user.full_name} <span className="text-gray-400">({user.role})</span>
+                      </span>
+                    </label>
+                    {poolAgent && formData.distribution === 'weighted' && (
+                      <input
+                        type="number"
+                        value={poolAgent.weight}
+                        onChange={(e) => setAgentWeight(user.id, parseInt(e.target.value) || 0)}
+                        className="w-16 px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        title="Weight"
+                        disabled={submitting}
+                        min="1"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-400 mt-1">
+              {pool.length} agent{pool.length === 1 ? '' : 's'} selected
+            </p>
           </div>
 
           <div>
@@ -7,6 +7,8 @@ import {
   flexRender,
   ColumnDef,
   RowSelectionState,
+  SortingState,
+  ColumnFiltersState,
   getFacetedRowModel,
   getFacetedUniqueValues,
   getPaginationRowModel,
@@ -21,6 +23,20 @@ interface DataTableProps<T> {
   rowSelection: RowSelectionState;
   onRowSelectionChange: (updater: RowSelectionState | ((old: RowSelectionState) => RowSelectionState)) => void;
   onSelectedRowsChange?: (selectedRows: T[]) => void;
+  // Server-side mode: when totalCount is set the caller pages, sorts and
+  // filters the data and the table only renders the rows it is given
+  totalCount?: number;
+  onQueryChange?: (query: DataTableQuery) => void;
+  getFacetValues?: (columnId: string) => Promise<string[]>;
+  // Extra classes for a row, e.g. to flag leads with an overdue callback
+  getRowClassName?: (row: T) => string | undefined;
+}
+
+export interface DataTableQuery {
+  pageIndex: number;
+  pageSize: number;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
 }
 
 interface DateFilterOption {
@@ -102,17 +118,31 @@ const DATE_FILTER_OPTIONS: DateFilterOption[] = [
   }
 ];
 
-function DataTable<T>({ data, columns, rowSelection, onRowSelectionChange, onSelectedRowsChange }: DataTableProps<T>) {
+function DataTable<T>({
+  data,
+  columns,
+  rowSelection,
+  onRowSelectionChange,
+  onSelectedRowsChange,
+  totalCount,
+  onQueryChange,
+  getFacetValues,
+  getRowClassName,
+}: DataTableProps<T>) {
+  const isServerSide = totalCount !== undefined;
   const [columnFilters, setColumnFilters] = useState<{ id: string; value: any }[]>([]);
+  const [sorting, setSorting] = useState<SortingState>([]);
   const [activeFilter, setActiveFilter] = useState<string | null>(null);
   const [paginationState, setPaginationState] = useState({
     pageIndex: 0,
     pageSize: 50,
   });
+  const [facetValues, setFacetValues] = useState<{ [columnId: string]: string[] }>({});
   const [selectedDateOptions, setSelectedDateOptions] = useState<{ [columnId: string]: string[] }>({});
   const [customDateRanges, setCustomDateRanges] = useState<{ [columnId: string]: [string, string] }>({});
   const filterRef = useRef<HTMLDivElement>(null);
   const tableRef = useRef<HTMLDivElement>(null);
+  const hasQueriedRef = useRef(false);
 
   const table = useReactTable({
     data,
@@ -145,12 +175,26 @@ function DataTable<T>({ data, columns, rowSelection, onRowSelectionChange, onSel
     state: {
       rowSelection,
       columnFilters,
+      sorting,
       pagination: paginationState,
     },
     enableRowSelection: true,
     onRowSelectionChange,
-    onColumnFiltersChange: setColumnFilters,
+    onColumnFiltersChange: (updater) => {
+      setColumnFilters(updater);
+      if (isServerSide) setPaginationState(prev => ({ ...prev, pageIndex: 0 }));
+    },
+    onSortingChange: (updater) => {
+      setSorting(updater);
+      if (isServerSide) setPaginationState(prev => ({ ...prev, pageIndex: 0 }));
+    },
     onPaginationChange: setPaginationState,
+    manualPagination: isServerSide,
+    manualSorting: isServerSide,
+    manualFiltering: isServerSide,
+    pageCount: isServerSide
+      ? Math.max(1, Math.ceil((totalCount ?? 0) / paginationState.pageSize))
+      : undefined,
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
@@ -183,6 +227,35 @@ function DataTable<T>({ data, columns, rowSelection, onRowSelectionChange, onSel
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // In server-side mode ask the parent for a new page whenever the query changes.
+  // Text filters are typed one key at a time, so later requests are debounced.
+  useEffect(() => {
+    if (!isServerSide || !onQueryChange) return;
+
+    const delay = hasQueriedRef.current ? 300 : 0;
+    hasQueriedRef.current = true;
+    const timeout = setTimeout(() => {
+      onQueryChange({
+        pageIndex: paginationState.pageIndex,
+        pageSize: paginationState.pageSize,
+        sorting,
+        columnFilters,
+      });
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [isServerSide, onQueryChange, paginationState, sorting, columnFilters]);
+
+  // Filter options come from the server because only one page is loaded
+  useEffect(() => {
+    if (!isServerSide || !getFacetValues || !activeFilter) return;
+    if (activeFilter === 'created_at' || activeFilter === 'converted_at') return;
+
+    getFacetValues(activeFilter).then(values => {
+      setFacetValues(prev => ({ ...prev, [activeFilter]: values }));
+    });
+  }, [isServerSide, getFacetValues, activeFilter]);
+
   // Notify parent component of selection changes
   React.useEffect(() => {
     if (onSelectedRowsChange) {
@@ -382,9 +455,11 @@ function DataTable<T>({ data, columns, rowSelection, onRowSelectionChange, onSel
         </FloatingPortal>
       );
     }
-    const uniqueValues = Array.from(column.getFacetedUniqueValues().keys())
-      .filter(value => value !== null && value !== undefined)
-      .sort();
+    const uniqueValues = isServerSide
+      ? facetValues[columnId] || []
+      : Array.from(column.getFacetedUniqueValues().keys())
+          .filter(value => value !== null && value !== undefined)
+          .sort();
 
     return (
       <FloatingPortal>
@@ -493,7 +568,7 @@ function DataTable<T>({ data, columns, rowSelection, onRowSelectionChange, onSel
             {table.getRowModel().rows.map(row => (
               <tr
                 key={row.id}
-                className="border-b border-gray-700 hover:bg-gray-800 transition-colors"
+                className={`border-b border-gray-700 hover:bg-gray-800 transition-colors ${getRowClassName?.(row.original) || ''}`}
               >
                 {row.getVisibleCells().map(cell => (
                   <td
@@ -516,8 +591,8 @@ function DataTable<T>({ data, columns, rowSelection, onRowSelectionChange, onSel
             {table.getSelectedRowModel().rows.length} of {table.getRowModel().rows.length} row(s) selected
           </span>
           <span className="text-gray-600">|</span>
-          <span>{table.getFilteredRowModel().rows.length} filtered leads</span>
-          {table.getSelectedRowModel().rows.length < table.getFilteredRowModel().rows.length && (
+          <span>{isServerSide ? totalCount : table.getFilteredRowModel().rows.length} filtered leads</span>
+          {!isServerSide && table.getSelectedRowModel().rows.length < table.getFilteredRowModel().rows.length && (
             <>
               <span className="text-gray-600">|</span>
               <button
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Send, Eye, EyeOff } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase, type EmailTemplate } from '../lib/supabase';
+import { EMAIL_PLACEHOLDERS, describeSendResult, sendLeadEmails } from '../utils/email';
+
+interface EmailComposerProps {
+  leadIds: number[];
+  onSent: () => void;
+}
+
+type RenderedEmail = {
+  lead_id: number;
+  email: string | null;
+  subject: string;
+  body: string;
+};
+
+const EmailComposer: React.FC<EmailComposerProps> = ({ leadIds, onSent }) => {
+  const [templateId, setTemplateId] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const { data: templates } = useQuery({
+    queryKey: ['emailTemplates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data as EmailTemplate[];
+    }
+  });
+
+  // Rendered for the first lead, the same way the email function does it
+  const { data: preview, isFetching: previewLoading } = useQuery({
+    queryKey: ['emailPreview', leadIds[0], subject, body],
+    enabled: showPreview && leadIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('render_lead_emails', {
+        p_lead_ids: [leadIds[0]],
+        p_subject: subject,
+        p_body: body,
+      });
+
+      if (error) throw error;
+      return (data as RenderedEmail[])[0] || null;
+    }
+  });
+
+  const handleTemplateChange = (id: string) => {
+    const template = templates?.find((t) => t.id === id);
+    setTemplateId(id);
+    if (template) {
+      setSubject(template.subject);
+      setBody(template.body);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subject.trim() || !body.trim()) return;
+
+    try {
+      setSending(true);
+      const result = await sendLeadEmails(leadIds, { template_id: templateId || null, subject, body });
+      if (result.failures.length > 0) console.error('Emails not sent:', result.failures);
+
+      if (result.sent > 0) {
+        toast.success(`Email ${describeSendResult(result)}`);
+        setTemplateId('');
+        setSubject('');
+        setBody('');
+        setShowPreview(false);
+      } else {
+        const reason = result.failures[0]?.error;
+        toast.error(`No email sent: ${describeSendResult(result)}${reason ? ` (${reason})` : ''}`);
+      }
+      onSent();
+    } catch (error) {
+      console.error('Error sending email:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send email');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSend} className="space-y-3">
+      <select
+        value={templateId}
+        onChange={(e) => handleTemplateChange(e.target.value)}
+        className="w-full bg-gray-700 rounded-lg px-3 py-2"
+      >
+        <option value="">No template</option>
+        {templates?.map((template) => (
+          <option key={template.id} value={template.id}>
+            {template.name}
+          </option>
+        ))}
+      </select>
+
+      {showPreview ? (
+        <div className="bg-gray-700 rounded-lg px-3 py-2 space-y-2">
+          {previewLoading ? (
+            <div className="text-sm text-gray-400">Rendering preview...</div>
+          ) : preview ? (
+            <>
+              <div className="text-sm text-gray-400">To: {preview.email || 'No email address'}</div>
+              <div className="font-medium">{preview.subject}</div>
+              <p className="text-sm whitespace-pre-wrap">{preview.body}</p>
+            </>
+          ) : (
+            <div className="text-sm text-gray-400">Preview not available</div>
+          )}
+        </div>
+      ) : (
+        <>
+          <input
+            type="text"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            placeholder="Subject"
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+            required
+          />
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Hi {{first_name}}, ..."
+            className="w-full h-40 bg-gray-700 rounded-lg px-3 py-2"
+            required
+          />
+          <p className="text-xs text-gray-500">
+            Placeholders: {EMAIL_PLACEHOLDERS.map((field) => `{{${field}}}`).join(' ')} {'{{answer:Question text}}'}
+          </p>
+        </>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={sending || !subject.trim() || !body.trim()}
+          className="px-4 py-2 bg-purple-600 rounded-lg flex items-center space-x-2 hover:bg-purple-500 disabled:opacity-50"
+        >
+          <Send size={16} />
+          <span>
+            {sending ? 'Sending...' : leadIds.length > 1 ? `Send to ${leadIds.length} leads` : 'Send'}
+          </span>
+        </button>
+        <button
+          type="button"
+          onClick={() => setShowPreview(!showPreview)}
+          disabled={!subject.trim() || !body.trim()}
+          className="px-4 py-2 bg-gray-700 rounded-lg flex items-center space-x-2 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {showPreview ? <EyeOff size={16} /> : <Eye size={16} />}
+          <span>{showPreview ? 'Edit' : 'Preview'}</span>
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default EmailComposer;
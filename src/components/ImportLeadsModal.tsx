@@ -5,6 +5,8 @@ import Papa from 'papaparse';
 import { supabase } from '../lib/supabase';
 import { downloadExcelTemplate, downloadCSVTemplate } from '../utils/templates';
 import { exportToCSV, exportToExcel } from '../utils/export';
+import { normalizeCountryCode } from '../utils/countries';
+import { normalizeEmail, normalizePhone } from '../utils/duplicates';
 import toast from 'react-hot-toast';
 
 interface ImportLeadsModalProps {
@@ -86,6 +88,7 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
   const validateLeads = (leads: ImportedLead[]): string[] => {
     const errors: string[] = [];
     const emailSet = new Set<string>();
+    const phoneSet = new Set<string>();
 
     leads.forEach((lead, index) => {
       const rowNum = index + 2; // +2 because Excel starts at 1 and we have a header row
@@ -100,10 +103,17 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
         errors.push(`Row ${rowNum}: Email is required`);
       } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(lead.email)) {
         errors.push(`Row ${rowNum}: Invalid email format`);
-      } else if (emailSet.has(lead.email.toLowerCase())) {
+      } else if (emailSet.has(normalizeEmail(lead.email)!)) {
         errors.push(`Row ${rowNum}: Duplicate email address within file`);
       } else {
-        emailSet.add(lead.email.toLowerCase());
+        emailSet.add(normalizeEmail(lead.email)!);
+      }
+
+      const phone = normalizePhone(lead.phone, lead.country);
+      if (phone && phoneSet.has(phone)) {
+        errors.push(`Row ${rowNum}: Duplicate phone number within file`);
+      } else if (phone) {
+        phoneSet.add(phone);
       }
 
       if (lead.source_id !== undefined && isNaN(Number(lead.source_id))) {
@@ -144,18 +154,23 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
       setErrors(validationErrors);
 
       if (validationErrors.length === 0) {
+        // Same normalized email and phone the database compares, see utils/duplicates
         const existingEmails = new Set<string>();
+        const existingPhones = new Set<string>();
         let page = 0;
         const pageSize = 1000;
         while (true) {
           const { data: batch, error: batchError } = await supabase
             .from('leads')
-            .select('email')
+            .select('email_normalized, phone_normalized')
             .range(page * pageSize, (page + 1) * pageSize - 1);
 
           if (batchError) throw batchError;
           if (!batch || batch.length === 0) break;
-          batch.forEach(lead => existingEmails.add(lead.email.toLowerCase()));
+          batch.forEach(lead => {
+            if (lead.email_normalized) existingEmails.add(lead.email_normalized);
+            if (lead.phone_normalized) existingPhones.add(lead.phone_normalized);
+          });
           if (batch.length < pageSize) break;
           page++;
         }
@@ -164,7 +179,8 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
 
         // Check for duplicates
         leads.forEach(lead => {
-          if (existingEmails.has(lead.email.toLowerCase())) {
+          const phone = normalizePhone(lead.phone, lead.country);
+          if (existingEmails.has(normalizeEmail(lead.email)!) || (phone && existingPhones.has(phone))) {
             duplicates.push(lead);
           } else {
             uniqueLeads.push(lead);
@@ -283,6 +299,11 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
 
   if (!isOpen) return null;
 
+  // Imported anyway, but without a country code assignment rules and local time can't use them
+  const unknownCountries = Array.from(new Set(
+    leadsToImport.map(lead => lead.country).filter(country => country && !normalizeCountryCode(country))
+  ));
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-gray-800 rounded-lg p-6 w-full max-w-2xl">
@@ -382,6 +403,7 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
                   <thead>
                     <tr className="text-left text-gray-400">
                       <th className="py-2">Email</th>
+                      <th className="py-2">Phone</th>
                       <th className="py-2">Name</th>
                     </tr>
                   </thead>
@@ -389,6 +411,7 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
                     {duplicates.map((lead, index) => (
                       <tr key={index} className="border-t border-gray-700">
                         <td className="py-2">{lead.email}</td>
+                        <td className="py-2">{lead.phone || '-'}</td>
                         <td className="py-2">{`${lead.first_name} ${lead.last_name}`}</td>
                       </tr>
                     ))}
@@ -398,6 +421,20 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
             </div>
           )}
 
+          {/* Unrecognized Countries */}
+          {unknownCountries.length > 0 && (
+            <div className="bg-yellow-900/50 rounded-lg p-4">
+              <div className="flex items-center text-yellow-400 mb-2">
+                <AlertCircle size={16} className="mr-2" />
+                <span className="font-medium">Unrecognized countries</span>
+              </div>
+              <p className="text-sm text-yellow-300">
+                {unknownCountries.join(', ')}. These leads get no country code, so country based
+                assignment rules and local time will not apply to them.
+              </p>
+            </div>
+          )}
+
           {/* Preview Section */}
           {preview.length > 0 && (
             <div>
@@ -420,7 +457,12 @@ const ImportLeadsModal: React.FC<ImportLeadsModalProps> = ({ isOpen, onClose, on
                         <td className="px-4 py-2">{lead.last_name}</td>
                         <td className="px-4 py-2">{lead.email}</td>
                         <td className="px-4 py-2">{lead.phone}</td>
-                        <td className="px-4 py-2">{lead.country}</td>
+                        <td className="px-4 py-2">
+                          {lead.country}
+                          {normalizeCountryCode(lead.country) && (
+                            <span className="text-gray-500 ml-1">({normalizeCountryCode(lead.country)})</span>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase, type Lead, type LeadTask, type TaskType } from '../lib/supabase';
+import { useUsers } from '../hooks/useUsers';
+import { Plus, Check, Trash2, AlarmClock } from 'lucide-react';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+import {
+  TASK_TYPES,
+  REMINDER_OPTIONS,
+  formatDueTime,
+  getTaskTimezone,
+  getTaskTypeLabel,
+  isOverdue,
+  toDueAt,
+} from '../utils/tasks';
+
+interface LeadTasksProps {
+  lead: Lead;
+  currentUserId: string;
+  onChange: () => void;
+}
+
+const emptyTask = {
+  type: 'callback' as TaskType,
+  title: '',
+  due: '',
+  remind_minutes_before: '15',
+  assigned_to: '',
+};
+
+const LeadTasks: React.FC<LeadTasksProps> = ({ lead, currentUserId, onChange }) => {
+  const [newTask, setNewTask] = useState(emptyTask);
+  const [saving, setSaving] = useState(false);
+  const { users } = useUsers();
+  const queryClient = useQueryClient();
+  const timezone = getTaskTimezone(lead.country_code || lead.country);
+
+  const { data: tasks, isLoading } = useQuery({
+    queryKey: ['leadTasks', lead.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('lead_tasks')
+        .select('*')
+        .eq('lead_id', lead.id)
+        .order('completed_at', { ascending: false, nullsFirst: true })
+        .order('due_at');
+
+      if (error) throw error;
+      return data as LeadTask[];
+    }
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['leadTasks', lead.id] });
+    queryClient.invalidateQueries({ queryKey: ['myTasks'] });
+    onChange();
+  };
+
+  const getUserName = (userId: string | null) =>
+    users.find((u) => u.id === userId)?.full_name || 'Unassigned';
+
+  // The creator or the lead's agent, managers schedule callbacks for their agents
+  const assigneeOptions = Array.from(new Set([currentUserId, lead.assigned_to].filter(Boolean) as string[]));
+
+  const handleAddTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTask.title.trim() || !newTask.due) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('lead_tasks')
+        .insert({
+          lead_id: lead.id,
+          type: newTask.type,
+          title: newTask.title.trim(),
+          due_at: toDueAt(newTask.due, lead.country_code || lead.country),
+          remind_minutes_before: newTask.remind_minutes_before === '' ? null : parseInt(newTask.remind_minutes_before, 10),
+          assigned_to: newTask.assigned_to || currentUserId,
+        });
+
+      if (error) throw error;
+
+      toast.success(`${getTaskTypeLabel(newTask.type)} scheduled`);
+      setNewTask({ ...emptyTask, type: newTask.type });
+      refresh();
+    } catch (error) {
+      console.error('Error scheduling task:', error);
+      toast.error('Failed to schedule task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = async (task: LeadTask) => {
+    try {
+      const { error } = await supabase
+        .from('lead_tasks')
+        .update({ completed_at: new Date().toISOString(), completed_by: currentUserId })
+        .eq('id', task.id);
+
+      if (error) throw error;
+
+      toast.success(`${getTaskTypeLabel(task.type)} completed`);
+      refresh();
+    } catch (error) {
+      console.error('Error completing task:', error);
+      toast.error('Failed to complete task');
+    }
+  };
+
+  const handleDelete = async (taskId: string) => {
+    if (!window.confirm('Are you sure you want to delete this task?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('lead_tasks')
+        .delete()
+        .eq('id', taskId);
+
+      if (error) throw error;
+
+      toast.success('Task deleted');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting task:', error);
+      toast.error('Failed to delete task');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAddTask} className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            value={newTask.type}
+            onChange={(e) => setNewTask({ ...newTask, type: e.target.value as TaskType })}
+            className="bg-gray-700 rounded-lg px-3 py-2"
+          >
+            {TASK_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={newTask.assigned_to || currentUserId}
+            onChange={(e) => setNewTask({ ...newTask, assigned_to: e.target.value })}
+            className="bg-gray-700 rounded-lg px-3 py-2"
+          >
+            {assigneeOptions.map((userId) => (
+              <option key={userId} value={userId}>
+                {userId === currentUserId ? 'Me' : getUserName(userId)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          type="text"
+          value={newTask.title}
+          onChange={(e) => setNewTask({ ...newTask, title: e.target.value })}
+          placeholder="e.g. Call back about the account upgrade"
+          className="w-full bg-gray-700 rounded-lg px-3 py-2"
+          required
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Due ({timezone})</label>
+            <input
+              type="datetime-local"
+              value={newTask.due}
+              onChange={(e) => setNewTask({ ...newTask, due: e.target.value })}
+              className="w-full bg-gray-700 rounded-lg px-3 py-2"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-400 mb-1">Reminder</label>
+            <select
+              value={newTask.remind_minutes_before}
+              onChange={(e) => setNewTask({ ...newTask, remind_minutes_before: e.target.value })}
+              className="w-full bg-gray-700 rounded-lg px-3 py-2"
+            >
+              {REMINDER_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value?.toString() ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500 disabled:opacity-50"
+        >
+          <Plus size={16} />
+          <span>{saving ? 'Scheduling...' : 'Schedule'}</span>
+        </button>
+      </form>
+
+      {isLoading ? (
+        <div className="text-sm text-gray-400">Loading tasks...</div>
+      ) : !tasks || tasks.length === 0 ? (
+        <div className="text-sm text-gray-400">No tasks scheduled</div>
+      ) : (
+        <div className="space-y-2">
+          {tasks.map((task) => {
+            const overdue = !task.completed_at && isOverdue(task.due_at);
+            return (
+              <div
+                key={task.id}
+                className={clsx(
+                  'rounded-lg p-3 flex items-start justify-between',
+                  overdue ? 'bg-red-900/40' : 'bg-gray-700',
+                  task.completed_at && 'opacity-50'
+                )}
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs px-2 py-0.5 bg-gray-600 rounded-full">{getTaskTypeLabel(task.type)}</span>
+                    <span className={clsx('font-medium', task.completed_at && 'line-through')}>{task.title}</span>
+                  </div>
+                  <div className={clsx('text-sm mt-1 flex items-center space-x-1', overdue ? 'text-red-400' : 'text-gray-400')}>
+                    <AlarmClock size={14} />
+                    <span>
+                      {overdue && 'Overdue: '}
+                      {formatDueTime(task.due_at, lead.country_code || lead.country)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {task.completed_at
+                      ? `Completed by ${getUserName(task.completed_by)}`
+                      : `Assigned to ${task.assigned_to === currentUserId ? 'me' : getUserName(task.assigned_to)}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1">
+                  {!task.completed_at && (
+                    <button
+                      onClick={() => handleComplete(task)}
+                      className="text-green-500 hover:text-green-400 p-1"
+                      title="Mark as done"
+                    >
+                      <Check size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(task.id)}
+                    className="text-red-500 hover:text-red-400 p-1"
+                    title="Delete task"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeadTasks;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { GitMerge } from 'lucide-react';
+import { DateTime } from 'luxon';
+import toast from 'react-hot-toast';
+
+interface LeadDuplicate {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string | null;
+  country: string | null;
+  status: string;
+  assigned_to: string | null;
+  created_at: string;
+  reasons: ('email' | 'phone' | 'name')[];
+  name_similarity: number;
+}
+
+interface PossibleDuplicatesProps {
+  leadId: string;
+  canMerge: boolean;
+  onMerged: () => void;
+}
+
+const REASON_LABELS = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name',
+};
+
+const PossibleDuplicates: React.FC<PossibleDuplicatesProps> = ({ leadId, canMerge, onMerged }) => {
+  const [mergingId, setMergingId] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: duplicates, isLoading } = useQuery({
+    queryKey: ['leadDuplicates', leadId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('find_lead_duplicates', { p_lead_id: leadId });
+
+      if (error) throw error;
+      return data as LeadDuplicate[];
+    }
+  });
+
+  const handleMerge = async (duplicate: LeadDuplicate) => {
+    if (!window.confirm(
+      `Merge ${duplicate.first_name} ${duplicate.last_name} #${duplicate.id} into this lead? ` +
+      'Its activities, comments, answers and deposits move here and the duplicate is deleted.'
+    )) return;
+
+    try {
+      setMergingId(duplicate.id);
+      const { error } = await supabase.rpc('merge_leads', {
+        p_survivor_id: leadId,
+        p_duplicate_id: duplicate.id,
+      });
+
+      if (error) throw error;
+
+      toast.success(`Lead #${duplicate.id} merged into this lead`);
+      queryClient.invalidateQueries({ queryKey: ['leadDuplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['deposits', leadId] });
+      onMerged();
+    } catch (error) {
+      console.error('Error merging leads:', error);
+      toast.error('Failed to merge leads');
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-400">Looking for duplicates...</div>;
+  }
+
+  if (!duplicates || duplicates.length === 0) {
+    return <div className="text-sm text-gray-400">No possible duplicates found</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {duplicates.map((duplicate) => (
+        <div key={duplicate.id} className="bg-gray-700 rounded-lg p-3">
+          <div className="flex items-start justify-between">
+            <div>
+              <Link to={`/lead/${duplicate.id}`} className="font-medium text-blue-400 hover:text-blue-300">
+                {duplicate.first_name} {duplicate.last_name} #{duplicate.id}
+              </Link>
+              <div className="text-sm text-gray-400 mt-1">
+                {[duplicate.email, duplicate.phone, duplicate.country].filter(Boolean).join(' • ')}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                {duplicate.status} • created {DateTime.fromISO(duplicate.created_at).toRelative()}
+              </div>
+            </div>
+            {canMerge && (
+              <button
+                onClick={() => handleMerge(duplicate)}
+                disabled={mergingId !== null}
+                className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-500 disabled:opacity-50 flex items-center space-x-1 text-sm"
+                title="Merge into this lead"
+              >
+                <GitMerge size={14} />
+                <span>{mergingId === duplicate.id ? 'Merging...' : 'Merge here'}</span>
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {duplicate.reasons.map((reason) => (
+              <span key={reason} className="px-2 py-0.5 bg-yellow-900/50 text-yellow-300 rounded-full text-xs">
+                {reason === 'name'
+                  ? `${REASON_LABELS.name} (${Math.round(duplicate.name_similarity * 100)}%)`
+                  : REASON_LABELS[reason]}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PossibleDuplicates;
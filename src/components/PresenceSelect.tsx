@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { DateTime } from 'luxon';
+import toast from 'react-hot-toast';
+import { supabase, type Availability, type UserProfile } from '../lib/supabase';
+import { AVAILABILITY_OPTIONS, getAvailabilityOption, getEffectiveAvailability } from '../utils/availability';
+
+interface PresenceSelectProps {
+  user: UserProfile;
+  onChange: (presence: Pick<UserProfile, 'availability' | 'leave_starts_at' | 'leave_ends_at'>) => void;
+}
+
+const PresenceSelect: React.FC<PresenceSelectProps> = ({ user, onChange }) => {
+  const [saving, setSaving] = useState(false);
+
+  const savePresence = async (availability: Availability, leaveEndsAt: string | null) => {
+    const presence = {
+      availability,
+      leave_starts_at: availability === 'on_leave' ? (user.leave_starts_at ?? new Date().toISOString()) : null,
+      leave_ends_at: availability === 'on_leave' ? leaveEndsAt : null,
+    };
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc('set_my_availability', {
+        p_availability: presence.availability,
+        p_leave_starts_at: presence.leave_starts_at,
+        p_leave_ends_at: presence.leave_ends_at,
+      });
+
+      if (error) throw error;
+      onChange(presence);
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      toast.error('Failed to update availability');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const effective = getEffectiveAvailability(user);
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center space-x-2">
+        <span className={`w-2 h-2 rounded-full ${getAvailabilityOption(effective).dotClassName}`} />
+        <select
+          value={user.availability}
+          onChange={(e) => savePresence(e.target.value as Availability, null)}
+          disabled={saving}
+          className="flex-1 bg-gray-700 rounded px-2 py-1 text-sm"
+        >
+          {AVAILABILITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {user.availability === 'on_leave' && (
+        <label className="block text-xs text-gray-400">
+          Back on
+          <input
+            type="date"
+            value={user.leave_ends_at ? DateTime.fromISO(user.leave_ends_at).toISODate() || '' : ''}
+            min={DateTime.now().plus({ days: 1 }).toISODate() || undefined}
+            onChange={(e) => savePresence('on_leave', e.target.value ? DateTime.fromISO(e.target.value).toISO() : null)}
+            disabled={saving}
+            className="mt-1 w-full bg-gray-700 rounded px-2 py-1 text-sm"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default PresenceSelect;
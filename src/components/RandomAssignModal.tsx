@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { X, Users, Shuffle } from 'lucide-react';
-import { supabase, type Lead, type UserProfile } from '../lib/supabase';
+import { supabase, getAgentCapacity, type AgentCapacity, type Lead, type UserProfile } from '../lib/supabase';
 import toast from 'react-hot-toast';
 
 interface RandomAssignModalProps {
@@ -11,6 +11,14 @@ interface RandomAssignModalProps {
   onAssignmentComplete: () => void;
 }
 
+interface DistributionResult {
+  assigned: number;
+  overflowed: number;
+  skipped: number;
+  inaccessible: number;
+  per_agent: Record<string, number>;
+}
+
 const RandomAssignModal: React.FC<RandomAssignModalProps> = ({
   isOpen,
   onClose,
@@ -20,6 +28,9 @@ const RandomAssignModal: React.FC<RandomAssignModalProps> = ({
 }) => {
   const [selectedAgents, setSelectedAgents] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
+  const [capacity, setCapacity] = useState<Record<string, AgentCapacity>>({});
+
+  const allAgentNames = Object.fromEntries(availableAgents.map(agent => [agent.id, agent.full_name]));
 
   const handleAgentToggle = (agentId: string) => {
     setSelectedAgents(prev => 
@@ -29,14 +40,20 @@ const RandomAssignModal: React.FC<RandomAssignModalProps> = ({
     );
   };
 
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  const fetchCapacity = useCallback(async () => {
+    try {
+      const data = await getAgentCapacity(availableAgents.map(agent => agent.id));
+      setCapacity(Object.fromEntries(data.map(c => [c.user_id, c])));
+    } catch (error) {
+      console.error('Error fetching agent capacity:', error);
     }
-    return shuffled;
-  };
+  }, [availableAgents]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCapacity();
+    }
+  }, [isOpen, fetchCapacity]);
 
   const handleDistribute = async () => {
     if (selectedAgents.length === 0) {
@@ -46,52 +63,32 @@ const RandomAssignModal: React.FC<RandomAssignModalProps> = ({
 
     setLoading(true);
     try {
-      // Shuffle the leads for random distribution
-      const shuffledLeads = shuffleArray(selectedLeads);
-      
-      // Distribute leads evenly among selected agents
-      const assignments: { leadId: string; agentId: string }[] = [];
-      
-      shuffledLeads.forEach((lead, index) => {
-        const agentIndex = index % selectedAgents.length;
-        assignments.push({
-          leadId: lead.id.toString(),
-          agentId: selectedAgents[agentIndex]
-        });
+      // The server shuffles the leads, skips agents unavailable or at capacity and overflows once all are skipped
+      const { data, error } = await supabase.rpc('distribute_leads', {
+        p_lead_ids: selectedLeads.map(lead => lead.id),
+        p_agent_ids: selectedAgents
       });
 
-      // Update leads in batches
-      for (const assignment of assignments) {
-        const { error } = await supabase
-          .from('leads')
-          .update({ assigned_to: assignment.agentId })
-          .eq('id', assignment.leadId);
-
-        if (error) throw error;
-
-        // Add activity log
-        await supabase.from('lead_activities').insert({
-          lead_id: assignment.leadId,
-          type: 'assignment',
-          description: 'Lead randomly assigned via bulk action'
-        });
-      }
+      if (error) throw error;
+      const result = data as DistributionResult;
 
       // Show success message with distribution summary
-      const agentNames = availableAgents
-        .filter(agent => selectedAgents.includes(agent.id))
-        .map(agent => agent.full_name);
-      
-      const leadsPerAgent = Math.floor(selectedLeads.length / selectedAgents.length);
-      const remainder = selectedLeads.length % selectedAgents.length;
-      
-      let summaryMessage = `${selectedLeads.length} leads randomly distributed among ${selectedAgents.length} agents:\n`;
-      agentNames.forEach((name, index) => {
-        const count = leadsPerAgent + (index < remainder ? 1 : 0);
+      let summaryMessage = `${result.assigned} leads randomly distributed:\n`;
+      Object.entries(result.per_agent).forEach(([agentId, count]) => {
+        const name = allAgentNames[agentId] || 'Overflow agent';
         summaryMessage += `• ${name}: ${count} leads\n`;
       });
+      if (result.overflowed > 0) {
+        summaryMessage += `${result.overflowed} overflowed because the selected agents are unavailable or at capacity\n`;
+      }
 
       toast.success(summaryMessage, { duration: 5000 });
+      if (result.skipped > 0) {
+        toast.error(`${result.skipped} leads left unassigned, every selected agent and their overflow is unavailable or at capacity`, { duration: 5000 });
+      }
+      if (result.inaccessible > 0) {
+        toast.error(`${result.inaccessible} leads were not assigned because you cannot edit them`, { duration: 5000 });
+      }
       onAssignmentComplete();
       onClose();
     } catch (error) {
@@ -139,6 +136,9 @@ const RandomAssignModal: React.FC<RandomAssignModalProps> = ({
                 {remainder > 0 && (
                   <p>{remainder} agent{remainder > 1 ? 's' : ''} will receive 1 additional lead</p>
                 )}
+                {selectedAgents.some(id => capacity[id] && !capacity[id].has_capacity) && (
+                  <p className="text-yellow-400">Agents at capacity are skipped, their share goes to the others or to overflow</p>
+                )}
               </div>
             )}
           </div>
@@ -161,7 +161,19 @@ const RandomAssignModal: React.FC<RandomAssignModalProps> = ({
                 <div className="flex-1">
                   <div className="font-medium">{agent.full_name}</div>
                   <div className="text-sm text-gray-400 capitalize">{agent.role}</div>
+                  {capacity[agent.id] && (
+                    <div className="text-xs text-gray-500">
+                      {capacity[agent.id].open_leads}{capacity[agent.id].max_open_leads !== null && `/${capacity[agent.id].max_open_leads}`} open
+                      {' · '}
+                      {capacity[agent.id].today_leads}{capacity[agent.id].max_daily_leads !== null && `/${capacity[agent.id].max_daily_leads}`} today
+                    </div>
+                  )}
                 </div>
+                {capacity[agent.id] && !capacity[agent.id].has_capacity && (
+                  <span className="px-2 py-1 rounded-full text-xs bg-red-600" title="Leads go to the next agent with room, or to this agent's overflow">
+                    Full
+                  </span>
+                )}
                 {selectedAgents.includes(agent.id) && (
                   <div className="text-xs text-blue-400">
                     ~{leadsPerAgent + (selectedAgents.indexOf(agent.id) < remainder ? 1 : 0)} leads
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Check, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { DateTime } from 'luxon';
+import { WEEKDAYS } from '../utils/assignmentRules';
+
+type RuleStatus = 'selected' | 'outranked' | 'no_match' | 'inactive' | 'empty_pool';
+
+interface ConditionResult {
+  condition: 'source' | 'country' | 'funnel' | 'brand' | 'desk' | 'day' | 'time';
+  expected: string;
+  actual: string | null;
+  passed: boolean;
+}
+
+interface RuleResult {
+  rule_id: string;
+  priority: number;
+  is_active: boolean;
+  pool_size: number;
+  status: RuleStatus;
+  conditions: ConditionResult[];
+}
+
+interface SimulationResult {
+  country_code: string | null;
+  at: string;
+  rule_id: string | null;
+  agent_id: string | null;
+  agent_name: string | null;
+  rules: RuleResult[];
+}
+
+interface RuleSimulatorProps {
+  describeRule: (ruleId: string) => string;
+}
+
+const STATUS_STYLES: Record<RuleStatus, { label: string; className: string }> = {
+  selected: { label: 'Selected', className: 'bg-green-600' },
+  outranked: { label: 'Outranked', className: 'bg-yellow-600' },
+  no_match: { label: 'No match', className: 'bg-gray-600' },
+  inactive: { label: 'Inactive', className: 'bg-gray-700 text-gray-400' },
+  empty_pool: { label: 'No agents', className: 'bg-red-600' },
+};
+
+// The simulator reports ISO day numbers, shown as Mon, Tue, ...
+const formatConditionValue = (condition: ConditionResult['condition'], value: string | null) => {
+  if (!value) return 'empty';
+  if (condition !== 'day') return value;
+  return value
+    .split(', ')
+    .map((day) => WEEKDAYS.find((d) => d.value === Number(day))?.label || day)
+    .join(', ');
+};
+
+const RuleSimulator: React.FC<RuleSimulatorProps> = ({ describeRule }) => {
+  const [sample, setSample] = useState({
+    source: '',
+    country: '',
+    funnel: '',
+    brand: '',
+    desk: '',
+    at: DateTime.now().toFormat("yyyy-MM-dd'T'HH:mm"),
+  });
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const handleSimulate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setRunning(true);
+      const { data, error } = await supabase.rpc('simulate_assignment_rules', {
+        p_source_name: sample.source.trim() || null,
+        p_country: sample.country.trim() || null,
+        p_funnel: sample.funnel.trim() || null,
+        p_brand: sample.brand.trim() || null,
+        p_desk: sample.desk.trim() || null,
+        p_at: DateTime.fromISO(sample.at).toISO(),
+      });
+
+      if (error) throw error;
+      setResult(data as SimulationResult);
+    } catch (error) {
+      console.error('Error simulating assignment rules:', error);
+      toast.error('Failed to simulate assignment rules');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-lg font-semibold mb-1">Test Rules</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Enter a sample lead to see which rule matches, why the others lost and which agent would be picked. Nothing is assigned.
+      </p>
+
+      <form onSubmit={handleSimulate} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end">
+        {(['source', 'country', 'funnel', 'brand', 'desk'] as const).map((field) => (
+          <div key={field}>
+            <label className="block text-xs text-gray-400 mb-1 capitalize">{field}</label>
+            <input
+              type="text"
+              value={sample[field]}
+              onChange={(e) => setSample({ ...sample, [field]: e.target.value })}
+              className={inputClassName}
+              placeholder={field === 'country' ? 'DE or Germany' : 'Empty'}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Time (your local time)</label>
+          <input
+            type="datetime-local"
+            value={sample.at}
+            onChange={(e) => setSample({ ...sample, at: e.target.value })}
+            className={inputClassName}
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 rounded hover:bg-blue-500 disabled:opacity-50"
+          disabled={running}
+        >
+          {running ? 'Testing...' : 'Test'}
+        </button>
+      </form>
+
+      {result && (
+        <div className="mt-6 space-y-4">
+          <div className={`rounded-lg p-4 ${result.agent_id ? 'bg-green-900 bg-opacity-40' : 'bg-yellow-900 bg-opacity-40'}`}>
+            {result.rule_id && !result.agent_id ? (
+              <span>
+                <span className="font-medium">{describeRule(result.rule_id)}</span> matches, but every agent in its pool and their overflow is at capacity, the lead would stay unassigned
+              </span>
+            ) : result.rule_id ? (
+              <span>
+                <span className="font-medium">{describeRule(result.rule_id)}</span> matches and would assign the lead to{' '}
+                <span className="font-medium">{result.agent_name || 'Unknown Agent'}</span>
+              </span>
+            ) : (
+              <span>No rule matches, the lead would stay unassigned</span>
+            )}
+            <span className="text-sm text-gray-400 ml-2">
+              (country code {result.country_code || 'empty'}, {DateTime.fromISO(result.at).toUTC().toFormat('dd/MM/yyyy HH:mm')} UTC)
+            </span>
+          </div>
+
+          {result.rules.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2">Rule</th>
+                  <th className="py-2">Priority</th>
+                  <th className="py-2">Result</th>
+                  <th className="py-2">Conditions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rules.map((rule) => (
+                  <tr key={rule.rule_id} className="border-t border-gray-700 align-top">
+                    <td className="py-2 pr-4">{describeRule(rule.rule_id)}</td>
+                    <td className="py-2 pr-4">{rule.priority}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[rule.status].className}`}>
+                        {STATUS_STYLES[rule.status].label}
+                      </span>
+                    </td>
+                    <td className="py-2">
+                      {rule.conditions.length === 0 ? (
+                        <span className="text-gray-500">Matches every lead</span>
+                      ) : (
+                        <div className="flex flex-wrap gap-2">
+                          {rule.conditions.map((condition) => (
+                            <span
+                              key={condition.condition}
+                              className={`px-2 py-1 rounded text-xs flex items-center space-x-1 ${
+                                condition.passed ? 'bg-green-900 text-green-300' : 'bg-red-900 text-red-300'
+                              }`}
+                              title={`Expected ${formatConditionValue(condition.condition, condition.expected)}, got ${formatConditionValue(condition.condition, condition.actual)}`}
+                            >
+                              {condition.passed ? <Check size={12} /> : <X size={12} />}
+                              <span>
+                                {condition.condition}: {formatConditionValue(condition.condition, condition.expected)}
+                                {!condition.passed && ` (got ${formatConditionValue(condition.condition, condition.actual)})`}
+                              </span>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleSimulator;
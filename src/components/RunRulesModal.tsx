@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { X, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getScoreClassName } from '../utils/leadScoring';
+
+interface RuleAssignment {
+  lead_id: string;
+  lead_name: string;
+  email: string;
+  source: string | null;
+  country: string | null;
+  score: number;
+  rule_id: string;
+  agent_id: string;
+  agent_name: string | null;
+}
+
+interface RunResult {
+  dry_run: boolean;
+  scanned: number;
+  assigned: number;
+  unmatched: number;
+  assignments: RuleAssignment[];
+}
+
+interface RunRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+  describeRule: (ruleId: string) => string;
+}
+
+const RUN_LIMIT = 500;
+
+const runRules = async (dryRun: boolean): Promise<RunResult> => {
+  const { data, error } = await supabase.rpc('run_assignment_rules', {
+    p_dry_run: dryRun,
+    p_limit: RUN_LIMIT,
+  });
+
+  if (error) throw error;
+  return data as RunResult;
+};
+
+const RunRulesModal: React.FC<RunRulesModalProps> = ({
+  isOpen,
+  onClose,
+  onApplied,
+  describeRule,
+}) => {
+  const [preview, setPreview] = useState<RunResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const fetchPreview = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPreview(await runRules(true));
+    } catch (error) {
+      console.error('Error previewing assignment rules:', error);
+      toast.error('Failed to preview assignment rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchPreview();
+    } else {
+      setPreview(null);
+    }
+  }, [isOpen, fetchPreview]);
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      const result = await runRules(false);
+      toast.success(`Assigned ${result.assigned} lead${result.assigned === 1 ? '' : 's'}`);
+      onApplied();
+      onClose();
+    } catch (error) {
+      console.error('Error running assignment rules:', error);
+      toast.error('Failed to run assignment rules');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const perAgent = Object.values(
+    (preview?.assignments || []).reduce<Record<string, { id: string; name: string; count: number }>>((acc, a) => {
+      acc[a.agent_id] = acc[a.agent_id] || { id: a.agent_id, name: a.agent_name || 'Unknown Agent', count: 0 };
+      acc[a.agent_id].count += 1;
+      return acc;
+    }, {})
+  ).sort((a, b) => b.count - a.count);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-700">
+          <div>
+            <h2 className="text-xl font-bold">Run Rules on Unassigned Leads</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              Dry run preview of the {RUN_LIMIT} highest scoring unassigned leads. Nothing changes until you apply.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+            disabled={applying}
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {loading || !preview ? (
+            <div className="text-gray-400 text-center py-8">Evaluating rules...</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-gray-700 rounded-lg p-4">
+                  <div className="text-sm text-gray-400">Unassigned Scanned</div>
+                  <div className="text-2xl font-bold">{preview.scanned}</div>
+                </div>
+                <div className="bg-gray-700 rounded-lg p-4">
+                  <div className="text-sm text-gray-400">Would Be Assigned</div>
+                  <div className="text-2xl font-bold text-green-400">{preview.assigned}</div>
+                </div>
+                <div className="bg-gray-700 rounded-lg p-4">
+                  <div className="text-sm text-gray-400">No Matching Rule</div>
+                  <div className="text-2xl font-bold text-yellow-400">{preview.unmatched}</div>
+                </div>
+              </div>
+
+              {perAgent.length > 0 && (
+                <div>
+                  <h3 className="font-medium mb-2">Per Agent</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {perAgent.map((agent) => (
+                      <span key={agent.id} className="px-3 py-1 bg-gray-700 rounded-full text-sm">
+                        {agent.name} <span className="text-gray-400">{agent.count}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {preview.assignments.length > 0 && (
+                <div className="bg-gray-900 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-700 text-gray-400">
+                        <th className="px-4 py-2 text-left">Lead</th>
+                        <th className="px-4 py-2 text-left">Source</th>
+                        <th className="px-4 py-2 text-left">Country</th>
+                        <th className="px-4 py-2 text-left">Score</th>
+                        <th className="px-4 py-2 text-left">Rule</th>
+                        <th className="px-4 py-2 text-left">Agent</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.assignments.map((assignment) => (
+                        <tr key={assignment.lead_id} className="border-t border-gray-800">
+                          <td className="px-4 py-2">
+                            <div>{assignment.lead_name}</div>
+                            <div className="text-xs text-gray-500">{assignment.email}</div>
+                          </td>
+                          <td className="px-4 py-2">{assignment.source || '-'}</td>
+                          <td className="px-4 py-2">{assignment.country || '-'}</td>
+                          <td className="px-4 py-2">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreClassName(assignment.score)}`}>
+                              {assignment.score}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-gray-300">{describeRule(assignment.rule_id)}</td>
+                          <td className="px-4 py-2 font-medium">{assignment.agent_name || 'Unknown Agent'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-700">
+          <button
+            onClick={fetchPreview}
+            className="px-4 py-2 bg-gray-700 rounded hover:bg-gray-600 flex items-center space-x-2"
+            disabled={loading || applying}
+          >
+            <RefreshCw size={16} />
+            <span>Refresh Preview</span>
+          </button>
+          <button
+            onClick={handleApply}
+            className="px-4 py-2 bg-green-600 rounded hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={loading || applying || !preview || preview.assigned === 0}
+          >
+            {applying ? 'Assigning...' : `Assign ${preview?.assigned ?? 0} Leads`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunRulesModal;
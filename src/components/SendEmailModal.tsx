@@ -0,0 +1,44 @@
+import React from 'react';
+import { X, Mail } from 'lucide-react';
+import type { Lead } from '../lib/supabase';
+import EmailComposer from './EmailComposer';
+
+interface SendEmailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  selectedLeads: Lead[];
+  onSent: () => void;
+}
+
+const SendEmailModal: React.FC<SendEmailModalProps> = ({ isOpen, onClose, selectedLeads, onSent }) => {
+  if (!isOpen) return null;
+
+  const handleSent = () => {
+    onSent();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-2xl max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center space-x-2">
+            <Mail className="text-purple-400" size={24} />
+            <h2 className="text-xl font-semibold">Send Email</h2>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={24} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Placeholders are filled in for each of the {selectedLeads.length} selected leads, the preview shows the first one
+        </p>
+
+        <EmailComposer leadIds={selectedLeads.map((lead) => lead.id)} onSent={handleSent} />
+      </div>
+    </div>
+  );
+};
+
+export default SendEmailModal;
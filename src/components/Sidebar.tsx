@@ -13,10 +13,18 @@ import {
   X,
   HelpCircle,
   GitBranch,
+  ScrollText,
+  BookOpen,
+  Target,
+  CalendarCheck,
+  MessageSquare,
+  Mail,
+  MessagesSquare,
 } from "lucide-react";
 import clsx from "clsx";
 import { supabase, getCurrentUser, type UserProfile } from "../lib/supabase";
 import GlobalSearch from "./GlobalSearch";
+import PresenceSelect from "./PresenceSelect";
 import toast from "react-hot-toast";
 
 const Sidebar = () => {
@@ -67,19 +75,34 @@ const Sidebar = () => {
     user?.role === "admin"
       ? [
           { icon: Users, label: "Sales", path: "/" },
+          { icon: CalendarCheck, label: "My Day", path: "/my-day" },
+          { icon: MessagesSquare, label: "Chat", path: "/chat" },
           { icon: UserPlus, label: "Users", path: "/users" },
           { icon: List, label: "Lead Statuses", path: "/statuses" },
           { icon: HelpCircle, label: "Lead Questions", path: "/questions" },
           { icon: Key, label: "API Keys", path: "/api" },
           { icon: BarChart, label: "API Dashboard", path: "/api/dashboard" },
+          { icon: ScrollText, label: "API Requests", path: "/api/requests" },
+          { icon: BookOpen, label: "API Docs", path: "/api/docs" },
           {
             icon: GitBranch,
             label: "Assignment Rules",
             path: "/assignment-rules",
           },
+          { icon: Target, label: "Lead Scoring", path: "/lead-scoring" },
+          {
+            icon: MessageSquare,
+            label: "WhatsApp Templates",
+            path: "/whatsapp-templates",
+          },
+          { icon: Mail, label: "Email Templates", path: "/email-templates" },
           { icon: Settings, label: "Settings", path: "/settings" },
         ]
-      : [{ icon: Users, label: "Sales", path: "/" }];
+      : [
+          { icon: Users, label: "Sales", path: "/" },
+          { icon: CalendarCheck, label: "My Day", path: "/my-day" },
+          { icon: MessagesSquare, label: "Chat", path: "/chat" },
+        ];
 
   const renderNavItems = () => (
     <nav className="space-y-2 flex-1">
@@ -123,9 +146,15 @@ const Sidebar = () => {
 
           <GlobalSearch />
           {user && (
-            <p className="text-sm text-gray-400 mt-4">
-              {user.full_name} ({user.role})
-            </p>
+            <>
+              <p className="text-sm text-gray-400 mt-4">
+                {user.full_name} ({user.role})
+              </p>
+              <PresenceSelect
+                user={user}
+                onChange={(presence) => setUser({ ...user, ...presence })}
+              />
+            </>
           )}
           <div className="mt-8">{renderNavItems()}</div>
           <button
@@ -142,9 +171,15 @@ const Sidebar = () => {
         <div className="mb-8">
           <GlobalSearch />
           {user && (
-            <p className="text-sm text-gray-400 mt-4">
-              {user.full_name} ({user.role})
-            </p>
+            <>
+              <p className="text-sm text-gray-400 mt-4">
+                {user.full_name} ({user.role})
+              </p>
+              <PresenceSelect
+                user={user}
+                onChange={(presence) => setUser({ ...user, ...presence })}
+              />
+            </>
           )}
         </div>
 
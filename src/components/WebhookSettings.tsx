@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Plus, Trash2, Copy, Check, X, RefreshCw, Webhook } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { DateTime } from 'luxon';
+
+const WEBHOOK_EVENTS = [
+  { value: 'lead.status_changed', label: 'Status changed' },
+  { value: 'lead.ftd', label: 'FTD' },
+  { value: 'lead.converted', label: 'Converted' },
+  { value: 'deposit.created', label: 'Deposit' },
+];
+
+interface ApiKeyWebhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: string[];
+  is_active: boolean;
+  created_at: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  lead_id: number | null;
+  event: string;
+  status: 'pending' | 'processing' | 'succeeded' | 'failed';
+  attempts: number;
+  next_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+interface WebhookSettingsProps {
+  apiKeyId: string;
+}
+
+const deliveryStatusStyles: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-600/20 text-yellow-400',
+  processing: 'bg-blue-600/20 text-blue-400',
+  succeeded: 'bg-green-600/20 text-green-400',
+  failed: 'bg-red-600/20 text-red-400',
+};
+
+const WebhookSettings: React.FC<WebhookSettingsProps> = ({ apiKeyId }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newUrl, setNewUrl] = useState('');
+  const [newEvents, setNewEvents] = useState<string[]>(WEBHOOK_EVENTS.map(e => e.value));
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const { data: webhooks = [], refetch: refetchWebhooks } = useQuery({
+    queryKey: ['api-key-webhooks', apiKeyId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('api_key_webhooks')
+        .select('*')
+        .eq('api_key_id', apiKeyId)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as ApiKeyWebhook[];
+    }
+  });
+
+  const webhookIds = webhooks.map(w => w.id);
+
+  const { data: deliveries = [], refetch: refetchDeliveries, isFetching: isFetchingDeliveries } = useQuery({
+    queryKey: ['webhook-deliveries', apiKeyId, webhookIds],
+    enabled: webhookIds.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('id, webhook_id, lead_id, event, status, attempts, next_attempt_at, last_status_code, last_error, created_at')
+        .in('webhook_id', webhookIds)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as WebhookDelivery[];
+    }
+  });
+
+  const handleAddWebhook = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^https?:\/\//.test(newUrl.trim())) {
+      toast.error('Webhook URL must start with http:// or https://');
+      return;
+    }
+    if (newEvents.length === 0) {
+      toast.error('Select at least one event');
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('api_key_webhooks')
+        .insert({
+          api_key_id: apiKeyId,
+          url: newUrl.trim(),
+          events: newEvents
+        });
+
+      if (error) throw error;
+
+      toast.success('Webhook added');
+      setIsAdding(false);
+      setNewUrl('');
+      setNewEvents(WEBHOOK_EVENTS.map(e => e.value));
+      refetchWebhooks();
+    } catch (error) {
+      console.error('Error adding webhook:', error);
+      toast.error('Failed to add webhook');
+    }
+  };
+
+  const handleToggleWebhook = async (webhook: ApiKeyWebhook) => {
+    try {
+      const { error } = await supabase
+        .from('api_key_webhooks')
+        .update({ is_active: !webhook.is_active })
+        .eq('id', webhook.id);
+
+      if (error) throw error;
+
+      toast.success(`Webhook ${webhook.is_active ? 'disabled' : 'enabled'}`);
+      refetchWebhooks();
+    } catch (error) {
+      console.error('Error toggling webhook:', error);
+      toast.error('Failed to update webhook');
+    }
+  };
+
+  const handleDeleteWebhook = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('api_key_webhooks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Webhook deleted');
+      refetchWebhooks();
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      toast.error('Failed to delete webhook');
+    }
+  };
+
+  const handleRetryDelivery = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'pending', next_attempt_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Delivery queued for retry');
+      refetchDeliveries();
+    } catch (error) {
+      console.error('Error retrying delivery:', error);
+      toast.error('Failed to retry delivery');
+    }
+  };
+
+  const toggleEvent = (event: string) => {
+    setNewEvents(prev =>
+      prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]
+    );
+  };
+
+  const copyToClipboard = (text: string, id: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(id);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="font-medium flex items-center">
+          <Webhook size={16} className="text-purple-400 mr-2" />
+          Webhooks
+        </h4>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="px-3 py-1 bg-green-600 rounded flex items-center space-x-1 hover:bg-green-500 text-sm"
+          >
+            <Plus size={14} />
+            <span>Add Webhook</span>
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleAddWebhook} className="space-y-3 mb-4">
+          <input
+            type="url"
+            value={newUrl}
+            onChange={(e) => setNewUrl(e.target.value)}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 text-sm"
+            placeholder="https://affiliate.example.com/crm-events"
+            required
+          />
+          <div className="flex flex-wrap gap-3">
+            {WEBHOOK_EVENTS.map(event => (
+              <label key={event.value} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newEvents.includes(event.value)}
+                  onChange={() => toggleEvent(event.value)}
+                  className="rounded bg-gray-600 border-gray-500"
+                />
+                <span>{event.label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1 bg-green-600 rounded hover:bg-green-500 text-sm"
+            >
+              Save Webhook
+            </button>
+          </div>
+        </form>
+      )}
+
+      {webhooks.length === 0 && !isAdding && (
+        <p className="text-sm text-gray-400">
+          No webhooks. Add one to notify this affiliate about status changes, FTDs, deposits and conversions.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="bg-gray-800 rounded p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <code className="truncate mr-4">{webhook.url}</code>
+              <div className="flex items-center space-x-3 shrink-0">
+                <span className={`px-2 py-0.5 rounded text-xs ${
+                  webhook.is_active
+                    ? 'bg-green-600/20 text-green-400'
+                    : 'bg-red-600/20 text-red-400'
+                }`}>
+                  {webhook.is_active ? 'Active' : 'Inactive'}
+                </span>
+                <button
+                  onClick={() => handleToggleWebhook(webhook)}
+                  className="text-gray-400 hover:text-white"
+                  title={webhook.is_active ? 'Disable webhook' : 'Enable webhook'}
+                >
+                  {webhook.is_active ? <X size={14} /> : <Check size={14} />}
+                </button>
+                <button
+                  onClick={() => handleDeleteWebhook(webhook.id)}
+                  className="text-red-500 hover:text-red-400"
+                  title="Delete webhook"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+            <div className="text-gray-400 mt-2">
+              Events: {webhook.events.join(', ')}
+            </div>
+            <div className="text-gray-400 mt-1 flex items-center space-x-2">
+              <span>Signing secret:</span>
+              <code className="text-gray-300">{webhook.secret.slice(0, 8)}…</code>
+              <button
+                onClick={() => copyToClipboard(webhook.secret, `secret-${webhook.id}`)}
+                className="text-gray-400 hover:text-white"
+                title="Copy signing secret"
+              >
+                {copied === `secret-${webhook.id}` ? <Check size={14} /> : <Copy size={14} />}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {webhooks.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h5 className="font-medium text-sm">Recent Deliveries</h5>
+            <button
+              onClick={() => refetchDeliveries()}
+              className="text-gray-400 hover:text-white"
+              title="Refresh deliveries"
+            >
+              <RefreshCw size={14} className={isFetchingDeliveries ? 'animate-spin' : ''} />
+            </button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-gray-400">No deliveries yet</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="py-2">Time</th>
+                  <th className="py-2">Event</th>
+                  <th className="py-2">Lead</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2">Attempts</th>
+                  <th className="py-2">Response</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-300">
+                {deliveries.map(delivery => (
+                  <tr key={delivery.id} className="border-t border-gray-700">
+                    <td className="py-2">{DateTime.fromISO(delivery.created_at).toFormat('yyyy-MM-dd HH:mm:ss')}</td>
+                    <td className="py-2">{delivery.event}</td>
+                    <td className="py-2">{delivery.lead_id ?? '-'}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-0.5 rounded text-xs ${deliveryStatusStyles[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      {delivery.status === 'pending' && delivery.attempts > 0 && delivery.next_attempt_at && (
+                        <span className="text-xs text-gray-500 ml-2">
+                          retry {DateTime.fromISO(delivery.next_attempt_at).toRelative()}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2">{delivery.attempts}</td>
+                    <td className="py-2" title={delivery.last_error ?? undefined}>
+                      {delivery.last_status_code ?? (delivery.last_error ? 'Error' : '-')}
+                    </td>
+                    <td className="py-2 text-right">
+                      {delivery.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetryDelivery(delivery.id)}
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookSettings;
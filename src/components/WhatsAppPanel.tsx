@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Send, Check, CheckCheck, AlertCircle } from 'lucide-react';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+import { supabase, type Lead, type WhatsAppMessage, type WhatsAppTemplate } from '../lib/supabase';
+import { countPlaceholders, getServiceWindowEnd, renderTemplate } from '../utils/whatsapp';
+
+interface WhatsAppPanelProps {
+  lead: Lead;
+}
+
+const WhatsAppPanel: React.FC<WhatsAppPanelProps> = ({ lead }) => {
+  const [text, setText] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [parameters, setParameters] = useState<string[]>([]);
+  const [sending, setSending] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: messages, isLoading } = useQuery({
+    queryKey: ['whatsappMessages', lead.id],
+    refetchInterval: 10000,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('whatsapp_messages')
+        .select('*')
+        .eq('lead_id', lead.id)
+        .order('created_at');
+
+      if (error) throw error;
+      return data as WhatsAppMessage[];
+    }
+  });
+
+  const { data: templates } = useQuery({
+    queryKey: ['whatsappTemplates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('whatsapp_templates')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      return data as WhatsAppTemplate[];
+    }
+  });
+
+  const windowEnd = getServiceWindowEnd(messages || []);
+  const template = templates?.find((t) => t.id === templateId);
+
+  const handleTemplateChange = (id: string) => {
+    const selected = templates?.find((t) => t.id === id);
+    setTemplateId(id);
+    // The first placeholder is usually the greeting
+    setParameters(
+      selected ? Array.from({ length: countPlaceholders(selected.body) }, (_, i) => (i === 0 ? lead.first_name : '')) : []
+    );
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (template ? parameters.some((p) => !p.trim()) : !text.trim()) return;
+
+    try {
+      setSending(true);
+      const { error } = await supabase.functions.invoke('whatsapp/send', {
+        body: template
+          ? { lead_id: lead.id, template_id: template.id, parameters }
+          : { lead_id: lead.id, text },
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error?.message || error.message);
+      }
+
+      setText('');
+      setTemplateId('');
+      setParameters([]);
+    } catch (error) {
+      console.error('Error sending WhatsApp message:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+      queryClient.invalidateQueries({ queryKey: ['whatsappMessages', lead.id] });
+    }
+  };
+
+  const renderStatus = (message: WhatsAppMessage) => {
+    if (message.status === 'failed') {
+      return <AlertCircle size={12} className="text-red-400" />;
+    }
+    if (message.status === 'read') return <CheckCheck size={12} className="text-blue-400" />;
+    if (message.status === 'delivered') return <CheckCheck size={12} />;
+    return <Check size={12} />;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-900 rounded-lg p-3 h-80 overflow-y-auto space-y-2">
+        {isLoading ? (
+          <div className="text-sm text-gray-400">Loading messages...</div>
+        ) : !messages || messages.length === 0 ? (
+          <div className="text-sm text-gray-400">No messages yet, start the conversation with a template</div>
+        ) : (
+          messages.map((message) => (
+            <div
+              key={message.id}
+              className={clsx('flex', message.direction === 'outbound' ? 'justify-end' : 'justify-start')}
+            >
+              <div
+                className={clsx(
+                  'max-w-[75%] rounded-lg px-3 py-2 text-sm',
+                  message.direction === 'outbound' ? 'bg-green-800' : 'bg-gray-700'
+                )}
+                title={message.error || undefined}
+              >
+                <p className="whitespace-pre-wrap">{message.body}</p>
+                <div className="flex items-center justify-end space-x-1 text-xs text-gray-400 mt-1">
+                  <span>{new Date(message.created_at).toLocaleString()}</span>
+                  {message.direction === 'outbound' && renderStatus(message)}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSend} className="space-y-3">
+        <select
+          value={templateId}
+          onChange={(e) => handleTemplateChange(e.target.value)}
+          className="w-full bg-gray-700 rounded-lg px-3 py-2"
+        >
+          <option value="">{windowEnd ? 'Free text message' : 'Select a template'}</option>
+          {templates?.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name} ({t.language})
+            </option>
+          ))}
+        </select>
+
+        {template ? (
+          <>
+            {parameters.map((value, index) => (
+              <input
+                key={index}
+                type="text"
+                value={value}
+                onChange={(e) => setParameters(parameters.map((p, i) => (i === index ? e.target.value : p)))}
+                placeholder={`{{${index + 1}}}`}
+                className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                required
+              />
+            ))}
+            <p className="text-sm text-gray-300 bg-gray-700 rounded-lg px-3 py-2 whitespace-pre-wrap">
+              {renderTemplate(template.body, parameters)}
+            </p>
+          </>
+        ) : (
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={!windowEnd}
+            placeholder={
+              windowEnd
+                ? `Reply until ${windowEnd.toFormat('ccc HH:mm')}`
+                : 'The lead has not written in the last 24 hours, only templates can be sent'
+            }
+            className="w-full h-20 bg-gray-700 rounded-lg px-3 py-2 disabled:opacity-50"
+          />
+        )}
+
+        <button
+          type="submit"
+          disabled={sending || (!template && !windowEnd)}
+          className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500 disabled:opacity-50"
+        >
+          <Send size={16} />
+          <span>{sending ? 'Sending...' : 'Send'}</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default WhatsAppPanel;
@@ -28,7 +28,7 @@ export const useUsers = () => {
         console.log('🔄 [useUsers] Loading first 1000 users...');
         const { data: firstBatch, error: firstError } = await supabase
           .from('user_profiles')
-          .select('id, full_name, role, manager_id')
+          .select('id, full_name, role, manager_id, availability, leave_starts_at, leave_ends_at')
           .order('full_name')
           .range(0, batchSize - 1);
 
@@ -47,7 +47,7 @@ export const useUsers = () => {
             while (hasMore) {
               const { data, error } = await supabase
                 .from('user_profiles')
-                .select('id, full_name, role, manager_id')
+                .select('id, full_name, role, manager_id, availability, leave_starts_at, leave_ends_at')
                 .order('full_name')
                 .range(offset, offset + batchSize - 1);
 
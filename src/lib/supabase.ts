@@ -12,6 +12,8 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 export type Role = 'admin' | 'desk' | 'manager' | 'agent';
 
+export type Availability = 'available' | 'busy' | 'offline' | 'on_leave';
+
 export type UserProfile = {
   id: string;
   role: Role;
@@ -19,6 +21,23 @@ export type UserProfile = {
   email: string;
   created_at: string;
   manager_id: string | null;
+  max_open_leads: number | null;
+  max_daily_leads: number | null;
+  overflow_user_id: string | null;
+  availability: Availability;
+  leave_starts_at: string | null;
+  leave_ends_at: string | null;
+};
+
+// Current load and limits of a user, `has_capacity` is false once either limit is reached
+export type AgentCapacity = {
+  user_id: string;
+  open_leads: number;
+  today_leads: number;
+  max_open_leads: number | null;
+  max_daily_leads: number | null;
+  overflow_user_id: string | null;
+  has_capacity: boolean;
 };
 
 export type Lead = {
@@ -29,7 +48,12 @@ export type Lead = {
   email: string;
   phone: string;
   country: string;
+  country_code: string | null;
   status: string;
+  score: number;
+  next_task_at: string | null;
+  call_count: number;
+  last_call_at: string | null;
   brand: string;
   balance: number;
   total_deposits: number;
@@ -50,6 +74,95 @@ export type Lead = {
   desk: string | null;
 };
 
+// `metadata` is set for structured activities, e.g. the provider, outcome and recording of a `call`
+export type LeadActivity = {
+  id: string;
+  lead_id: number;
+  type: string;
+  description: string;
+  metadata: { recording_url?: string | null; [key: string]: unknown } | null;
+  created_at: string;
+};
+
+export type WhatsAppTemplate = {
+  id: string;
+  name: string;
+  language: string;
+  body: string;
+  is_active: boolean;
+  created_at: string;
+};
+
+export type WhatsAppMessageStatus = 'sent' | 'delivered' | 'read' | 'failed' | 'received';
+
+export type WhatsAppMessage = {
+  id: string;
+  lead_id: number;
+  direction: 'inbound' | 'outbound';
+  body: string;
+  template_id: string | null;
+  status: WhatsAppMessageStatus;
+  error: string | null;
+  provider_message_id: string | null;
+  sent_by: string | null;
+  created_at: string;
+};
+
+export type EmailTemplate = {
+  id: string;
+  name: string;
+  subject: string;
+  body: string;
+  is_active: boolean;
+  created_at: string;
+};
+
+// A row of get_my_chat_rooms, `other_user_id` is set for direct rooms
+export type ChatRoom = {
+  id: string;
+  type: 'direct' | 'desk';
+  name: string;
+  other_user_id: string | null;
+  last_message: string | null;
+  last_message_at: string | null;
+  unread_count: number;
+};
+
+export type ChatMessage = {
+  id: string;
+  room_id: string;
+  sender_id: string | null;
+  body: string;
+  lead_id: number | null;
+  created_at: string;
+  sender?: {
+    full_name: string;
+  } | null;
+  lead?: {
+    id: number;
+    first_name: string;
+    last_name: string;
+  } | null;
+};
+
+export type TaskType = 'callback' | 'follow_up' | 'email' | 'meeting';
+
+export type LeadTask = {
+  id: string;
+  lead_id: number;
+  assigned_to: string | null;
+  type: TaskType;
+  title: string;
+  notes: string | null;
+  due_at: string;
+  remind_minutes_before: number | null;
+  reminder_sent_at: string | null;
+  completed_at: string | null;
+  completed_by: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
 export type UserPermissions = {
   clients: {
     view: boolean;
@@ -80,6 +193,59 @@ export type UserPermissions = {
   };
 };
 
+export type LeadPageQuery = {
+  isConverted: boolean;
+  limit: number;
+  offset: number;
+  sortBy?: string;
+  sortDesc?: boolean;
+  filters?: Record<string, unknown>;
+};
+
+export type LeadPage = {
+  total: number;
+  leads: Lead[];
+};
+
+// Visibility (role, desk, hierarchy), sorting and filtering all run in the
+// get_visible_leads RPC, so only the requested page leaves the database.
+export async function getVisibleLeads(query: LeadPageQuery): Promise<LeadPage> {
+  try {
+    const { data, error } = await supabase.rpc('get_visible_leads', {
+      p_is_converted: query.isConverted,
+      p_limit: query.limit,
+      p_offset: query.offset,
+      p_sort_by: query.sortBy ?? null,
+      p_sort_desc: query.sortDesc ?? true,
+      p_filters: query.filters ?? {}
+    });
+
+    if (error) throw error;
+    return {
+      total: data?.total ?? 0,
+      leads: data?.leads ?? []
+    };
+  } catch (error) {
+    console.error('Error fetching visible leads:', error);
+    throw error;
+  }
+}
+
+export async function getVisibleLeadFacets(isConverted: boolean, column: string): Promise<string[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_visible_lead_facets', {
+      p_is_converted: isConverted,
+      p_column: column
+    });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching lead facets:', error);
+    return [];
+  }
+}
+
 export async function getSubordinateIds(): Promise<string[]> {
   const currentUser = await getCurrentUser();
   if (!currentUser) return [];
@@ -121,6 +287,15 @@ export async function getSubordinateIds(): Promise<string[]> {
   }
 }
 
+export async function getAgentCapacity(userIds?: string[]): Promise<AgentCapacity[]> {
+  const { data, error } = await supabase.rpc('get_agent_capacity', {
+    p_user_ids: userIds ?? null
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
 export async function getCurrentUser() {
   try {
     const { data: { session } } = await supabase.auth.getSession();
@@ -128,7 +303,7 @@ export async function getCurrentUser() {
 
     const { data: profile, error: profileError } = await supabase
       .from('user_profiles')
-      .select('id, role, full_name, email, created_at, manager_id')
+      .select('id, role, full_name, email, created_at, manager_id, max_open_leads, max_daily_leads, overflow_user_id, availability, leave_starts_at, leave_ends_at')
       .eq('id', session.user.id)
       .single();
 
@@ -205,7 +380,7 @@ export async function getUserById(userId: string) {
   try {
     const { data: profile, error: profileError } = await supabase
       .from('user_profiles')
-      .select('id, role, full_name, email, created_at, manager_id')
+      .select('id, role, full_name, email, created_at, manager_id, max_open_leads, max_daily_leads, overflow_user_id, availability, leave_starts_at, leave_ends_at')
       .eq('id', userId)
       .single();
 
@@ -0,0 +1,69 @@
+import { mockProvider } from './mock';
+
+export type CallOutcome = 'answered' | 'no_answer' | 'busy' | 'failed' | 'cancelled';
+
+export type CallState = 'dialing' | 'ringing' | 'in_progress' | 'ended';
+
+export type CallResult = {
+  providerCallId: string;
+  outcome: CallOutcome;
+  startedAt: string;
+  answeredAt: string | null;
+  endedAt: string;
+  durationSeconds: number;
+  recordingUrl: string | null;
+};
+
+export type DialOptions = {
+  leadId: number;
+  onStateChange?: (state: CallState) => void;
+};
+
+// A call in progress, `result` resolves once it ends, hung up from either side
+export type CallHandle = {
+  providerCallId: string;
+  hangUp: () => void;
+  result: Promise<CallResult>;
+};
+
+// Softphone or VoIP integration, `dial` places an outgoing call from the agent to `phone`
+export interface TelephonyProvider {
+  id: string;
+  label: string;
+  dial: (phone: string, options: DialOptions) => Promise<CallHandle>;
+}
+
+const providers: Record<string, TelephonyProvider> = {
+  [mockProvider.id]: mockProvider,
+};
+
+export const registerTelephonyProvider = (provider: TelephonyProvider) => {
+  providers[provider.id] = provider;
+};
+
+// Picked with VITE_TELEPHONY_PROVIDER, the mock provider when unset
+export const getTelephonyProvider = (): TelephonyProvider => {
+  const id = import.meta.env.VITE_TELEPHONY_PROVIDER || mockProvider.id;
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`Unknown telephony provider: ${id}`);
+  }
+  return provider;
+};
+
+export const CALL_OUTCOMES: { value: CallOutcome; label: string }[] = [
+  { value: 'answered', label: 'Answered' },
+  { value: 'no_answer', label: 'No answer' },
+  { value: 'busy', label: 'Busy' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+export const getCallOutcomeLabel = (outcome: CallOutcome) =>
+  CALL_OUTCOMES.find((o) => o.value === outcome)?.label || outcome;
+
+// "2m 13s"
+export const formatCallDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
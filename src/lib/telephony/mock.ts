@@ -0,0 +1,61 @@
+import type { CallHandle, CallOutcome, CallResult, CallState, TelephonyProvider } from './index';
+
+const RING_MS = 3000;
+
+// Outcomes of calls that are not answered, picked at random after ringing
+const UNANSWERED: CallOutcome[] = ['no_answer', 'busy', 'failed'];
+
+// Simulates calls locally, nothing is dialed. Two out of three calls are answered
+// and keep going until hung up, answered calls get a fake recording URL
+export const mockProvider: TelephonyProvider = {
+  id: 'mock',
+  label: 'Mock (no real calls)',
+  dial: async (phone, { leadId, onStateChange }) => {
+    const providerCallId = `mock-${leadId}-${Date.now()}`;
+    const startedAt = new Date();
+    let answeredAt: Date | null = null;
+    let state: CallState = 'dialing';
+    let finish: (outcome: CallOutcome) => void = () => {};
+
+    const setState = (next: CallState) => {
+      state = next;
+      onStateChange?.(next);
+    };
+
+    const result = new Promise<CallResult>((resolve) => {
+      finish = (outcome) => {
+        if (state === 'ended') return;
+        clearTimeout(ringTimer);
+        setState('ended');
+        const endedAt = new Date();
+        resolve({
+          providerCallId,
+          outcome,
+          startedAt: startedAt.toISOString(),
+          answeredAt: answeredAt?.toISOString() || null,
+          endedAt: endedAt.toISOString(),
+          durationSeconds: answeredAt ? Math.round((endedAt.getTime() - answeredAt.getTime()) / 1000) : 0,
+          recordingUrl: answeredAt ? `mock://recordings/${providerCallId}.mp3?to=${encodeURIComponent(phone)}` : null,
+        });
+      };
+    });
+
+    const ringTimer = setTimeout(() => {
+      if (Math.random() < 2 / 3) {
+        answeredAt = new Date();
+        setState('in_progress');
+      } else {
+        finish(UNANSWERED[Math.floor(Math.random() * UNANSWERED.length)]);
+      }
+    }, RING_MS);
+
+    setState('ringing');
+
+    const handle: CallHandle = {
+      providerCallId,
+      hangUp: () => finish(answeredAt ? 'answered' : 'cancelled'),
+      result,
+    };
+    return handle;
+  },
+};
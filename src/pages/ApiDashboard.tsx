@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { BarChart, TrendingUp, Users, DollarSign } from 'lucide-react';
 import { DateTime } from 'luxon';
+import toast from 'react-hot-toast';
 
 interface ApiStats {
   affiliator: string;
@@ -10,6 +11,11 @@ interface ApiStats {
   converted_leads: number;
   total_deposits: number;
   last_lead: string | null;
+  rate_limit_per_minute: number;
+  daily_lead_limit: number | null;
+  requests_today: number;
+  throttled_today: number;
+  leads_today: number;
 }
 
 const ApiDashboard = () => {
@@ -22,10 +28,18 @@ const ApiDashboard = () => {
       // First get all API keys
       const { data: apiKeys, error: apiKeyError } = await supabase
         .from('api_keys')
-        .select('name, source_prefix');
+        .select('id, name, source_prefix, rate_limit_per_minute, daily_lead_limit');
 
       if (apiKeyError) throw apiKeyError;
 
+      // Today's rate limit and quota counters (UTC day, same as the leads function)
+      const { data: usage, error: usageError } = await supabase
+        .from('api_key_daily_usage')
+        .select('api_key_id, request_count, throttled_count, lead_count')
+        .eq('usage_date', DateTime.utc().toISODate());
+
+      if (usageError) throw usageError;
+
       // Then get leads for each API key
       const now = DateTime.now();
       const stats: ApiStats[] = await Promise.all(
@@ -80,6 +94,8 @@ const ApiDashboard = () => {
               )[0].created_at
             : null;
 
+          const todayUsage = usage?.find(u => u.api_key_id === key.id);
+
           return {
             affiliator: key.name,
             source_prefix: key.source_prefix,
@@ -90,7 +106,12 @@ const ApiDashboard = () => {
               l.status !== 'TEST FTD'
             ).length,
             total_deposits: filteredLeads.reduce((sum, l) => sum + (l.total_deposits || 0), 0),
-            last_lead: lastLead
+            last_lead: lastLead,
+            rate_limit_per_minute: key.rate_limit_per_minute,
+            daily_lead_limit: key.daily_lead_limit,
+            requests_today: todayUsage?.request_count ?? 0,
+            throttled_today: todayUsage?.throttled_count ?? 0,
+            leads_today: todayUsage?.lead_count ?? 0
           };
         })
       );
@@ -194,6 +215,9 @@ const ApiDashboard = () => {
               <th className="px-6 py-3 text-right">Converted</th>
               <th className="px-6 py-3 text-right">Deposits</th>
               <th className="px-6 py-3 text-left">Last Lead</th>
+              <th className="px-6 py-3 text-right">Requests Today</th>
+              <th className="px-6 py-3 text-right">Throttled Today</th>
+              <th className="px-6 py-3 text-right">Leads Today</th>
             </tr>
           </thead>
           <tbody>
@@ -217,6 +241,21 @@ const ApiDashboard = () => {
                     : 'Never'
                   }
                 </td>
+                <td className="px-6 py-4 text-right">
+                  {stat.requests_today}
+                  <span className="text-gray-400 ml-1">({stat.rate_limit_per_minute}/min)</span>
+                </td>
+                <td className={`px-6 py-4 text-right ${stat.throttled_today > 0 ? 'text-red-400' : ''}`}>
+                  {stat.throttled_today}
+                </td>
+                <td className={`px-6 py-4 text-right ${
+                  stat.daily_lead_limit && stat.leads_today >= stat.daily_lead_limit ? 'text-red-400' : ''
+                }`}>
+                  {stat.leads_today}
+                  <span className="text-gray-400 ml-1">
+                    / {stat.daily_lead_limit ?? '∞'}
+                  </span>
+                </td>
               </tr>
             ))}
           </tbody>
@@ -0,0 +1,463 @@
+import React, { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { ChevronDown, ChevronRight, Download, Play } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+
+const LEADS_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads`;
+
+const HTTP_METHODS = ['get', 'post', 'patch', 'delete'] as const;
+type HttpMethod = typeof HTTP_METHODS[number];
+
+interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: 'query' | 'path' | 'header';
+  description?: string;
+  required?: boolean;
+  schema?: { type?: string; enum?: string[] };
+}
+
+interface OpenApiResponse {
+  $ref?: string;
+  description?: string;
+}
+
+interface OpenApiOperation {
+  summary?: string;
+  description?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { content: Record<string, { example?: unknown }> };
+  responses: Record<string, OpenApiResponse>;
+}
+
+type OpenApiPathItem = { parameters?: OpenApiParameter[] } & Partial<Record<HttpMethod, OpenApiOperation>>;
+
+interface OpenApiSpec {
+  info: { title: string; version: string; description?: string };
+  servers: { url: string }[];
+  paths: Record<string, OpenApiPathItem>;
+  components: {
+    parameters?: Record<string, OpenApiParameter>;
+    responses?: Record<string, OpenApiResponse>;
+    schemas?: {
+      Error?: {
+        properties: { error: { properties: { code: { enum: string[]; description: string } } } };
+      };
+    };
+  };
+}
+
+interface ApiKeyOption {
+  id: string;
+  name: string;
+  key_prefix: string;
+}
+
+interface TryItResult {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Set by the ApiKeys page; the plaintext key is only there right after create or rotate
+interface DocsLocationState {
+  apiKeyId?: string;
+  apiKey?: string;
+}
+
+const methodStyles: Record<HttpMethod, string> = {
+  get: 'bg-blue-600/20 text-blue-400',
+  post: 'bg-green-600/20 text-green-400',
+  patch: 'bg-yellow-600/20 text-yellow-400',
+  delete: 'bg-red-600/20 text-red-400',
+};
+
+const SHOWN_RESPONSE_HEADERS = ['retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset', 'idempotent-replayed'];
+
+const resolveRef = <T,>(spec: OpenApiSpec, value: T & { $ref?: string }): T => {
+  if (!value.$ref) return value;
+  const [, , section, name] = value.$ref.split('/');
+  const components = spec.components as Record<string, Record<string, T> | undefined>;
+  return components[section]?.[name] ?? value;
+};
+
+interface OperationCardProps {
+  spec: OpenApiSpec;
+  path: string;
+  method: HttpMethod;
+  operation: OpenApiOperation;
+  apiKey: string;
+}
+
+const OperationCard: React.FC<OperationCardProps> = ({ spec, path, method, operation, apiKey }) => {
+  const parameters = [...(spec.paths[path].parameters || []), ...(operation.parameters || [])]
+    .map(parameter => resolveRef(spec, parameter));
+  const example = operation.requestBody?.content['application/json']?.example;
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(example ? JSON.stringify(example, null, 2) : '');
+  const [result, setResult] = useState<TryItResult | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    if (!apiKey) {
+      toast.error('Enter an API key first');
+      return;
+    }
+
+    const missing = parameters.find(p => p.required && !values[p.name]);
+    if (missing) {
+      toast.error(`${missing.name} is required`);
+      return;
+    }
+
+    let url = `${spec.servers[0]?.url || LEADS_FUNCTION_URL}${path === '/' ? '' : path}`;
+    const query = new URLSearchParams();
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'X-API-Key': apiKey,
+    };
+
+    parameters.forEach(parameter => {
+      const value = values[parameter.name];
+      if (!value) return;
+      if (parameter.in === 'path') url = url.replace(`{${parameter.name}}`, encodeURIComponent(value));
+      if (parameter.in === 'query') query.set(parameter.name, value);
+      if (parameter.in === 'header') headers[parameter.name] = value;
+    });
+    if (query.toString()) url += `?${query}`;
+    if (operation.requestBody) headers['Content-Type'] = 'application/json';
+
+    setSending(true);
+    try {
+      const response = await fetch(url, {
+        method: method.toUpperCase(),
+        headers,
+        body: operation.requestBody ? body : undefined,
+      });
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON, show as is
+      }
+      setResult({
+        status: response.status,
+        headers: Object.fromEntries(
+          SHOWN_RESPONSE_HEADERS
+            .filter(name => response.headers.has(name))
+            .map(name => [name, response.headers.get(name) || ''])
+        ),
+        body: formatted,
+      });
+    } catch (error) {
+      console.error('Error sending API request:', error);
+      toast.error('Request failed');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg">
+      <div
+        className="p-4 flex items-center cursor-pointer hover:bg-gray-750"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? <ChevronDown size={16} className="mr-2" /> : <ChevronRight size={16} className="mr-2" />}
+        <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase w-16 text-center ${methodStyles[method]}`}>
+          {method}
+        </span>
+        <code className="ml-3">{path}</code>
+        <span className="ml-4 text-gray-400 text-sm">{operation.summary}</span>
+      </div>
+
+      {isOpen && (
+        <div className="p-4 border-t border-gray-700 space-y-4 text-sm">
+          {operation.description && <p className="text-gray-300">{operation.description}</p>}
+
+          {parameters.length > 0 && (
+            <div>
+              <h5 className="font-medium mb-2">Parameters</h5>
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-400">
+                    <th className="py-2">Name</th>
+                    <th className="py-2">In</th>
+                    <th className="py-2">Description</th>
+                    <th className="py-2 w-64">Value</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {parameters.map(parameter => (
+                    <tr key={`${parameter.in}-${parameter.name}`}>
+                      <td className="py-2 font-mono">
+                        {parameter.name}
+                        {parameter.required && <span className="text-red-400">*</span>}
+                      </td>
+                      <td className="py-2">{parameter.in}</td>
+                      <td className="py-2">{parameter.description}</td>
+                      <td className="py-2">
+                        {parameter.schema?.enum ? (
+                          <select
+                            value={values[parameter.name] || ''}
+                            onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+                            className="w-full bg-gray-700 rounded px-2 py-1"
+                          >
+                            <option value=""></option>
+                            {parameter.schema.enum.map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <input
+                            type="text"
+                            value={values[parameter.name] || ''}
+                            onChange={(e) => setValues({ ...values, [parameter.name]: e.target.value })}
+                            className="w-full bg-gray-700 rounded px-2 py-1"
+                            placeholder={parameter.schema?.type}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {operation.requestBody && (
+            <div>
+              <h5 className="font-medium mb-2">Request Body</h5>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={Math.min(body.split('\n').length + 1, 16)}
+                className="w-full bg-gray-900 rounded p-3 font-mono text-xs"
+              />
+            </div>
+          )}
+
+          <div>
+            <h5 className="font-medium mb-2">Responses</h5>
+            <table className="w-full">
+              <tbody className="text-gray-300">
+                {Object.entries(operation.responses).map(([status, response]) => (
+                  <tr key={status}>
+                    <td className="py-1 w-16 font-mono">{status}</td>
+                    <td className="py-1">{resolveRef(spec, response).description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <button
+              onClick={handleSend}
+              disabled={sending}
+              className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500 disabled:opacity-50"
+            >
+              <Play size={14} />
+              <span>{sending ? 'Sending...' : 'Try it'}</span>
+            </button>
+            {method !== 'get' && (
+              <p className="text-xs text-yellow-400 mt-2">
+                This sends a real request and changes live data for the selected key.
+              </p>
+            )}
+          </div>
+
+          {result && (
+            <div>
+              <h5 className="font-medium mb-2">
+                Response <span className={result.status < 400 ? 'text-green-400' : 'text-red-400'}>{result.status}</span>
+              </h5>
+              {Object.keys(result.headers).length > 0 && (
+                <div className="text-xs text-gray-400 mb-2 font-mono">
+                  {Object.entries(result.headers).map(([name, value]) => (
+                    <div key={name}>{name}: {value}</div>
+                  ))}
+                </div>
+              )}
+              <pre className="bg-gray-900 p-3 rounded overflow-x-auto text-xs max-h-96">{result.body}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ApiDocs = () => {
+  const location = useLocation();
+  const locationState = (location.state || {}) as DocsLocationState;
+
+  const [spec, setSpec] = useState<OpenApiSpec | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [apiKeys, setApiKeys] = useState<ApiKeyOption[]>([]);
+  const [selectedKeyId, setSelectedKeyId] = useState(locationState.apiKeyId || '');
+  const [apiKey, setApiKey] = useState(locationState.apiKey || '');
+
+  useEffect(() => {
+    const fetchSpec = async () => {
+      try {
+        const response = await fetch(`${LEADS_FUNCTION_URL}/openapi.json`, {
+          headers: {
+            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          },
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        setSpec(await response.json());
+      } catch (error) {
+        console.error('Error fetching OpenAPI spec:', error);
+        toast.error('Failed to load API documentation');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    const fetchApiKeys = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('api_keys')
+          .select('id, name, key_prefix')
+          .order('name');
+
+        if (error) throw error;
+        setApiKeys(data || []);
+      } catch (error) {
+        console.error('Error fetching API keys:', error);
+        toast.error('Failed to fetch API keys');
+      }
+    };
+
+    fetchSpec();
+    fetchApiKeys();
+  }, []);
+
+  const handleDownload = () => {
+    if (!spec) return;
+    const blob = new Blob([JSON.stringify(spec, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'leads-api-openapi.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const selectedKey = apiKeys.find(key => key.id === selectedKeyId);
+  const errorCodes = spec?.components.schemas?.Error?.properties.error.properties.code;
+
+  if (loading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  if (!spec) {
+    return <div className="p-6 text-gray-400">API documentation is unavailable</div>;
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-2">
+        <h1 className="text-2xl font-bold">{spec.info.title} <span className="text-gray-400 text-lg">v{spec.info.version}</span></h1>
+        <button
+          onClick={handleDownload}
+          className="px-4 py-2 bg-gray-700 rounded-lg flex items-center space-x-2 hover:bg-gray-600"
+        >
+          <Download size={16} />
+          <span>Download OpenAPI Spec</span>
+        </button>
+      </div>
+      <p className="text-gray-400 mb-2">{spec.info.description}</p>
+      <p className="text-sm text-gray-400 mb-6">
+        Base URL: <code className="text-gray-300">{spec.servers[0]?.url}</code>
+      </p>
+
+      <div className="bg-gray-800 rounded-lg p-4 mb-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Affiliate</label>
+          <select
+            value={selectedKeyId}
+            onChange={(e) => {
+              setSelectedKeyId(e.target.value);
+              setApiKey('');
+            }}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+          >
+            <option value="">Select an API key</option>
+            {apiKeys.map(key => (
+              <option key={key.id} value={key.id}>{key.name} ({key.key_prefix}…)</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">X-API-Key</label>
+          <input
+            type="text"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 font-mono"
+            placeholder={selectedKey ? `${selectedKey.key_prefix}…` : 'Paste an API key'}
+          />
+          {selectedKey && !apiKey && (
+            <p className="text-xs text-gray-500 mt-1">
+              Only a hash of the key is stored. Paste the full key that starts with {selectedKey.key_prefix}.
+            </p>
+          )}
+          {apiKey && selectedKey && !apiKey.startsWith(selectedKey.key_prefix) && (
+            <p className="text-xs text-yellow-400 mt-1">
+              This key does not start with {selectedKey.key_prefix}, it belongs to another affiliate.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-8">
+        {Object.entries(spec.paths).flatMap(([path, item]) =>
+          HTTP_METHODS
+            .filter(method => item[method])
+            .map(method => (
+              <OperationCard
+                key={`${method}-${path}`}
+                spec={spec}
+                path={path}
+                method={method}
+                operation={item[method] as OpenApiOperation}
+                apiKey={apiKey}
+              />
+            ))
+        )}
+      </div>
+
+      {errorCodes && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h4 className="font-medium mb-2">Error Codes</h4>
+          <p className="text-sm text-gray-400 mb-4">
+            Errors are returned as <code>{'{ success: false, error: { code, message, details? } }'}</code>.
+          </p>
+          <table className="w-full text-sm">
+            <tbody className="text-gray-300">
+              {errorCodes.description.split('\n').map(line => {
+                const match = line.match(/^- `([a-z_]+)`: (.*)$/);
+                if (!match) return null;
+                return (
+                  <tr key={match[1]}>
+                    <td className="py-1 font-mono w-64">{match[1]}</td>
+                    <td className="py-1">{match[2]}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiDocs;
@@ -1,18 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Trash2, Copy, Check, X, AlertCircle, ExternalLink } from 'lucide-react';
+import { Plus, Trash2, Copy, Check, X, AlertCircle, ExternalLink, RefreshCw, KeyRound } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { DateTime } from 'luxon';
+import WebhookSettings from '../components/WebhookSettings';
 
 interface ApiKey {
   id: string;
   name: string;
-  api_key: string;
+  key_prefix: string;
+  previous_key_expires_at: string | null;
+  rotated_at: string | null;
   is_active: boolean;
   created_at: string;
   last_used: string | null;
   source_prefix: string;
   allowed_ips: string[];
+  rate_limit_per_minute: number;
+  daily_lead_limit: number | null;
+}
+
+// Plaintext key returned by create_api_key / rotate_api_key, only held until dismissed
+interface RevealedKey {
+  id: string;
+  name: string;
+  api_key: string;
 }
 
 const ApiKeys = () => {
@@ -22,9 +35,13 @@ const ApiKeys = () => {
   const [newKey, setNewKey] = useState({
     name: '',
     source_prefix: '',
-    allowed_ips: ''
+    allowed_ips: '',
+    rate_limit_per_minute: '100',
+    daily_lead_limit: ''
   });
   const [copied, setCopied] = useState<string | null>(null);
+  const [revealedKey, setRevealedKey] = useState<RevealedKey | null>(null);
+  const [graceHours, setGraceHours] = useState(24);
 
   const fetchApiKeys = async () => {
     try {
@@ -54,20 +71,22 @@ const ApiKeys = () => {
     }
 
     try {
-      const { error } = await supabase
-        .from('api_keys')
-        .insert({
-          name: newKey.name.trim(),
-          source_prefix: newKey.source_prefix.trim(),
-          allowed_ips: newKey.allowed_ips.split(',').map(ip => ip.trim()).filter(Boolean),
-          api_key: Array.from({ length: 32 }, () => 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'[Math.floor(Math.random() * 36)]).join('')
-        });
+      // The key is generated and hashed in the database; the plaintext comes back only here
+      const { data, error } = await supabase.rpc('create_api_key', {
+        p_name: newKey.name.trim(),
+        p_source_prefix: newKey.source_prefix.trim(),
+        p_allowed_ips: newKey.allowed_ips.split(',').map(ip => ip.trim()).filter(Boolean),
+        p_rate_limit_per_minute: parseInt(newKey.rate_limit_per_minute) || 100,
+        p_daily_lead_limit: parseInt(newKey.daily_lead_limit) || null
+      });
 
       if (error) throw error;
 
+      setRevealedKey({ id: data.id, name: newKey.name.trim(), api_key: data.api_key });
+      setSelectedKey(data.id);
       toast.success('API key created successfully');
       setIsCreating(false);
-      setNewKey({ name: '', source_prefix: '', allowed_ips: '' });
+      setNewKey({ name: '', source_prefix: '', allowed_ips: '', rate_limit_per_minute: '100', daily_lead_limit: '' });
       fetchApiKeys();
     } catch (error) {
       console.error('Error creating API key:', error);
@@ -75,6 +94,31 @@ const ApiKeys = () => {
     }
   };
 
+  const handleRotateKey = async (key: ApiKey) => {
+    const graceText = graceHours > 0
+      ? `The current key keeps working for ${graceHours} hours.`
+      : 'The current key stops working immediately.';
+    if (!window.confirm(`Issue a new key for ${key.name}? ${graceText}`)) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('rotate_api_key', {
+        p_api_key_id: key.id,
+        p_grace_hours: graceHours
+      });
+
+      if (error) throw error;
+
+      setRevealedKey({ id: key.id, name: key.name, api_key: data.api_key });
+      toast.success('API key rotated');
+      fetchApiKeys();
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      toast.error('Failed to rotate API key');
+    }
+  };
+
   const handleToggleKey = async (id: string, isActive: boolean) => {
     try {
       const { error } = await supabase
@@ -92,6 +136,27 @@ const ApiKeys = () => {
     }
   };
 
+  const handleUpdateLimits = async (key: ApiKey, updates: Partial<Pick<ApiKey, 'rate_limit_per_minute' | 'daily_lead_limit'>>) => {
+    if (updates.rate_limit_per_minute === key.rate_limit_per_minute && updates.daily_lead_limit === key.daily_lead_limit) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('api_keys')
+        .update(updates)
+        .eq('id', key.id);
+
+      if (error) throw error;
+
+      toast.success('Limits updated');
+      fetchApiKeys();
+    } catch (error) {
+      console.error('Error updating API key limits:', error);
+      toast.error('Failed to update limits');
+    }
+  };
+
   const handleDeleteKey = async (id: string) => {
     try {
       const { error } = await supabase
@@ -117,14 +182,16 @@ const ApiKeys = () => {
   };
 
   const getExampleCode = (apiKey: string) => {
-    return `// Submit a new lead
-async function submitLead() {
+    return `// Submit a new lead. Reuse the same requestId when retrying after a timeout,
+// so the lead is created only once.
+async function submitLead(requestId = crypto.randomUUID()) {
   try {
-    const response = await fetch("${import.meta.env.VITE_SUPABASE_URL}/leads", {
+    const response = await fetch("${import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "X-API-Key": "${apiKey}"
+        "X-API-Key": "${apiKey}",
+        "Idempotency-Key": requestId
       },
       body: JSON.stringify({
         firstName: "John",
@@ -154,11 +221,16 @@ async function submitLead() {
   }
 }
 
-// Retrieve your leads (with pagination)
-async function getLeads(page = 1, limit = 50) {
+// Retrieve your leads, one page at a time.
+// Pass next_cursor from the previous response to get the following page;
+// has_more is false on the last page and total counts every matching lead.
+async function getLeads(cursor = null, limit = 50) {
   try {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) params.set("cursor", cursor);
+
     const response = await fetch(
-      \`${import.meta.env.VITE_SUPABASE_URL}/leads?page=\${page}&limit=\${limit}\`,
+      \`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads?\${params}\`,
       {
         method: "GET",
         headers: {
@@ -239,6 +311,34 @@ async function getLeads(page = 1, limit = 50) {
               </p>
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Requests per Minute</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={newKey.rate_limit_per_minute}
+                  onChange={(e) => setNewKey({ ...newKey, rate_limit_per_minute: e.target.value })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Daily Lead Limit</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={newKey.daily_lead_limit}
+                  onChange={(e) => setNewKey({ ...newKey, daily_lead_limit: e.target.value })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                  placeholder="Unlimited"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  Optional. Counted per UTC day
+                </p>
+              </div>
+            </div>
+
             <div className="flex justify-end space-x-3">
               <button
                 type="button"
@@ -258,6 +358,36 @@ async function getLeads(page = 1, limit = 50) {
         </div>
       )}
 
+      {revealedKey && (
+        <div className="bg-yellow-900/30 border border-yellow-700 rounded-lg p-4 mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="font-medium flex items-center">
+              <KeyRound size={16} className="text-yellow-400 mr-2" />
+              New API key for {revealedKey.name}
+            </h4>
+            <button
+              onClick={() => setRevealedKey(null)}
+              className="text-gray-400 hover:text-white"
+              title="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          </div>
+          <div className="bg-gray-900 rounded p-3 font-mono text-sm flex items-center justify-between">
+            <span>{revealedKey.api_key}</span>
+            <button
+              onClick={() => copyToClipboard(revealedKey.api_key, 'revealed-key')}
+              className="text-gray-400 hover:text-white"
+            >
+              {copied === 'revealed-key' ? <Check size={16} /> : <Copy size={16} />}
+            </button>
+          </div>
+          <p className="text-sm text-yellow-200 mt-2">
+            Copy this key now and send it to the affiliate. Only a hash is stored, so it cannot be shown again.
+          </p>
+        </div>
+      )}
+
       <div className="space-y-4">
         {apiKeys.map((key) => (
           <div key={key.id} className="bg-gray-800 rounded-lg">
@@ -302,16 +432,38 @@ async function getLeads(page = 1, limit = 50) {
 
             {selectedKey === key.id && (
               <div className="p-4 border-t border-gray-700">
-                <div className="bg-gray-900 rounded p-4 mb-4 font-mono text-sm flex items-center justify-between">
-                  <span>{key.api_key}</span>
-                  <button
-                    onClick={() => copyToClipboard(key.api_key, `key-${key.id}`)}
-                    className="text-gray-400 hover:text-white"
-                  >
-                    {copied === `key-${key.id}` ? <Check size={16} /> : <Copy size={16} />}
-                  </button>
+                <div className="bg-gray-900 rounded p-4 mb-4 text-sm flex items-center justify-between">
+                  <span className="font-mono">{key.key_prefix}…</span>
+                  <div className="flex items-center space-x-2">
+                    <label className="text-gray-400">Grace period</label>
+                    <select
+                      value={graceHours}
+                      onChange={(e) => setGraceHours(Number(e.target.value))}
+                      className="bg-gray-700 rounded px-2 py-1"
+                    >
+                      <option value={0}>None</option>
+                      <option value={1}>1 hour</option>
+                      <option value={24}>24 hours</option>
+                      <option value={72}>3 days</option>
+                      <option value={168}>7 days</option>
+                    </select>
+                    <button
+                      onClick={() => handleRotateKey(key)}
+                      className="px-3 py-1 bg-blue-600 rounded flex items-center space-x-1 hover:bg-blue-500"
+                    >
+                      <RefreshCw size={14} />
+                      <span>Rotate</span>
+                    </button>
+                  </div>
                 </div>
 
+                {key.previous_key_expires_at && DateTime.fromISO(key.previous_key_expires_at) > DateTime.now() && (
+                  <p className="text-sm text-yellow-400 mb-4">
+                    The previous key keeps working until{' '}
+                    {DateTime.fromISO(key.previous_key_expires_at).toFormat('yyyy-MM-dd HH:mm:ss')}
+                  </p>
+                )}
+
                 <div className="grid grid-cols-2 gap-4 text-sm mb-4">
                   <div>
                     <span className="text-gray-400">Created:</span>{' '}
@@ -323,12 +475,49 @@ async function getLeads(page = 1, limit = 50) {
                       ? DateTime.fromISO(key.last_used).toFormat('yyyy-MM-dd HH:mm:ss')
                       : 'Never'}
                   </div>
+                  <div>
+                    <span className="text-gray-400">Last Rotated:</span>{' '}
+                    {key.rotated_at
+                      ? DateTime.fromISO(key.rotated_at).toFormat('yyyy-MM-dd HH:mm:ss')
+                      : 'Never'}
+                  </div>
                   <div>
                     <span className="text-gray-400">Allowed IPs:</span>{' '}
                     {key.allowed_ips?.length > 0 ? key.allowed_ips.join(', ') : 'Any'}
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-gray-400">Requests per Minute:</span>
+                    <input
+                      key={`rpm-${key.rate_limit_per_minute}`}
+                      type="number"
+                      min={1}
+                      defaultValue={key.rate_limit_per_minute}
+                      onBlur={(e) => handleUpdateLimits(key, {
+                        rate_limit_per_minute: parseInt(e.target.value) || key.rate_limit_per_minute,
+                        daily_lead_limit: key.daily_lead_limit
+                      })}
+                      className="w-24 bg-gray-700 rounded px-2 py-1"
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-gray-400">Daily Lead Limit:</span>
+                    <input
+                      key={`daily-${key.daily_lead_limit}`}
+                      type="number"
+                      min={1}
+                      defaultValue={key.daily_lead_limit ?? ''}
+                      placeholder="Unlimited"
+                      onBlur={(e) => handleUpdateLimits(key, {
+                        rate_limit_per_minute: key.rate_limit_per_minute,
+                        daily_lead_limit: parseInt(e.target.value) || null
+                      })}
+                      className="w-24 bg-gray-700 rounded px-2 py-1"
+                    />
+                  </div>
                 </div>
 
+                <WebhookSettings apiKeyId={key.id} />
+
                 <div className="bg-blue-900/20 rounded-lg p-4">
                   <h4 className="font-medium flex items-center mb-4">
                     <AlertCircle size={16} className="text-blue-400 mr-2" />
@@ -340,9 +529,9 @@ async function getLeads(page = 1, limit = 50) {
                       <h5 className="font-medium mb-2">Endpoint</h5>
                       <div className="bg-gray-900 rounded p-3 font-mono text-sm">
                         <div className="flex items-center justify-between">
-                          <code>POST {import.meta.env.VITE_SUPABASE_URL}/leads</code>
+                          <code>POST {import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads</code>
                           <button
-                            onClick={() => copyToClipboard(`${import.meta.env.VITE_SUPABASE_URL}/leads`, `url-${key.id}`)}
+                            onClick={() => copyToClipboard(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads`, `url-${key.id}`)}
                             className="text-gray-400 hover:text-white"
                           >
                             {copied === `url-${key.id}` ? <Check size={16} /> : <Copy size={16} />}
@@ -351,6 +540,18 @@ async function getLeads(page = 1, limit = 50) {
                       </div>
                     </div>
 
+                    <div>
+                      <h5 className="font-medium mb-2">Bulk Endpoint</h5>
+                      <div className="bg-gray-900 rounded p-3 font-mono text-sm">
+                        <code>POST {import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads/batch</code>
+                      </div>
+                      <p className="text-sm text-gray-300 mt-2">
+                        Send <code>{'{ "leads": [...] }'}</code> with up to 500 leads, each using the request body below.
+                        The response holds one result per lead, in order, with status <code>created</code>,{' '}
+                        <code>duplicate_email</code>, <code>duplicate_phone</code> or <code>validation_error</code>.
+                      </p>
+                    </div>
+
                     <div>
                       <h5 className="font-medium mb-2">Headers</h5>
                       <table className="w-full text-sm">
@@ -369,9 +570,17 @@ async function getLeads(page = 1, limit = 50) {
                           </tr>
                           <tr>
                             <td className="py-2">X-API-Key</td>
-                            <td><code>{key.api_key}</code></td>
+                            <td><code>{key.key_prefix}…</code></td>
                             <td>Your API key for authentication</td>
                           </tr>
+                          <tr>
+                            <td className="py-2">Idempotency-Key</td>
+                            <td><code>any unique string</code></td>
+                            <td>
+                              Optional, POST only. Retrying with the same key within 24 hours returns the
+                              original response (marked <code>Idempotent-Replayed: true</code>) instead of a duplicate error
+                            </td>
+                          </tr>
                         </tbody>
                       </table>
                     </div>
@@ -416,7 +625,7 @@ async function getLeads(page = 1, limit = 50) {
                             <td className="py-2">country</td>
                             <td>string</td>
                             <td>No</td>
-                            <td>Country name</td>
+                            <td>Country name or ISO code, stored as country_code</td>
                           </tr>
                           <tr>
                             <td className="py-2">brand</td>
@@ -482,9 +691,18 @@ async function getLeads(page = 1, limit = 50) {
                             <td className="py-2">409</td>
                             <td>Lead with this email already exists</td>
                           </tr>
+                          <tr>
+                            <td className="py-2">413</td>
+                            <td>Batch larger than 500 leads</td>
+                          </tr>
                           <tr>
                             <td className="py-2">429</td>
-                            <td>Rate limit exceeded (max 100 requests per minute)</td>
+                            <td>
+                              Rate limit exceeded (max {key.rate_limit_per_minute} requests per minute) or daily lead limit reached.
+                              Wait the number of seconds in the <code>Retry-After</code> header;{' '}
+                              <code>X-RateLimit-Limit</code>, <code>X-RateLimit-Remaining</code> and{' '}
+                              <code>X-RateLimit-Reset</code> come with every response.
+                            </td>
                           </tr>
                           <tr>
                             <td className="py-2">500</td>
@@ -498,10 +716,10 @@ async function getLeads(page = 1, limit = 50) {
                       <h5 className="font-medium mb-2">Example Code</h5>
                       <div className="relative">
                         <pre className="bg-gray-900 p-4 rounded overflow-x-auto">
-                          <code>{getExampleCode(key.api_key)}</code>
+                          <code>{getExampleCode(revealedKey?.id === key.id ? revealedKey.api_key : 'YOUR_API_KEY')}</code>
                         </pre>
                         <button
-                          onClick={() => copyToClipboard(getExampleCode(key.api_key), `code-${key.id}`)}
+                          onClick={() => copyToClipboard(getExampleCode(revealedKey?.id === key.id ? revealedKey.api_key : 'YOUR_API_KEY'), `code-${key.id}`)}
                           className="absolute top-2 right-2 text-gray-400 hover:text-white"
                         >
                           {copied === `code-${key.id}` ? <Check size={16} /> : <Copy size={16} />}
@@ -542,24 +760,17 @@ async function getLeads(page = 1, limit = 50) {
                     </div>
 
                     <div className="flex items-center justify-between text-sm">
-                      <a
-                        href="/api/docs"
-                        target="_blank"
-                        rel="noopener noreferrer"
+                      <Link
+                        to="/api/docs"
+                        state={{ apiKeyId: key.id, apiKey: revealedKey?.id === key.id ? revealedKey.api_key : undefined }}
                         className="text-blue-400 hover:text-blue-300 flex items-center"
                       >
                         <span>View Full API Documentation</span>
                         <ExternalLink size={14} className="ml-1" />
-                      </a>
-                      <a
-                        href="/api/postman"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-blue-400 hover:text-blue-300 flex items-center"
-                      >
-                        <span>Download Postman Collection</span>
-                        <ExternalLink size={14} className="ml-1" />
-                      </a>
+                      </Link>
+                      <span className="text-gray-400">
+                        OpenAPI spec: <code>{import.meta.env.VITE_SUPABASE_URL}/functions/v1/leads/openapi.json</code>
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,365 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronRight, RefreshCw, Search } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { DateTime } from 'luxon';
+
+interface ApiRequestLogEntry {
+  id: number;
+  api_key_id: string | null;
+  key_prefix: string | null;
+  ip_address: string | null;
+  method: string;
+  path: string;
+  query: string | null;
+  status_code: number;
+  error_code: string | null;
+  latency_ms: number;
+  request_body: unknown;
+  created_at: string;
+}
+
+interface ApiKeyOption {
+  id: string;
+  name: string;
+  source_prefix: string;
+}
+
+interface LogFilters {
+  apiKeyId: string;
+  status: string;
+  errorCode: string;
+  from: string;
+  to: string;
+}
+
+interface StatusSummary {
+  total: number;
+  success: number;
+  clientError: number;
+  serverError: number;
+}
+
+const PAGE_SIZE = 50;
+
+const STATUS_OPTIONS = [
+  { value: '', label: 'All statuses' },
+  { value: '2xx', label: '2xx Success' },
+  { value: '4xx', label: '4xx Client errors' },
+  { value: '5xx', label: '5xx Server errors' },
+  { value: '400', label: '400 Validation' },
+  { value: '401', label: '401 Unauthorized' },
+  { value: '403', label: '403 Forbidden' },
+  { value: '409', label: '409 Duplicate' },
+  { value: '429', label: '429 Rate limited' },
+];
+
+const emptyFilters: LogFilters = { apiKeyId: '', status: '', errorCode: '', from: '', to: '' };
+
+const statusStyle = (code: number) => {
+  if (code >= 500) return 'bg-red-600/20 text-red-400';
+  if (code >= 400) return 'bg-yellow-600/20 text-yellow-400';
+  return 'bg-green-600/20 text-green-400';
+};
+
+// One query over the log with the given filters; `status` is passed separately so the
+// summary counts can reuse the other filters with each status class
+const buildLogQuery = (filters: LogFilters, status: string, headOnly: boolean) => {
+  let query = supabase
+    .from('api_request_logs')
+    .select(headOnly ? 'id' : '*', { count: 'exact', head: headOnly });
+
+  if (filters.apiKeyId) query = query.eq('api_key_id', filters.apiKeyId);
+  if (filters.errorCode.trim()) query = query.eq('error_code', filters.errorCode.trim());
+  if (filters.from) query = query.gte('created_at', DateTime.fromISO(filters.from).startOf('day').toUTC().toISO());
+  if (filters.to) query = query.lt('created_at', DateTime.fromISO(filters.to).plus({ days: 1 }).startOf('day').toUTC().toISO());
+
+  if (status.endsWith('xx')) {
+    const base = parseInt(status[0]) * 100;
+    query = query.gte('status_code', base).lt('status_code', base + 100);
+  } else if (status) {
+    query = query.eq('status_code', parseInt(status));
+  }
+
+  return query;
+};
+
+const ApiRequestLog = () => {
+  const [logs, setLogs] = useState<ApiRequestLogEntry[]>([]);
+  const [apiKeys, setApiKeys] = useState<ApiKeyOption[]>([]);
+  const [filters, setFilters] = useState<LogFilters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<LogFilters>(emptyFilters);
+  const [page, setPage] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [summary, setSummary] = useState<StatusSummary | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchApiKeys = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('api_keys')
+          .select('id, name, source_prefix')
+          .order('name');
+
+        if (error) throw error;
+        setApiKeys(data || []);
+      } catch (error) {
+        console.error('Error fetching API keys:', error);
+        toast.error('Failed to fetch API keys');
+      }
+    };
+
+    fetchApiKeys();
+  }, []);
+
+  const fetchLogs = async (currentFilters: LogFilters, currentPage: number) => {
+    setLoading(true);
+    try {
+      const [logsResult, successResult, clientErrorResult, serverErrorResult] = await Promise.all([
+        buildLogQuery(currentFilters, currentFilters.status, false)
+          .order('created_at', { ascending: false })
+          .range(currentPage * PAGE_SIZE, currentPage * PAGE_SIZE + PAGE_SIZE - 1),
+        buildLogQuery(currentFilters, '2xx', true),
+        buildLogQuery(currentFilters, '4xx', true),
+        buildLogQuery(currentFilters, '5xx', true),
+      ]);
+
+      if (logsResult.error) throw logsResult.error;
+
+      setLogs((logsResult.data || []) as ApiRequestLogEntry[]);
+      setTotalCount(logsResult.count || 0);
+      setSummary({
+        total: (successResult.count || 0) + (clientErrorResult.count || 0) + (serverErrorResult.count || 0),
+        success: successResult.count || 0,
+        clientError: clientErrorResult.count || 0,
+        serverError: serverErrorResult.count || 0,
+      });
+    } catch (error) {
+      console.error('Error fetching API request log:', error);
+      toast.error('Failed to fetch API request log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLogs(appliedFilters, page);
+  }, [appliedFilters, page]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(0);
+    setAppliedFilters(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    setPage(0);
+    setAppliedFilters(emptyFilters);
+  };
+
+  const keyName = (entry: ApiRequestLogEntry) => {
+    const key = apiKeys.find(k => k.id === entry.api_key_id);
+    if (key) return key.name;
+    return entry.key_prefix ? `${entry.key_prefix}… (unknown)` : '-';
+  };
+
+  const pageCount = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">API Request Log</h1>
+        <button
+          onClick={() => fetchLogs(appliedFilters, page)}
+          className="px-4 py-2 bg-gray-700 rounded-lg flex items-center space-x-2 hover:bg-gray-600"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          <span>Refresh</span>
+        </button>
+      </div>
+
+      <form onSubmit={handleSearch} className="bg-gray-800 rounded-lg p-4 mb-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">API Key</label>
+          <select
+            value={filters.apiKeyId}
+            onChange={(e) => setFilters({ ...filters, apiKeyId: e.target.value })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+          >
+            <option value="">All keys</option>
+            {apiKeys.map(key => (
+              <option key={key.id} value={key.id}>{key.name} ({key.source_prefix})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Status</label>
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+          >
+            {STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Error Code</label>
+          <input
+            type="text"
+            value={filters.errorCode}
+            onChange={(e) => setFilters({ ...filters, errorCode: e.target.value })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+            placeholder="e.g. duplicate_email"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">From</label>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">To</label>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2"
+          />
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            className="flex-1 px-4 py-2 bg-blue-600 rounded-lg flex items-center justify-center space-x-2 hover:bg-blue-500"
+          >
+            <Search size={16} />
+            <span>Search</span>
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {summary && (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-400">Requests</p>
+            <p className="text-2xl font-bold">{summary.total}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-400">Succeeded (2xx)</p>
+            <p className="text-2xl font-bold text-green-400">{summary.success}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-400">Rejected (4xx)</p>
+            <p className="text-2xl font-bold text-yellow-400">{summary.clientError}</p>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-4">
+            <p className="text-sm text-gray-400">Failed (5xx)</p>
+            <p className="text-2xl font-bold text-red-400">{summary.serverError}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-gray-700 text-left">
+              <th className="px-4 py-3 w-8"></th>
+              <th className="px-4 py-3">Time</th>
+              <th className="px-4 py-3">API Key</th>
+              <th className="px-4 py-3">IP</th>
+              <th className="px-4 py-3">Request</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Error</th>
+              <th className="px-4 py-3 text-right">Latency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!loading && logs.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center text-gray-400">
+                  No requests match these filters
+                </td>
+              </tr>
+            )}
+            {logs.map(entry => (
+              <React.Fragment key={entry.id}>
+                <tr
+                  className="border-t border-gray-700 hover:bg-gray-750 cursor-pointer"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <td className="px-4 py-3 text-gray-400">
+                    {entry.request_body ? (expandedId === entry.id ? <ChevronDown size={14} /> : <ChevronRight size={14} />) : null}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {DateTime.fromISO(entry.created_at).toFormat('yyyy-MM-dd HH:mm:ss')}
+                  </td>
+                  <td className="px-4 py-3">{keyName(entry)}</td>
+                  <td className="px-4 py-3 font-mono">{entry.ip_address || '-'}</td>
+                  <td className="px-4 py-3 font-mono">
+                    {entry.method} {entry.path}{entry.query || ''}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded text-xs ${statusStyle(entry.status_code)}`}>
+                      {entry.status_code}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">{entry.error_code || '-'}</td>
+                  <td className="px-4 py-3 text-right">{entry.latency_ms} ms</td>
+                </tr>
+                {expandedId === entry.id && entry.request_body != null && (
+                  <tr className="bg-gray-900/50">
+                    <td colSpan={8} className="px-4 py-3">
+                      <pre className="bg-gray-900 p-3 rounded overflow-x-auto text-xs max-h-96">
+                        {JSON.stringify(entry.request_body, null, 2)}
+                      </pre>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between px-4 py-3 border-t border-gray-700 text-sm">
+          <span className="text-gray-400">
+            {loading ? 'Loading requests...' : `Showing ${logs.length} of ${totalCount} requests`}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPage(p => Math.max(p - 1, 0))}
+              disabled={page === 0}
+              className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= pageCount}
+              className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiRequestLog;
@@ -1,24 +1,40 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
-import { Plus, Trash2, Edit2, Power, PowerOff } from 'lucide-react';
+import { Plus, Trash2, Edit2, Power, PowerOff, Play, FlaskConical } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { DateTime } from 'luxon';
 import CreateRuleModal from '../components/CreateRuleModal';
+import RunRulesModal from '../components/RunRulesModal';
+import RuleSimulator from '../components/RuleSimulator';
+import AssignmentSettings from '../components/AssignmentSettings';
+import {
+  DISTRIBUTION_LABELS,
+  Distribution,
+  RuleConditions,
+  describeCountries,
+  describeSchedule,
+} from '../utils/assignmentRules';
 
-interface AssignmentRule {
+interface RuleAgent {
   id: string;
-  source_name: string;
-  country_code: string;
-  assigned_agent_id: string;
+  agent_id: string;
+  weight: number;
+  assigned_count: number;
+  agent: {
+    id: string;
+    full_name: string;
+    role: string;
+  } | null;
+}
+
+interface AssignmentRule extends RuleConditions {
+  id: string;
+  distribution: Distribution;
   is_active: boolean;
   priority: number;
   created_at: string;
   updated_at: string;
-  assigned_agent: {
-    id: string;
-    full_name: string;
-    role: string;
-  };
+  agents: RuleAgent[];
 }
 
 const AssignmentRules = () => {
@@ -26,6 +42,8 @@ const AssignmentRules = () => {
   const [loading, setLoading] = useState(true);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null);
+  const [isRunModalOpen, setIsRunModalOpen] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
 
   useEffect(() => {
     fetchRules();
@@ -38,10 +56,16 @@ const AssignmentRules = () => {
         .from('lead_assignment_rules')
         .select(`
           *,
-          assigned_agent:user_profiles!lead_assignment_rules_assigned_agent_id_fkey(
+          agents:lead_assignment_rule_agents(
             id,
-            full_name,
-            role
+            agent_id,
+            weight,
+            assigned_count,
+            agent:user_profiles(
+              id,
+              full_name,
+              role
+            )
           )
         `)
         .order('priority', { ascending: false })
@@ -110,6 +134,18 @@ const AssignmentRules = () => {
     handleModalClose();
   };
 
+  const describeRule = (ruleId: string) => {
+    const rule = rules.find((r) => r.id === ruleId);
+    if (!rule) return 'Unknown rule';
+    return [
+      rule.source_name || 'Any source',
+      describeCountries(rule.country_codes),
+      rule.funnel,
+      rule.brand,
+      rule.desk,
+    ].filter(Boolean).join(' / ');
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -124,18 +160,41 @@ const AssignmentRules = () => {
         <div>
           <h1 className="text-2xl font-bold">Lead Assignment Rules</h1>
           <p className="text-gray-400 mt-1">
-            Automatically assign leads from API based on full source and country code
+            Automatically assign new leads from the API, imports and manual creation based on source, country, funnel, brand, desk and time of day
           </p>
         </div>
-        <button
-          onClick={() => setIsCreateModalOpen(true)}
-          className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500"
-        >
-          <Plus size={16} />
-          <span>Create Rule</span>
-        </button>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setShowSimulator(!showSimulator)}
+            className={`px-4 py-2 rounded-lg flex items-center space-x-2 ${
+              showSimulator ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-700 hover:bg-gray-600'
+            }`}
+          >
+            <FlaskConical size={16} />
+            <span>Test Rules</span>
+          </button>
+          <button
+            onClick={() => setIsRunModalOpen(true)}
+            className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500"
+            disabled={rules.length === 0}
+          >
+            <Play size={16} />
+            <span>Run Rules on Unassigned</span>
+          </button>
+          <button
+            onClick={() => setIsCreateModalOpen(true)}
+            className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500"
+          >
+            <Plus size={16} />
+            <span>Create Rule</span>
+          </button>
+        </div>
       </div>
 
+      <AssignmentSettings />
+
+      {showSimulator && <RuleSimulator describeRule={describeRule} />}
+
       {rules.length === 0 ? (
         <div className="bg-gray-800 rounded-lg p-12 text-center">
           <div className="text-gray-400 mb-4">
@@ -167,7 +226,10 @@ const AssignmentRules = () => {
                   Country
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                  Assigned Agent
+                  Conditions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Agent Pool
                 </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                   Priority
@@ -197,19 +259,54 @@ const AssignmentRules = () => {
                     </button>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="px-3 py-1 bg-blue-600 rounded-full text-sm">
-                      {rule.source_name}
-                    </span>
+                    {rule.source_name ? (
+                      <span className="px-3 py-1 bg-blue-600 rounded-full text-sm">
+                        {rule.source_name}
+                      </span>
+                    ) : (
+                      <span className="text-sm text-gray-400">Any source</span>
+                    )}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className="px-3 py-1 bg-purple-600 rounded-full text-sm">
-                      {rule.country_code}
-                    </span>
+                  <td className="px-6 py-4">
+                    {rule.country_codes?.length ? (
+                      <span className="px-3 py-1 bg-purple-600 rounded-full text-sm" title={rule.country_codes.join(', ')}>
+                        {describeCountries(rule.country_codes)}
+                      </span>
+                    ) : (
+                      <span className="text-sm text-gray-400">Any country</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="flex flex-col space-y-1">
+                      {rule.funnel && <span><span className="text-gray-400">Funnel:</span> {rule.funnel}</span>}
+                      {rule.brand && <span><span className="text-gray-400">Brand:</span> {rule.brand}</span>}
+                      {rule.desk && <span><span className="text-gray-400">Desk:</span> {rule.desk}</span>}
+                      {describeSchedule(rule) && (
+                        <span><span className="text-gray-400">When:</span> {describeSchedule(rule)}</span>
+                      )}
+                      {!rule.funnel && !rule.brand && !rule.desk && !describeSchedule(rule) && (
+                        <span className="text-gray-500">-</span>
+                      )}
+                    </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex flex-col">
-                      <span className="font-medium">{rule.assigned_agent.full_name}</span>
-                      <span className="text-xs text-gray-400">{rule.assigned_agent.role}</span>
+                    <div className="flex flex-col space-y-1">
+                      <span className="text-xs text-gray-400 uppercase tracking-wider">
+                        {DISTRIBUTION_LABELS[rule.distribution]}
+                      </span>
+                      {rule.agents.length === 0 ? (
+                        <span className="text-sm text-yellow-400">No agents - rule is skipped</span>
+                      ) : (
+                        rule.agents.map((ruleAgent) => (
+                          <div key={ruleAgent.id} className="flex items-center space-x-2">
+                            <span className="font-medium">{ruleAgent.agent?.full_name || 'Unknown Agent'}</span>
+                            {rule.distribution === 'weighted' && (
+                              <span className="text-xs text-gray-400">weight {ruleAgent.weight}</span>
+                            )}
+                            <span className="text-xs text-gray-500">{ruleAgent.assigned_count} assigned</span>
+                          </div>
+                        ))
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -249,6 +346,13 @@ const AssignmentRules = () => {
         onRuleCreated={handleRuleCreated}
         editingRule={editingRule}
       />
+
+      <RunRulesModal
+        isOpen={isRunModalOpen}
+        onClose={() => setIsRunModalOpen(false)}
+        onApplied={fetchRules}
+        describeRule={describeRule}
+      />
     </div>
   );
 };
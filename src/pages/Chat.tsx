@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { MessagesSquare, Users, User } from 'lucide-react';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+import {
+  supabase,
+  getCurrentUser,
+  getSubordinateIds,
+  getUserPermissions,
+  type ChatRoom,
+} from '../lib/supabase';
+import ChatThread from '../components/ChatThread';
+
+type ChatContact = {
+  id: string;
+  full_name: string;
+  role: string;
+};
+
+const Chat = () => {
+  const [searchParams] = useSearchParams();
+  const [userId, setUserId] = useState<string | null>(null);
+  const [canChat, setCanChat] = useState<boolean | null>(null);
+  const [canDeleteChat, setCanDeleteChat] = useState(false);
+  const [subordinateIds, setSubordinateIds] = useState<string[]>([]);
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  // Opened from a lead page with ?lead=<id>, the first message is linked to it
+  const leadParam = parseInt(searchParams.get('lead') || '', 10);
+  const initialLeadId = Number.isNaN(leadParam) ? null : leadParam;
+
+  useEffect(() => {
+    const checkAccess = async () => {
+      const user = await getCurrentUser();
+      const permissions = await getUserPermissions();
+      setUserId(user?.id || null);
+      setCanChat(user?.role === 'admin' || permissions?.support?.chat || false);
+      setCanDeleteChat(user?.role === 'admin' || permissions?.support?.deleteChat || false);
+      setSubordinateIds(await getSubordinateIds());
+    };
+
+    checkAccess();
+  }, []);
+
+  const { data: rooms } = useQuery({
+    queryKey: ['chatRooms'],
+    enabled: !!canChat,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_my_chat_rooms');
+
+      if (error) throw error;
+      return data as ChatRoom[];
+    }
+  });
+
+  const { data: contacts } = useQuery({
+    queryKey: ['chatContacts'],
+    enabled: !!canChat,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_chat_contacts');
+
+      if (error) throw error;
+      return data as ChatContact[];
+    }
+  });
+
+  useEffect(() => {
+    if (!selectedRoomId && rooms && rooms.length > 0) {
+      setSelectedRoomId(rooms[0].id);
+    }
+  }, [rooms, selectedRoomId]);
+
+  useEffect(() => {
+    if (!canChat) return;
+
+    // RLS limits the events to rooms the user is a member of
+    const channel = supabase
+      .channel('chat_messages')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'chat_messages' },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ['chatRooms'] });
+          const roomId = (payload.new as { room_id?: string })?.room_id;
+          if (roomId) {
+            queryClient.invalidateQueries({ queryKey: ['chatMessages', roomId] });
+          } else {
+            // Deletes only carry the primary key
+            queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [canChat, queryClient]);
+
+  const handleStartDirect = async (contactId: string) => {
+    if (!contactId) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_or_create_direct_room', { p_user_id: contactId });
+
+      if (error) throw error;
+
+      await queryClient.invalidateQueries({ queryKey: ['chatRooms'] });
+      setSelectedRoomId(data as string);
+    } catch (error) {
+      console.error('Error opening chat:', error);
+      toast.error('Failed to open chat');
+    }
+  };
+
+  if (canChat === null) {
+    return <div className="p-6 text-gray-400">Loading...</div>;
+  }
+
+  if (!canChat) {
+    return (
+      <div className="p-6">
+        <h1 className="text-2xl font-bold">Chat</h1>
+        <p className="text-gray-400 mt-1">You do not have permission to use the chat</p>
+      </div>
+    );
+  }
+
+  const team = contacts?.filter((contact) => subordinateIds.includes(contact.id)) || [];
+  const others = contacts?.filter((contact) => !subordinateIds.includes(contact.id)) || [];
+  const selectedRoom = rooms?.find((room) => room.id === selectedRoomId);
+
+  return (
+    <div className="p-6 h-screen flex flex-col">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Chat</h1>
+        <p className="text-gray-400 mt-1">
+          Message your managers and your team directly, or everyone on your desk
+        </p>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-gray-800 rounded-lg p-4 flex flex-col min-h-0">
+          <select
+            value=""
+            onChange={(e) => handleStartDirect(e.target.value)}
+            className="w-full bg-gray-700 rounded-lg px-3 py-2 mb-4"
+          >
+            <option value="">New message...</option>
+            {team.length > 0 && (
+              <optgroup label="My team">
+                {team.map((contact) => (
+                  <option key={contact.id} value={contact.id}>
+                    {contact.full_name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {others.length > 0 && (
+              <optgroup label="Managers">
+                {others.map((contact) => (
+                  <option key={contact.id} value={contact.id}>
+                    {contact.full_name} ({contact.role})
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+
+          <div className="flex-1 overflow-y-auto space-y-1">
+            {!rooms || rooms.length === 0 ? (
+              <p className="text-gray-400 text-sm">No conversations yet</p>
+            ) : (
+              rooms.map((room) => (
+                <button
+                  key={room.id}
+                  onClick={() => setSelectedRoomId(room.id)}
+                  className={clsx(
+                    'w-full text-left rounded-lg px-3 py-2 hover:bg-gray-700',
+                    room.id === selectedRoomId && 'bg-gray-700'
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      {room.type === 'desk' ? (
+                        <Users size={16} className="text-blue-400 shrink-0" />
+                      ) : (
+                        <User size={16} className="text-gray-400 shrink-0" />
+                      )}
+                      <span className="font-medium truncate">{room.name || 'Deleted user'}</span>
+                    </div>
+                    {room.unread_count > 0 && (
+                      <span className="text-xs px-2 py-0.5 bg-blue-600 rounded-full">{room.unread_count}</span>
+                    )}
+                  </div>
+                  {room.last_message && (
+                    <p className="text-sm text-gray-400 truncate mt-1">{room.last_message}</p>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg lg:col-span-2 flex flex-col min-h-0">
+          {selectedRoom && userId ? (
+            <>
+              <div className="flex items-center space-x-2 border-b border-gray-700 px-4 py-3">
+                {selectedRoom.type === 'desk' ? <Users size={18} /> : <User size={18} />}
+                <h2 className="text-lg font-semibold">{selectedRoom.name || 'Deleted user'}</h2>
+              </div>
+              <div className="flex-1 min-h-0">
+                <ChatThread
+                  key={selectedRoom.id}
+                  roomId={selectedRoom.id}
+                  currentUserId={userId}
+                  canDelete={canDeleteChat}
+                  initialLeadId={initialLeadId}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-gray-400">
+              <MessagesSquare size={32} className="mb-2" />
+              <p>Select a conversation</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Chat;
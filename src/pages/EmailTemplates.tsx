@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Power, PowerOff } from 'lucide-react';
+import { supabase, type EmailTemplate } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { EMAIL_PLACEHOLDERS } from '../utils/email';
+
+interface LeadQuestion {
+  id: string;
+  question: string;
+}
+
+const emptyTemplate = {
+  name: '',
+  subject: '',
+  body: '',
+};
+
+const EmailTemplates = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [questions, setQuestions] = useState<LeadQuestion[]>([]);
+  const [newTemplate, setNewTemplate] = useState(emptyTemplate);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching email templates:', error);
+      toast.error('Failed to fetch email templates');
+    }
+  };
+
+  const fetchQuestions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_questions')
+        .select('id, question')
+        .order('order');
+
+      if (error) throw error;
+      setQuestions(data || []);
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchQuestions();
+  }, []);
+
+  const insertPlaceholder = (placeholder: string) => {
+    setNewTemplate({ ...newTemplate, body: `${newTemplate.body}{{${placeholder}}}` });
+  };
+
+  const handleAddTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .insert({
+          name: newTemplate.name.trim(),
+          subject: newTemplate.subject.trim(),
+          body: newTemplate.body.trim(),
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('A template with this name already exists');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success('Template added');
+      setNewTemplate(emptyTemplate);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error adding email template:', error);
+      toast.error('Failed to add template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (template: EmailTemplate) => {
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error updating email template:', error);
+      toast.error('Failed to update template');
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!window.confirm('Are you sure you want to delete this template?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('email_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      toast.success('Template deleted');
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting email template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Email Templates</h1>
+        <p className="text-gray-400 mt-1">
+          Agents pick a template on the lead page or for a bulk send, placeholders are filled in for each lead
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Add Template</h2>
+          <form onSubmit={handleAddTemplate} className="space-y-4">
+            <div>
+              <label className="block text-sm text-gray-400">Name</label>
+              <input
+                type="text"
+                required
+                value={newTemplate.name}
+                onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                placeholder="Welcome"
+                className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400">Subject</label>
+              <input
+                type="text"
+                required
+                value={newTemplate.subject}
+                onChange={(e) => setNewTemplate({ ...newTemplate, subject: e.target.value })}
+                placeholder="Welcome to {{brand}}, {{first_name}}"
+                className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400">Body</label>
+              <textarea
+                required
+                value={newTemplate.body}
+                onChange={(e) => setNewTemplate({ ...newTemplate, body: e.target.value })}
+                className="w-full h-40 bg-gray-700 rounded-lg px-3 py-2 mt-1"
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {EMAIL_PLACEHOLDERS.map((field) => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => insertPlaceholder(field)}
+                    className="text-xs px-2 py-0.5 bg-gray-700 rounded-full hover:bg-gray-600"
+                  >
+                    {field}
+                  </button>
+                ))}
+                {questions.map((question) => (
+                  <button
+                    key={question.id}
+                    type="button"
+                    onClick={() => insertPlaceholder(`answer:${question.question}`)}
+                    className="text-xs px-2 py-0.5 bg-blue-900/40 rounded-full hover:bg-blue-900/60"
+                    title="Answer to this question"
+                  >
+                    {question.question}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500 disabled:opacity-50"
+            >
+              <Plus size={16} />
+              <span>{loading ? 'Adding...' : 'Add Template'}</span>
+            </button>
+          </form>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Templates</h2>
+          {templates.length === 0 ? (
+            <p className="text-gray-400 text-sm">No templates yet</p>
+          ) : (
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className={`flex items-start justify-between bg-gray-700 rounded-lg px-4 py-2 ${template.is_active ? '' : 'opacity-50'}`}
+                >
+                  <div>
+                    <div className="font-medium">{template.name}</div>
+                    <div className="text-sm text-gray-400">{template.subject}</div>
+                    <p className="text-sm text-gray-300 mt-1 whitespace-pre-wrap line-clamp-3">{template.body}</p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleToggleActive(template)}
+                      className={`p-1 rounded-lg hover:bg-gray-600 ${template.is_active ? 'text-green-500' : 'text-gray-400'}`}
+                      title={template.is_active ? 'Deactivate template' : 'Activate template'}
+                    >
+                      {template.is_active ? <Power size={16} /> : <PowerOff size={16} />}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTemplate(template.id)}
+                      className="text-red-500 hover:text-red-400 p-1 rounded-lg hover:bg-gray-600"
+                      title="Delete template"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailTemplates;
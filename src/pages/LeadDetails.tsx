@@ -11,6 +11,8 @@ import {
   Trash2,
   ChevronLeft,
   ChevronRight,
+  PlayCircle,
+  MessagesSquare,
 } from "lucide-react";
 import {
   supabase,
@@ -26,6 +28,11 @@ import AddDepositModal from "../components/AddDepositModal";
 import DepositHistory from "../components/DepositHistory";
 import StatusBadge from "../components/StatusBadge";
 import LeadQuestionsSection from "../components/LeadQuestionsSection";
+import PossibleDuplicates from "../components/PossibleDuplicates";
+import LeadTasks from "../components/LeadTasks";
+import CallButton from "../components/CallButton";
+import WhatsAppPanel from "../components/WhatsAppPanel";
+import EmailComposer from "../components/EmailComposer";
 
 interface LeadStatus {
   name: string;
@@ -43,11 +50,18 @@ const LeadDetails = () => {
   const [statuses, setStatuses] = useState<LeadStatus[]>([]);
   const [isAddDepositModalOpen, setIsAddDepositModalOpen] = useState(false);
   const [canDeleteComments, setCanDeleteComments] = useState(false);
+  const [canCall, setCanCall] = useState(false);
+  const [canWhatsApp, setCanWhatsApp] = useState(false);
+  const [showWhatsApp, setShowWhatsApp] = useState(false);
+  const [canEmail, setCanEmail] = useState(false);
+  const [showEmail, setShowEmail] = useState(false);
+  const [canChat, setCanChat] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [prevLeadId, setPrevLeadId] = useState<number | null>(null);
   const [nextLeadId, setNextLeadId] = useState<number | null>(null);
   const [allAccessibleLeads, setAllAccessibleLeads] = useState<Lead[]>([]);
+  const [mergeCount, setMergeCount] = useState(0);
 
   useEffect(() => {
     checkPermissions();
@@ -94,6 +108,10 @@ const LeadDetails = () => {
   const checkPermissions = async () => {
     const permissions = await getUserPermissions();
     setCanDeleteComments(permissions?.comments?.delete || false);
+    setCanCall(permissions?.clients?.phone || false);
+    setCanWhatsApp(permissions?.clients?.whatsapp || false);
+    setCanEmail(permissions?.clients?.email || false);
+    setCanChat(permissions?.support?.chat || false);
   };
 
   const fetchCurrentUser = async () => {
@@ -385,6 +403,20 @@ const LeadDetails = () => {
     }
   };
 
+  // A merge moves answers, comments and activities over from the duplicate
+  const handleMerged = () => {
+    fetchLeadData();
+    fetchActivities();
+    fetchComments();
+    setMergeCount((count) => count + 1);
+  };
+
+  // Refetches the lead too, its call count is updated by the logged activity
+  const handleCallLogged = () => {
+    fetchLeadData();
+    fetchActivities();
+  };
+
   const handlePromoteToClient = async () => {
     if (!id || !lead) return;
 
@@ -455,18 +487,41 @@ const LeadDetails = () => {
           <h2 className="text-xl font-semibold mb-4">Personal Information</h2>
           <div className="space-y-4">
             <div className="flex space-x-4">
-              <button className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500">
-                <MessageSquare size={16} />
-                <span>WhatsApp</span>
-              </button>
-              <button className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500">
-                <Phone size={16} />
-                <span>Call</span>
-              </button>
-              <button className="px-4 py-2 bg-purple-600 rounded-lg flex items-center space-x-2 hover:bg-purple-500">
-                <Mail size={16} />
-                <span>Email</span>
-              </button>
+              {(canWhatsApp || currentUser?.role === "admin") && (
+                <button
+                  onClick={() => setShowWhatsApp(!showWhatsApp)}
+                  className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500"
+                >
+                  <MessageSquare size={16} />
+                  <span>WhatsApp</span>
+                </button>
+              )}
+              {(canCall || currentUser?.role === "admin") && currentUser && (
+                <CallButton
+                  lead={lead}
+                  currentUserId={currentUser.id}
+                  onCallLogged={handleCallLogged}
+                />
+              )}
+              {(canEmail || currentUser?.role === "admin") && (
+                <button
+                  onClick={() => setShowEmail(!showEmail)}
+                  className="px-4 py-2 bg-purple-600 rounded-lg flex items-center space-x-2 hover:bg-purple-500"
+                >
+                  <Mail size={16} />
+                  <span>Email</span>
+                </button>
+              )}
+              {(canChat || currentUser?.role === "admin") && (
+                <button
+                  onClick={() => navigate(`/chat?lead=${lead.id}`)}
+                  className="px-4 py-2 bg-gray-700 rounded-lg flex items-center space-x-2 hover:bg-gray-600"
+                  title="Discuss this lead with your team"
+                >
+                  <MessagesSquare size={16} />
+                  <span>Chat</span>
+                </button>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -521,6 +576,24 @@ const LeadDetails = () => {
           </div>
         </div>
 
+        {showWhatsApp && (
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">WhatsApp</h2>
+            <WhatsAppPanel key={lead.id} lead={lead} />
+          </div>
+        )}
+
+        {showEmail && (
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">Email</h2>
+            <EmailComposer
+              key={lead.id}
+              leadIds={[lead.id]}
+              onSent={fetchActivities}
+            />
+          </div>
+        )}
+
         <div className="bg-gray-800 rounded-lg p-6">
           <h2 className="text-xl font-semibold mb-4">Sales Information</h2>
           <div className="space-y-4">
@@ -542,7 +615,18 @@ const LeadDetails = () => {
 
         <div className="bg-gray-800 rounded-lg p-6">
           <h2 className="text-xl font-semibold mb-4">Questions & Answers</h2>
-          <LeadQuestionsSection leadId={id} />
+          <LeadQuestionsSection key={mergeCount} leadId={id} />
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Tasks & Callbacks</h2>
+          {currentUser && (
+            <LeadTasks
+              lead={lead}
+              currentUserId={currentUser.id}
+              onChange={fetchActivities}
+            />
+          )}
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6">
@@ -595,15 +679,50 @@ const LeadDetails = () => {
                 key={activity.id}
                 className="flex items-center space-x-3 text-sm"
               >
-                <LogIn className="text-green-500" size={16} />
+                {activity.type === "call" ? (
+                  <Phone className="text-blue-500" size={16} />
+                ) : activity.type.startsWith("email_") ? (
+                  <Mail
+                    className={
+                      activity.type === "email_bounced"
+                        ? "text-red-500"
+                        : "text-purple-500"
+                    }
+                    size={16}
+                  />
+                ) : (
+                  <LogIn className="text-green-500" size={16} />
+                )}
                 <span className="text-gray-400">
                   {new Date(activity.created_at).toLocaleString()}
                 </span>
                 <span>{activity.description}</span>
+                {activity.metadata?.recording_url && (
+                  <a
+                    href={activity.metadata.recording_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+                  >
+                    <PlayCircle size={14} />
+                    <span>Recording</span>
+                  </a>
+                )}
               </div>
             ))}
           </div>
         </div>
+
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Possible Duplicates</h2>
+          {id && (
+            <PossibleDuplicates
+              leadId={id}
+              canMerge={currentUser?.role === "admin"}
+              onMerged={handleMerged}
+            />
+          )}
+        </div>
       </div>
 
       <AddDepositModal
@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Power, PowerOff, RefreshCw } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import {
+  SCORING_FIELDS,
+  ScoringField,
+  ScoringOperator,
+  ScoringRule,
+  describeScoringRule,
+  getOperatorsForField,
+  getScoreClassName,
+  operatorTakesValue,
+} from '../utils/leadScoring';
+
+interface LeadQuestion {
+  id: string;
+  question: string;
+}
+
+const emptyRule = {
+  field: 'country_code' as ScoringField,
+  question_id: '',
+  operator: 'equals' as ScoringOperator,
+  value: '',
+  points: '10',
+};
+
+const LeadScoring = () => {
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [questions, setQuestions] = useState<LeadQuestion[]>([]);
+  const [newRule, setNewRule] = useState(emptyRule);
+  const [loading, setLoading] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_scoring_rules')
+        .select('*')
+        .order('points', { ascending: false });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching scoring rules:', error);
+      toast.error('Failed to fetch scoring rules');
+    }
+  };
+
+  const fetchQuestions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_questions')
+        .select('id, question')
+        .order('order');
+
+      if (error) throw error;
+      setQuestions(data || []);
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+    fetchQuestions();
+  }, []);
+
+  const handleFieldChange = (field: ScoringField) => {
+    const operators = getOperatorsForField(field);
+    setNewRule({
+      ...newRule,
+      field,
+      question_id: field === 'answer' ? newRule.question_id || questions[0]?.id || '' : '',
+      operator: operators.some((o) => o.value === newRule.operator) ? newRule.operator : operators[0].value,
+    });
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newRule.field === 'answer' && !newRule.question_id) {
+      toast.error('Please select a question');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_rules')
+        .insert({
+          field: newRule.field,
+          question_id: newRule.field === 'answer' ? newRule.question_id : null,
+          operator: newRule.operator,
+          value: operatorTakesValue(newRule.operator) ? newRule.value.trim() : null,
+          points: parseInt(newRule.points, 10),
+        });
+
+      if (error) throw error;
+
+      toast.success('Scoring rule added, recalculate scores to apply it to existing leads');
+      setNewRule({ ...emptyRule, field: newRule.field, operator: newRule.operator, question_id: newRule.question_id });
+      fetchRules();
+    } catch (error) {
+      console.error('Error adding scoring rule:', error);
+      toast.error('Failed to add scoring rule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: ScoringRule) => {
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      console.error('Error updating scoring rule:', error);
+      toast.error('Failed to update scoring rule');
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    if (!window.confirm('Are you sure you want to delete this scoring rule?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+
+      toast.success('Scoring rule deleted');
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting scoring rule:', error);
+      toast.error('Failed to delete scoring rule');
+    }
+  };
+
+  const handleRecalculate = async () => {
+    setRecalculating(true);
+    try {
+      const { data, error } = await supabase.rpc('recalculate_lead_scores');
+
+      if (error) throw error;
+      toast.success(`Updated the score of ${data} lead${data === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error recalculating scores:', error);
+      toast.error('Failed to recalculate scores');
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const questionText = (questionId: string | null) =>
+    questions.find((q) => q.id === questionId)?.question;
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Lead Scoring</h1>
+          <p className="text-gray-400 mt-1">
+            A lead's score is the sum of the points of every active rule it matches. Higher scores are called and auto-assigned first
+          </p>
+        </div>
+        <button
+          onClick={handleRecalculate}
+          disabled={recalculating}
+          className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500 disabled:opacity-50"
+        >
+          <RefreshCw size={16} className={recalculating ? 'animate-spin' : ''} />
+          <span>{recalculating ? 'Recalculating...' : 'Recalculate Scores'}</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Add Scoring Rule</h2>
+          <form onSubmit={handleAddRule} className="space-y-4">
+            <div>
+              <label className="block text-sm text-gray-400">Field</label>
+              <select
+                value={newRule.field}
+                onChange={(e) => handleFieldChange(e.target.value as ScoringField)}
+                className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+              >
+                {SCORING_FIELDS.map((field) => (
+                  <option key={field.value} value={field.value} disabled={field.value === 'answer' && questions.length === 0}>
+                    {field.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {newRule.field === 'answer' && (
+              <div>
+                <label className="block text-sm text-gray-400">Question</label>
+                <select
+                  value={newRule.question_id}
+                  onChange={(e) => setNewRule({ ...newRule, question_id: e.target.value })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+                  required
+                >
+                  {questions.map((question) => (
+                    <option key={question.id} value={question.id}>
+                      {question.question}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-gray-400">Condition</label>
+                <select
+                  value={newRule.operator}
+                  onChange={(e) => setNewRule({ ...newRule, operator: e.target.value as ScoringOperator })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+                >
+                  {getOperatorsForField(newRule.field).map((operator) => (
+                    <option key={operator.value} value={operator.value}>
+                      {operator.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {operatorTakesValue(newRule.operator) && (
+                <div>
+                  <label className="block text-sm text-gray-400">Value</label>
+                  <input
+                    type={['gte', 'lte'].includes(newRule.operator) ? 'number' : 'text'}
+                    required
+                    value={newRule.value}
+                    onChange={(e) => setNewRule({ ...newRule, value: e.target.value })}
+                    placeholder={newRule.operator === 'in' ? 'DE, AT, CH' : ''}
+                    className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+                  />
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400">Points</label>
+              <input
+                type="number"
+                required
+                min="-1000"
+                max="1000"
+                value={newRule.points}
+                onChange={(e) => setNewRule({ ...newRule, points: e.target.value })}
+                className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+              />
+              <p className="text-xs text-gray-500 mt-1">Use negative points to push leads down the list</p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500 disabled:opacity-50"
+            >
+              <Plus size={16} />
+              <span>{loading ? 'Adding...' : 'Add Rule'}</span>
+            </button>
+          </form>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Scoring Rules</h2>
+          {rules.length === 0 ? (
+            <p className="text-gray-400 text-sm">No scoring rules yet, every lead scores 0</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between bg-gray-700 rounded-lg px-4 py-2 ${rule.is_active ? '' : 'opacity-50'}`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreClassName(rule.points)}`}>
+                      {rule.points > 0 ? `+${rule.points}` : rule.points}
+                    </span>
+                    <span>{describeScoringRule(rule, questionText(rule.question_id))}</span>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleToggleActive(rule)}
+                      className={`p-1 rounded-lg hover:bg-gray-600 ${rule.is_active ? 'text-green-500' : 'text-gray-400'}`}
+                      title={rule.is_active ? 'Deactivate rule' : 'Activate rule'}
+                    >
+                      {rule.is_active ? <Power size={16} /> : <PowerOff size={16} />}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteRule(rule.id)}
+                      className="text-red-500 hover:text-red-400 p-1 rounded-lg hover:bg-gray-600"
+                      title="Delete rule"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeadScoring;
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DateTime } from 'luxon';
+import { Check, Clock } from 'lucide-react';
+import clsx from 'clsx';
+import toast from 'react-hot-toast';
+import { supabase, getCurrentUser, type LeadTask } from '../lib/supabase';
+import { getLocalTime } from '../utils/time';
+import { formatDueTime, getTaskTypeLabel } from '../utils/tasks';
+
+type MyTask = LeadTask & {
+  lead: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    phone: string | null;
+    country: string | null;
+    country_code: string | null;
+    status: string;
+  } | null;
+};
+
+// Open tasks due within the next week, the rest shows up on the lead itself
+const UPCOMING_DAYS = 7;
+
+const MyDay = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    getCurrentUser().then((user) => setUserId(user?.id || null));
+  }, []);
+
+  const { data: tasks, isLoading } = useQuery({
+    queryKey: ['myTasks', userId],
+    enabled: !!userId,
+    refetchInterval: 60000,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('lead_tasks')
+        .select('*, lead:leads(id, first_name, last_name, phone, country, country_code, status)')
+        .eq('assigned_to', userId)
+        .is('completed_at', null)
+        .lte('due_at', DateTime.now().plus({ days: UPCOMING_DAYS }).endOf('day').toUTC().toISO())
+        .order('due_at');
+
+      if (error) throw error;
+      return data as MyTask[];
+    }
+  });
+
+  const handleComplete = async (task: MyTask) => {
+    try {
+      const { error } = await supabase
+        .from('lead_tasks')
+        .update({ completed_at: new Date().toISOString(), completed_by: userId })
+        .eq('id', task.id);
+
+      if (error) throw error;
+
+      toast.success(`${getTaskTypeLabel(task.type)} completed`);
+      queryClient.invalidateQueries({ queryKey: ['myTasks'] });
+      queryClient.invalidateQueries({ queryKey: ['leadTasks', task.lead_id] });
+    } catch (error) {
+      console.error('Error completing task:', error);
+      toast.error('Failed to complete task');
+    }
+  };
+
+  const now = DateTime.now();
+  const endOfToday = now.endOf('day');
+  const groups = [
+    { title: 'Overdue', tasks: (tasks || []).filter((t) => DateTime.fromISO(t.due_at) < now) },
+    {
+      title: 'Today',
+      tasks: (tasks || []).filter((t) => DateTime.fromISO(t.due_at) >= now && DateTime.fromISO(t.due_at) <= endOfToday),
+    },
+    { title: `Next ${UPCOMING_DAYS} Days`, tasks: (tasks || []).filter((t) => DateTime.fromISO(t.due_at) > endOfToday) },
+  ];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">My Day</h1>
+        <p className="text-gray-400 mt-1">Your open callbacks and follow-ups, earliest due first</p>
+      </div>
+
+      {isLoading || !userId ? (
+        <div className="text-gray-400">Loading tasks...</div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <div key={group.title} className="bg-gray-800 rounded-lg p-6">
+              <h2 className={clsx('text-xl font-semibold mb-4', group.title === 'Overdue' && group.tasks.length > 0 && 'text-red-400')}>
+                {group.title} <span className="text-gray-400 text-base">{group.tasks.length}</span>
+              </h2>
+              {group.tasks.length === 0 ? (
+                <p className="text-gray-400 text-sm">Nothing here</p>
+              ) : (
+                <div className="space-y-2">
+                  {group.tasks.map((task) => {
+                    const country = task.lead?.country_code || task.lead?.country || null;
+                    return (
+                      <div key={task.id} className="bg-gray-700 rounded-lg px-4 py-3 flex items-center justify-between">
+                        <div>
+                          <div className="flex items-center space-x-2">
+                            <span className="text-xs px-2 py-0.5 bg-gray-600 rounded-full">{getTaskTypeLabel(task.type)}</span>
+                            <span className="font-medium">{task.title}</span>
+                          </div>
+                          <div className="text-sm text-gray-400 mt-1">
+                            {task.lead ? (
+                              <Link to={`/lead/${task.lead.id}`} className="text-blue-400 hover:text-blue-300">
+                                {task.lead.first_name} {task.lead.last_name} #{task.lead.id}
+                              </Link>
+                            ) : (
+                              'Deleted lead'
+                            )}
+                            {task.lead?.phone && <span> • {task.lead.phone}</span>}
+                            {task.lead && <span> • {task.lead.status}</span>}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                          <div className="text-right text-sm">
+                            <div className={clsx(group.title === 'Overdue' ? 'text-red-400' : 'text-gray-300')}>
+                              {formatDueTime(task.due_at, country)}
+                            </div>
+                            <div className="text-xs text-gray-500 flex items-center justify-end space-x-1">
+                              <Clock size={12} />
+                              <span>Client time now {getLocalTime(country)}</span>
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleComplete(task)}
+                            className="p-2 bg-green-600 rounded-lg hover:bg-green-500"
+                            title="Mark as done"
+                          >
+                            <Check size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyDay;
@@ -1,15 +1,18 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import DataTable from '../components/DataTable';
+import DataTable, { type DataTableQuery } from '../components/DataTable';
 import { Filter, ArrowDown, Copy, Check } from 'lucide-react';
-import { supabase, type Lead, getCurrentUser } from '../lib/supabase';
+import { supabase, type Lead, getCurrentUser, getVisibleLeads, getVisibleLeadFacets } from '../lib/supabase';
 import AssignAgentSelect from '../components/AssignAgentSelect';
 import ExportMenu from '../components/ExportMenu';
 import BulkActions from '../components/BulkActions';
 import StatusBadge from '../components/StatusBadge';
 import toast from 'react-hot-toast';
 import { getLocalTime } from '../utils/time';
+import { getCountryName } from '../utils/countries';
+import { getScoreClassName } from '../utils/leadScoring';
 import { DateTime } from 'luxon';
+import { buildLeadPageQuery } from '../utils/leadQuery';
 
 interface LeadStatus {
   name: string;
@@ -19,6 +22,8 @@ interface LeadStatus {
 const Retention = () => {
   const navigate = useNavigate();
   const [leads, setLeads] = useState<Lead[]>([]);
+  const [totalLeads, setTotalLeads] = useState(0);
+  const [tableQuery, setTableQuery] = useState<DataTableQuery | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [statuses, setStatuses] = useState<LeadStatus[]>([]);
@@ -35,17 +40,6 @@ const Retention = () => {
     initializeComponent();
   }, []);
 
-  useEffect(() => {
-    if (currentUser) {
-      fetchLeads();
-      const subscription = setupRealtimeSubscription();
-      
-      return () => {
-        subscription?.unsubscribe();
-      };
-    }
-  }, [currentUser, refreshTrigger]);
-
   const initializeComponent = async () => {
     const user = await getCurrentUser();
     setCurrentUser(user);
@@ -56,95 +50,27 @@ const Retention = () => {
     setCanPerformAdminActions(user?.role === 'admin');
   };
 
-  const getSubordinateIds = async () => {
-    // Implementation for getting subordinate IDs
-    return [];
-  };
-
   const fetchLeads = useCallback(async () => {
-    if (!currentUser) return;
+    if (!currentUser || !tableQuery) return;
 
     setLoading(true);
-    setLeads([]);
 
     try {
-      // Fetch all converted leads in batches to avoid memory issues
-      let allLeads: any[] = [];
-      let hasMore = true;
-      let offset = 0;
-      const batchSize = 1000;
-
-      console.log('🔄 [Retention] Starting to fetch all converted leads...');
-
-      while (hasMore) {
-        const { data, error } = await supabase
-          .from('leads')
-          .select(`
-            *,
-            assigned_to_user:user_profiles!leads_assigned_to_fkey(
-              id,
-              full_name,
-              role
-            )
-          `)
-          .eq('is_converted', true)
-          .order('converted_at', { ascending: false })
-          .range(offset, offset + batchSize - 1);
-
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          allLeads = [...allLeads, ...data];
-          console.log(`📦 [Retention] Loaded batch: ${data.length} leads (total: ${allLeads.length})`);
-          
-          if (data.length < batchSize) {
-            hasMore = false;
-          } else {
-            offset += batchSize;
-          }
-        } else {
-          hasMore = false;
-        }
-      }
-
-      console.log(`✅ [Retention] Finished loading all converted leads: ${allLeads.length}`);
-      let subordinateIds: string[] = [];
-      if (['desk', 'manager'].includes(currentUser.role)) {
-        subordinateIds = await getSubordinateIds();
-        console.log(`👥 [Retention] Subordinate IDs for ${currentUser.full_name} (${currentUser.role}):`, subordinateIds);
-      }
-
-      let filteredLeads = allLeads;
-
-      if (currentUser.role === 'admin') {
-        // Admins see all leads, no further filtering needed
-        console.log(`👑 [Retention] Admin user - showing all ${allLeads.length} leads`);
-      } else if (currentUser.role === 'desk') {
-        filteredLeads = filteredLeads.filter(lead =>
-          (lead.desk === currentUser.full_name) ||
-          (lead.assigned_to === currentUser.id) ||
-          (lead.assigned_to && subordinateIds.includes(lead.assigned_to))
-        );
-      } else if (currentUser.role === 'manager') {
-        filteredLeads = filteredLeads.filter(lead =>
-          (lead.assigned_to === currentUser.id) ||
-          (lead.assigned_to && subordinateIds.includes(lead.assigned_to))
-        );
-      } else if (currentUser.role === 'agent') {
-        // Agents can only see leads assigned to them (no unassigned leads)
-        filteredLeads = filteredLeads.filter(lead => 
-          lead.assigned_to === currentUser.id
-        );
-      }
-      
-      setLeads(filteredLeads);
+      const page = await getVisibleLeads(buildLeadPageQuery(true, tableQuery));
+      setLeads(page.leads);
+      setTotalLeads(page.total);
     } catch (error) {
       console.error('Error fetching leads:', error);
       toast.error('Failed to fetch leads');
     } finally {
       setLoading(false);
     }
-  }, [currentUser]);
+  }, [currentUser, tableQuery]);
+
+  const fetchFacetValues = useCallback(
+    (columnId: string) => getVisibleLeadFacets(true, columnId),
+    []
+  );
 
   const setupRealtimeSubscription = useCallback(() => {
     if (!currentUser) return null;
@@ -186,6 +112,22 @@ const Retention = () => {
     return channel;
   }, [currentUser]);
 
+  useEffect(() => {
+    if (currentUser) {
+      fetchLeads();
+    }
+  }, [currentUser, refreshTrigger, fetchLeads]);
+
+  useEffect(() => {
+    if (currentUser) {
+      const subscription = setupRealtimeSubscription();
+
+      return () => {
+        subscription?.unsubscribe();
+      };
+    }
+  }, [currentUser, setupRealtimeSubscription]);
+
   const fetchStatuses = async () => {
     try {
       const { data, error } = await supabase
@@ -325,6 +267,7 @@ const Retention = () => {
     },
     { 
       header: 'Full Name',
+      id: 'full_name',
       accessorFn: (row) => `${row.first_name} ${row.last_name}`,
       enableColumnFilter: true,
     },
@@ -375,13 +318,15 @@ const Retention = () => {
     { 
       header: 'Country',
       accessorKey: 'country',
+      cell: ({ row }: { row: { original: Lead } }) => getCountryName(row.original.country_code) || row.original.country,
       enableColumnFilter: true,
     },
     {
       header: 'Local Time',
-      accessorFn: (row) => getLocalTime(row.country),
+      accessorFn: (row) => getLocalTime(row.country_code || row.country),
       cell: ({ getValue }) => getValue(),
       enableColumnFilter: false,
+      enableSorting: false,
     },
     { 
       header: 'Source',
@@ -409,6 +354,16 @@ const Retention = () => {
       ),
       enableColumnFilter: true,
     },
+    {
+      header: 'Score',
+      accessorKey: 'score',
+      cell: ({ row }: { row: { original: Lead } }) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreClassName(row.original.score)}`}>
+          {row.original.score}
+        </span>
+      ),
+      enableColumnFilter: false,
+    },
     {
       header: 'Assigned To',
       id: 'assigned_to_name',
@@ -489,7 +444,7 @@ const Retention = () => {
           {loading && (
             <div className="flex items-center space-x-2 text-sm text-gray-400">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
-              <span>Loading all leads...</span>
+              <span>Loading leads...</span>
             </div>
           )}
           <div className="flex space-x-3">
@@ -509,7 +464,7 @@ const Retention = () => {
         
         {leads.length > 0 && (
           <div className="text-sm text-gray-400">
-            Showing {leads.length} leads (all loaded)
+            Showing {leads.length} of {totalLeads} leads
           </div>
         )}
       </div>
@@ -522,6 +477,9 @@ const Retention = () => {
             rowSelection={dataTableSelection}
             onRowSelectionChange={setDataTableSelection}
             onSelectedRowsChange={setSelectedLeads}
+            totalCount={totalLeads}
+            onQueryChange={setTableQuery}
+            getFacetValues={fetchFacetValues}
           />
         </div>
       </div>
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import DataTable from "../components/DataTable";
+import DataTable, { type DataTableQuery } from "../components/DataTable";
 import {
   Filter,
   Plus,
@@ -8,11 +8,14 @@ import {
   Euro as EuroSign,
   Copy,
   Check,
+  AlarmClock,
+  Phone,
 } from "lucide-react";
 import {
   supabase,
   getCurrentUser,
-  getSubordinateIds,
+  getVisibleLeads,
+  getVisibleLeadFacets,
   type Lead,
 } from "../lib/supabase";
 import CreateLeadModal from "../components/CreateLeadModal";
@@ -24,8 +27,12 @@ import AddDepositModal from "../components/AddDepositModal";
 import StatusBadge from "../components/StatusBadge";
 import toast from "react-hot-toast";
 import { getLocalTime } from "../utils/time";
+import { getCountryName } from "../utils/countries";
+import { getScoreClassName } from "../utils/leadScoring";
+import { formatDueTime, isOverdue } from "../utils/tasks";
 import { DateTime } from "luxon";
 import { useUsers } from "../hooks/useUsers";
+import { buildLeadPageQuery } from "../utils/leadQuery";
 
 interface LeadStatus {
   name: string;
@@ -36,6 +43,8 @@ const SalesLeads = () => {
   const navigate = useNavigate();
   const { users } = useUsers();
   const [leads, setLeads] = useState<Lead[]>([]);
+  const [totalLeads, setTotalLeads] = useState(0);
+  const [tableQuery, setTableQuery] = useState<DataTableQuery | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [statuses, setStatuses] = useState<LeadStatus[]>([]);
@@ -75,176 +84,26 @@ const SalesLeads = () => {
   };
 
   const fetchLeads = useCallback(async () => {
-    if (!currentUser) return;
+    if (!currentUser || !tableQuery) return;
 
     setLoading(true);
-    setLeads([]);
 
     try {
-      const batchSize = 1000;
-      let offset = 0;
-      let allLeads: Lead[] = [];
-      let hasMore = true;
-
-      console.log("🔄 [SalesLeads] Starting incremental lead fetch...");
-
-      // Step 1️⃣: Fetch the first batch (fast initial render)
-      const { data: firstBatch, error: firstError } = await supabase
-        .from("leads")
-        .select(
-          `
-        *,
-        assigned_to_user:user_profiles!leads_assigned_to_fkey(
-          id,
-          full_name,
-          role
-        )
-      `
-        )
-        .eq("is_converted", false)
-        .order("created_at", { ascending: false })
-        .range(0, batchSize - 1);
-
-      if (firstError) throw firstError;
-      allLeads = firstBatch || [];
-      offset += batchSize;
-
-      // Apply hierarchy filtering before showing first batch
-      let subordinateIds: string[] = [];
-      if (["desk", "manager"].includes(currentUser.role)) {
-        subordinateIds = await getSubordinateIds();
-      }
-
-      let filteredFirstBatch = allLeads;
-
-      if (currentUser.role === "admin") {
-        // Admins see all leads
-      } else if (currentUser.role === "desk") {
-        filteredFirstBatch = allLeads.filter(
-          (lead) =>
-            lead.desk === currentUser.full_name ||
-            lead.assigned_to === currentUser.id ||
-            (lead.assigned_to && subordinateIds.includes(lead.assigned_to))
-        );
-      } else if (currentUser.role === "manager") {
-        filteredFirstBatch = allLeads.filter(
-          (lead) =>
-            lead.assigned_to === currentUser.id ||
-            (lead.assigned_to && subordinateIds.includes(lead.assigned_to))
-        );
-      } else if (currentUser.role === "agent") {
-        filteredFirstBatch = allLeads.filter(
-          (lead) => lead.assigned_to === currentUser.id
-        );
-      }
-
-      // Show the first filtered batch immediately
-      setLeads(filteredFirstBatch);
-      console.log(`🚀 Rendered first ${filteredFirstBatch.length} leads`);
-
-      // Step 2️⃣: Background load of remaining leads
-      const loadRemaining = async () => {
-        let iterations = 0;
-        const maxIterations = 100;
-
-        while (hasMore && iterations < maxIterations) {
-          iterations++;
-          console.log(
-            `🔄 [SalesLeads] Fetching batch ${iterations}, offset: ${offset}`
-          );
-
-          const { data, error } = await supabase
-            .from("leads")
-            .select(
-              `
-            *,
-            assigned_to_user:user_profiles!leads_assigned_to_fkey(
-              id,
-              full_name,
-              role
-            )
-          `
-            )
-            .eq("is_converted", false)
-            .order("created_at", { ascending: false })
-            .range(offset, offset + batchSize - 1);
-
-          if (error) {
-            console.error("❌ Error loading next batch:", error);
-            break;
-          }
-
-          if (data && data.length > 0) {
-            console.log(
-              `📊 Received ${data.length} leads from database in batch ${iterations}`
-            );
-            offset += batchSize;
-
-            // Apply hierarchy filtering on new batch
-            let filteredBatch = data;
-            if (currentUser.role === "admin") {
-              // all ok
-            } else if (currentUser.role === "desk") {
-              filteredBatch = data.filter(
-                (lead) =>
-                  lead.desk === currentUser.full_name ||
-                  lead.assigned_to === currentUser.id ||
-                  (lead.assigned_to &&
-                    subordinateIds.includes(lead.assigned_to))
-              );
-            } else if (currentUser.role === "manager") {
-              filteredBatch = data.filter(
-                (lead) =>
-                  lead.assigned_to === currentUser.id ||
-                  (lead.assigned_to &&
-                    subordinateIds.includes(lead.assigned_to))
-              );
-            } else if (currentUser.role === "agent") {
-              filteredBatch = data.filter(
-                (lead) => lead.assigned_to === currentUser.id
-              );
-            }
-
-            // Append new filtered leads
-            if (filteredBatch.length > 0) {
-              setLeads((prev) => {
-                const seen = new Set(prev.map((l) => l.id));
-                const newOnes = filteredBatch.filter((l) => !seen.has(l.id));
-                if (newOnes.length === 0) return prev;
-                return [...prev, ...newOnes];
-              });
-              console.log(
-                `📦 Added ${filteredBatch.length} more leads (total now visible)`
-              );
-            } else {
-              console.log(
-                `⏭️ Batch had 0 leads after filtering, continuing...`
-              );
-            }
-
-            if (data.length < batchSize) hasMore = false;
-          } else {
-            hasMore = false;
-          }
-        }
-
-        if (iterations >= maxIterations) {
-          console.warn("⚠️ Reached maximum iterations, stopping lead fetch");
-        }
-        console.log(
-          `✅ Finished loading all leads. Total iterations: ${iterations}, Final offset: ${offset}`
-        );
-        setLoading(false);
-      };
-
-      // Fire background load (don’t block UI)
-      loadRemaining();
+      const page = await getVisibleLeads(buildLeadPageQuery(false, tableQuery));
+      setLeads(page.leads);
+      setTotalLeads(page.total);
     } catch (error) {
       console.error("Error fetching leads:", error);
       toast.error("Failed to fetch leads");
+    } finally {
       setLoading(false);
     }
-  }, [currentUser]);
+  }, [currentUser, tableQuery]);
+
+  const fetchFacetValues = useCallback(
+    (columnId: string) => getVisibleLeadFacets(false, columnId),
+    []
+  );
 
   const clearSelections = () => {
     setDataTableSelection({});
@@ -471,6 +330,7 @@ const SalesLeads = () => {
       },
       {
         header: "Full Name",
+        id: "full_name",
         accessorFn: (row) => `${row.first_name} ${row.last_name}`,
         enableColumnFilter: true,
       },
@@ -525,13 +385,15 @@ const SalesLeads = () => {
       {
         header: "Country",
         accessorKey: "country",
+        cell: ({ row }: { row: { original: Lead } }) => getCountryName(row.original.country_code) || row.original.country,
         enableColumnFilter: true,
       },
       {
         header: "Local Time",
-        accessorFn: (row) => getLocalTime(row.country),
+        accessorFn: (row) => getLocalTime(row.country_code || row.country),
         cell: ({ getValue }) => getValue(),
         enableColumnFilter: false,
+        enableSorting: false,
       },
       {
         header: "Source",
@@ -556,6 +418,53 @@ const SalesLeads = () => {
         ),
         enableColumnFilter: true,
       },
+      {
+        header: "Score",
+        accessorKey: "score",
+        cell: ({ row }: { row: { original: Lead } }) => (
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-medium ${getScoreClassName(row.original.score)}`}
+          >
+            {row.original.score}
+          </span>
+        ),
+        enableColumnFilter: false,
+      },
+      {
+        header: "Next Task",
+        accessorKey: "next_task_at",
+        cell: ({ row }: { row: { original: Lead } }) =>
+          row.original.next_task_at ? (
+            <span
+              className={`flex items-center space-x-1 text-sm ${isOverdue(row.original.next_task_at) ? "text-red-400" : "text-gray-300"}`}
+              title={formatDueTime(row.original.next_task_at, row.original.country_code || row.original.country)}
+            >
+              <AlarmClock size={14} />
+              <span>{DateTime.fromISO(row.original.next_task_at).toRelative()}</span>
+            </span>
+          ) : (
+            "-"
+          ),
+        enableColumnFilter: false,
+      },
+      {
+        header: "Calls",
+        accessorKey: "call_count",
+        cell: ({ row }: { row: { original: Lead } }) => (
+          <span
+            className="flex items-center space-x-1 text-sm text-gray-300"
+            title={
+              row.original.last_call_at
+                ? `Last call ${DateTime.fromISO(row.original.last_call_at).toRelative()}`
+                : "Never called"
+            }
+          >
+            <Phone size={14} />
+            <span>{row.original.call_count}</span>
+          </span>
+        ),
+        enableColumnFilter: false,
+      },
       {
         header: "Assigned To",
         id: "assigned_to_name",
@@ -637,7 +546,7 @@ const SalesLeads = () => {
           {loading && (
             <div className="flex items-center space-x-2 text-sm text-gray-400">
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-500"></div>
-              <span>Loading all leads...</span>
+              <span>Loading leads...</span>
             </div>
           )}
           <div className="flex space-x-3">
@@ -679,7 +588,7 @@ const SalesLeads = () => {
 
         {leads.length > 0 && (
           <div className="text-sm text-gray-400">
-            Showing {leads.length} leads (all loaded)
+            Showing {leads.length} of {totalLeads} leads
           </div>
         )}
       </div>
@@ -693,6 +602,12 @@ const SalesLeads = () => {
             onRowSelectionChange={setDataTableSelection}
             onSelectedRowsChange={setSelectedLeads}
             getRowId={(row: Lead) => row.id.toString()}
+            totalCount={totalLeads}
+            onQueryChange={setTableQuery}
+            getFacetValues={fetchFacetValues}
+            getRowClassName={(row: Lead) =>
+              isOverdue(row.next_task_at) ? "bg-red-900/20" : undefined
+            }
           />
         </div>
       </div>
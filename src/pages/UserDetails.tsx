@@ -1,9 +1,18 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Save, Key, Mail, Lock } from 'lucide-react';
-import { supabase, getUserById, updateUserPassword, getUserPermissions, type UserProfile, type UserPermissions } from '../lib/supabase';
+import { ArrowLeft, Save, Key, Mail, Lock, Gauge, CalendarOff } from 'lucide-react';
+import { DateTime } from 'luxon';
+import { supabase, getUserById, updateUserPassword, getUserPermissions, getAgentCapacity, type AgentCapacity, type Availability, type UserProfile, type UserPermissions } from '../lib/supabase';
+import { AVAILABILITY_OPTIONS, getAvailabilityOption, getEffectiveAvailability } from '../utils/availability';
 import toast from 'react-hot-toast';
 
+// datetime-local inputs work in the browser's time zone without an offset
+const toLocalInput = (value: string | null) =>
+  value ? DateTime.fromISO(value).toFormat("yyyy-MM-dd'T'HH:mm") : '';
+
+const fromLocalInput = (value: string) =>
+  value ? DateTime.fromISO(value).toISO() : null;
+
 const UserDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
@@ -12,6 +21,18 @@ const UserDetails = () => {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [newPassword, setNewPassword] = useState('');
+  const [allUsers, setAllUsers] = useState<UserProfile[]>([]);
+  const [capacity, setCapacity] = useState<AgentCapacity | null>(null);
+  const [capacityForm, setCapacityForm] = useState({
+    max_open_leads: '',
+    max_daily_leads: '',
+    overflow_user_id: ''
+  });
+  const [availabilityForm, setAvailabilityForm] = useState({
+    availability: 'available' as Availability,
+    leave_starts_at: '',
+    leave_ends_at: ''
+  });
   const [permissions, setPermissions] = useState<UserPermissions>({
     clients: {
       view: false,
@@ -48,6 +69,19 @@ const UserDetails = () => {
     try {
       const userData = await getUserById(id);
       setUser(userData);
+      setCapacityForm({
+        max_open_leads: userData.max_open_leads?.toString() ?? '',
+        max_daily_leads: userData.max_daily_leads?.toString() ?? '',
+        overflow_user_id: userData.overflow_user_id ?? ''
+      });
+      setAvailabilityForm({
+        availability: userData.availability,
+        leave_starts_at: toLocalInput(userData.leave_starts_at),
+        leave_ends_at: toLocalInput(userData.leave_ends_at)
+      });
+
+      const [userCapacity] = await getAgentCapacity([id]);
+      setCapacity(userCapacity || null);
 
       // Fetch user permissions
       const userPermissions = await getUserPermissions(id);
@@ -79,9 +113,25 @@ const UserDetails = () => {
     }
   };
 
+  const fetchAllUsers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .neq('role', 'admin')
+        .order('full_name');
+
+      if (error) throw error;
+      setAllUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
   useEffect(() => {
     fetchUser();
     fetchManagers();
+    fetchAllUsers();
   }, [id]);
 
   const handleRoleChange = async (newRole: 'admin' | 'manager' | 'agent') => {
@@ -122,6 +172,56 @@ const UserDetails = () => {
     }
   };
 
+  const handleSaveCapacity = async () => {
+    if (!user) return;
+
+    const parseLimit = (value: string) => (value.trim() === '' ? null : Math.max(0, parseInt(value, 10)));
+
+    try {
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({
+          max_open_leads: parseLimit(capacityForm.max_open_leads),
+          max_daily_leads: parseLimit(capacityForm.max_daily_leads),
+          overflow_user_id: capacityForm.overflow_user_id || null
+        })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      toast.success('Capacity updated successfully');
+      fetchUser();
+    } catch (error) {
+      console.error('Error updating capacity:', error);
+      toast.error('Failed to update capacity');
+    }
+  };
+
+  const handleSaveAvailability = async () => {
+    if (!user) return;
+
+    const onLeave = availabilityForm.availability === 'on_leave';
+
+    try {
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({
+          availability: availabilityForm.availability,
+          leave_starts_at: onLeave ? fromLocalInput(availabilityForm.leave_starts_at) : null,
+          leave_ends_at: onLeave ? fromLocalInput(availabilityForm.leave_ends_at) : null
+        })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      toast.success('Availability updated successfully');
+      fetchUser();
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      toast.error('Failed to update availability');
+    }
+  };
+
   const handlePasswordChange = async () => {
     if (!user || !newPassword) return;
 
@@ -292,6 +392,144 @@ const UserDetails = () => {
               )}
             </div>
           </div>
+
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4 flex items-center">
+              <CalendarOff className="mr-2" size={20} />
+              Availability
+            </h2>
+
+            <p className="text-sm text-gray-400 mb-4 flex items-center">
+              <span className={`w-2 h-2 rounded-full mr-2 ${getAvailabilityOption(getEffectiveAvailability(user)).dotClassName}`} />
+              Currently {getAvailabilityOption(getEffectiveAvailability(user)).label.toLowerCase()}. Offline and on leave users are skipped by assignment rules.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Status</label>
+                <select
+                  value={availabilityForm.availability}
+                  onChange={(e) => setAvailabilityForm({ ...availabilityForm, availability: e.target.value as Availability })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                >
+                  {AVAILABILITY_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {availabilityForm.availability === 'on_leave' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-gray-400 mb-1">Leave Starts</label>
+                    <input
+                      type="datetime-local"
+                      value={availabilityForm.leave_starts_at}
+                      onChange={(e) => setAvailabilityForm({ ...availabilityForm, leave_starts_at: e.target.value })}
+                      className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm text-gray-400 mb-1">Leave Ends</label>
+                    <input
+                      type="datetime-local"
+                      value={availabilityForm.leave_ends_at}
+                      min={availabilityForm.leave_starts_at || undefined}
+                      onChange={(e) => setAvailabilityForm({ ...availabilityForm, leave_ends_at: e.target.value })}
+                      className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500">
+                    Leave blank for an open ended leave. Outside these dates the user counts as available.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSaveAvailability}
+                  className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500"
+                >
+                  <Save size={16} />
+                  <span>Save Availability</span>
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4 flex items-center">
+              <Gauge className="mr-2" size={20} />
+              Lead Capacity
+            </h2>
+
+            {capacity && (
+              <p className="text-sm text-gray-400 mb-4">
+                Currently holds {capacity.open_leads} open lead{capacity.open_leads === 1 ? '' : 's'} and received {capacity.today_leads} today (UTC).
+                {!capacity.has_capacity && <span className="text-red-400"> At capacity, new leads overflow.</span>}
+              </p>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Max Open Leads</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={capacityForm.max_open_leads}
+                    onChange={(e) => setCapacityForm({ ...capacityForm, max_open_leads: e.target.value })}
+                    placeholder="No limit"
+                    className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-400 mb-1">Max Leads per Day</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={capacityForm.max_daily_leads}
+                    onChange={(e) => setCapacityForm({ ...capacityForm, max_daily_leads: e.target.value })}
+                    placeholder="No limit"
+                    className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Overflow To</label>
+                <select
+                  value={capacityForm.overflow_user_id}
+                  onChange={(e) => setCapacityForm({ ...capacityForm, overflow_user_id: e.target.value })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2"
+                >
+                  <option value="">Leave unassigned</option>
+                  {allUsers
+                    .filter(u => u.id !== user.id)
+                    .map((u) => (
+                      <option key={u.id} value={u.id}>
+                        {u.role === 'desk' ? `${u.full_name} (desk queue)` : `${u.full_name} (${u.role})`}
+                      </option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Receives auto-assigned and randomly distributed leads once this user is full
+                </p>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleSaveCapacity}
+                  className="px-4 py-2 bg-blue-600 rounded-lg flex items-center space-x-2 hover:bg-blue-500"
+                >
+                  <Save size={16} />
+                  <span>Save Capacity</span>
+                </button>
+              </div>
+            </div>
+          </div>
         </div>
 
         <div className="bg-gray-800 rounded-lg p-6">
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Power, PowerOff } from 'lucide-react';
+import { supabase, type WhatsAppTemplate } from '../lib/supabase';
+import toast from 'react-hot-toast';
+import { countPlaceholders } from '../utils/whatsapp';
+
+const emptyTemplate = {
+  name: '',
+  language: 'en_US',
+  body: '',
+};
+
+const WhatsAppTemplates = () => {
+  const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
+  const [newTemplate, setNewTemplate] = useState(emptyTemplate);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('whatsapp_templates')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching WhatsApp templates:', error);
+      toast.error('Failed to fetch WhatsApp templates');
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const handleAddTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const { error } = await supabase
+        .from('whatsapp_templates')
+        .insert({
+          name: newTemplate.name.trim(),
+          language: newTemplate.language.trim(),
+          body: newTemplate.body.trim(),
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('A template with this name and language already exists');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success('Template added');
+      setNewTemplate(emptyTemplate);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error adding WhatsApp template:', error);
+      toast.error('Failed to add template');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (template: WhatsAppTemplate) => {
+    try {
+      const { error } = await supabase
+        .from('whatsapp_templates')
+        .update({ is_active: !template.is_active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error updating WhatsApp template:', error);
+      toast.error('Failed to update template');
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    if (!window.confirm('Are you sure you want to delete this template?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('whatsapp_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      toast.success('Template deleted');
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting WhatsApp template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">WhatsApp Templates</h1>
+        <p className="text-gray-400 mt-1">
+          Leads who have not written in the last 24 hours can only be contacted with a template approved in WhatsApp Business Manager
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Add Template</h2>
+          <form onSubmit={handleAddTemplate} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-gray-400">Name</label>
+                <input
+                  type="text"
+                  required
+                  value={newTemplate.name}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                  placeholder="welcome_followup"
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400">Language</label>
+                <input
+                  type="text"
+                  required
+                  value={newTemplate.language}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, language: e.target.value })}
+                  className="w-full bg-gray-700 rounded-lg px-3 py-2 mt-1"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400">Body</label>
+              <textarea
+                required
+                value={newTemplate.body}
+                onChange={(e) => setNewTemplate({ ...newTemplate, body: e.target.value })}
+                placeholder="Hi {{1}}, thanks for your interest in {{2}}. When is a good time to call you?"
+                className="w-full h-32 bg-gray-700 rounded-lg px-3 py-2 mt-1"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Must match the approved template, agents fill in the {'{{1}}'}, {'{{2}}'}... placeholders
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-green-600 rounded-lg flex items-center space-x-2 hover:bg-green-500 disabled:opacity-50"
+            >
+              <Plus size={16} />
+              <span>{loading ? 'Adding...' : 'Add Template'}</span>
+            </button>
+          </form>
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold mb-4">Templates</h2>
+          {templates.length === 0 ? (
+            <p className="text-gray-400 text-sm">No templates yet, agents cannot start WhatsApp conversations</p>
+          ) : (
+            <div className="space-y-2">
+              {templates.map((template) => (
+                <div
+                  key={template.id}
+                  className={`flex items-start justify-between bg-gray-700 rounded-lg px-4 py-2 ${template.is_active ? '' : 'opacity-50'}`}
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{template.name}</span>
+                      <span className="text-xs px-2 py-0.5 bg-gray-600 rounded-full">{template.language}</span>
+                      <span className="text-xs text-gray-400">
+                        {countPlaceholders(template.body)} parameter{countPlaceholders(template.body) === 1 ? '' : 's'}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-300 mt-1 whitespace-pre-wrap">{template.body}</p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => handleToggleActive(template)}
+                      className={`p-1 rounded-lg hover:bg-gray-600 ${template.is_active ? 'text-green-500' : 'text-gray-400'}`}
+                      title={template.is_active ? 'Deactivate template' : 'Activate template'}
+                    >
+                      {template.is_active ? <Power size={16} /> : <PowerOff size={16} />}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteTemplate(template.id)}
+                      className="text-red-500 hover:text-red-400 p-1 rounded-lg hover:bg-gray-600"
+                      title="Delete template"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WhatsAppTemplates;
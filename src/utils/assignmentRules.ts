@@ -0,0 +1,61 @@
+export type Distribution = 'round_robin' | 'weighted' | 'least_loaded';
+
+export const DISTRIBUTION_LABELS: Record<Distribution, string> = {
+  round_robin: 'Round robin',
+  weighted: 'Weighted',
+  least_loaded: 'Least loaded',
+};
+
+// Presets for the rule country picker, stored on the rule as the expanded list of codes
+export const COUNTRY_GROUPS: { name: string; codes: string[] }[] = [
+  { name: 'DACH', codes: ['DE', 'AT', 'CH'] },
+  { name: 'Benelux', codes: ['BE', 'NL', 'LU'] },
+  { name: 'Nordics', codes: ['DK', 'FI', 'IS', 'NO', 'SE'] },
+  { name: 'Iberia', codes: ['ES', 'PT'] },
+  { name: 'UK & Ireland', codes: ['GB', 'IE'] },
+  { name: 'LATAM', codes: ['AR', 'BO', 'BR', 'CL', 'CO', 'CR', 'EC', 'GT', 'HN', 'MX', 'NI', 'PA', 'PE', 'PY', 'SV', 'UY', 'VE'] },
+  { name: 'GCC', codes: ['AE', 'BH', 'KW', 'OM', 'QA', 'SA'] },
+];
+
+// ISO day numbers as stored in active_days
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+export interface RuleConditions {
+  source_name: string | null;
+  country_codes: string[] | null;
+  funnel: string | null;
+  brand: string | null;
+  desk: string | null;
+  active_days: number[] | null;
+  active_from: string | null;
+  active_until: string | null;
+  timezone: string | null;
+}
+
+// "DACH" when the codes are exactly a group, otherwise the codes themselves
+export function describeCountries(codes: string[] | null): string {
+  if (!codes || codes.length === 0) return 'Any country';
+  const sorted = [...codes].sort().join(',');
+  const group = COUNTRY_GROUPS.find((g) => [...g.codes].sort().join(',') === sorted);
+  return group ? group.name : codes.join(', ');
+}
+
+export function describeSchedule(rule: Pick<RuleConditions, 'active_days' | 'active_from' | 'active_until' | 'timezone'>): string | null {
+  if (!rule.active_days && !rule.active_from) return null;
+
+  const days = rule.active_days
+    ? WEEKDAYS.filter((d) => rule.active_days!.includes(d.value)).map((d) => d.label).join(', ')
+    : 'Every day';
+  const hours = rule.active_from && rule.active_until
+    ? ` ${rule.active_from.slice(0, 5)}-${rule.active_until.slice(0, 5)}`
+    : '';
+  return `${days}${hours} (${rule.timezone || "lead's local time"})`;
+}
@@ -0,0 +1,26 @@
+import type { Availability, UserProfile } from '../lib/supabase';
+
+export const AVAILABILITY_OPTIONS: { value: Availability; label: string; dotClassName: string }[] = [
+  { value: 'available', label: 'Available', dotClassName: 'bg-green-500' },
+  { value: 'busy', label: 'Busy', dotClassName: 'bg-yellow-500' },
+  { value: 'offline', label: 'Offline', dotClassName: 'bg-gray-500' },
+  { value: 'on_leave', label: 'On leave', dotClassName: 'bg-red-500' },
+];
+
+export const getAvailabilityOption = (availability: Availability | undefined) =>
+  AVAILABILITY_OPTIONS.find((option) => option.value === availability) || AVAILABILITY_OPTIONS[0];
+
+type Presence = Pick<UserProfile, 'availability' | 'leave_starts_at' | 'leave_ends_at'>;
+
+// Mirrors agent_is_available: outside its date range a leave counts as available
+export const getEffectiveAvailability = (user: Partial<Presence>, at: Date = new Date()): Availability => {
+  if (user.availability !== 'on_leave') return user.availability || 'available';
+
+  const started = !user.leave_starts_at || new Date(user.leave_starts_at) <= at;
+  const notEnded = !user.leave_ends_at || new Date(user.leave_ends_at) > at;
+  return started && notEnded ? 'on_leave' : 'available';
+};
+
+// Offline and on leave users are skipped by auto-assignment, busy users are not
+export const isUnavailable = (user: Partial<Presence>) =>
+  ['offline', 'on_leave'].includes(getEffectiveAvailability(user));
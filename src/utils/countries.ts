@@ -0,0 +1,288 @@
+// Shared country dataset: ISO 3166-1 codes, English names, common aliases, dialing
+// prefixes and the main timezone. The `countries` table is seeded with the same rows
+// (migration 20251212100000_countries.sql) and backs `normalize_country_code` in the
+// database, which fills `leads.country_code` for API, import and manual leads.
+export interface Country {
+  code: string;
+  alpha3: string;
+  name: string;
+  aliases: string[];
+  phonePrefix: string;
+  timezone: string;
+}
+
+export const COUNTRIES: Country[] = [
+  { code: 'AD', alpha3: 'AND', name: 'Andorra', aliases: [], phonePrefix: '+376', timezone: 'Europe/Andorra' },
+  { code: 'AE', alpha3: 'ARE', name: 'United Arab Emirates', aliases: ['UAE', 'Emirates'], phonePrefix: '+971', timezone: 'Asia/Dubai' },
+  { code: 'AF', alpha3: 'AFG', name: 'Afghanistan', aliases: [], phonePrefix: '+93', timezone: 'Asia/Kabul' },
+  { code: 'AG', alpha3: 'ATG', name: 'Antigua and Barbuda', aliases: [], phonePrefix: '+1268', timezone: 'America/Antigua' },
+  { code: 'AI', alpha3: 'AIA', name: 'Anguilla', aliases: [], phonePrefix: '+1264', timezone: 'America/Anguilla' },
+  { code: 'AL', alpha3: 'ALB', name: 'Albania', aliases: [], phonePrefix: '+355', timezone: 'Europe/Tirane' },
+  { code: 'AM', alpha3: 'ARM', name: 'Armenia', aliases: [], phonePrefix: '+374', timezone: 'Asia/Yerevan' },
+  { code: 'AO', alpha3: 'AGO', name: 'Angola', aliases: [], phonePrefix: '+244', timezone: 'Africa/Luanda' },
+  { code: 'AQ', alpha3: 'ATA', name: 'Antarctica', aliases: [], phonePrefix: '+672', timezone: 'Antarctica/McMurdo' },
+  { code: 'AR', alpha3: 'ARG', name: 'Argentina', aliases: [], phonePrefix: '+54', timezone: 'America/Argentina/Buenos_Aires' },
+  { code: 'AS', alpha3: 'ASM', name: 'American Samoa', aliases: [], phonePrefix: '+1684', timezone: 'Pacific/Pago_Pago' },
+  { code: 'AT', alpha3: 'AUT', name: 'Austria', aliases: ['Österreich', 'Osterreich'], phonePrefix: '+43', timezone: 'Europe/Vienna' },
+  { code: 'AU', alpha3: 'AUS', name: 'Australia', aliases: [], phonePrefix: '+61', timezone: 'Australia/Sydney' },
+  { code: 'AW', alpha3: 'ABW', name: 'Aruba', aliases: [], phonePrefix: '+297', timezone: 'America/Aruba' },
+  { code: 'AX', alpha3: 'ALA', name: 'Åland Islands', aliases: [], phonePrefix: '+35818', timezone: 'Europe/Mariehamn' },
+  { code: 'AZ', alpha3: 'AZE', name: 'Azerbaijan', aliases: [], phonePrefix: '+994', timezone: 'Asia/Baku' },
+  { code: 'BA', alpha3: 'BIH', name: 'Bosnia and Herzegovina', aliases: ['Bosnia', 'Bosnia & Herzegovina'], phonePrefix: '+387', timezone: 'Europe/Sarajevo' },
+  { code: 'BB', alpha3: 'BRB', name: 'Barbados', aliases: [], phonePrefix: '+1246', timezone: 'America/Barbados' },
+  { code: 'BD', alpha3: 'BGD', name: 'Bangladesh', aliases: [], phonePrefix: '+880', timezone: 'Asia/Dhaka' },
+  { code: 'BE', alpha3: 'BEL', name: 'Belgium', aliases: [], phonePrefix: '+32', timezone: 'Europe/Brussels' },
+  { code: 'BF', alpha3: 'BFA', name: 'Burkina Faso', aliases: [], phonePrefix: '+226', timezone: 'Africa/Ouagadougou' },
+  { code: 'BG', alpha3: 'BGR', name: 'Bulgaria', aliases: [], phonePrefix: '+359', timezone: 'Europe/Sofia' },
+  { code: 'BH', alpha3: 'BHR', name: 'Bahrain', aliases: [], phonePrefix: '+973', timezone: 'Asia/Bahrain' },
+  { code: 'BI', alpha3: 'BDI', name: 'Burundi', aliases: [], phonePrefix: '+257', timezone: 'Africa/Bujumbura' },
+  { code: 'BJ', alpha3: 'BEN', name: 'Benin', aliases: [], phonePrefix: '+229', timezone: 'Africa/Porto-Novo' },
+  { code: 'BL', alpha3: 'BLM', name: 'Saint Barthélemy', aliases: [], phonePrefix: '+590', timezone: 'America/St_Barthelemy' },
+  { code: 'BM', alpha3: 'BMU', name: 'Bermuda', aliases: [], phonePrefix: '+1441', timezone: 'Atlantic/Bermuda' },
+  { code: 'BN', alpha3: 'BRN', name: 'Brunei', aliases: [], phonePrefix: '+673', timezone: 'Asia/Brunei' },
+  { code: 'BO', alpha3: 'BOL', name: 'Bolivia', aliases: ['Bolivia, Plurinational State of'], phonePrefix: '+591', timezone: 'America/La_Paz' },
+  { code: 'BQ', alpha3: 'BES', name: 'Caribbean Netherlands', aliases: [], phonePrefix: '+599', timezone: 'America/Kralendijk' },
+  { code: 'BR', alpha3: 'BRA', name: 'Brazil', aliases: ['Brasil'], phonePrefix: '+55', timezone: 'America/Sao_Paulo' },
+  { code: 'BS', alpha3: 'BHS', name: 'Bahamas', aliases: [], phonePrefix: '+1242', timezone: 'America/Nassau' },
+  { code: 'BT', alpha3: 'BTN', name: 'Bhutan', aliases: [], phonePrefix: '+975', timezone: 'Asia/Thimphu' },
+  { code: 'BV', alpha3: 'BVT', name: 'Bouvet Island', aliases: [], phonePrefix: '+47', timezone: 'Europe/Oslo' },
+  { code: 'BW', alpha3: 'BWA', name: 'Botswana', aliases: [], phonePrefix: '+267', timezone: 'Africa/Gaborone' },
+  { code: 'BY', alpha3: 'BLR', name: 'Belarus', aliases: [], phonePrefix: '+375', timezone: 'Europe/Minsk' },
+  { code: 'BZ', alpha3: 'BLZ', name: 'Belize', aliases: [], phonePrefix: '+501', timezone: 'America/Belize' },
+  { code: 'CA', alpha3: 'CAN', name: 'Canada', aliases: [], phonePrefix: '+1', timezone: 'America/Toronto' },
+  { code: 'CC', alpha3: 'CCK', name: 'Cocos (Keeling) Islands', aliases: [], phonePrefix: '+61', timezone: 'Indian/Cocos' },
+  { code: 'CD', alpha3: 'COD', name: 'Democratic Republic of the Congo', aliases: ['DR Congo', 'DRC', 'Congo-Kinshasa', 'Congo, Democratic Republic of the'], phonePrefix: '+243', timezone: 'Africa/Kinshasa' },
+  { code: 'CF', alpha3: 'CAF', name: 'Central African Republic', aliases: [], phonePrefix: '+236', timezone: 'Africa/Bangui' },
+  { code: 'CG', alpha3: 'COG', name: 'Republic of the Congo', aliases: ['Congo', 'Congo-Brazzaville'], phonePrefix: '+242', timezone: 'Africa/Brazzaville' },
+  { code: 'CH', alpha3: 'CHE', name: 'Switzerland', aliases: ['Schweiz', 'Suisse', 'Svizzera'], phonePrefix: '+41', timezone: 'Europe/Zurich' },
+  { code: 'CI', alpha3: 'CIV', name: 'Côte d\'Ivoire', aliases: ['Ivory Coast', 'Cote d\'Ivoire'], phonePrefix: '+225', timezone: 'Africa/Abidjan' },
+  { code: 'CK', alpha3: 'COK', name: 'Cook Islands', aliases: [], phonePrefix: '+682', timezone: 'Pacific/Rarotonga' },
+  { code: 'CL', alpha3: 'CHL', name: 'Chile', aliases: [], phonePrefix: '+56', timezone: 'America/Santiago' },
+  { code: 'CM', alpha3: 'CMR', name: 'Cameroon', aliases: [], phonePrefix: '+237', timezone: 'Africa/Douala' },
+  { code: 'CN', alpha3: 'CHN', name: 'China', aliases: [], phonePrefix: '+86', timezone: 'Asia/Shanghai' },
+  { code: 'CO', alpha3: 'COL', name: 'Colombia', aliases: [], phonePrefix: '+57', timezone: 'America/Bogota' },
+  { code: 'CR', alpha3: 'CRI', name: 'Costa Rica', aliases: [], phonePrefix: '+506', timezone: 'America/Costa_Rica' },
+  { code: 'CU', alpha3: 'CUB', name: 'Cuba', aliases: [], phonePrefix: '+53', timezone: 'America/Havana' },
+  { code: 'CV', alpha3: 'CPV', name: 'Cape Verde', aliases: ['Cabo Verde'], phonePrefix: '+238', timezone: 'Atlantic/Cape_Verde' },
+  { code: 'CW', alpha3: 'CUW', name: 'Curaçao', aliases: ['Curacao'], phonePrefix: '+599', timezone: 'America/Curacao' },
+  { code: 'CX', alpha3: 'CXR', name: 'Christmas Island', aliases: [], phonePrefix: '+61', timezone: 'Indian/Christmas' },
+  { code: 'CY', alpha3: 'CYP', name: 'Cyprus', aliases: [], phonePrefix: '+357', timezone: 'Asia/Nicosia' },
+  { code: 'CZ', alpha3: 'CZE', name: 'Czech Republic', aliases: ['Czechia', 'Česko', 'Cesko'], phonePrefix: '+420', timezone: 'Europe/Prague' },
+  { code: 'DE', alpha3: 'DEU', name: 'Germany', aliases: ['Deutschland'], phonePrefix: '+49', timezone: 'Europe/Berlin' },
+  { code: 'DJ', alpha3: 'DJI', name: 'Djibouti', aliases: [], phonePrefix: '+253', timezone: 'Africa/Djibouti' },
+  { code: 'DK', alpha3: 'DNK', name: 'Denmark', aliases: ['Danmark'], phonePrefix: '+45', timezone: 'Europe/Copenhagen' },
+  { code: 'DM', alpha3: 'DMA', name: 'Dominica', aliases: [], phonePrefix: '+1767', timezone: 'America/Dominica' },
+  { code: 'DO', alpha3: 'DOM', name: 'Dominican Republic', aliases: [], phonePrefix: '+1809', timezone: 'America/Santo_Domingo' },
+  { code: 'DZ', alpha3: 'DZA', name: 'Algeria', aliases: [], phonePrefix: '+213', timezone: 'Africa/Algiers' },
+  { code: 'EC', alpha3: 'ECU', name: 'Ecuador', aliases: [], phonePrefix: '+593', timezone: 'America/Guayaquil' },
+  { code: 'EE', alpha3: 'EST', name: 'Estonia', aliases: [], phonePrefix: '+372', timezone: 'Europe/Tallinn' },
+  { code: 'EG', alpha3: 'EGY', name: 'Egypt', aliases: [], phonePrefix: '+20', timezone: 'Africa/Cairo' },
+  { code: 'EH', alpha3: 'ESH', name: 'Western Sahara', aliases: [], phonePrefix: '+212', timezone: 'Africa/El_Aaiun' },
+  { code: 'ER', alpha3: 'ERI', name: 'Eritrea', aliases: [], phonePrefix: '+291', timezone: 'Africa/Asmara' },
+  { code: 'ES', alpha3: 'ESP', name: 'Spain', aliases: ['España', 'Espana'], phonePrefix: '+34', timezone: 'Europe/Madrid' },
+  { code: 'ET', alpha3: 'ETH', name: 'Ethiopia', aliases: [], phonePrefix: '+251', timezone: 'Africa/Addis_Ababa' },
+  { code: 'FI', alpha3: 'FIN', name: 'Finland', aliases: ['Suomi'], phonePrefix: '+358', timezone: 'Europe/Helsinki' },
+  { code: 'FJ', alpha3: 'FJI', name: 'Fiji', aliases: [], phonePrefix: '+679', timezone: 'Pacific/Fiji' },
+  { code: 'FK', alpha3: 'FLK', name: 'Falkland Islands', aliases: [], phonePrefix: '+500', timezone: 'Atlantic/Stanley' },
+  { code: 'FM', alpha3: 'FSM', name: 'Micronesia', aliases: [], phonePrefix: '+691', timezone: 'Pacific/Chuuk' },
+  { code: 'FO', alpha3: 'FRO', name: 'Faroe Islands', aliases: [], phonePrefix: '+298', timezone: 'Atlantic/Faroe' },
+  { code: 'FR', alpha3: 'FRA', name: 'France', aliases: [], phonePrefix: '+33', timezone: 'Europe/Paris' },
+  { code: 'GA', alpha3: 'GAB', name: 'Gabon', aliases: [], phonePrefix: '+241', timezone: 'Africa/Libreville' },
+  { code: 'GB', alpha3: 'GBR', name: 'United Kingdom', aliases: ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'], phonePrefix: '+44', timezone: 'Europe/London' },
+  { code: 'GD', alpha3: 'GRD', name: 'Grenada', aliases: [], phonePrefix: '+1473', timezone: 'America/Grenada' },
+  { code: 'GE', alpha3: 'GEO', name: 'Georgia', aliases: [], phonePrefix: '+995', timezone: 'Asia/Tbilisi' },
+  { code: 'GF', alpha3: 'GUF', name: 'French Guiana', aliases: [], phonePrefix: '+594', timezone: 'America/Cayenne' },
+  { code: 'GG', alpha3: 'GGY', name: 'Guernsey', aliases: [], phonePrefix: '+441481', timezone: 'Europe/Guernsey' },
+  { code: 'GH', alpha3: 'GHA', name: 'Ghana', aliases: [], phonePrefix: '+233', timezone: 'Africa/Accra' },
+  { code: 'GI', alpha3: 'GIB', name: 'Gibraltar', aliases: [], phonePrefix: '+350', timezone: 'Europe/Gibraltar' },
+  { code: 'GL', alpha3: 'GRL', name: 'Greenland', aliases: [], phonePrefix: '+299', timezone: 'America/Nuuk' },
+  { code: 'GM', alpha3: 'GMB', name: 'Gambia', aliases: [], phonePrefix: '+220', timezone: 'Africa/Banjul' },
+  { code: 'GN', alpha3: 'GIN', name: 'Guinea', aliases: [], phonePrefix: '+224', timezone: 'Africa/Conakry' },
+  { code: 'GP', alpha3: 'GLP', name: 'Guadeloupe', aliases: [], phonePrefix: '+590', timezone: 'America/Guadeloupe' },
+  { code: 'GQ', alpha3: 'GNQ', name: 'Equatorial Guinea', aliases: [], phonePrefix: '+240', timezone: 'Africa/Malabo' },
+  { code: 'GR', alpha3: 'GRC', name: 'Greece', aliases: ['Hellas', 'Ellada'], phonePrefix: '+30', timezone: 'Europe/Athens' },
+  { code: 'GS', alpha3: 'SGS', name: 'South Georgia and the South Sandwich Islands', aliases: [], phonePrefix: '+500', timezone: 'Atlantic/South_Georgia' },
+  { code: 'GT', alpha3: 'GTM', name: 'Guatemala', aliases: [], phonePrefix: '+502', timezone: 'America/Guatemala' },
+  { code: 'GU', alpha3: 'GUM', name: 'Guam', aliases: [], phonePrefix: '+1671', timezone: 'Pacific/Guam' },
+  { code: 'GW', alpha3: 'GNB', name: 'Guinea-Bissau', aliases: [], phonePrefix: '+245', timezone: 'Africa/Bissau' },
+  { code: 'GY', alpha3: 'GUY', name: 'Guyana', aliases: [], phonePrefix: '+592', timezone: 'America/Guyana' },
+  { code: 'HK', alpha3: 'HKG', name: 'Hong Kong', aliases: [], phonePrefix: '+852', timezone: 'Asia/Hong_Kong' },
+  { code: 'HM', alpha3: 'HMD', name: 'Heard Island and McDonald Islands', aliases: [], phonePrefix: '+672', timezone: 'Indian/Kerguelen' },
+  { code: 'HN', alpha3: 'HND', name: 'Honduras', aliases: [], phonePrefix: '+504', timezone: 'America/Tegucigalpa' },
+  { code: 'HR', alpha3: 'HRV', name: 'Croatia', aliases: ['Hrvatska'], phonePrefix: '+385', timezone: 'Europe/Zagreb' },
+  { code: 'HT', alpha3: 'HTI', name: 'Haiti', aliases: [], phonePrefix: '+509', timezone: 'America/Port-au-Prince' },
+  { code: 'HU', alpha3: 'HUN', name: 'Hungary', aliases: ['Magyarország', 'Magyarorszag'], phonePrefix: '+36', timezone: 'Europe/Budapest' },
+  { code: 'ID', alpha3: 'IDN', name: 'Indonesia', aliases: [], phonePrefix: '+62', timezone: 'Asia/Jakarta' },
+  { code: 'IE', alpha3: 'IRL', name: 'Ireland', aliases: [], phonePrefix: '+353', timezone: 'Europe/Dublin' },
+  { code: 'IL', alpha3: 'ISR', name: 'Israel', aliases: [], phonePrefix: '+972', timezone: 'Asia/Jerusalem' },
+  { code: 'IM', alpha3: 'IMN', name: 'Isle of Man', aliases: [], phonePrefix: '+441624', timezone: 'Europe/Isle_of_Man' },
+  { code: 'IN', alpha3: 'IND', name: 'India', aliases: [], phonePrefix: '+91', timezone: 'Asia/Kolkata' },
+  { code: 'IO', alpha3: 'IOT', name: 'British Indian Ocean Territory', aliases: [], phonePrefix: '+246', timezone: 'Indian/Chagos' },
+  { code: 'IQ', alpha3: 'IRQ', name: 'Iraq', aliases: [], phonePrefix: '+964', timezone: 'Asia/Baghdad' },
+  { code: 'IR', alpha3: 'IRN', name: 'Iran', aliases: ['Iran, Islamic Republic of'], phonePrefix: '+98', timezone: 'Asia/Tehran' },
+  { code: 'IS', alpha3: 'ISL', name: 'Iceland', aliases: [], phonePrefix: '+354', timezone: 'Atlantic/Reykjavik' },
+  { code: 'IT', alpha3: 'ITA', name: 'Italy', aliases: ['Italia'], phonePrefix: '+39', timezone: 'Europe/Rome' },
+  { code: 'JE', alpha3: 'JEY', name: 'Jersey', aliases: [], phonePrefix: '+441534', timezone: 'Europe/Jersey' },
+  { code: 'JM', alpha3: 'JAM', name: 'Jamaica', aliases: [], phonePrefix: '+1876', timezone: 'America/Jamaica' },
+  { code: 'JO', alpha3: 'JOR', name: 'Jordan', aliases: [], phonePrefix: '+962', timezone: 'Asia/Amman' },
+  { code: 'JP', alpha3: 'JPN', name: 'Japan', aliases: [], phonePrefix: '+81', timezone: 'Asia/Tokyo' },
+  { code: 'KE', alpha3: 'KEN', name: 'Kenya', aliases: [], phonePrefix: '+254', timezone: 'Africa/Nairobi' },
+  { code: 'KG', alpha3: 'KGZ', name: 'Kyrgyzstan', aliases: [], phonePrefix: '+996', timezone: 'Asia/Bishkek' },
+  { code: 'KH', alpha3: 'KHM', name: 'Cambodia', aliases: [], phonePrefix: '+855', timezone: 'Asia/Phnom_Penh' },
+  { code: 'KI', alpha3: 'KIR', name: 'Kiribati', aliases: [], phonePrefix: '+686', timezone: 'Pacific/Tarawa' },
+  { code: 'KM', alpha3: 'COM', name: 'Comoros', aliases: [], phonePrefix: '+269', timezone: 'Indian/Comoro' },
+  { code: 'KN', alpha3: 'KNA', name: 'Saint Kitts and Nevis', aliases: [], phonePrefix: '+1869', timezone: 'America/St_Kitts' },
+  { code: 'KP', alpha3: 'PRK', name: 'North Korea', aliases: ['Korea, North', 'Korea, Democratic People\'s Republic of'], phonePrefix: '+850', timezone: 'Asia/Pyongyang' },
+  { code: 'KR', alpha3: 'KOR', name: 'South Korea', aliases: ['Korea', 'Korea, South', 'Korea, Republic of', 'Republic of Korea'], phonePrefix: '+82', timezone: 'Asia/Seoul' },
+  { code: 'KW', alpha3: 'KWT', name: 'Kuwait', aliases: [], phonePrefix: '+965', timezone: 'Asia/Kuwait' },
+  { code: 'KY', alpha3: 'CYM', name: 'Cayman Islands', aliases: [], phonePrefix: '+1345', timezone: 'America/Cayman' },
+  { code: 'KZ', alpha3: 'KAZ', name: 'Kazakhstan', aliases: [], phonePrefix: '+7', timezone: 'Asia/Almaty' },
+  { code: 'LA', alpha3: 'LAO', name: 'Laos', aliases: ['Lao People\'s Democratic Republic'], phonePrefix: '+856', timezone: 'Asia/Vientiane' },
+  { code: 'LB', alpha3: 'LBN', name: 'Lebanon', aliases: [], phonePrefix: '+961', timezone: 'Asia/Beirut' },
+  { code: 'LC', alpha3: 'LCA', name: 'Saint Lucia', aliases: [], phonePrefix: '+1758', timezone: 'America/St_Lucia' },
+  { code: 'LI', alpha3: 'LIE', name: 'Liechtenstein', aliases: [], phonePrefix: '+423', timezone: 'Europe/Vaduz' },
+  { code: 'LK', alpha3: 'LKA', name: 'Sri Lanka', aliases: [], phonePrefix: '+94', timezone: 'Asia/Colombo' },
+  { code: 'LR', alpha3: 'LBR', name: 'Liberia', aliases: [], phonePrefix: '+231', timezone: 'Africa/Monrovia' },
+  { code: 'LS', alpha3: 'LSO', name: 'Lesotho', aliases: [], phonePrefix: '+266', timezone: 'Africa/Maseru' },
+  { code: 'LT', alpha3: 'LTU', name: 'Lithuania', aliases: [], phonePrefix: '+370', timezone: 'Europe/Vilnius' },
+  { code: 'LU', alpha3: 'LUX', name: 'Luxembourg', aliases: [], phonePrefix: '+352', timezone: 'Europe/Luxembourg' },
+  { code: 'LV', alpha3: 'LVA', name: 'Latvia', aliases: [], phonePrefix: '+371', timezone: 'Europe/Riga' },
+  { code: 'LY', alpha3: 'LBY', name: 'Libya', aliases: [], phonePrefix: '+218', timezone: 'Africa/Tripoli' },
+  { code: 'MA', alpha3: 'MAR', name: 'Morocco', aliases: [], phonePrefix: '+212', timezone: 'Africa/Casablanca' },
+  { code: 'MC', alpha3: 'MCO', name: 'Monaco', aliases: [], phonePrefix: '+377', timezone: 'Europe/Monaco' },
+  { code: 'MD', alpha3: 'MDA', name: 'Moldova', aliases: ['Moldova, Republic of'], phonePrefix: '+373', timezone: 'Europe/Chisinau' },
+  { code: 'ME', alpha3: 'MNE', name: 'Montenegro', aliases: [], phonePrefix: '+382', timezone: 'Europe/Podgorica' },
+  { code: 'MF', alpha3: 'MAF', name: 'Saint Martin', aliases: [], phonePrefix: '+590', timezone: 'America/Marigot' },
+  { code: 'MG', alpha3: 'MDG', name: 'Madagascar', aliases: [], phonePrefix: '+261', timezone: 'Africa/Antananarivo' },
+  { code: 'MH', alpha3: 'MHL', name: 'Marshall Islands', aliases: [], phonePrefix: '+692', timezone: 'Pacific/Majuro' },
+  { code: 'MK', alpha3: 'MKD', name: 'North Macedonia', aliases: ['Macedonia'], phonePrefix: '+389', timezone: 'Europe/Skopje' },
+  { code: 'ML', alpha3: 'MLI', name: 'Mali', aliases: [], phonePrefix: '+223', timezone: 'Africa/Bamako' },
+  { code: 'MM', alpha3: 'MMR', name: 'Myanmar', aliases: ['Burma'], phonePrefix: '+95', timezone: 'Asia/Yangon' },
+  { code: 'MN', alpha3: 'MNG', name: 'Mongolia', aliases: [], phonePrefix: '+976', timezone: 'Asia/Ulaanbaatar' },
+  { code: 'MO', alpha3: 'MAC', name: 'Macau', aliases: ['Macao'], phonePrefix: '+853', timezone: 'Asia/Macau' },
+  { code: 'MP', alpha3: 'MNP', name: 'Northern Mariana Islands', aliases: [], phonePrefix: '+1670', timezone: 'Pacific/Saipan' },
+  { code: 'MQ', alpha3: 'MTQ', name: 'Martinique', aliases: [], phonePrefix: '+596', timezone: 'America/Martinique' },
+  { code: 'MR', alpha3: 'MRT', name: 'Mauritania', aliases: [], phonePrefix: '+222', timezone: 'Africa/Nouakchott' },
+  { code: 'MS', alpha3: 'MSR', name: 'Montserrat', aliases: [], phonePrefix: '+1664', timezone: 'America/Montserrat' },
+  { code: 'MT', alpha3: 'MLT', name: 'Malta', aliases: [], phonePrefix: '+356', timezone: 'Europe/Malta' },
+  { code: 'MU', alpha3: 'MUS', name: 'Mauritius', aliases: [], phonePrefix: '+230', timezone: 'Indian/Mauritius' },
+  { code: 'MV', alpha3: 'MDV', name: 'Maldives', aliases: [], phonePrefix: '+960', timezone: 'Indian/Maldives' },
+  { code: 'MW', alpha3: 'MWI', name: 'Malawi', aliases: [], phonePrefix: '+265', timezone: 'Africa/Blantyre' },
+  { code: 'MX', alpha3: 'MEX', name: 'Mexico', aliases: ['México'], phonePrefix: '+52', timezone: 'America/Mexico_City' },
+  { code: 'MY', alpha3: 'MYS', name: 'Malaysia', aliases: [], phonePrefix: '+60', timezone: 'Asia/Kuala_Lumpur' },
+  { code: 'MZ', alpha3: 'MOZ', name: 'Mozambique', aliases: [], phonePrefix: '+258', timezone: 'Africa/Maputo' },
+  { code: 'NA', alpha3: 'NAM', name: 'Namibia', aliases: [], phonePrefix: '+264', timezone: 'Africa/Windhoek' },
+  { code: 'NC', alpha3: 'NCL', name: 'New Caledonia', aliases: [], phonePrefix: '+687', timezone: 'Pacific/Noumea' },
+  { code: 'NE', alpha3: 'NER', name: 'Niger', aliases: [], phonePrefix: '+227', timezone: 'Africa/Niamey' },
+  { code: 'NF', alpha3: 'NFK', name: 'Norfolk Island', aliases: [], phonePrefix: '+672', timezone: 'Pacific/Norfolk' },
+  { code: 'NG', alpha3: 'NGA', name: 'Nigeria', aliases: [], phonePrefix: '+234', timezone: 'Africa/Lagos' },
+  { code: 'NI', alpha3: 'NIC', name: 'Nicaragua', aliases: [], phonePrefix: '+505', timezone: 'America/Managua' },
+  { code: 'NL', alpha3: 'NLD', name: 'Netherlands', aliases: ['Nederland', 'Holland', 'The Netherlands'], phonePrefix: '+31', timezone: 'Europe/Amsterdam' },
+  { code: 'NO', alpha3: 'NOR', name: 'Norway', aliases: ['Norge'], phonePrefix: '+47', timezone: 'Europe/Oslo' },
+  { code: 'NP', alpha3: 'NPL', name: 'Nepal', aliases: [], phonePrefix: '+977', timezone: 'Asia/Kathmandu' },
+  { code: 'NR', alpha3: 'NRU', name: 'Nauru', aliases: [], phonePrefix: '+674', timezone: 'Pacific/Nauru' },
+  { code: 'NU', alpha3: 'NIU', name: 'Niue', aliases: [], phonePrefix: '+683', timezone: 'Pacific/Niue' },
+  { code: 'NZ', alpha3: 'NZL', name: 'New Zealand', aliases: [], phonePrefix: '+64', timezone: 'Pacific/Auckland' },
+  { code: 'OM', alpha3: 'OMN', name: 'Oman', aliases: [], phonePrefix: '+968', timezone: 'Asia/Muscat' },
+  { code: 'PA', alpha3: 'PAN', name: 'Panama', aliases: [], phonePrefix: '+507', timezone: 'America/Panama' },
+  { code: 'PE', alpha3: 'PER', name: 'Peru', aliases: [], phonePrefix: '+51', timezone: 'America/Lima' },
+  { code: 'PF', alpha3: 'PYF', name: 'French Polynesia', aliases: [], phonePrefix: '+689', timezone: 'Pacific/Tahiti' },
+  { code: 'PG', alpha3: 'PNG', name: 'Papua New Guinea', aliases: [], phonePrefix: '+675', timezone: 'Pacific/Port_Moresby' },
+  { code: 'PH', alpha3: 'PHL', name: 'Philippines', aliases: [], phonePrefix: '+63', timezone: 'Asia/Manila' },
+  { code: 'PK', alpha3: 'PAK', name: 'Pakistan', aliases: [], phonePrefix: '+92', timezone: 'Asia/Karachi' },
+  { code: 'PL', alpha3: 'POL', name: 'Poland', aliases: ['Polska'], phonePrefix: '+48', timezone: 'Europe/Warsaw' },
+  { code: 'PM', alpha3: 'SPM', name: 'Saint Pierre and Miquelon', aliases: [], phonePrefix: '+508', timezone: 'America/Miquelon' },
+  { code: 'PN', alpha3: 'PCN', name: 'Pitcairn Islands', aliases: [], phonePrefix: '+64', timezone: 'Pacific/Pitcairn' },
+  { code: 'PR', alpha3: 'PRI', name: 'Puerto Rico', aliases: [], phonePrefix: '+1787', timezone: 'America/Puerto_Rico' },
+  { code: 'PS', alpha3: 'PSE', name: 'Palestine', aliases: ['Palestinian Territories', 'State of Palestine'], phonePrefix: '+970', timezone: 'Asia/Gaza' },
+  { code: 'PT', alpha3: 'PRT', name: 'Portugal', aliases: [], phonePrefix: '+351', timezone: 'Europe/Lisbon' },
+  { code: 'PW', alpha3: 'PLW', name: 'Palau', aliases: [], phonePrefix: '+680', timezone: 'Pacific/Palau' },
+  { code: 'PY', alpha3: 'PRY', name: 'Paraguay', aliases: [], phonePrefix: '+595', timezone: 'America/Asuncion' },
+  { code: 'QA', alpha3: 'QAT', name: 'Qatar', aliases: [], phonePrefix: '+974', timezone: 'Asia/Qatar' },
+  { code: 'RE', alpha3: 'REU', name: 'Réunion', aliases: ['Reunion'], phonePrefix: '+262', timezone: 'Indian/Reunion' },
+  { code: 'RO', alpha3: 'ROU', name: 'Romania', aliases: [], phonePrefix: '+40', timezone: 'Europe/Bucharest' },
+  { code: 'RS', alpha3: 'SRB', name: 'Serbia', aliases: [], phonePrefix: '+381', timezone: 'Europe/Belgrade' },
+  { code: 'RU', alpha3: 'RUS', name: 'Russia', aliases: ['Russian Federation', 'Rossiya'], phonePrefix: '+7', timezone: 'Europe/Moscow' },
+  { code: 'RW', alpha3: 'RWA', name: 'Rwanda', aliases: [], phonePrefix: '+250', timezone: 'Africa/Kigali' },
+  { code: 'SA', alpha3: 'SAU', name: 'Saudi Arabia', aliases: [], phonePrefix: '+966', timezone: 'Asia/Riyadh' },
+  { code: 'SB', alpha3: 'SLB', name: 'Solomon Islands', aliases: [], phonePrefix: '+677', timezone: 'Pacific/Guadalcanal' },
+  { code: 'SC', alpha3: 'SYC', name: 'Seychelles', aliases: [], phonePrefix: '+248', timezone: 'Indian/Mahe' },
+  { code: 'SD', alpha3: 'SDN', name: 'Sudan', aliases: [], phonePrefix: '+249', timezone: 'Africa/Khartoum' },
+  { code: 'SE', alpha3: 'SWE', name: 'Sweden', aliases: ['Sverige'], phonePrefix: '+46', timezone: 'Europe/Stockholm' },
+  { code: 'SG', alpha3: 'SGP', name: 'Singapore', aliases: [], phonePrefix: '+65', timezone: 'Asia/Singapore' },
+  { code: 'SH', alpha3: 'SHN', name: 'Saint Helena', aliases: [], phonePrefix: '+290', timezone: 'Atlantic/St_Helena' },
+  { code: 'SI', alpha3: 'SVN', name: 'Slovenia', aliases: [], phonePrefix: '+386', timezone: 'Europe/Ljubljana' },
+  { code: 'SJ', alpha3: 'SJM', name: 'Svalbard and Jan Mayen', aliases: [], phonePrefix: '+4779', timezone: 'Arctic/Longyearbyen' },
+  { code: 'SK', alpha3: 'SVK', name: 'Slovakia', aliases: [], phonePrefix: '+421', timezone: 'Europe/Bratislava' },
+  { code: 'SL', alpha3: 'SLE', name: 'Sierra Leone', aliases: [], phonePrefix: '+232', timezone: 'Africa/Freetown' },
+  { code: 'SM', alpha3: 'SMR', name: 'San Marino', aliases: [], phonePrefix: '+378', timezone: 'Europe/San_Marino' },
+  { code: 'SN', alpha3: 'SEN', name: 'Senegal', aliases: [], phonePrefix: '+221', timezone: 'Africa/Dakar' },
+  { code: 'SO', alpha3: 'SOM', name: 'Somalia', aliases: [], phonePrefix: '+252', timezone: 'Africa/Mogadishu' },
+  { code: 'SR', alpha3: 'SUR', name: 'Suriname', aliases: [], phonePrefix: '+597', timezone: 'America/Paramaribo' },
+  { code: 'SS', alpha3: 'SSD', name: 'South Sudan', aliases: [], phonePrefix: '+211', timezone: 'Africa/Juba' },
+  { code: 'ST', alpha3: 'STP', name: 'São Tomé and Príncipe', aliases: ['Sao Tome and Principe'], phonePrefix: '+239', timezone: 'Africa/Sao_Tome' },
+  { code: 'SV', alpha3: 'SLV', name: 'El Salvador', aliases: [], phonePrefix: '+503', timezone: 'America/El_Salvador' },
+  { code: 'SX', alpha3: 'SXM', name: 'Sint Maarten', aliases: [], phonePrefix: '+1721', timezone: 'America/Lower_Princes' },
+  { code: 'SY', alpha3: 'SYR', name: 'Syria', aliases: ['Syrian Arab Republic'], phonePrefix: '+963', timezone: 'Asia/Damascus' },
+  { code: 'SZ', alpha3: 'SWZ', name: 'Eswatini', aliases: ['Swaziland'], phonePrefix: '+268', timezone: 'Africa/Mbabane' },
+  { code: 'TC', alpha3: 'TCA', name: 'Turks and Caicos Islands', aliases: [], phonePrefix: '+1649', timezone: 'America/Grand_Turk' },
+  { code: 'TD', alpha3: 'TCD', name: 'Chad', aliases: [], phonePrefix: '+235', timezone: 'Africa/Ndjamena' },
+  { code: 'TF', alpha3: 'ATF', name: 'French Southern Territories', aliases: [], phonePrefix: '+262', timezone: 'Indian/Kerguelen' },
+  { code: 'TG', alpha3: 'TGO', name: 'Togo', aliases: [], phonePrefix: '+228', timezone: 'Africa/Lome' },
+  { code: 'TH', alpha3: 'THA', name: 'Thailand', aliases: [], phonePrefix: '+66', timezone: 'Asia/Bangkok' },
+  { code: 'TJ', alpha3: 'TJK', name: 'Tajikistan', aliases: [], phonePrefix: '+992', timezone: 'Asia/Dushanbe' },
+  { code: 'TK', alpha3: 'TKL', name: 'Tokelau', aliases: [], phonePrefix: '+690', timezone: 'Pacific/Fakaofo' },
+  { code: 'TL', alpha3: 'TLS', name: 'East Timor', aliases: ['Timor-Leste'], phonePrefix: '+670', timezone: 'Asia/Dili' },
+  { code: 'TM', alpha3: 'TKM', name: 'Turkmenistan', aliases: [], phonePrefix: '+993', timezone: 'Asia/Ashgabat' },
+  { code: 'TN', alpha3: 'TUN', name: 'Tunisia', aliases: [], phonePrefix: '+216', timezone: 'Africa/Tunis' },
+  { code: 'TO', alpha3: 'TON', name: 'Tonga', aliases: [], phonePrefix: '+676', timezone: 'Pacific/Tongatapu' },
+  { code: 'TR', alpha3: 'TUR', name: 'Turkey', aliases: ['Türkiye', 'Turkiye'], phonePrefix: '+90', timezone: 'Europe/Istanbul' },
+  { code: 'TT', alpha3: 'TTO', name: 'Trinidad and Tobago', aliases: [], phonePrefix: '+1868', timezone: 'America/Port_of_Spain' },
+  { code: 'TV', alpha3: 'TUV', name: 'Tuvalu', aliases: [], phonePrefix: '+688', timezone: 'Pacific/Funafuti' },
+  { code: 'TW', alpha3: 'TWN', name: 'Taiwan', aliases: ['Taiwan, Province of China'], phonePrefix: '+886', timezone: 'Asia/Taipei' },
+  { code: 'TZ', alpha3: 'TZA', name: 'Tanzania', aliases: ['Tanzania, United Republic of'], phonePrefix: '+255', timezone: 'Africa/Dar_es_Salaam' },
+  { code: 'UA', alpha3: 'UKR', name: 'Ukraine', aliases: [], phonePrefix: '+380', timezone: 'Europe/Kiev' },
+  { code: 'UG', alpha3: 'UGA', name: 'Uganda', aliases: [], phonePrefix: '+256', timezone: 'Africa/Kampala' },
+  { code: 'UM', alpha3: 'UMI', name: 'United States Minor Outlying Islands', aliases: [], phonePrefix: '+1', timezone: 'Pacific/Midway' },
+  { code: 'US', alpha3: 'USA', name: 'United States', aliases: ['United States of America', 'America', 'U.S.', 'U.S.A.'], phonePrefix: '+1', timezone: 'America/New_York' },
+  { code: 'UY', alpha3: 'URY', name: 'Uruguay', aliases: [], phonePrefix: '+598', timezone: 'America/Montevideo' },
+  { code: 'UZ', alpha3: 'UZB', name: 'Uzbekistan', aliases: [], phonePrefix: '+998', timezone: 'Asia/Tashkent' },
+  { code: 'VA', alpha3: 'VAT', name: 'Vatican City', aliases: ['Holy See', 'Vatican'], phonePrefix: '+379', timezone: 'Europe/Vatican' },
+  { code: 'VC', alpha3: 'VCT', name: 'Saint Vincent and the Grenadines', aliases: [], phonePrefix: '+1784', timezone: 'America/St_Vincent' },
+  { code: 'VE', alpha3: 'VEN', name: 'Venezuela', aliases: ['Venezuela, Bolivarian Republic of'], phonePrefix: '+58', timezone: 'America/Caracas' },
+  { code: 'VG', alpha3: 'VGB', name: 'British Virgin Islands', aliases: ['Virgin Islands (British)'], phonePrefix: '+1284', timezone: 'America/Tortola' },
+  { code: 'VI', alpha3: 'VIR', name: 'U.S. Virgin Islands', aliases: ['Virgin Islands (U.S.)', 'US Virgin Islands'], phonePrefix: '+1340', timezone: 'America/St_Thomas' },
+  { code: 'VN', alpha3: 'VNM', name: 'Vietnam', aliases: ['Viet Nam'], phonePrefix: '+84', timezone: 'Asia/Ho_Chi_Minh' },
+  { code: 'VU', alpha3: 'VUT', name: 'Vanuatu', aliases: [], phonePrefix: '+678', timezone: 'Pacific/Efate' },
+  { code: 'WF', alpha3: 'WLF', name: 'Wallis and Futuna', aliases: [], phonePrefix: '+681', timezone: 'Pacific/Wallis' },
+  { code: 'WS', alpha3: 'WSM', name: 'Samoa', aliases: [], phonePrefix: '+685', timezone: 'Pacific/Apia' },
+  { code: 'XK', alpha3: 'XKX', name: 'Kosovo', aliases: [], phonePrefix: '+383', timezone: 'Europe/Belgrade' },
+  { code: 'YE', alpha3: 'YEM', name: 'Yemen', aliases: [], phonePrefix: '+967', timezone: 'Asia/Aden' },
+  { code: 'YT', alpha3: 'MYT', name: 'Mayotte', aliases: [], phonePrefix: '+262', timezone: 'Indian/Mayotte' },
+  { code: 'ZA', alpha3: 'ZAF', name: 'South Africa', aliases: [], phonePrefix: '+27', timezone: 'Africa/Johannesburg' },
+  { code: 'ZM', alpha3: 'ZMB', name: 'Zambia', aliases: [], phonePrefix: '+260', timezone: 'Africa/Lusaka' },
+  { code: 'ZW', alpha3: 'ZWE', name: 'Zimbabwe', aliases: [], phonePrefix: '+263', timezone: 'Africa/Harare' },
+];
+
+export const COUNTRIES_BY_NAME: Country[] = [...COUNTRIES].sort((a, b) => a.name.localeCompare(b.name));
+
+const lookup = new Map<string, Country>();
+COUNTRIES.forEach((country) => {
+  [country.code, country.alpha3, country.name, ...country.aliases].forEach((key) => {
+    lookup.set(key.toLowerCase(), country);
+  });
+});
+
+// Accepts an alpha-2 or alpha-3 code, an English name or an alias, in any case
+export function findCountry(value: string | null | undefined): Country | null {
+  if (!value) return null;
+  return lookup.get(value.trim().toLowerCase()) || null;
+}
+
+export function normalizeCountryCode(value: string | null | undefined): string | null {
+  return findCountry(value)?.code || null;
+}
+
+export function getCountryName(value: string | null | undefined): string | null {
+  return findCountry(value)?.name || null;
+}
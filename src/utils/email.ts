@@ -0,0 +1,68 @@
+import { supabase } from '../lib/supabase';
+
+// Lead fields templates can use as {{field}}, answers are {{answer:Question text}}
+export const EMAIL_PLACEHOLDERS = [
+  'first_name',
+  'last_name',
+  'full_name',
+  'email',
+  'phone',
+  'country',
+  'brand',
+  'status',
+  'source',
+  'funnel',
+  'desk',
+  'balance',
+  'agent_name',
+];
+
+// Recipients of one request to the email function
+export const MAX_EMAIL_RECIPIENTS = 200;
+
+export type EmailDraft = {
+  template_id: string | null;
+  subject: string;
+  body: string;
+};
+
+export type EmailSendResult = {
+  sent: number;
+  failed: number;
+  skipped: number;
+  failures: { lead_id: number; error: string }[];
+};
+
+// Placeholders are filled in per lead by the email function, leads without an email address
+// or with one that bounced before are skipped
+export const sendLeadEmails = async (leadIds: number[], draft: EmailDraft): Promise<EmailSendResult> => {
+  const totals: EmailSendResult = { sent: 0, failed: 0, skipped: 0, failures: [] };
+
+  for (let i = 0; i < leadIds.length; i += MAX_EMAIL_RECIPIENTS) {
+    const { data, error } = await supabase.functions.invoke('email/send', {
+      body: { ...draft, lead_ids: leadIds.slice(i, i + MAX_EMAIL_RECIPIENTS) },
+    });
+
+    if (error) {
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error?.message || error.message);
+    }
+
+    totals.sent += data.data.sent;
+    totals.failed += data.data.failed;
+    totals.skipped += data.data.skipped;
+    totals.failures.push(...data.data.failures);
+  }
+
+  return totals;
+};
+
+// "3 sent, 1 failed, 2 skipped"
+export const describeSendResult = (result: EmailSendResult) =>
+  [
+    `${result.sent} sent`,
+    result.failed > 0 && `${result.failed} failed`,
+    result.skipped > 0 && `${result.skipped} skipped`,
+  ]
+    .filter(Boolean)
+    .join(', ');
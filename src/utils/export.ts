@@ -17,6 +17,8 @@ const exportColumns = [
   { key: 'phone', label: 'Phone' },
   { key: 'country', label: 'Country' },
   { key: 'status', label: 'Status' },
+  { key: 'score', label: 'Score' },
+  { key: 'call_count', label: 'Calls' },
   { key: 'brand', label: 'Brand' },
   { key: 'source', label: 'Source' },
   { key: 'funnel', label: 'Funnel' },
@@ -0,0 +1,36 @@
+import { DateTime } from 'luxon';
+import type { DataTableQuery } from '../components/DataTable';
+import type { LeadPageQuery } from '../lib/supabase';
+
+const dateColumns = ['created_at', 'converted_at'];
+
+// Convert the DataTable state into the arguments of the get_visible_leads RPC
+export const buildLeadPageQuery = (isConverted: boolean, query: DataTableQuery): LeadPageQuery => {
+  const filters: Record<string, unknown> = {};
+
+  query.columnFilters.forEach(({ id, value }) => {
+    if (value === null || value === undefined || value === '') return;
+
+    if (dateColumns.includes(id) && Array.isArray(value)) {
+      // Date filters hold [fromDate, toDate] pairs of local calendar days
+      filters[id] = (value as [string, string][]).map(([startDate, endDate]) => [
+        DateTime.fromISO(startDate).startOf('day').toISO(),
+        DateTime.fromISO(endDate).endOf('day').toISO()
+      ]);
+      return;
+    }
+
+    filters[id] = value;
+  });
+
+  const [sort] = query.sorting;
+
+  return {
+    isConverted,
+    limit: query.pageSize,
+    offset: query.pageIndex * query.pageSize,
+    sortBy: sort?.id,
+    sortDesc: sort ? sort.desc : true,
+    filters
+  };
+};
@@ -0,0 +1,74 @@
+export type ScoringField =
+  | 'country_code'
+  | 'source'
+  | 'funnel'
+  | 'brand'
+  | 'desk'
+  | 'status'
+  | 'email'
+  | 'phone'
+  | 'balance'
+  | 'deposit_total'
+  | 'deposit_count'
+  | 'answer';
+
+export type ScoringOperator = 'equals' | 'in' | 'contains' | 'gte' | 'lte' | 'is_set' | 'is_empty';
+
+export interface ScoringRule {
+  id: string;
+  field: ScoringField;
+  question_id: string | null;
+  operator: ScoringOperator;
+  value: string | null;
+  points: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export const SCORING_FIELDS: { value: ScoringField; label: string; numeric: boolean }[] = [
+  { value: 'country_code', label: 'Country code', numeric: false },
+  { value: 'source', label: 'Source', numeric: false },
+  { value: 'funnel', label: 'Funnel', numeric: false },
+  { value: 'brand', label: 'Brand', numeric: false },
+  { value: 'desk', label: 'Desk', numeric: false },
+  { value: 'status', label: 'Status', numeric: false },
+  { value: 'email', label: 'Email', numeric: false },
+  { value: 'phone', label: 'Phone', numeric: false },
+  { value: 'balance', label: 'Balance', numeric: true },
+  { value: 'deposit_total', label: 'Deposit total', numeric: true },
+  { value: 'deposit_count', label: 'Deposit count', numeric: true },
+  { value: 'answer', label: 'Question answer', numeric: false },
+];
+
+export const SCORING_OPERATORS: { value: ScoringOperator; label: string; numeric: boolean | null }[] = [
+  { value: 'equals', label: 'equals', numeric: null },
+  { value: 'in', label: 'is one of', numeric: false },
+  { value: 'contains', label: 'contains', numeric: false },
+  { value: 'gte', label: 'is at least', numeric: true },
+  { value: 'lte', label: 'is at most', numeric: true },
+  { value: 'is_set', label: 'is set', numeric: null },
+  { value: 'is_empty', label: 'is empty', numeric: null },
+];
+
+// Operators that make sense for a field, text comparisons on numbers and the other way round are left out
+export const getOperatorsForField = (field: ScoringField) => {
+  const numeric = SCORING_FIELDS.find((f) => f.value === field)?.numeric ?? false;
+  return SCORING_OPERATORS.filter((o) => o.numeric === null || o.numeric === numeric);
+};
+
+export const operatorTakesValue = (operator: ScoringOperator) => !['is_set', 'is_empty'].includes(operator);
+
+export const describeScoringRule = (rule: Pick<ScoringRule, 'field' | 'operator' | 'value'>, questionText?: string) => {
+  const field = rule.field === 'answer'
+    ? `Answer to "${questionText || 'deleted question'}"`
+    : SCORING_FIELDS.find((f) => f.value === rule.field)?.label || rule.field;
+  const operator = SCORING_OPERATORS.find((o) => o.value === rule.operator)?.label || rule.operator;
+  return operatorTakesValue(rule.operator) ? `${field} ${operator} ${rule.value}` : `${field} ${operator}`;
+};
+
+export const getScoreClassName = (score: number) => {
+  if (score >= 50) return 'bg-green-600';
+  if (score > 0) return 'bg-blue-600';
+  if (score < 0) return 'bg-red-600';
+  return 'bg-gray-600';
+};
@@ -0,0 +1,38 @@
+import { DateTime } from 'luxon';
+import type { TaskType } from '../lib/supabase';
+import { getCountryTimezone, getLocalTime } from './time';
+
+export const TASK_TYPES: { value: TaskType; label: string }[] = [
+  { value: 'callback', label: 'Callback' },
+  { value: 'follow_up', label: 'Follow-up' },
+  { value: 'email', label: 'Email' },
+  { value: 'meeting', label: 'Meeting' },
+];
+
+export const REMINDER_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'No reminder' },
+  { value: 0, label: 'At due time' },
+  { value: 5, label: '5 minutes before' },
+  { value: 15, label: '15 minutes before' },
+  { value: 30, label: '30 minutes before' },
+  { value: 60, label: '1 hour before' },
+];
+
+export const getTaskTypeLabel = (type: TaskType) => TASK_TYPES.find((t) => t.value === type)?.label || type;
+
+export const isOverdue = (dueAt: string | null) => !!dueAt && DateTime.fromISO(dueAt) < DateTime.now();
+
+// Due times are entered and shown in the lead's timezone, falling back to the agent's own
+export const getTaskTimezone = (country: string | null) => getCountryTimezone(country) || DateTime.local().zoneName;
+
+// A datetime-local input value in the lead's timezone, as a UTC ISO string for due_at
+export const toDueAt = (localValue: string, country: string | null) =>
+  DateTime.fromISO(localValue, { zone: getTaskTimezone(country) }).toUTC().toISO();
+
+// "Tue 12 Mar 15:00 client time", with the agent's own time when it differs
+export const formatDueTime = (dueAt: string, country: string | null) => {
+  const own = DateTime.fromISO(dueAt).toFormat('ccc d LLL HH:mm');
+  const client = getLocalTime(country, dueAt, 'ccc d LLL HH:mm');
+  if (client === 'Unknown') return own;
+  return client === own ? `${client} client time` : `${client} client time (${own} yours)`;
+};
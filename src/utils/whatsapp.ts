@@ -0,0 +1,25 @@
+import { DateTime } from 'luxon';
+import type { WhatsAppMessage } from '../lib/supabase';
+
+const PLACEHOLDER = /\{\{(\d+)\}\}/g;
+
+// Free-form messages can only be sent within 24 hours of the lead's last message
+export const SERVICE_WINDOW_HOURS = 24;
+
+// Highest placeholder number of a template body, "Hi {{1}}, about {{2}}" needs 2 parameters
+export const countPlaceholders = (body: string) =>
+  Math.max(0, ...Array.from(body.matchAll(PLACEHOLDER), (match) => Number(match[1])));
+
+// Replaces {{1}}, {{2}}... with the parameters, the same as the whatsapp edge function
+export const renderTemplate = (body: string, parameters: string[]) =>
+  body.replace(PLACEHOLDER, (placeholder, index) => parameters[Number(index) - 1] || placeholder);
+
+// Expiry of the service window opened by the newest inbound message, null when closed.
+// Expects messages oldest first
+export const getServiceWindowEnd = (messages: WhatsAppMessage[]) => {
+  const inbound = messages.filter((m) => m.direction === 'inbound');
+  const lastInbound = inbound[inbound.length - 1];
+  if (!lastInbound) return null;
+  const end = DateTime.fromISO(lastInbound.created_at).plus({ hours: SERVICE_WINDOW_HOURS });
+  return end > DateTime.now() ? end : null;
+};
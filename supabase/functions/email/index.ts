@@ -0,0 +1,257 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.7";
+import { createProvider } from "./providers.ts";
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS"
+};
+// Recipients of one bulk send, larger selections are sent in several requests
+const MAX_RECIPIENTS = 200;
+const UUID_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i;
+// 1x1 transparent GIF returned by the open pixel
+const PIXEL = Uint8Array.from(atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"), (c)=>c.charCodeAt(0));
+const log = (message, data?)=>{
+  const timestamp = new Date().toISOString();
+  const logData = data ? `${message} ${JSON.stringify(data)}` : message;
+  console.log(`[${timestamp}] ${logData}`);
+};
+const jsonResponse = (body, status = 200)=>new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json"
+    }
+  });
+const errorResponse = (status, code, message)=>jsonResponse({
+    success: false,
+    error: {
+      code,
+      message
+    }
+  }, status);
+// Path segments after the function name, e.g. /email/open/<id> -> ["open", "<id>"]
+const getRouteSegments = (req)=>{
+  const segments = new URL(req.url).pathname.split("/").filter(Boolean);
+  return segments.slice(segments.indexOf("email") + 1);
+};
+const escapeHtml = (value)=>value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+// Bodies are written as plain text, the HTML part keeps the line breaks and carries the open pixel
+const toHtml = (text, pixelUrl)=>`<div style="font-family: sans-serif; white-space: pre-wrap;">${escapeHtml(text)}</div><img src="${pixelUrl}" width="1" height="1" alt="" />`;
+// ---------- SEND ----------
+// Called from the lead page and the bulk actions with the agent's session, so only leads they can
+// see are rendered and sent to
+const sendEmails = async (req, supabase, provider)=>{
+  const userClient = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_ANON_KEY"), {
+    global: {
+      headers: {
+        Authorization: req.headers.get("Authorization") ?? ""
+      }
+    },
+    auth: {
+      persistSession: false
+    }
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return errorResponse(401, "unauthorized", "Not signed in");
+  const { data: allowed } = await userClient.rpc("has_permission", {
+    p_section: "clients",
+    p_action: "email"
+  });
+  if (!allowed) return errorResponse(403, "forbidden", "You do not have permission to send emails");
+  const { lead_ids, template_id = null, subject, body } = await req.json();
+  if (!Array.isArray(lead_ids) || lead_ids.length === 0) return errorResponse(422, "missing_leads", "lead_ids is required");
+  if (lead_ids.length > MAX_RECIPIENTS) return errorResponse(422, "too_many_leads", `At most ${MAX_RECIPIENTS} leads per request`);
+  if (!subject?.trim() || !body?.trim()) return errorResponse(422, "missing_content", "Subject and body are required");
+  if (template_id !== null) {
+    const { data: template } = await userClient.from("email_templates").select("id").eq("id", template_id).eq("is_active", true).maybeSingle();
+    if (!template) return errorResponse(400, "invalid_template", "Unknown or inactive email template");
+  }
+  const { data: rendered, error: renderError } = await userClient.rpc("render_lead_emails", {
+    p_lead_ids: lead_ids,
+    p_subject: subject,
+    p_body: body
+  });
+  if (renderError) throw renderError;
+  // Addresses that bounced before are not tried again
+  const addresses = rendered.map((email)=>email.email?.trim().toLowerCase()).filter(Boolean);
+  const { data: bounced } = await supabase.from("lead_emails").select("to_email").eq("status", "bounced").in("to_email", addresses);
+  const bouncedAddresses = new Set((bounced || []).map((email)=>email.to_email));
+  const results = {
+    sent: 0,
+    failed: 0,
+    skipped: lead_ids.length - rendered.length,
+    failures: []
+  };
+  const fail = (leadId, error)=>{
+    results.failed++;
+    results.failures.push({
+      lead_id: leadId,
+      error
+    });
+  };
+  try {
+    for (const email of rendered){
+      const to = email.email?.trim().toLowerCase();
+      if (!to || bouncedAddresses.has(to)) {
+        results.skipped++;
+        continue;
+      }
+      // Logged as pending before sending, so an email that went out is never missing from the log
+      const id = crypto.randomUUID();
+      const { error: insertError } = await supabase.from("lead_emails").insert({
+        id,
+        lead_id: email.lead_id,
+        template_id,
+        to_email: to,
+        subject: email.subject,
+        body: email.body,
+        status: "pending",
+        sent_by: user.id
+      });
+      if (insertError) {
+        log("Email log failed", {
+          lead_id: email.lead_id,
+          error: insertError.message
+        });
+        fail(email.lead_id, "Could not log the email");
+        continue;
+      }
+      let sendError = null;
+      try {
+        await provider.send({
+          id,
+          to,
+          subject: email.subject,
+          text: email.body,
+          html: toHtml(email.body, `${Deno.env.get("SUPABASE_URL")}/functions/v1/email/open/${id}`)
+        });
+      } catch (error) {
+        sendError = error?.message || "Sending failed";
+        log("Email send failed", {
+          lead_id: email.lead_id,
+          provider: provider.name,
+          sendError
+        });
+      }
+      const { error: updateError } = await supabase.from("lead_emails").update({
+        status: sendError ? "failed" : "sent",
+        error: sendError
+      }).eq("id", id);
+      // The email is sent either way, the row just stays pending
+      if (updateError) {
+        log("Email status update failed", {
+          id,
+          error: updateError.message
+        });
+      }
+      if (sendError) {
+        fail(email.lead_id, sendError);
+        continue;
+      }
+      await supabase.from("lead_activities").insert({
+        lead_id: email.lead_id,
+        type: "email_sent",
+        description: `Email sent to ${to}: ${email.subject}`,
+        metadata: {
+          email_id: id,
+          template_id,
+          to,
+          user_id: user.id
+        }
+      });
+      results.sent++;
+    }
+  } finally{
+    await provider.close();
+  }
+  return jsonResponse({
+    success: true,
+    data: results
+  });
+};
+// ---------- OPEN PIXEL ----------
+// Only the first open is logged, mail clients load images again on every view
+const trackOpen = async (supabase, emailId)=>{
+  if (UUID_PATTERN.test(emailId ?? "")) {
+    const { data: email } = await supabase.from("lead_emails").update({
+      opened_at: new Date().toISOString()
+    }).eq("id", emailId.match(UUID_PATTERN)[0]).is("opened_at", null).select("id, lead_id, subject").maybeSingle();
+    if (email) {
+      await supabase.from("lead_activities").insert({
+        lead_id: email.lead_id,
+        type: "email_opened",
+        description: `Email opened: ${email.subject}`,
+        metadata: {
+          email_id: email.id
+        }
+      });
+    }
+  }
+  return new Response(PIXEL, {
+    headers: {
+      "Content-Type": "image/gif",
+      "Cache-Control": "no-store"
+    }
+  });
+};
+// ---------- BOUNCE WEBHOOK ----------
+// { "event": "bounced", "message_id": "<lead_emails id>@domain", "reason": "..." }, posted by the
+// mail server's bounce handler with the X-Email-Webhook-Secret header
+const handleBounce = async (req, supabase, provider)=>{
+  // Without a secret only a mock deployment that opts in explicitly accepts bounces
+  const secret = Deno.env.get("EMAIL_WEBHOOK_SECRET");
+  const allowUnsigned = !secret && provider.name === "mock" && Deno.env.get("EMAIL_ALLOW_UNSIGNED_WEBHOOKS") === "true";
+  if (!allowUnsigned && (!secret || req.headers.get("X-Email-Webhook-Secret") !== secret)) {
+    return errorResponse(401, "unauthorized", "Invalid webhook secret");
+  }
+  const { event, message_id, reason } = await req.json();
+  const emailId = String(message_id ?? "").match(UUID_PATTERN)?.[0];
+  if (event !== "bounced" || !emailId) return errorResponse(422, "invalid_event", "Expected a bounced event with a message_id");
+  const { data: email } = await supabase.from("lead_emails").update({
+    status: "bounced",
+    error: reason || null
+  }).eq("id", emailId).in("status", [
+    "pending",
+    "sent"
+  ]).select("id, lead_id, to_email").maybeSingle();
+  if (email) {
+    await supabase.from("lead_activities").insert({
+      lead_id: email.lead_id,
+      type: "email_bounced",
+      description: reason ? `Email to ${email.to_email} bounced: ${reason}` : `Email to ${email.to_email} bounced`,
+      metadata: {
+        email_id: email.id,
+        reason: reason || null
+      }
+    });
+  }
+  return jsonResponse({
+    success: true
+  });
+};
+// Deployed with --no-verify-jwt since mail clients load the open pixel without a Supabase token,
+// /send checks the agent's session itself
+serve(async (req)=>{
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseKey) throw new Error("Missing Supabase configuration");
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const [route, param] = getRouteSegments(req);
+    if (route === "open" && req.method === "GET") return await trackOpen(supabase, param);
+    const provider = createProvider();
+    if (route === "send" && req.method === "POST") return await sendEmails(req, supabase, provider);
+    if (route === "webhook" && req.method === "POST") return await handleBounce(req, supabase, provider);
+    return errorResponse(404, "not_found", "Not found");
+  } catch (error) {
+    log("❌ Email function error", error?.message);
+    return errorResponse(500, "internal_error", error?.message || "Internal server error");
+  }
+});
@@ -0,0 +1,59 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+// Adapters for sending email. Each one exposes
+//   send({ id, to, subject, text, html }) and close()
+// and throws with the provider's error message when a message is rejected. `id` is the
+// lead_emails id, used in the Message-ID so bounces can be matched to the email.
+const createSmtpProvider = ()=>{
+  const hostname = Deno.env.get("SMTP_HOST");
+  const port = Number(Deno.env.get("SMTP_PORT") || 587);
+  const from = Deno.env.get("EMAIL_FROM");
+  if (!hostname || !from) throw new Error("Missing SMTP configuration");
+  const domain = from.split("@").pop()?.replace(/>$/, "");
+  let client = null;
+  return {
+    name: "smtp",
+    send: async ({ id, to, subject, text, html })=>{
+      // One connection per request, reused across a bulk send
+      client ??= new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls: port === 465,
+          auth: Deno.env.get("SMTP_USERNAME") ? {
+            username: Deno.env.get("SMTP_USERNAME"),
+            password: Deno.env.get("SMTP_PASSWORD")
+          } : undefined
+        }
+      });
+      await client.send({
+        from,
+        to,
+        subject,
+        content: text,
+        html,
+        headers: {
+          "Message-ID": `<${id}@${domain}>`
+        }
+      });
+    },
+    close: async ()=>{
+      await client?.close();
+    }
+  };
+};
+// Accepts every email without sending anything. Opens are tracked as usual, bounces can be
+// simulated by posting to /email/webhook with EMAIL_ALLOW_UNSIGNED_WEBHOOKS=true
+const createMockProvider = ()=>({
+    name: "mock",
+    send: async ()=>{},
+    close: async ()=>{}
+  });
+// Picked with EMAIL_PROVIDER. There is no default, the mock provider has to be asked for with
+// EMAIL_PROVIDER=mock so a missing setting never silently drops emails
+export const createProvider = ()=>{
+  const name = Deno.env.get("EMAIL_PROVIDER");
+  if (!name) throw new Error("Missing email provider configuration");
+  if (name === "smtp") return createSmtpProvider();
+  if (name === "mock") return createMockProvider();
+  throw new Error(`Unknown email provider: ${name}`);
+};
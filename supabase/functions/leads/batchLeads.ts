@@ -0,0 +1,119 @@
+import { jsonResponse, errorResponse, log } from "./http.ts";
+import { validateLeadInput } from "./createLead.ts";
+import { checkDailyLeadQuota } from "./rateLimit.ts";
+
+export const MAX_BATCH_SIZE = 500;
+
+// Per-item checks beyond validateLeadInput, so one bad row can't abort the whole transaction
+const validateBatchItem = (body)=>{
+  const error = validateLeadInput(body);
+  if (error) return error;
+  if (body.convertedAt && isNaN(Date.parse(body.convertedAt))) {
+    return {
+      code: "validation_error",
+      message: "Invalid convertedAt, expected ISO-8601",
+      details: {
+        field: "convertedAt",
+        value: body.convertedAt
+      }
+    };
+  }
+  if (body.source_id != null && body.source_id !== "" && !/^\d+$/.test(String(body.source_id))) {
+    return {
+      code: "validation_error",
+      message: "Invalid source_id, expected an integer",
+      details: {
+        field: "source_id",
+        value: body.source_id
+      }
+    };
+  }
+  return null;
+};
+
+// POST /leads/batch with { leads: [...] }, each item shaped like a single POST body.
+// Valid items are inserted by create_leads_batch in one transaction (duplicate check,
+// assignment rules, activities and notifications); the response has one result per
+// item, in request order: created, duplicate_email, duplicate_phone or validation_error.
+export const createLeadsBatch = async (req, supabase, apiKeyData)=>{
+  const body = await req.json();
+  const items = body?.leads;
+  if (!Array.isArray(items) || items.length === 0) {
+    return errorResponse(400, "validation_error", "Body must contain a non-empty leads array", {
+      field: "leads"
+    });
+  }
+  if (items.length > MAX_BATCH_SIZE) {
+    return errorResponse(413, "batch_too_large", `A batch accepts at most ${MAX_BATCH_SIZE} leads`, {
+      max: MAX_BATCH_SIZE,
+      received: items.length
+    });
+  }
+
+  const results = new Array(items.length);
+  const rows = [];
+  items.forEach((item, index)=>{
+    const error = validateBatchItem(item);
+    if (error) {
+      results[index] = {
+        index,
+        status: "validation_error",
+        error: {
+          message: error.message,
+          details: error.details
+        }
+      };
+      return;
+    }
+    rows.push({
+      index,
+      first_name: item.firstName,
+      last_name: item.lastName,
+      email: item.email,
+      phone: item.phone || null,
+      country: item.country || null,
+      brand: item.brand || null,
+      funnel: item.funnel || null,
+      desk: item.desk || null,
+      source_id: item.source_id || apiKeyData.source_id || null,
+      converted_at: item.convertedAt ? new Date(item.convertedAt).toISOString() : null
+    });
+  });
+
+  if (rows.length > 0) {
+    // Duplicates are not known yet, so the whole valid part of the batch must fit the cap
+    const quotaResponse = await checkDailyLeadQuota(supabase, apiKeyData, rows.length);
+    if (quotaResponse) return quotaResponse;
+    const { data, error } = await supabase.rpc("create_leads_batch", {
+      p_api_key_id: apiKeyData.id,
+      p_leads: rows
+    });
+    if (error) return errorResponse(500, "query_error", error.message);
+    for (const result of data){
+      results[result.index] = result;
+    }
+  }
+
+  const summary = {
+    total: items.length,
+    created: 0,
+    duplicate_email: 0,
+    duplicate_phone: 0,
+    validation_error: 0
+  };
+  for (const result of results){
+    summary[result.status]++;
+  }
+  log("Lead batch processed", {
+    source: apiKeyData.source_prefix,
+    ...summary
+  });
+
+  return jsonResponse({
+    success: true,
+    data: {
+      summary,
+      results
+    }
+  });
+};
@@ -0,0 +1,97 @@
+import { log } from "./http.ts";
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Returns an API error ({ status, code, message, details? }) or null when the payload is valid
+export const validateLeadInput = (body)=>{
+  if (!body || !body.firstName || !body.lastName || !body.email) {
+    return {
+      status: 400,
+      code: "validation_error",
+      message: "Missing required fields",
+      details: {
+        fields: [
+          "firstName",
+          "lastName",
+          "email"
+        ]
+      }
+    };
+  }
+  if (!emailRegex.test(body.email)) {
+    return {
+      status: 400,
+      code: "validation_error",
+      message: "Invalid email format",
+      details: {
+        field: "email",
+        value: body.email
+      }
+    };
+  }
+  return null;
+};
+
+// Shared by v1 and v2 POST: duplicate check, insert and activity log. Assignment rules
+// are applied by the database on insert.
+// Resolves to { lead } on success or { error } with the API error to return.
+export const createLead = async (supabase, apiKeyData, body)=>{
+  const validationError = validateLeadInput(body);
+  if (validationError) return {
+    error: validationError
+  };
+
+  // Matches on the normalized email and phone, so case and phone formatting don't matter
+  const { data: existingLead } = await supabase.rpc("find_contact_duplicate", {
+    p_email: body.email,
+    p_phone: body.phone || null,
+    p_country: body.country || null
+  }).maybeSingle();
+  if (existingLead) {
+    return {
+      error: {
+        status: 409,
+        code: existingLead.duplicate_on === "email" ? "duplicate_email" : "duplicate_phone",
+        message: existingLead.duplicate_on === "email" ? "Lead with this email already exists" : "Lead with this phone number already exists"
+      }
+    };
+  }
+
+  // Optional convertedAt support
+  const convertedAtIso = body.convertedAt && !isNaN(Date.parse(body.convertedAt)) ? new Date(body.convertedAt).toISOString() : null;
+  const { data: lead, error: leadError } = await supabase.from("leads").insert([
+    {
+      first_name: body.firstName,
+      last_name: body.lastName,
+      email: body.email,
+      phone: body.phone || null,
+      country: body.country || null,
+      brand: body.brand || null,
+      source: apiKeyData.source_prefix,
+      funnel: body.funnel || null,
+      desk: body.desk || null,
+      status: "New",
+      source_id: body.source_id || apiKeyData.source_id || null,
+      api_key_id: apiKeyData.id,
+      converted_at: convertedAtIso
+    }
+  ]).select().single();
+  if (leadError || !lead) throw leadError || new Error("Lead was not created");
+  // Assignment rules run in the on_lead_insert_assignment_rules trigger
+  log('Assigned by rules', lead.assigned_to);
+
+  await supabase.from("lead_activities").insert([
+    {
+      lead_id: lead.id,
+      type: convertedAtIso ? "conversion" : "creation",
+      description: convertedAtIso ? `Lead created with FTD at ${convertedAtIso} via API (${apiKeyData.source_prefix})` : `Lead created via API (${apiKeyData.source_prefix})`
+    }
+  ]);
+  await supabase.from("api_keys").update({
+    last_used: new Date().toISOString()
+  }).eq("id", apiKeyData.id);
+
+  return {
+    lead
+  };
+};
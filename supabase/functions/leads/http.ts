@@ -0,0 +1,35 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-api-key, content-type, idempotency-key",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Expose-Headers": "Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset, Idempotent-Replayed"
+};
+export const log = (message, data?)=>{
+  const timestamp = new Date().toISOString();
+  const logData = data ? `${message} ${JSON.stringify(data)}` : message;
+  console.log(`[${timestamp}] ${logData}`);
+};
+export const jsonResponse = (body, status = 200)=>new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json"
+    }
+  });
+// Every error leaves the function as { success: false, error: { code, message, details? } }
+export const errorResponse = (status, code, message, details?)=>jsonResponse({
+    success: false,
+    error: details ? {
+      code,
+      message,
+      details
+    } : {
+      code,
+      message
+    }
+  }, status);
+// Hex SHA-256, matching encode(digest(value, 'sha256'), 'hex') in the database
+export const sha256Hex = async (value)=>{
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b)=>b.toString(16).padStart(2, "0")).join("");
+};
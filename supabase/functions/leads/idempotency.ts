@@ -0,0 +1,66 @@
+import { errorResponse, jsonResponse, log, sha256Hex } from "./http.ts";
+
+const MAX_KEY_LENGTH = 255;
+
+// Stored responses are replayed for 24h. Server errors and 429s are transient, so the
+// key is released for those and the affiliate's retry runs the request again.
+const isStorable = (status)=>status < 500 && status !== 429;
+
+// Runs `handler` at most once per Idempotency-Key (scoped to the API key) for POSTs.
+// A retry with the same key and body gets the stored response with
+// Idempotent-Replayed: true instead of a duplicate_email conflict.
+export const withIdempotency = async (req, supabase, apiKeyData, path, handler)=>{
+  const idempotencyKey = req.headers.get("idempotency-key");
+  if (req.method !== "POST" || !idempotencyKey) return handler();
+
+  if (idempotencyKey.length > MAX_KEY_LENGTH) {
+    return errorResponse(400, "validation_error", `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, {
+      field: "Idempotency-Key"
+    });
+  }
+
+  const body = await req.clone().text();
+  const requestHash = await sha256Hex(`${req.method} ${path}\n${body}`);
+  const { data: claim, error } = await supabase.rpc("claim_idempotency_key", {
+    p_api_key_id: apiKeyData.id,
+    p_idempotency_key: idempotencyKey,
+    p_request_hash: requestHash
+  });
+  if (error) throw error;
+
+  if (claim.state === "replay") {
+    log("Replaying idempotent response", {
+      idempotencyKey,
+      status: claim.status_code
+    });
+    const replay = jsonResponse(claim.response_body, claim.status_code);
+    replay.headers.set("Idempotent-Replayed", "true");
+    return replay;
+  }
+  if (claim.state === "in_progress") {
+    return errorResponse(409, "idempotency_in_progress", "A request with this Idempotency-Key is still being processed, retry later");
+  }
+  if (claim.state === "mismatch") {
+    return errorResponse(422, "idempotency_key_reused", "This Idempotency-Key was already used for a different request");
+  }
+
+  const release = ()=>supabase.from("api_idempotency_keys").delete().eq("api_key_id", apiKeyData.id).eq("idempotency_key", idempotencyKey);
+
+  let response;
+  try {
+    response = await handler();
+  } catch (handlerError) {
+    await release();
+    throw handlerError;
+  }
+
+  if (isStorable(response.status)) {
+    await supabase.from("api_idempotency_keys").update({
+      status_code: response.status,
+      response_body: await response.clone().json()
+    }).eq("api_key_id", apiKeyData.id).eq("idempotency_key", idempotencyKey);
+  } else {
+    await release();
+  }
+  return response;
+};
@@ -0,0 +1,110 @@
+const MAX_LIMIT = 1000;
+
+// Cursors are opaque to affiliates: base64url of [created_at, id] of the last row returned
+const encodeCursor = (row)=>btoa(JSON.stringify([
+    row.created_at,
+    row.id
+  ])).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const decodeCursor = (value)=>{
+  try {
+    const [createdAt, id] = JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/")));
+    if (typeof createdAt !== "string" || isNaN(Date.parse(createdAt)) || !Number.isInteger(id)) return null;
+    return {
+      createdAt,
+      id
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Lists the leads of one API key ordered by (created_at, id), which is unique and
+// stable, so walking next_cursor never skips or repeats a lead even while new
+// leads arrive. `offset` still works for clients that page by position.
+//
+// Query params: email, from, to, sort (asc|desc, default desc), limit, offset, cursor
+// Resolves to { page: { data, total, next_cursor, has_more } } or { error }.
+export const listLeads = async (supabase, apiKeyData, url, fields, defaultLimit)=>{
+  const email = url.searchParams.get("email");
+  const fromDate = url.searchParams.get("from");
+  const toDate = url.searchParams.get("to");
+  const ascending = url.searchParams.get("sort") === "asc";
+  const limitParam = parseInt(url.searchParams.get("limit") ?? "");
+  const offsetParam = parseInt(url.searchParams.get("offset") ?? "");
+  const limit = Math.min(Math.max(isNaN(limitParam) ? defaultLimit : limitParam, 1), MAX_LIMIT);
+  const offset = Math.max(isNaN(offsetParam) ? 0 : offsetParam, 0);
+  const cursorParam = url.searchParams.get("cursor");
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return {
+      error: {
+        status: 400,
+        code: "invalid_cursor",
+        message: "Cursor is malformed, use next_cursor from a previous response",
+        details: {
+          field: "cursor",
+          value: cursorParam
+        }
+      }
+    };
+  }
+  const filtered = (select, options?)=>{
+    let query = supabase.from("leads").select(select, options).eq("api_key_id", apiKeyData.id);
+    if (email) query = query.eq("email", email);
+    if (fromDate && !isNaN(Date.parse(fromDate))) {
+      query = query.gte("created_at", new Date(fromDate).toISOString());
+    }
+    if (toDate && !isNaN(Date.parse(toDate))) {
+      query = query.lte("created_at", new Date(toDate).toISOString());
+    }
+    return query;
+  };
+
+  // Total matches the filters, independent of where the cursor is
+  const { count, error: countError } = await filtered("id", {
+    count: "exact",
+    head: true
+  });
+  if (countError) {
+    return {
+      error: {
+        status: 500,
+        code: "query_error",
+        message: countError.message
+      }
+    };
+  }
+
+  let query = filtered(fields).order("created_at", {
+    ascending
+  }).order("id", {
+    ascending
+  });
+  let start = offset;
+  if (cursor) {
+    const op = ascending ? "gt" : "lt";
+    query = query.or(`created_at.${op}."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.${op}.${cursor.id})`);
+    start = 0;
+  }
+  // One extra row tells whether another page exists
+  const { data, error } = await query.range(start, start + limit);
+  if (error) {
+    return {
+      error: {
+        status: 500,
+        code: "query_error",
+        message: error.message
+      }
+    };
+  }
+  const hasMore = data.length > limit;
+  const rows = hasMore ? data.slice(0, limit) : data;
+  return {
+    page: {
+      data: rows,
+      total: count ?? 0,
+      next_cursor: hasMore ? encodeCursor(rows[rows.length - 1]) : null,
+      has_more: hasMore
+    }
+  };
+};
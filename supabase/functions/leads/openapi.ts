@@ -0,0 +1,748 @@
+// OpenAPI 3 description of the leads function, served at GET /leads/openapi.json
+// and rendered by the in-app API docs page. Keep it in step with the handlers.
+
+const ERROR_CODES = {
+  missing_api_key: "401 - X-API-Key header missing",
+  unauthorized: "401 - Key unknown, inactive or past its rotation grace period",
+  ip_not_allowed: "403 - Caller IP not in the key's allowed IPs",
+  not_found: "404 - Lead does not exist or belongs to another key",
+  method_not_allowed: "405 - Method not supported on this path",
+  validation_error: "400 - Body or parameter failed validation, see details",
+  invalid_cursor: "400 - cursor is not a next_cursor from a previous response",
+  duplicate_email: "409 - A lead with this email already exists, compared case-insensitively",
+  duplicate_phone: "409 - A lead with this phone already exists, compared with the international dialing code",
+  idempotency_in_progress: "409 - First request with this Idempotency-Key still running",
+  batch_too_large: "413 - Batch holds more than 500 leads",
+  idempotency_key_reused: "422 - Idempotency-Key already used for a different request",
+  rate_limited: "429 - Per-minute request limit reached, see Retry-After",
+  daily_quota_exceeded: "429 - Daily lead limit reached, see Retry-After",
+  query_error: "500 - Database error",
+  internal_error: "500 - Unexpected error"
+};
+
+const errorResponse = (description)=>({
+    description,
+    content: {
+      "application/json": {
+        schema: {
+          $ref: "#/components/schemas/Error"
+        }
+      }
+    }
+  });
+
+const jsonContent = (schema, example?)=>({
+    "application/json": example ? {
+      schema,
+      example
+    } : {
+      schema
+    }
+  });
+
+const rateLimitHeaders = {
+  "X-RateLimit-Limit": {
+    $ref: "#/components/headers/X-RateLimit-Limit"
+  },
+  "X-RateLimit-Remaining": {
+    $ref: "#/components/headers/X-RateLimit-Remaining"
+  },
+  "X-RateLimit-Reset": {
+    $ref: "#/components/headers/X-RateLimit-Reset"
+  }
+};
+
+const commonErrors = {
+  "401": errorResponse("missing_api_key or unauthorized"),
+  "403": errorResponse("ip_not_allowed"),
+  "429": {
+    $ref: "#/components/responses/TooManyRequests"
+  },
+  "500": errorResponse("query_error or internal_error")
+};
+
+const listParameters = [
+  {
+    name: "limit",
+    in: "query",
+    description: "Page size, 1-1000",
+    schema: {
+      type: "integer",
+      minimum: 1,
+      maximum: 1000
+    }
+  },
+  {
+    name: "cursor",
+    in: "query",
+    description: "next_cursor from the previous page. Stable while new leads arrive.",
+    schema: {
+      type: "string"
+    }
+  },
+  {
+    name: "offset",
+    in: "query",
+    description: "Rows to skip, ignored when cursor is set",
+    schema: {
+      type: "integer",
+      minimum: 0
+    }
+  },
+  {
+    name: "sort",
+    in: "query",
+    description: "Order by created_at",
+    schema: {
+      type: "string",
+      enum: [
+        "desc",
+        "asc"
+      ],
+      default: "desc"
+    }
+  },
+  {
+    name: "email",
+    in: "query",
+    schema: {
+      type: "string",
+      format: "email"
+    }
+  },
+  {
+    name: "from",
+    in: "query",
+    description: "Created at or after (ISO-8601)",
+    schema: {
+      type: "string",
+      format: "date-time"
+    }
+  },
+  {
+    name: "to",
+    in: "query",
+    description: "Created at or before (ISO-8601)",
+    schema: {
+      type: "string",
+      format: "date-time"
+    }
+  }
+];
+
+const leadIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: {
+    type: "integer"
+  }
+};
+
+const idempotencyParameter = {
+  $ref: "#/components/parameters/IdempotencyKey"
+};
+
+const leadExample = {
+  firstName: "John",
+  lastName: "Doe",
+  email: "john@example.com",
+  phone: "+1234567890",
+  country: "United States",
+  brand: "Example Brand",
+  funnel: "Main Funnel"
+};
+
+export const buildOpenApiSpec = (serverUrl)=>({
+    openapi: "3.0.3",
+    info: {
+      title: "Leads API",
+      version: "2.0.0",
+      description: "Submit and track affiliate leads. Every error response is `{ success: false, error: { code, message, details? } }`; the `code` values are listed on the Error schema."
+    },
+    servers: [
+      {
+        url: serverUrl
+      }
+    ],
+    security: [
+      {
+        ApiKey: []
+      }
+    ],
+    paths: {
+      "/": {
+        get: {
+          summary: "List leads (v1)",
+          description: "Leads created with this key, dates formatted as `01 September 2025`.",
+          parameters: listParameters,
+          responses: {
+            "200": {
+              description: "One page of leads",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/LeadPageV1"
+              })
+            },
+            "400": errorResponse("invalid_cursor"),
+            ...commonErrors
+          }
+        },
+        post: {
+          summary: "Create a lead (v1)",
+          parameters: [
+            idempotencyParameter
+          ],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              $ref: "#/components/schemas/LeadInput"
+            }, leadExample)
+          },
+          responses: {
+            "200": {
+              description: "Lead created",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/CreatedLeadV1"
+              })
+            },
+            "400": errorResponse("validation_error"),
+            "409": errorResponse("duplicate_email, duplicate_phone or idempotency_in_progress"),
+            "422": errorResponse("idempotency_key_reused"),
+            ...commonErrors
+          }
+        }
+      },
+      "/batch": {
+        post: {
+          summary: "Create up to 500 leads",
+          description: "Valid leads are inserted in one transaction. The response has one result per submitted lead, in order.",
+          parameters: [
+            idempotencyParameter
+          ],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              type: "object",
+              required: [
+                "leads"
+              ],
+              properties: {
+                leads: {
+                  type: "array",
+                  minItems: 1,
+                  maxItems: 500,
+                  items: {
+                    $ref: "#/components/schemas/LeadInput"
+                  }
+                }
+              }
+            }, {
+              leads: [
+                leadExample
+              ]
+            })
+          },
+          responses: {
+            "200": {
+              description: "Per-lead results",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/BatchResult"
+              })
+            },
+            "400": errorResponse("validation_error"),
+            "409": errorResponse("idempotency_in_progress"),
+            "413": errorResponse("batch_too_large"),
+            "422": errorResponse("idempotency_key_reused"),
+            ...commonErrors
+          }
+        }
+      },
+      "/v2": {
+        get: {
+          summary: "List leads",
+          parameters: listParameters,
+          responses: {
+            "200": {
+              description: "One page of leads",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/LeadPage"
+              })
+            },
+            "400": errorResponse("invalid_cursor"),
+            ...commonErrors
+          }
+        },
+        post: {
+          summary: "Create a lead",
+          parameters: [
+            idempotencyParameter
+          ],
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              $ref: "#/components/schemas/LeadInput"
+            }, leadExample)
+          },
+          responses: {
+            "201": {
+              description: "Lead created",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/CreatedLead"
+              })
+            },
+            "400": errorResponse("validation_error"),
+            "409": errorResponse("duplicate_email, duplicate_phone or idempotency_in_progress"),
+            "422": errorResponse("idempotency_key_reused"),
+            ...commonErrors
+          }
+        }
+      },
+      "/v2/{id}": {
+        parameters: [
+          leadIdParameter
+        ],
+        get: {
+          summary: "Get a lead",
+          responses: {
+            "200": {
+              description: "The lead",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/LeadEnvelope"
+              })
+            },
+            "404": errorResponse("not_found"),
+            ...commonErrors
+          }
+        },
+        patch: {
+          summary: "Update a lead",
+          requestBody: {
+            required: true,
+            content: jsonContent({
+              $ref: "#/components/schemas/LeadUpdate"
+            }, {
+              status: "Call Back"
+            })
+          },
+          responses: {
+            "200": {
+              description: "Updated lead",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                $ref: "#/components/schemas/LeadEnvelope"
+              })
+            },
+            "400": errorResponse("validation_error"),
+            "404": errorResponse("not_found"),
+            ...commonErrors
+          }
+        },
+        delete: {
+          summary: "Delete a lead",
+          responses: {
+            "200": {
+              description: "Lead deleted",
+              headers: rateLimitHeaders,
+              content: jsonContent({
+                type: "object",
+                properties: {
+                  success: {
+                    type: "boolean"
+                  },
+                  data: {
+                    type: "object",
+                    properties: {
+                      id: {
+                        type: "integer"
+                      },
+                      deleted: {
+                        type: "boolean"
+                      }
+                    }
+                  }
+                }
+              })
+            },
+            "404": errorResponse("not_found"),
+            ...commonErrors
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        ApiKey: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key"
+        }
+      },
+      parameters: {
+        IdempotencyKey: {
+          name: "Idempotency-Key",
+          in: "header",
+          description: "Reuse on retries: within 24 hours the original response is returned with `Idempotent-Replayed: true`.",
+          schema: {
+            type: "string",
+            maxLength: 255
+          }
+        }
+      },
+      headers: {
+        "X-RateLimit-Limit": {
+          description: "Requests allowed per minute for this key",
+          schema: {
+            type: "integer"
+          }
+        },
+        "X-RateLimit-Remaining": {
+          description: "Requests left in the current minute",
+          schema: {
+            type: "integer"
+          }
+        },
+        "X-RateLimit-Reset": {
+          description: "Epoch second the current window ends",
+          schema: {
+            type: "integer"
+          }
+        },
+        "Retry-After": {
+          description: "Seconds to wait before retrying",
+          schema: {
+            type: "integer"
+          }
+        }
+      },
+      responses: {
+        TooManyRequests: {
+          description: "rate_limited or daily_quota_exceeded",
+          headers: {
+            "Retry-After": {
+              $ref: "#/components/headers/Retry-After"
+            },
+            ...rateLimitHeaders
+          },
+          content: jsonContent({
+            $ref: "#/components/schemas/Error"
+          })
+        }
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          required: [
+            "success",
+            "error"
+          ],
+          properties: {
+            success: {
+              type: "boolean",
+              enum: [
+                false
+              ]
+            },
+            error: {
+              type: "object",
+              required: [
+                "code",
+                "message"
+              ],
+              properties: {
+                code: {
+                  type: "string",
+                  enum: Object.keys(ERROR_CODES),
+                  description: Object.entries(ERROR_CODES).map(([code, text])=>`- \`${code}\`: ${text}`).join("\n")
+                },
+                message: {
+                  type: "string"
+                },
+                details: {
+                  type: "object",
+                  additionalProperties: true
+                }
+              }
+            }
+          }
+        },
+        LeadInput: {
+          type: "object",
+          required: [
+            "firstName",
+            "lastName",
+            "email"
+          ],
+          properties: {
+            firstName: {
+              type: "string"
+            },
+            lastName: {
+              type: "string"
+            },
+            email: {
+              type: "string",
+              format: "email",
+              description: "Must not match an existing lead"
+            },
+            phone: {
+              type: "string",
+              description: "With country code, must not match an existing lead"
+            },
+            country: {
+              type: "string",
+              description: "ISO alpha-2 or alpha-3 code, English name or common alias (UK, USA, Deutschland). Normalized to country_code"
+            },
+            brand: {
+              type: "string"
+            },
+            funnel: {
+              type: "string"
+            },
+            desk: {
+              type: "string"
+            },
+            source_id: {
+              type: "integer",
+              description: "Your own lead id, defaults to a CRM generated one"
+            },
+            convertedAt: {
+              type: "string",
+              format: "date-time",
+              description: "FTD time if the lead already converted"
+            }
+          }
+        },
+        LeadUpdate: {
+          type: "object",
+          properties: {
+            status: {
+              type: "string",
+              description: "One of the CRM lead statuses"
+            },
+            phone: {
+              type: "string",
+              nullable: true
+            },
+            convertedAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true
+            }
+          }
+        },
+        Lead: {
+          type: "object",
+          properties: {
+            id: {
+              type: "integer"
+            },
+            source_id: {
+              type: "integer"
+            },
+            first_name: {
+              type: "string"
+            },
+            last_name: {
+              type: "string"
+            },
+            email: {
+              type: "string"
+            },
+            phone: {
+              type: "string",
+              nullable: true
+            },
+            country: {
+              type: "string",
+              nullable: true
+            },
+            country_code: {
+              type: "string",
+              nullable: true,
+              description: "ISO 3166-1 alpha-2 code derived from country, null when not recognized"
+            },
+            brand: {
+              type: "string",
+              nullable: true
+            },
+            funnel: {
+              type: "string",
+              nullable: true
+            },
+            status: {
+              type: "string"
+            },
+            has_deposited: {
+              type: "boolean"
+            },
+            converted_at: {
+              type: "string",
+              format: "date-time",
+              nullable: true
+            },
+            created_at: {
+              type: "string",
+              format: "date-time"
+            }
+          }
+        },
+        LeadEnvelope: {
+          type: "object",
+          properties: {
+            success: {
+              type: "boolean"
+            },
+            data: {
+              $ref: "#/components/schemas/Lead"
+            }
+          }
+        },
+        LeadPage: {
+          type: "object",
+          properties: {
+            success: {
+              type: "boolean"
+            },
+            data: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/Lead"
+              }
+            },
+            total: {
+              type: "integer",
+              description: "Leads matching the filters"
+            },
+            next_cursor: {
+              type: "string",
+              nullable: true
+            },
+            has_more: {
+              type: "boolean"
+            }
+          }
+        },
+        LeadPageV1: {
+          allOf: [
+            {
+              $ref: "#/components/schemas/LeadPage"
+            }
+          ],
+          description: "Same as LeadPage, with created_at and converted_at as `01 September 2025`"
+        },
+        CreatedLead: {
+          type: "object",
+          properties: {
+            success: {
+              type: "boolean"
+            },
+            data: {
+              type: "object",
+              properties: {
+                id: {
+                  type: "integer"
+                },
+                source_id: {
+                  type: "integer"
+                },
+                created_at: {
+                  type: "string",
+                  format: "date-time"
+                },
+                converted_at: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true
+                }
+              }
+            }
+          }
+        },
+        CreatedLeadV1: {
+          allOf: [
+            {
+              $ref: "#/components/schemas/CreatedLead"
+            }
+          ],
+          description: "Same as CreatedLead, with dates as `01 September 2025`"
+        },
+        BatchResult: {
+          type: "object",
+          properties: {
+            success: {
+              type: "boolean"
+            },
+            data: {
+              type: "object",
+              properties: {
+                summary: {
+                  type: "object",
+                  properties: {
+                    total: {
+                      type: "integer"
+                    },
+                    created: {
+                      type: "integer"
+                    },
+                    duplicate_email: {
+                      type: "integer"
+                    },
+                    duplicate_phone: {
+                      type: "integer"
+                    },
+                    validation_error: {
+                      type: "integer"
+                    }
+                  }
+                },
+                results: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      index: {
+                        type: "integer"
+                      },
+                      status: {
+                        type: "string",
+                        enum: [
+                          "created",
+                          "duplicate_email",
+                          "duplicate_phone",
+                          "validation_error"
+                        ]
+                      },
+                      id: {
+                        type: "integer"
+                      },
+                      source_id: {
+                        type: "integer"
+                      },
+                      error: {
+                        type: "object",
+                        properties: {
+                          message: {
+                            type: "string"
+                          },
+                          details: {
+                            type: "object",
+                            additionalProperties: true
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  });
@@ -0,0 +1,60 @@
+import { jsonResponse } from "./http.ts";
+
+// Counts this request against the key's per-minute window.
+// Resolves to { allowed, limit, remaining, reset } (reset in epoch seconds).
+export const consumeRateLimit = async (supabase, apiKeyData)=>{
+  const { data, error } = await supabase.rpc("consume_api_rate_limit", {
+    p_api_key_id: apiKeyData.id
+  });
+  if (error) throw error;
+  return data;
+};
+
+// Adds X-RateLimit-* to a response built by the route handlers
+export const withRateLimitHeaders = (response, rateLimit)=>{
+  response.headers.set("X-RateLimit-Limit", String(rateLimit.limit));
+  response.headers.set("X-RateLimit-Remaining", String(rateLimit.remaining));
+  response.headers.set("X-RateLimit-Reset", String(rateLimit.reset));
+  return response;
+};
+
+const tooManyRequests = (code, message, retryAfter, details)=>{
+  const response = jsonResponse({
+    success: false,
+    error: {
+      code,
+      message,
+      details
+    }
+  }, 429);
+  response.headers.set("Retry-After", String(retryAfter));
+  return response;
+};
+
+export const rateLimitedResponse = (rateLimit)=>{
+  const retryAfter = Math.max(rateLimit.reset - Math.floor(Date.now() / 1000), 1);
+  return withRateLimitHeaders(tooManyRequests("rate_limited", `Rate limit exceeded (max ${rateLimit.limit} requests per minute)`, retryAfter, {
+    limit: rateLimit.limit,
+    retry_after: retryAfter
+  }), rateLimit);
+};
+
+// Returns a 429 response when creating `requested` more leads would pass the key's
+// daily cap (UTC day), or null when there is room or the key has no cap
+export const checkDailyLeadQuota = async (supabase, apiKeyData, requested)=>{
+  if (!apiKeyData.daily_lead_limit) return null;
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+  const { data: usage, error } = await supabase.from("api_key_daily_usage").select("lead_count").eq("api_key_id", apiKeyData.id).eq("usage_date", today).maybeSingle();
+  if (error) throw error;
+  const used = usage?.lead_count ?? 0;
+  if (used + requested <= apiKeyData.daily_lead_limit) return null;
+  const nextMidnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  const retryAfter = Math.ceil((nextMidnight - now.getTime()) / 1000);
+  return tooManyRequests("daily_quota_exceeded", `Daily lead limit reached (max ${apiKeyData.daily_lead_limit} leads per day)`, retryAfter, {
+    limit: apiKeyData.daily_lead_limit,
+    used,
+    requested,
+    retry_after: retryAfter
+  });
+};
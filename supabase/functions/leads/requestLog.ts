@@ -0,0 +1,74 @@
+import { log } from "./http.ts";
+
+const MAX_LOGGED_BODY_LENGTH = 256 * 1024;
+
+const maskEmail = (value)=>{
+  const [local, domain] = String(value).split("@");
+  return domain ? `${local.slice(0, 1)}***@${domain}` : "***";
+};
+const maskPhone = (value)=>{
+  const digits = String(value).replace(/\D/g, "");
+  return digits.length > 4 ? `***${digits.slice(-4)}` : "***";
+};
+const maskName = (value)=>value ? `${String(value).slice(0, 1)}***` : value;
+
+const maskers = {
+  email: maskEmail,
+  phone: maskPhone,
+  firstName: maskName,
+  lastName: maskName,
+  first_name: maskName,
+  last_name: maskName
+};
+
+// Keeps the shape of the payload (fields sent, batch size, countries, sources) but
+// masks personal data, so the log can settle disputes without storing lead PII
+export const redactBody = (value)=>{
+  if (Array.isArray(value)) return value.map(redactBody);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, field])=>[
+        key,
+        maskers[key] && field != null && typeof field !== "object" ? maskers[key](field) : redactBody(field)
+      ]));
+  }
+  return value;
+};
+
+// Body text as sent: parsed JSON when possible, otherwise the raw text (truncated)
+export const parseLoggedBody = (text)=>{
+  if (!text) return null;
+  if (text.length > MAX_LOGGED_BODY_LENGTH) {
+    return {
+      truncated: true,
+      length: text.length
+    };
+  }
+  try {
+    return redactBody(JSON.parse(text));
+  } catch {
+    return {
+      raw: text.slice(0, 1000)
+    };
+  }
+};
+
+// Reads error.code from the { success: false, error } envelope without consuming the response
+export const responseErrorCode = async (response)=>{
+  if (response.status < 400) return null;
+  try {
+    const body = await response.clone().json();
+    return body?.error?.code ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// A failed log write must never fail the request itself
+export const logApiRequest = async (supabase, entry)=>{
+  try {
+    const { error } = await supabase.from("api_request_logs").insert(entry);
+    if (error) log("Failed to write API request log", error.message);
+  } catch (error) {
+    log("Failed to write API request log", error?.message);
+  }
+};
@@ -0,0 +1,163 @@
+import { jsonResponse, errorResponse, log } from "./http.ts";
+import { createLead } from "./createLead.ts";
+import { listLeads } from "./listLeads.ts";
+import { checkDailyLeadQuota } from "./rateLimit.ts";
+
+// v2 returns every timestamp as ISO-8601 exactly as stored
+const LEAD_FIELDS = "id, source_id, first_name, last_name, email, phone, country, country_code, brand, funnel, status, has_deposited, converted_at, created_at";
+
+const parseLeadId = (value)=>/^\d+$/.test(value ?? "") ? Number(value) : null;
+
+const notFound = ()=>errorResponse(404, "not_found", "Lead not found");
+
+// A key only ever sees the leads it created
+const findOwnLead = (supabase, apiKeyData, id)=>supabase.from("leads").select(LEAD_FIELDS).eq("id", id).eq("api_key_id", apiKeyData.id).maybeSingle();
+
+const getLeads = async (req, supabase, apiKeyData)=>{
+  const { page, error } = await listLeads(supabase, apiKeyData, new URL(req.url), LEAD_FIELDS, 100);
+  if (error) return errorResponse(error.status, error.code, error.message, error.details);
+  return jsonResponse({
+    success: true,
+    ...page
+  });
+};
+
+const getLead = async (supabase, apiKeyData, id)=>{
+  const { data, error } = await findOwnLead(supabase, apiKeyData, id);
+  if (error) return errorResponse(500, "query_error", error.message);
+  if (!data) return notFound();
+  return jsonResponse({
+    success: true,
+    data
+  });
+};
+
+const postLead = async (req, supabase, apiKeyData)=>{
+  const quotaResponse = await checkDailyLeadQuota(supabase, apiKeyData, 1);
+  if (quotaResponse) return quotaResponse;
+  const body = await req.json();
+  const { lead, error } = await createLead(supabase, apiKeyData, body);
+  if (error) return errorResponse(error.status, error.code, error.message, error.details);
+  return jsonResponse({
+    success: true,
+    data: {
+      id: lead.id,
+      source_id: lead.source_id,
+      created_at: lead.created_at,
+      converted_at: lead.converted_at
+    }
+  }, 201);
+};
+
+// PATCH accepts status, phone and convertedAt (ISO-8601 or null)
+const patchLead = async (req, supabase, apiKeyData, id)=>{
+  const { data: lead, error: findError } = await findOwnLead(supabase, apiKeyData, id);
+  if (findError) return errorResponse(500, "query_error", findError.message);
+  if (!lead) return notFound();
+
+  const body = await req.json();
+  const updates: Record<string, unknown> = {};
+  const activities = [];
+
+  if (body.status !== undefined) {
+    const { data: status } = await supabase.from("lead_statuses").select("name").eq("name", body.status).maybeSingle();
+    if (!status) {
+      return errorResponse(400, "validation_error", "Unknown status", {
+        field: "status",
+        value: body.status
+      });
+    }
+    updates.status = status.name;
+    activities.push({
+      lead_id: id,
+      type: "status_change",
+      description: `Status changed to ${status.name} via API (${apiKeyData.source_prefix})`
+    });
+  }
+
+  if (body.phone !== undefined) {
+    updates.phone = body.phone || null;
+    activities.push({
+      lead_id: id,
+      type: "update",
+      description: `Phone updated via API (${apiKeyData.source_prefix})`
+    });
+  }
+
+  if (body.convertedAt !== undefined) {
+    if (body.convertedAt !== null && isNaN(Date.parse(body.convertedAt))) {
+      return errorResponse(400, "validation_error", "Invalid convertedAt, expected ISO-8601", {
+        field: "convertedAt",
+        value: body.convertedAt
+      });
+    }
+    updates.converted_at = body.convertedAt === null ? null : new Date(body.convertedAt).toISOString();
+    activities.push({
+      lead_id: id,
+      type: "conversion",
+      description: updates.converted_at ? `FTD set to ${updates.converted_at} via API (${apiKeyData.source_prefix})` : `FTD cleared via API (${apiKeyData.source_prefix})`
+    });
+  }
+
+  if (activities.length === 0) {
+    return errorResponse(400, "validation_error", "Nothing to update", {
+      fields: [
+        "status",
+        "phone",
+        "convertedAt"
+      ]
+    });
+  }
+
+  const { data, error } = await supabase.from("leads").update(updates).eq("id", id).select(LEAD_FIELDS).single();
+  if (error) return errorResponse(500, "query_error", error.message);
+  await supabase.from("lead_activities").insert(activities);
+  log("Lead updated via API v2", {
+    id,
+    fields: Object.keys(updates)
+  });
+  return jsonResponse({
+    success: true,
+    data
+  });
+};
+
+const deleteLead = async (supabase, apiKeyData, id)=>{
+  const { data: lead, error: findError } = await findOwnLead(supabase, apiKeyData, id);
+  if (findError) return errorResponse(500, "query_error", findError.message);
+  if (!lead) return notFound();
+  const { error } = await supabase.from("leads").delete().eq("id", id);
+  if (error) return errorResponse(500, "query_error", error.message);
+  log("Lead deleted via API v2", {
+    id
+  });
+  return jsonResponse({
+    success: true,
+    data: {
+      id,
+      deleted: true
+    }
+  });
+};
+
+// Routes below /leads/v2:
+//   GET    /            list own leads (cursor or offset paginated)
+//   POST   /            create a lead
+//   GET    /:id         fetch one lead
+//   PATCH  /:id         update status, phone or convertedAt
+//   DELETE /:id         delete a lead
+export const handleV2 = async (req, supabase, apiKeyData, segments)=>{
+  if (segments.length === 0) {
+    if (req.method === "GET") return getLeads(req, supabase, apiKeyData);
+    if (req.method === "POST") return postLead(req, supabase, apiKeyData);
+    return errorResponse(405, "method_not_allowed", "Method not allowed");
+  }
+
+  const id = segments.length === 1 ? parseLeadId(segments[0]) : null;
+  if (id === null) return notFound();
+
+  if (req.method === "GET") return getLead(supabase, apiKeyData, id);
+  if (req.method === "PATCH") return patchLead(req, supabase, apiKeyData, id);
+  if (req.method === "DELETE") return deleteLead(supabase, apiKeyData, id);
+  return errorResponse(405, "method_not_allowed", "Method not allowed");
+};
@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.7";
+// Delay before attempt n+1, after n failed attempts. The last failure marks the delivery failed.
+const RETRY_DELAYS_SECONDS = [
+  60,
+  5 * 60,
+  30 * 60,
+  2 * 60 * 60,
+  12 * 60 * 60
+];
+const MAX_ATTEMPTS = RETRY_DELAYS_SECONDS.length + 1;
+const REQUEST_TIMEOUT_MS = 10000;
+const log = (message, data?)=>{
+  const timestamp = new Date().toISOString();
+  const logData = data ? `${message} ${JSON.stringify(data)}` : message;
+  console.log(`[${timestamp}] ${logData}`);
+};
+const toHex = (buffer)=>Array.from(new Uint8Array(buffer)).map((b)=>b.toString(16).padStart(2, "0")).join("");
+// Receivers verify HMAC-SHA256(secret, `${timestamp}.${body}`) against X-Webhook-Signature
+const sign = async (secret, timestamp, body)=>{
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), {
+    name: "HMAC",
+    hash: "SHA-256"
+  }, false, [
+    "sign"
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(signature)}`;
+};
+const deliver = async (supabase, delivery)=>{
+  const { data: webhook } = await supabase.from("api_key_webhooks").select("id, url, secret, is_active").eq("id", delivery.webhook_id).maybeSingle();
+  const attempts = delivery.attempts + 1;
+  if (!webhook || !webhook.is_active) {
+    await supabase.from("webhook_deliveries").update({
+      status: "failed",
+      attempts,
+      last_error: "Webhook removed or disabled"
+    }).eq("id", delivery.id);
+    return false;
+  }
+  const body = JSON.stringify({
+    id: delivery.id,
+    ...delivery.payload
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  let statusCode = null;
+  let errorMessage = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "LeadsCRM-Webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": await sign(webhook.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    statusCode = response.status;
+    if (!response.ok) errorMessage = `HTTP ${response.status}`;
+    await response.body?.cancel();
+  } catch (error) {
+    errorMessage = error?.message || "Request failed";
+  }
+  if (!errorMessage) {
+    await supabase.from("webhook_deliveries").update({
+      status: "succeeded",
+      attempts,
+      last_status_code: statusCode,
+      last_error: null,
+      delivered_at: new Date().toISOString()
+    }).eq("id", delivery.id);
+    return true;
+  }
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  await supabase.from("webhook_deliveries").update({
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    last_status_code: statusCode,
+    last_error: errorMessage,
+    next_attempt_at: exhausted ? null : new Date(Date.now() + RETRY_DELAYS_SECONDS[attempts - 1] * 1000).toISOString()
+  }).eq("id", delivery.id);
+  log("Webhook delivery failed", {
+    id: delivery.id,
+    attempts,
+    statusCode,
+    errorMessage,
+    exhausted
+  });
+  return false;
+};
+// Invoked every minute by cron: sends every due delivery once
+serve(async ()=>{
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseKey) throw new Error("Missing Supabase configuration");
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const { data: deliveries, error } = await supabase.rpc("claim_webhook_deliveries", {
+      batch_size: 50
+    });
+    if (error) throw error;
+    const results = await Promise.all((deliveries || []).map((delivery)=>deliver(supabase, delivery)));
+    const succeeded = results.filter(Boolean).length;
+    log("Webhook dispatch finished", {
+      claimed: results.length,
+      succeeded
+    });
+    return new Response(JSON.stringify({
+      success: true,
+      data: {
+        claimed: results.length,
+        succeeded,
+        failed: results.length - succeeded
+      }
+    }), {
+      headers: {
+        "Content-Type": "application/json"
+      }
+    });
+  } catch (error) {
+    log("❌ Webhook dispatch error", error?.message);
+    return new Response(JSON.stringify({
+      success: false,
+      error: {
+        code: "internal_error",
+        message: error?.message || "Internal server error"
+      }
+    }), {
+      status: 500,
+      headers: {
+        "Content-Type": "application/json"
+      }
+    });
+  }
+});
@@ -0,0 +1,221 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.7";
+import { createProvider } from "./providers.ts";
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS"
+};
+// Free-form messages are only allowed within 24 hours of the lead's last message, templates always
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Status updates may arrive out of order, a message never goes back to an earlier status
+const STATUS_RANK = {
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4
+};
+const log = (message, data?)=>{
+  const timestamp = new Date().toISOString();
+  const logData = data ? `${message} ${JSON.stringify(data)}` : message;
+  console.log(`[${timestamp}] ${logData}`);
+};
+const jsonResponse = (body, status = 200)=>new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json"
+    }
+  });
+const errorResponse = (status, code, message)=>jsonResponse({
+    success: false,
+    error: {
+      code,
+      message
+    }
+  }, status);
+// Path segments after the function name, e.g. /whatsapp/webhook -> ["webhook"]
+const getRouteSegments = (req)=>{
+  const segments = new URL(req.url).pathname.split("/").filter(Boolean);
+  return segments.slice(segments.indexOf("whatsapp") + 1);
+};
+// Replaces {{1}}, {{2}}... with the parameters, the same as renderTemplate in src/utils/whatsapp.ts
+const renderTemplate = (body, parameters)=>body.replace(/\{\{(\d+)\}\}/g, (placeholder, index)=>parameters[Number(index) - 1] || placeholder);
+const countPlaceholders = (body)=>Math.max(0, ...Array.from(body.matchAll(/\{\{(\d+)\}\}/g), (match)=>Number(match[1])));
+// Meta signs webhook payloads with HMAC-SHA256(app secret, raw body) in X-Hub-Signature-256
+const verifySignature = async (secret, rawBody, header)=>{
+  if (!secret || !header) return false;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), {
+    name: "HMAC",
+    hash: "SHA-256"
+  }, false, [
+    "sign"
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(rawBody));
+  const expected = `sha256=${Array.from(new Uint8Array(signature)).map((b)=>b.toString(16).padStart(2, "0")).join("")}`;
+  // Constant-time comparison, so the response time does not reveal how much of a forged signature matched
+  if (expected.length !== header.length) return false;
+  let diff = 0;
+  for(let i = 0; i < expected.length; i++){
+    diff |= expected.charCodeAt(i) ^ header.charCodeAt(i);
+  }
+  return diff === 0;
+};
+// ---------- SEND ----------
+// Called from the lead page with the agent's session, so lead access follows their RLS policies
+const sendMessage = async (req, supabase, provider)=>{
+  const userClient = createClient(Deno.env.get("SUPABASE_URL"), Deno.env.get("SUPABASE_ANON_KEY"), {
+    global: {
+      headers: {
+        Authorization: req.headers.get("Authorization") ?? ""
+      }
+    },
+    auth: {
+      persistSession: false
+    }
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return errorResponse(401, "unauthorized", "Not signed in");
+  const { data: allowed } = await userClient.rpc("has_permission", {
+    p_section: "clients",
+    p_action: "whatsapp"
+  });
+  if (!allowed) return errorResponse(403, "forbidden", "You do not have permission to send WhatsApp messages");
+  const { lead_id, text, template_id, parameters = [] } = await req.json();
+  const { data: lead } = await userClient.from("leads").select("id, phone_normalized").eq("id", lead_id).maybeSingle();
+  if (!lead) return errorResponse(404, "lead_not_found", "Lead not found");
+  if (!lead.phone_normalized) return errorResponse(422, "missing_phone", "The lead has no valid phone number");
+  let body;
+  let template = null;
+  if (template_id) {
+    const { data } = await supabase.from("whatsapp_templates").select("*").eq("id", template_id).eq("is_active", true).maybeSingle();
+    if (!data) return errorResponse(404, "template_not_found", "Template not found");
+    if (!Array.isArray(parameters) || parameters.length < countPlaceholders(data.body) || parameters.some((p)=>!String(p).trim())) {
+      return errorResponse(422, "missing_parameters", `The template needs ${countPlaceholders(data.body)} parameters`);
+    }
+    template = data;
+    body = renderTemplate(data.body, parameters);
+  } else {
+    if (!text?.trim()) return errorResponse(422, "missing_text", "Message text is required");
+    const { data: lastInbound } = await supabase.from("whatsapp_messages").select("created_at").eq("lead_id", lead.id).eq("direction", "inbound").order("created_at", {
+      ascending: false
+    }).limit(1).maybeSingle();
+    if (!lastInbound || Date.now() - new Date(lastInbound.created_at).getTime() > SERVICE_WINDOW_MS) {
+      return errorResponse(422, "outside_service_window", "The lead has not written in the last 24 hours, send a template instead");
+    }
+    body = text.trim();
+  }
+  let providerMessageId = null;
+  let providerError = null;
+  try {
+    const result = template ? await provider.sendTemplate(lead.phone_normalized, template, parameters.map(String)) : await provider.sendText(lead.phone_normalized, body);
+    providerMessageId = result.id;
+  } catch (error) {
+    providerError = error?.message || "Sending failed";
+    log("WhatsApp send failed", {
+      lead_id: lead.id,
+      provider: provider.name,
+      providerError
+    });
+  }
+  const { data: message, error } = await supabase.from("whatsapp_messages").insert({
+    lead_id: lead.id,
+    direction: "outbound",
+    body,
+    template_id: template?.id ?? null,
+    status: providerError ? "failed" : "sent",
+    error: providerError,
+    provider_message_id: providerMessageId,
+    sent_by: user.id
+  }).select().single();
+  if (error) throw error;
+  if (providerError) return errorResponse(502, "provider_error", providerError);
+  return jsonResponse({
+    success: true,
+    data: message
+  });
+};
+// ---------- WEBHOOK ----------
+const handleWebhookPayload = async (supabase, payload)=>{
+  for (const entry of payload.entry || []){
+    for (const change of entry.changes || []){
+      const value = change.value || {};
+      for (const message of value.messages || []){
+        const body = message.type === "text" ? message.text?.body : `[${message.type} message]`;
+        const { data: leadId, error } = await supabase.rpc("record_whatsapp_inbound", {
+          p_from: message.from,
+          p_body: body || "",
+          p_provider_message_id: message.id,
+          p_received_at: message.timestamp ? new Date(Number(message.timestamp) * 1000).toISOString() : null
+        });
+        if (error) throw error;
+        if (!leadId) log("WhatsApp message from unknown number", {
+          from: message.from
+        });
+      }
+      for (const status of value.statuses || []){
+        const rank = STATUS_RANK[status.status];
+        if (!rank) continue;
+        const { error } = await supabase.from("whatsapp_messages").update({
+          status: status.status,
+          error: status.errors?.[0]?.title ?? null
+        }).eq("provider_message_id", status.id).eq("direction", "outbound").in("status", Object.keys(STATUS_RANK).filter((s)=>STATUS_RANK[s] < rank));
+        if (error) throw error;
+      }
+    }
+  }
+};
+const handleWebhook = async (req, supabase, provider)=>{
+  const url = new URL(req.url);
+  // Subscription check when the webhook URL is configured in the Meta app
+  if (req.method === "GET") {
+    const verifyToken = Deno.env.get("WHATSAPP_VERIFY_TOKEN");
+    if (verifyToken && url.searchParams.get("hub.mode") === "subscribe" && url.searchParams.get("hub.verify_token") === verifyToken) {
+      return new Response(url.searchParams.get("hub.challenge"), {
+        status: 200
+      });
+    }
+    return new Response("Forbidden", {
+      status: 403
+    });
+  }
+  if (req.method !== "POST") return errorResponse(405, "method_not_allowed", "Method not allowed");
+  const rawBody = await req.text();
+  // Signed whenever an app secret is set. Unsigned payloads are only accepted by a mock deployment
+  // that opts in explicitly, anyone can reach this route
+  const appSecret = Deno.env.get("WHATSAPP_APP_SECRET");
+  const allowUnsigned = !appSecret && provider.name === "mock" && Deno.env.get("WHATSAPP_ALLOW_UNSIGNED_WEBHOOKS") === "true";
+  if (!allowUnsigned && !await verifySignature(appSecret, rawBody, req.headers.get("X-Hub-Signature-256"))) {
+    return errorResponse(401, "invalid_signature", "Invalid signature");
+  }
+  await handleWebhookPayload(supabase, JSON.parse(rawBody));
+  // Anything but a 2xx makes Meta retry the whole payload, inbound messages are deduplicated
+  return jsonResponse({
+    success: true
+  });
+};
+// Deployed with --no-verify-jwt since Meta calls /webhook without a Supabase token,
+// /send checks the agent's session itself
+serve(async (req)=>{
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders
+    });
+  }
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseKey) throw new Error("Missing Supabase configuration");
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const provider = createProvider();
+    const route = getRouteSegments(req)[0];
+    if (route === "webhook") return await handleWebhook(req, supabase, provider);
+    if (route === "send" && req.method === "POST") return await sendMessage(req, supabase, provider);
+    return errorResponse(404, "not_found", "Not found");
+  } catch (error) {
+    log("❌ WhatsApp function error", error?.message);
+    return errorResponse(500, "internal_error", error?.message || "Internal server error");
+  }
+});
@@ -0,0 +1,85 @@
+// Adapters for sending WhatsApp messages. Each one exposes
+//   sendText(to, text) and sendTemplate(to, template, parameters) -> { id }
+// and throws with the provider's error message when a message is rejected.
+// `to` is the international number without the plus (phone_normalized).
+const GRAPH_API_URL = "https://graph.facebook.com/v19.0";
+const REQUEST_TIMEOUT_MS = 10000;
+// WhatsApp Business Cloud API: https://developers.facebook.com/docs/whatsapp/cloud-api/reference/messages
+const createCloudProvider = ()=>{
+  const phoneNumberId = Deno.env.get("WHATSAPP_PHONE_NUMBER_ID");
+  const accessToken = Deno.env.get("WHATSAPP_ACCESS_TOKEN");
+  if (!phoneNumberId || !accessToken) throw new Error("Missing WhatsApp Cloud API configuration");
+  const send = async (to, message)=>{
+    const response = await fetch(`${GRAPH_API_URL}/${phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        recipient_type: "individual",
+        to,
+        ...message
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    const result = await response.json().catch(()=>({}));
+    if (!response.ok || !result.messages?.[0]?.id) {
+      throw new Error(result.error?.message || `HTTP ${response.status}`);
+    }
+    return {
+      id: result.messages[0].id
+    };
+  };
+  return {
+    name: "cloud",
+    sendText: (to, text)=>send(to, {
+        type: "text",
+        text: {
+          preview_url: false,
+          body: text
+        }
+      }),
+    sendTemplate: (to, template, parameters)=>send(to, {
+        type: "template",
+        template: {
+          name: template.name,
+          language: {
+            code: template.language
+          },
+          components: parameters.length > 0 ? [
+            {
+              type: "body",
+              parameters: parameters.map((text)=>({
+                  type: "text",
+                  text
+                }))
+            }
+          ] : []
+        }
+      })
+  };
+};
+// Accepts every message without sending anything. Inbound messages and status updates can be
+// simulated by posting Cloud API shaped payloads to /whatsapp/webhook, unsigned only when
+// WHATSAPP_ALLOW_UNSIGNED_WEBHOOKS=true and no WHATSAPP_APP_SECRET is set
+const createMockProvider = ()=>{
+  const send = async ()=>({
+      id: `wamid.mock.${crypto.randomUUID()}`
+    });
+  return {
+    name: "mock",
+    sendText: send,
+    sendTemplate: send
+  };
+};
+// Picked with WHATSAPP_PROVIDER. There is no default, the mock provider has to be asked for
+// with WHATSAPP_PROVIDER=mock so a missing setting never silently drops messages
+export const createProvider = ()=>{
+  const name = Deno.env.get("WHATSAPP_PROVIDER");
+  if (!name) throw new Error("Missing WhatsApp provider configuration");
+  if (name === "cloud") return createCloudProvider();
+  if (name === "mock") return createMockProvider();
+  throw new Error(`Unknown WhatsApp provider: ${name}`);
+};
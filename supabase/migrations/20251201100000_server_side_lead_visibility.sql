@@ -0,0 +1,358 @@
+/*
+  # Server-side lead visibility, pagination and filtering
+
+  1. Problem
+    - SalesLeads and Retention downloaded every lead in 1000-row batches and
+      filtered by role/desk/subordinates in the browser
+    - Agents with large databases waited for the whole table before the list settled
+
+  2. New Functions
+    - `get_user_subordinates(user_id)` - recursive hierarchy below a user
+    - `get_visible_user_ids(user_id)` - the user plus the users whose leads they may see,
+      internal only
+    - `can_user_see_lead(lead)` - rewritten on top of `get_visible_user_ids`, same rules as before
+    - `get_visible_leads(...)` - one page of visible leads with total count,
+      sort and column filters, returned as `{ total, leads }`
+    - `get_visible_lead_facets(...)` - distinct values of a column for the
+      filter popovers, limited to visible leads
+
+  3. Visibility Rules (unchanged from the RLS policy of 20250717163251)
+    - Admins: all leads
+    - Desks: leads assigned to them or anyone below them in the hierarchy
+    - Managers: leads assigned to them or their direct reports
+    - Agents: only leads assigned to them
+    - Unassigned leads are only visible to admins
+
+  4. Indexes
+    - `(is_converted, created_at)` and `(is_converted, converted_at)` for the default page order
+    - `assigned_to` for hierarchy lookups
+*/
+
+-- Recursive subordinates lookup
+CREATE OR REPLACE FUNCTION get_user_subordinates(user_id uuid)
+RETURNS TABLE(subordinate_id uuid)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE subordinates AS (
+    SELECT up.id AS subordinate_id
+    FROM user_profiles up
+    WHERE up.manager_id = user_id
+
+    UNION
+
+    SELECT up.id AS subordinate_id
+    FROM user_profiles up
+    INNER JOIN subordinates s ON up.manager_id = s.subordinate_id
+  )
+  SELECT s.subordinate_id FROM subordinates s;
+END;
+$$;
+
+-- The user plus the users whose leads they see: direct reports for managers,
+-- the whole hierarchy below a desk
+CREATE OR REPLACE FUNCTION get_visible_user_ids(p_user_id uuid)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT ARRAY(
+    SELECT p_user_id
+    UNION
+    SELECT up.id FROM user_profiles up
+    WHERE up.manager_id = p_user_id
+    UNION
+    SELECT s.subordinate_id FROM get_user_subordinates(p_user_id) s
+    WHERE EXISTS (SELECT 1 FROM user_profiles WHERE id = p_user_id AND role = 'desk')
+  );
+$$;
+
+-- Row-level check used by RLS, kept in sync with get_visible_leads
+CREATE OR REPLACE FUNCTION can_user_see_lead(lead_record leads)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_user_profile user_profiles;
+BEGIN
+  SELECT * INTO current_user_profile
+  FROM user_profiles
+  WHERE id = auth.uid();
+
+  IF current_user_profile.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF current_user_profile.role = 'admin' THEN
+    RETURN true;
+  END IF;
+
+  IF lead_record.assigned_to IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF current_user_profile.role = 'agent' THEN
+    RETURN lead_record.assigned_to = current_user_profile.id;
+  END IF;
+
+  IF current_user_profile.role IN ('manager', 'desk') THEN
+    RETURN lead_record.assigned_to = ANY(get_visible_user_ids(current_user_profile.id));
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- SQL condition (over alias "l") restricting leads to what a user may see
+CREATE OR REPLACE FUNCTION lead_visibility_condition(p_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  user_record user_profiles;
+BEGIN
+  SELECT * INTO user_record FROM user_profiles WHERE id = p_user_id;
+
+  IF user_record.id IS NULL THEN
+    RETURN 'false';
+  END IF;
+
+  IF user_record.role = 'admin' THEN
+    RETURN 'true';
+  END IF;
+
+  IF user_record.role = 'agent' THEN
+    RETURN format('l.assigned_to = %L::uuid', user_record.id);
+  END IF;
+
+  IF user_record.role IN ('manager', 'desk') THEN
+    RETURN format('l.assigned_to = ANY(%L::uuid[])', get_visible_user_ids(user_record.id));
+  END IF;
+
+  RETURN 'false';
+END;
+$$;
+
+-- Whitelisted column expressions usable for sorting, filtering and facets
+CREATE OR REPLACE FUNCTION lead_column_expression(p_column text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_column
+    WHEN 'id' THEN 'l.id'
+    WHEN 'source_id' THEN 'l.source_id'
+    WHEN 'full_name' THEN $e$(l.first_name || ' ' || l.last_name)$e$
+    WHEN 'email' THEN 'l.email'
+    WHEN 'phone' THEN 'l.phone'
+    WHEN 'country' THEN 'l.country'
+    WHEN 'source' THEN 'l.source'
+    WHEN 'funnel' THEN 'l.funnel'
+    WHEN 'desk' THEN 'l.desk'
+    WHEN 'brand' THEN 'l.brand'
+    WHEN 'status' THEN 'l.status'
+    WHEN 'balance' THEN 'l.balance'
+    WHEN 'assigned_to_name' THEN $e$COALESCE(u.full_name, 'Unassigned')$e$
+    WHEN 'created_at' THEN 'l.created_at'
+    WHEN 'converted_at' THEN 'l.converted_at'
+    ELSE NULL
+  END;
+$$;
+
+-- Turn the DataTable column filters into a SQL condition over "l"/"u"
+--   { "status": ["New", "Lost"] }            -> value in list
+--   { "email": "gmail" }                     -> case-insensitive contains
+--   { "created_at": [["2025-01-01T00:00:00Z", "2025-01-31T23:59:59Z"]] } -> any date range
+CREATE OR REPLACE FUNCTION lead_filter_condition(p_filters jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  filter_entry record;
+  column_expr text;
+  range_value jsonb;
+  range_conditions text[];
+  conditions text[] := ARRAY['true'];
+BEGIN
+  IF p_filters IS NULL OR jsonb_typeof(p_filters) <> 'object' THEN
+    RETURN 'true';
+  END IF;
+
+  FOR filter_entry IN SELECT key, value FROM jsonb_each(p_filters)
+  LOOP
+    column_expr := lead_column_expression(filter_entry.key);
+    CONTINUE WHEN column_expr IS NULL;
+
+    IF filter_entry.key IN ('created_at', 'converted_at') THEN
+      CONTINUE WHEN jsonb_typeof(filter_entry.value) <> 'array';
+      range_conditions := ARRAY[]::text[];
+      FOR range_value IN SELECT value FROM jsonb_array_elements(filter_entry.value)
+      LOOP
+        range_conditions := range_conditions || format(
+          '%s BETWEEN %L::timestamptz AND %L::timestamptz',
+          column_expr, range_value->>0, range_value->>1
+        );
+      END LOOP;
+      IF array_length(range_conditions, 1) > 0 THEN
+        conditions := conditions || ('(' || array_to_string(range_conditions, ' OR ') || ')');
+      END IF;
+
+    ELSIF jsonb_typeof(filter_entry.value) = 'array' THEN
+      CONTINUE WHEN jsonb_array_length(filter_entry.value) = 0;
+      conditions := conditions || format(
+        '%s::text = ANY(%L::text[])',
+        column_expr,
+        ARRAY(SELECT jsonb_array_elements_text(filter_entry.value))
+      );
+
+    ELSIF jsonb_typeof(filter_entry.value) = 'string' AND filter_entry.value #>> '{}' <> '' THEN
+      conditions := conditions || format(
+        '%s::text ILIKE %L',
+        column_expr,
+        '%' || (filter_entry.value #>> '{}') || '%'
+      );
+    END IF;
+  END LOOP;
+
+  RETURN array_to_string(conditions, ' AND ');
+END;
+$$;
+
+-- One page of the leads the current user may see
+CREATE OR REPLACE FUNCTION get_visible_leads(
+  p_is_converted boolean,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0,
+  p_sort_by text DEFAULT NULL,
+  p_sort_desc boolean DEFAULT true,
+  p_filters jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  sort_expr text;
+  sort_direction text;
+  result jsonb;
+BEGIN
+  sort_expr := COALESCE(
+    lead_column_expression(p_sort_by),
+    CASE WHEN p_is_converted THEN 'l.converted_at' ELSE 'l.created_at' END
+  );
+  sort_direction := CASE WHEN p_sort_desc THEN 'DESC' ELSE 'ASC' END;
+
+  EXECUTE format(
+    $q$
+      WITH visible AS (
+        SELECT l.*,
+               u.full_name AS assigned_user_name,
+               u.role AS assigned_user_role,
+               %1$s AS sort_value
+        FROM leads l
+        LEFT JOIN user_profiles u ON u.id = l.assigned_to
+        WHERE l.is_converted = $1
+          AND %2$s
+          AND %3$s
+      ),
+      page AS (
+        SELECT v.*, row_number() OVER (ORDER BY v.sort_value %4$s NULLS LAST, v.id %4$s) AS position
+        FROM visible v
+        ORDER BY position
+        LIMIT $2 OFFSET $3
+      )
+      SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM visible),
+        'leads', COALESCE((
+          SELECT jsonb_agg(
+            (to_jsonb(p) - 'assigned_user_name' - 'assigned_user_role' - 'sort_value' - 'position')
+            || jsonb_build_object(
+              'assigned_to_user',
+              CASE WHEN p.assigned_to IS NULL THEN NULL ELSE jsonb_build_object(
+                'id', p.assigned_to,
+                'full_name', p.assigned_user_name,
+                'role', p.assigned_user_role
+              ) END
+            )
+            ORDER BY p.position
+          )
+          FROM page p
+        ), '[]'::jsonb)
+      )
+    $q$,
+    sort_expr,
+    lead_visibility_condition(auth.uid()),
+    lead_filter_condition(p_filters),
+    sort_direction
+  )
+  INTO result
+  USING p_is_converted, GREATEST(LEAST(p_limit, 10000), 1), GREATEST(p_offset, 0);
+
+  RETURN result;
+END;
+$$;
+
+-- Distinct values of one column across the visible leads (for filter popovers)
+CREATE OR REPLACE FUNCTION get_visible_lead_facets(
+  p_is_converted boolean,
+  p_column text
+)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  column_expr text;
+  result text[];
+BEGIN
+  column_expr := lead_column_expression(p_column);
+  IF column_expr IS NULL OR p_column IN ('created_at', 'converted_at') THEN
+    RETURN ARRAY[]::text[];
+  END IF;
+
+  EXECUTE format(
+    $q$
+      SELECT ARRAY(
+        SELECT DISTINCT %1$s::text AS value
+        FROM leads l
+        LEFT JOIN user_profiles u ON u.id = l.assigned_to
+        WHERE l.is_converted = $1
+          AND %2$s
+          AND %1$s IS NOT NULL
+        ORDER BY value
+        LIMIT 500
+      )
+    $q$,
+    column_expr,
+    lead_visibility_condition(auth.uid())
+  )
+  INTO result
+  USING p_is_converted;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_user_subordinates(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_visible_leads(boolean, integer, integer, text, boolean, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_visible_lead_facets(boolean, text) TO authenticated;
+
+-- Take any user id, only the functions above may call them
+REVOKE EXECUTE ON FUNCTION get_visible_user_ids(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION lead_visibility_condition(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Indexes for the default page order and hierarchy lookups
+CREATE INDEX IF NOT EXISTS idx_leads_converted_created_at ON leads(is_converted, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_converted_converted_at ON leads(is_converted, converted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_to ON leads(assigned_to);
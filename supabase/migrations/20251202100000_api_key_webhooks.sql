@@ -0,0 +1,271 @@
+/*
+  # Outbound webhooks for lead lifecycle events
+
+  1. New Tables
+    - `api_key_webhooks`
+      - `id` (uuid, primary key)
+      - `api_key_id` (uuid) - Affiliate key whose leads trigger the webhook
+      - `url` (text) - HTTPS endpoint receiving the POST
+      - `secret` (text) - HMAC-SHA256 signing secret
+      - `events` (text[]) - Subscribed events
+      - `is_active` (boolean)
+      - `created_at` (timestamptz)
+    - `webhook_deliveries`
+      - `id` (uuid, primary key)
+      - `webhook_id` (uuid) - Target webhook
+      - `lead_id` (bigint) - Lead the event is about
+      - `event` (text) - Event name
+      - `payload` (jsonb) - Exact body that is signed and sent
+      - `status` (text) - 'pending', 'processing', 'succeeded' or 'failed'
+      - `attempts` (integer) - Delivery attempts so far
+      - `next_attempt_at` (timestamptz) - When the dispatcher may try again
+      - `last_status_code` (integer) - HTTP status of the last attempt
+      - `last_error` (text) - Error of the last attempt
+      - `created_at` / `delivered_at` (timestamptz)
+
+  2. Events
+    - `lead.status_changed` - status column changed
+    - `lead.ftd` - ftd_date set for the first time
+    - `lead.converted` - lead promoted to client (is_converted becomes true)
+    - `deposit.created` - deposit inserted for the lead
+
+  3. Delivery
+    - Triggers only enqueue rows in `webhook_deliveries`
+    - The `webhook-dispatcher` edge function claims due rows with
+      `claim_webhook_deliveries`, signs and POSTs them, and reschedules failures
+      with exponential backoff
+    - pg_cron calls the dispatcher every minute through pg_net (`webhook-dispatcher` job). The
+      project URL and service role key are read from the Vault secrets `project_url` and
+      `service_role_key`, create them once per project
+
+  4. Security
+    - Enable RLS
+    - Only admins can manage webhooks and read deliveries
+*/
+
+CREATE TABLE IF NOT EXISTS api_key_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  url text NOT NULL CHECK (url ~ '^https?://'),
+  secret text NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  events text[] NOT NULL DEFAULT ARRAY['lead.status_changed', 'lead.ftd', 'lead.converted', 'deposit.created'],
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid NOT NULL REFERENCES api_key_webhooks(id) ON DELETE CASCADE,
+  lead_id bigint REFERENCES leads(id) ON DELETE SET NULL,
+  event text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz DEFAULT now(),
+  last_status_code integer,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  delivered_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_webhooks_api_key_id ON api_key_webhooks(api_key_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE api_key_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can manage webhooks"
+  ON api_key_webhooks
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view webhook deliveries"
+  ON webhook_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+-- Admins can requeue a failed delivery from the ApiKeys page
+CREATE POLICY "Admins can update webhook deliveries"
+  ON webhook_deliveries
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+-- Queue one delivery per active webhook of the lead's API key subscribed to the event
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(lead_record leads, event_name text, event_data jsonb DEFAULT '{}'::jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF lead_record.api_key_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO webhook_deliveries (webhook_id, lead_id, event, payload)
+  SELECT
+    w.id,
+    lead_record.id,
+    event_name,
+    jsonb_build_object(
+      'event', event_name,
+      'occurred_at', now(),
+      'data', jsonb_build_object(
+        'lead', jsonb_build_object(
+          'id', lead_record.id,
+          'source_id', lead_record.source_id,
+          'email', lead_record.email,
+          'status', lead_record.status,
+          'has_deposited', lead_record.has_deposited,
+          'is_converted', lead_record.is_converted,
+          'ftd_date', lead_record.ftd_date,
+          'converted_at', lead_record.converted_at,
+          'created_at', lead_record.created_at
+        )
+      ) || event_data
+    )
+  FROM api_key_webhooks w
+  WHERE w.api_key_id = lead_record.api_key_id
+    AND w.is_active = true
+    AND event_name = ANY(w.events);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION trigger_lead_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.api_key_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM enqueue_webhook_event(NEW, 'lead.status_changed', jsonb_build_object(
+      'previous_status', OLD.status,
+      'status', NEW.status
+    ));
+  END IF;
+
+  IF OLD.ftd_date IS NULL AND NEW.ftd_date IS NOT NULL THEN
+    PERFORM enqueue_webhook_event(NEW, 'lead.ftd', jsonb_build_object('ftd_date', NEW.ftd_date));
+  END IF;
+
+  IF COALESCE(OLD.is_converted, false) = false AND NEW.is_converted = true THEN
+    PERFORM enqueue_webhook_event(NEW, 'lead.converted', jsonb_build_object('converted_at', NEW.converted_at));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_webhook_events ON leads;
+CREATE TRIGGER on_lead_webhook_events
+  AFTER UPDATE ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_lead_webhooks();
+
+CREATE OR REPLACE FUNCTION trigger_deposit_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lead_record leads;
+BEGIN
+  SELECT * INTO lead_record FROM leads WHERE id = NEW.lead_id;
+
+  IF lead_record.id IS NOT NULL THEN
+    PERFORM enqueue_webhook_event(lead_record, 'deposit.created', jsonb_build_object(
+      'deposit', jsonb_build_object(
+        'id', NEW.id,
+        'amount', NEW.amount,
+        'created_at', NEW.created_at
+      )
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_deposit_webhook_events ON deposits;
+CREATE TRIGGER on_deposit_webhook_events
+  AFTER INSERT ON deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_deposit_webhooks();
+
+-- Atomically hand due deliveries to one dispatcher run. Rows stuck in
+-- 'processing' for 10 minutes (crashed run) are picked up again.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(batch_size integer DEFAULT 50)
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries d
+  SET status = 'processing',
+      next_attempt_at = now() + interval '10 minutes'
+  WHERE d.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE status IN ('pending', 'processing')
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(integer) FROM PUBLIC, anon, authenticated;
+
+-- Vault secrets are created outside migrations, they hold the project's service role key
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'webhook-dispatcher',
+  '* * * * *',
+  $job$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/webhook-dispatcher',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $job$
+);
@@ -0,0 +1,136 @@
+/*
+  # Bulk lead ingestion
+
+  1. New Functions
+    - `create_leads_batch(p_api_key_id, p_leads)`
+      - Inserts an array of already validated leads for one API key in a single
+        transaction. Each item carries `index`, `first_name`, `last_name`,
+        `email`, `phone`, `country`, `country_code`, `brand`, `funnel`, `desk`,
+        `source_id` and `converted_at`.
+      - Skips items whose email or phone already exists, including leads
+        created earlier in the same batch
+      - Applies the highest priority active assignment rule for the key's
+        source and the item's country code, like the single lead endpoint
+      - Logs the same `auto_assignment` and `creation` / `conversion`
+        activities; notifications come from the existing insert trigger
+      - Returns a jsonb array of `{ index, status, id?, source_id? }` where
+        status is `created`, `duplicate_email` or `duplicate_phone`
+
+  2. Security
+    - Only callable with the service role (the `leads` edge function)
+*/
+
+CREATE OR REPLACE FUNCTION create_leads_batch(p_api_key_id uuid, p_leads jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  key_record api_keys;
+  item jsonb;
+  item_phone text;
+  converted timestamptz;
+  existing_email text;
+  existing_id bigint;
+  rule_agent_id uuid;
+  rule_source text;
+  rule_country text;
+  rule_agent_name text;
+  new_lead leads;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO key_record FROM api_keys WHERE id = p_api_key_id;
+  IF key_record.id IS NULL THEN
+    RAISE EXCEPTION 'API key % not found', p_api_key_id;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_leads)
+  LOOP
+    item_phone := NULLIF(item->>'phone', '');
+    converted := (item->>'converted_at')::timestamptz;
+
+    -- Same duplicate rule as single inserts: any lead sharing the email or phone
+    existing_id := NULL;
+    SELECT id, email INTO existing_id, existing_email
+    FROM leads
+    WHERE email = item->>'email'
+      OR (item_phone IS NOT NULL AND phone = item_phone)
+    ORDER BY (email = item->>'email') DESC
+    LIMIT 1;
+
+    IF existing_id IS NOT NULL THEN
+      results := results || jsonb_build_object(
+        'index', (item->>'index')::integer,
+        'status', CASE WHEN existing_email = item->>'email' THEN 'duplicate_email' ELSE 'duplicate_phone' END
+      );
+      CONTINUE;
+    END IF;
+
+    rule_agent_id := NULL;
+    SELECT r.assigned_agent_id, r.source_name, r.country_code, u.full_name
+    INTO rule_agent_id, rule_source, rule_country, rule_agent_name
+    FROM lead_assignment_rules r
+    LEFT JOIN user_profiles u ON u.id = r.assigned_agent_id
+    WHERE r.source_name = key_record.source_prefix
+      AND r.country_code ILIKE item->>'country_code'
+      AND r.is_active = true
+    ORDER BY r.priority DESC
+    LIMIT 1;
+
+    INSERT INTO leads (
+      first_name, last_name, email, phone, country, brand, source, funnel, desk,
+      status, source_id, api_key_id, converted_at, assigned_to
+    )
+    VALUES (
+      item->>'first_name',
+      item->>'last_name',
+      item->>'email',
+      item_phone,
+      NULLIF(item->>'country', ''),
+      NULLIF(item->>'brand', ''),
+      key_record.source_prefix,
+      NULLIF(item->>'funnel', ''),
+      NULLIF(item->>'desk', ''),
+      'New',
+      COALESCE((item->>'source_id')::bigint, nextval('lead_source_id_seq')),
+      key_record.id,
+      converted,
+      rule_agent_id
+    )
+    RETURNING * INTO new_lead;
+
+    IF rule_agent_id IS NOT NULL THEN
+      INSERT INTO lead_activities (lead_id, type, description)
+      VALUES (
+        new_lead.id,
+        'auto_assignment',
+        format('Automatically assigned to %s based on source ''%s'' and country ''%s''',
+          COALESCE(rule_agent_name, 'Unknown Agent'), rule_source, rule_country)
+      );
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      new_lead.id,
+      CASE WHEN converted IS NOT NULL THEN 'conversion' ELSE 'creation' END,
+      CASE
+        WHEN converted IS NOT NULL THEN format('Lead created with FTD at %s via API batch (%s)', to_char(converted AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), key_record.source_prefix)
+        ELSE format('Lead created via API batch (%s)', key_record.source_prefix)
+      END
+    );
+
+    results := results || jsonb_build_object(
+      'index', (item->>'index')::integer,
+      'status', 'created',
+      'id', new_lead.id,
+      'source_id', new_lead.source_id
+    );
+  END LOOP;
+
+  UPDATE api_keys SET last_used = now() WHERE id = key_record.id;
+
+  RETURN results;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_leads_batch(uuid, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,131 @@
+/*
+  # Per API key rate limits and daily lead quotas
+
+  1. Changes to `api_keys`
+    - `rate_limit_per_minute` (integer) - Requests allowed per calendar minute, default 100
+    - `daily_lead_limit` (integer) - Leads accepted per UTC day, NULL means unlimited
+
+  2. New Tables
+    - `api_key_rate_windows`
+      - `api_key_id` (uuid) + `window_start` (timestamptz, minute) - primary key
+      - `request_count` (integer) - Requests seen in that minute
+    - `api_key_daily_usage`
+      - `api_key_id` (uuid) + `usage_date` (date, UTC) - primary key
+      - `request_count` (integer) - Requests that passed authentication
+      - `throttled_count` (integer) - Requests answered with 429
+      - `lead_count` (integer) - Leads created through the key
+
+  3. New Functions
+    - `consume_api_rate_limit(p_api_key_id)` - Counts one request and returns
+      `{ allowed, limit, remaining, reset }`, reset being the epoch second the
+      current window ends
+    - `trigger_count_api_key_lead()` - Keeps `lead_count` in step with inserts,
+      for single, v2 and batch creation alike
+
+  4. Security
+    - Enable RLS, admins can read usage for the API dashboard
+    - Counters are only written by the service role and the trigger
+*/
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_limit_per_minute integer NOT NULL DEFAULT 100
+  CHECK (rate_limit_per_minute > 0);
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS daily_lead_limit integer
+  CHECK (daily_lead_limit IS NULL OR daily_lead_limit > 0);
+
+CREATE TABLE IF NOT EXISTS api_key_rate_windows (
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, window_start)
+);
+
+CREATE TABLE IF NOT EXISTS api_key_daily_usage (
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  usage_date date NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  throttled_count integer NOT NULL DEFAULT 0,
+  lead_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (api_key_id, usage_date)
+);
+
+ALTER TABLE api_key_rate_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_daily_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view API key usage"
+  ON api_key_daily_usage
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION consume_api_rate_limit(p_api_key_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_window timestamptz := date_trunc('minute', now());
+  key_limit integer;
+  window_count integer;
+  is_allowed boolean;
+BEGIN
+  SELECT rate_limit_per_minute INTO key_limit FROM api_keys WHERE id = p_api_key_id;
+
+  INSERT INTO api_key_rate_windows (api_key_id, window_start, request_count)
+  VALUES (p_api_key_id, current_window, 1)
+  ON CONFLICT (api_key_id, window_start)
+  DO UPDATE SET request_count = api_key_rate_windows.request_count + 1
+  RETURNING request_count INTO window_count;
+
+  is_allowed := window_count <= key_limit;
+
+  INSERT INTO api_key_daily_usage (api_key_id, usage_date, request_count, throttled_count)
+  VALUES (p_api_key_id, (now() AT TIME ZONE 'UTC')::date, 1, CASE WHEN is_allowed THEN 0 ELSE 1 END)
+  ON CONFLICT (api_key_id, usage_date)
+  DO UPDATE SET
+    request_count = api_key_daily_usage.request_count + 1,
+    throttled_count = api_key_daily_usage.throttled_count + CASE WHEN is_allowed THEN 0 ELSE 1 END;
+
+  -- Windows are only read for the current minute, keep the table tiny
+  DELETE FROM api_key_rate_windows
+  WHERE api_key_id = p_api_key_id
+    AND window_start < current_window - interval '5 minutes';
+
+  RETURN jsonb_build_object(
+    'allowed', is_allowed,
+    'limit', key_limit,
+    'remaining', GREATEST(key_limit - window_count, 0),
+    'reset', extract(epoch FROM current_window + interval '1 minute')::bigint
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_api_rate_limit(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION trigger_count_api_key_lead()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.api_key_id IS NOT NULL THEN
+    INSERT INTO api_key_daily_usage (api_key_id, usage_date, lead_count)
+    VALUES (NEW.api_key_id, (now() AT TIME ZONE 'UTC')::date, 1)
+    ON CONFLICT (api_key_id, usage_date)
+    DO UPDATE SET lead_count = api_key_daily_usage.lead_count + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_count_api_key_usage ON leads;
+CREATE TRIGGER on_lead_count_api_key_usage
+  AFTER INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION trigger_count_api_key_lead();
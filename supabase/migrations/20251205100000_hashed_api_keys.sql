@@ -0,0 +1,151 @@
+/*
+  # Hashed API key storage and key rotation
+
+  1. Changes to `api_keys`
+    - `key_hash` (text, unique) - SHA-256 hex of the key, what the leads function compares
+    - `key_prefix` (text) - First characters of the key, shown in the UI to tell keys apart
+    - `previous_key_hash` (text) - Hash of the key replaced by the last rotation
+    - `previous_key_expires_at` (timestamptz) - End of the grace period for the previous key
+    - `rotated_at` (timestamptz)
+    - Existing plaintext keys are hashed in place, then `api_key` is dropped.
+      Affiliates keep using the keys they already have.
+
+  2. New Functions
+    - `generate_api_key()` - Replaced: `lk_` followed by 48 hex chars from gen_random_bytes (CSPRNG)
+    - `create_api_key(...)` - Creates a key and returns it once in plaintext
+    - `rotate_api_key(p_api_key_id, p_grace_hours)` - Issues a new key; the old one
+      keeps working for `p_grace_hours` (0 revokes it at once)
+    - `get_api_key_leads(api_key)` - Now matches on the key hash
+
+  3. Security
+    - `create_api_key` and `rotate_api_key` are admin only
+    - The plaintext key is never stored
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_hash text;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix text;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS previous_key_hash text;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS previous_key_expires_at timestamptz;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotated_at timestamptz;
+
+UPDATE api_keys
+SET key_hash = encode(digest(api_key, 'sha256'), 'hex'),
+    key_prefix = left(api_key, 11)
+WHERE key_hash IS NULL;
+
+ALTER TABLE api_keys ALTER COLUMN key_hash SET NOT NULL;
+ALTER TABLE api_keys ALTER COLUMN key_prefix SET NOT NULL;
+ALTER TABLE api_keys DROP COLUMN IF EXISTS api_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_previous_key_hash
+  ON api_keys(previous_key_hash) WHERE previous_key_hash IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION generate_api_key()
+RETURNS text
+LANGUAGE sql
+AS $$
+  SELECT 'lk_' || encode(gen_random_bytes(24), 'hex');
+$$;
+
+CREATE OR REPLACE FUNCTION create_api_key(
+  p_name text,
+  p_source_prefix text,
+  p_allowed_ips text[] DEFAULT ARRAY[]::text[],
+  p_rate_limit_per_minute integer DEFAULT 100,
+  p_daily_lead_limit integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_key text := generate_api_key();
+  new_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can create API keys';
+  END IF;
+
+  INSERT INTO api_keys (
+    name, source_prefix, allowed_ips, rate_limit_per_minute, daily_lead_limit,
+    key_hash, key_prefix, created_by
+  )
+  VALUES (
+    p_name, p_source_prefix, COALESCE(p_allowed_ips, ARRAY[]::text[]),
+    COALESCE(p_rate_limit_per_minute, 100), p_daily_lead_limit,
+    encode(digest(new_key, 'sha256'), 'hex'), left(new_key, 11), auth.uid()
+  )
+  RETURNING id INTO new_id;
+
+  RETURN jsonb_build_object(
+    'id', new_id,
+    'api_key', new_key,
+    'key_prefix', left(new_key, 11)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rotate_api_key(p_api_key_id uuid, p_grace_hours integer DEFAULT 24)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  new_key text := generate_api_key();
+  grace_until timestamptz;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can rotate API keys';
+  END IF;
+
+  IF COALESCE(p_grace_hours, 0) > 0 THEN
+    grace_until := now() + make_interval(hours => p_grace_hours);
+  END IF;
+
+  UPDATE api_keys
+  SET previous_key_hash = CASE WHEN grace_until IS NULL THEN NULL ELSE key_hash END,
+      previous_key_expires_at = grace_until,
+      key_hash = encode(digest(new_key, 'sha256'), 'hex'),
+      key_prefix = left(new_key, 11),
+      rotated_at = now()
+  WHERE id = p_api_key_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'API key % not found', p_api_key_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', p_api_key_id,
+    'api_key', new_key,
+    'key_prefix', left(new_key, 11),
+    'previous_key_expires_at', grace_until
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_api_key(text, text, text[], integer, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION rotate_api_key(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_api_key(text, text, text[], integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_api_key(uuid, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_api_key_leads(api_key text)
+RETURNS SETOF leads
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT l.*
+  FROM leads l
+  JOIN api_keys ak ON l.api_key_id = ak.id
+  WHERE ak.key_hash = encode(digest(api_key, 'sha256'), 'hex');
+$$;
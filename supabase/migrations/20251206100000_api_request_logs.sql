@@ -0,0 +1,55 @@
+/*
+  # API request log
+
+  1. New Tables
+    - `api_request_logs`
+      - `id` (bigint, identity primary key)
+      - `api_key_id` (uuid) - Authenticated key, NULL when the key was missing or invalid
+      - `key_prefix` (text) - First characters of the key sent, to trace rejected keys
+      - `ip_address` (text)
+      - `method` (text)
+      - `path` (text) - Route below the function, e.g. `/batch` or `/v2/123`
+      - `query` (text) - Query string as sent
+      - `status_code` (integer)
+      - `error_code` (text) - `error.code` of the response envelope, NULL on success
+      - `latency_ms` (integer)
+      - `request_body` (jsonb) - Body with emails, phones and names masked
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Only admins can read the log; only the service role writes it
+*/
+
+CREATE TABLE IF NOT EXISTS api_request_logs (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  api_key_id uuid REFERENCES api_keys(id) ON DELETE SET NULL,
+  key_prefix text,
+  ip_address text,
+  method text NOT NULL,
+  path text NOT NULL,
+  query text,
+  status_code integer NOT NULL,
+  error_code text,
+  latency_ms integer NOT NULL,
+  request_body jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_request_logs_created_at ON api_request_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_request_logs_api_key_id ON api_request_logs(api_key_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_api_request_logs_status_code ON api_request_logs(status_code, created_at DESC);
+
+ALTER TABLE api_request_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view API request logs"
+  ON api_request_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
@@ -0,0 +1,79 @@
+/*
+  # Idempotency keys for API lead creation
+
+  1. New Tables
+    - `api_idempotency_keys`
+      - `api_key_id` (uuid) + `idempotency_key` (text) - primary key, keys are scoped per API key
+      - `request_hash` (text) - SHA-256 of method, path and body of the first request
+      - `status_code` (integer) - Stored response status, NULL while the first request runs
+      - `response_body` (jsonb) - Stored response body
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz) - 24 hours after creation
+
+  2. New Functions
+    - `claim_idempotency_key(p_api_key_id, p_idempotency_key, p_request_hash)`
+      Returns `{ state }`:
+      - `claimed` - first time the key is seen, the caller runs the request and stores the response
+      - `replay` - a response is stored, returned as `status_code` and `response_body`
+      - `in_progress` - the first request with this key has not finished yet
+      - `mismatch` - the key was already used for a different request
+
+  3. Security
+    - Enable RLS without policies, only the service role (leads edge function) uses the table
+*/
+
+CREATE TABLE IF NOT EXISTS api_idempotency_keys (
+  api_key_id uuid NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  idempotency_key text NOT NULL,
+  request_hash text NOT NULL,
+  status_code integer,
+  response_body jsonb,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '24 hours',
+  PRIMARY KEY (api_key_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_expires_at ON api_idempotency_keys(expires_at);
+
+ALTER TABLE api_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION claim_idempotency_key(p_api_key_id uuid, p_idempotency_key text, p_request_hash text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  existing api_idempotency_keys;
+BEGIN
+  -- Expired keys behave as never seen
+  DELETE FROM api_idempotency_keys WHERE expires_at <= now();
+
+  INSERT INTO api_idempotency_keys (api_key_id, idempotency_key, request_hash)
+  VALUES (p_api_key_id, p_idempotency_key, p_request_hash)
+  ON CONFLICT (api_key_id, idempotency_key) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('state', 'claimed');
+  END IF;
+
+  SELECT * INTO existing
+  FROM api_idempotency_keys
+  WHERE api_key_id = p_api_key_id AND idempotency_key = p_idempotency_key;
+
+  IF existing.request_hash <> p_request_hash THEN
+    RETURN jsonb_build_object('state', 'mismatch');
+  END IF;
+
+  IF existing.status_code IS NULL THEN
+    RETURN jsonb_build_object('state', 'in_progress');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'state', 'replay',
+    'status_code', existing.status_code,
+    'response_body', existing.response_body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_idempotency_key(uuid, text, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,273 @@
+/*
+  # Agent pools for assignment rules
+
+  1. Changes to `lead_assignment_rules`
+    - `distribution` (text) - How a matching lead picks an agent from the pool:
+      - `round_robin` - agent assigned longest ago goes next
+      - `weighted` - keeps each agent's share of leads proportional to its weight
+      - `least_loaded` - agent with the fewest open (not converted) leads
+    - `assigned_agent_id` is replaced by the pool below; existing rules become
+      a pool of one agent, which behaves exactly as before
+
+  2. New Tables
+    - `lead_assignment_rule_agents`
+      - `id` (uuid, primary key)
+      - `rule_id` (uuid) - Rule owning the pool
+      - `agent_id` (uuid) - Agent in the pool
+      - `weight` (integer) - Relative share for `weighted` rules
+      - `assigned_count` (bigint) - Leads given to this agent by the rule
+      - `last_assigned_at` (timestamptz) - Used by `round_robin`
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `pick_rule_agent(p_rule_id)` - Picks the next agent of a rule's pool and
+      records the assignment. Locks the rule so concurrent leads rotate correctly.
+    - `match_assignment_rule(p_source_name, p_country_code)` - Highest priority
+      active rule with a non empty pool, and the agent it picks. Used by the
+      leads edge function and `create_leads_batch`.
+
+  4. Security
+    - Enable RLS, only admins can manage pools
+*/
+
+ALTER TABLE lead_assignment_rules ADD COLUMN IF NOT EXISTS distribution text NOT NULL DEFAULT 'round_robin'
+  CHECK (distribution IN ('round_robin', 'weighted', 'least_loaded'));
+
+CREATE TABLE IF NOT EXISTS lead_assignment_rule_agents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES lead_assignment_rules(id) ON DELETE CASCADE,
+  agent_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  weight integer NOT NULL DEFAULT 1 CHECK (weight > 0),
+  assigned_count bigint NOT NULL DEFAULT 0,
+  last_assigned_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (rule_id, agent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_rule_agents_agent_id ON lead_assignment_rule_agents(agent_id);
+
+INSERT INTO lead_assignment_rule_agents (rule_id, agent_id)
+SELECT id, assigned_agent_id
+FROM lead_assignment_rules
+WHERE assigned_agent_id IS NOT NULL
+ON CONFLICT (rule_id, agent_id) DO NOTHING;
+
+DROP INDEX IF EXISTS idx_lead_assignment_rules_unique;
+ALTER TABLE lead_assignment_rules DROP COLUMN IF EXISTS assigned_agent_id;
+
+ALTER TABLE lead_assignment_rule_agents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only admins can manage assignment rule agents"
+  ON lead_assignment_rule_agents
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION pick_rule_agent(p_rule_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_distribution text;
+  picked_id uuid;
+  picked_agent uuid;
+BEGIN
+  SELECT distribution INTO rule_distribution
+  FROM lead_assignment_rules
+  WHERE id = p_rule_id
+  FOR UPDATE;
+
+  IF rule_distribution = 'weighted' THEN
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+    ORDER BY (assigned_count + 1)::numeric / weight, last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  ELSIF rule_distribution = 'least_loaded' THEN
+    SELECT ra.id, ra.agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents ra
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS open_leads
+      FROM leads l
+      WHERE l.assigned_to = ra.agent_id
+        AND COALESCE(l.is_converted, false) = false
+    ) load ON true
+    WHERE ra.rule_id = p_rule_id
+    ORDER BY load.open_leads, ra.last_assigned_at NULLS FIRST, ra.created_at
+    LIMIT 1;
+  ELSE
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  IF picked_id IS NOT NULL THEN
+    UPDATE lead_assignment_rule_agents
+    SET assigned_count = assigned_count + 1,
+        last_assigned_at = clock_timestamp()
+    WHERE id = picked_id;
+  END IF;
+
+  RETURN picked_agent;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_assignment_rule(p_source_name text, p_country_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_record lead_assignment_rules;
+  picked_agent_id uuid;
+BEGIN
+  IF p_source_name IS NULL OR p_country_code IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT r.* INTO rule_record
+  FROM lead_assignment_rules r
+  WHERE r.source_name = p_source_name
+    AND r.country_code ILIKE p_country_code
+    AND r.is_active = true
+    AND EXISTS (SELECT 1 FROM lead_assignment_rule_agents ra WHERE ra.rule_id = r.id)
+  ORDER BY r.priority DESC, r.created_at
+  LIMIT 1;
+
+  IF rule_record.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  picked_agent_id := pick_rule_agent(rule_record.id);
+
+  RETURN jsonb_build_object(
+    'rule_id', rule_record.id,
+    'source_name', rule_record.source_name,
+    'country_code', rule_record.country_code,
+    'distribution', rule_record.distribution,
+    'agent_id', picked_agent_id,
+    'agent_name', (SELECT full_name FROM user_profiles WHERE id = picked_agent_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pick_rule_agent(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION match_assignment_rule(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Batch ingestion now goes through match_assignment_rule like single inserts
+CREATE OR REPLACE FUNCTION create_leads_batch(p_api_key_id uuid, p_leads jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  key_record api_keys;
+  item jsonb;
+  item_phone text;
+  converted timestamptz;
+  existing_email text;
+  existing_id bigint;
+  rule_match jsonb;
+  new_lead leads;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO key_record FROM api_keys WHERE id = p_api_key_id;
+  IF key_record.id IS NULL THEN
+    RAISE EXCEPTION 'API key % not found', p_api_key_id;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_leads)
+  LOOP
+    item_phone := NULLIF(item->>'phone', '');
+    converted := (item->>'converted_at')::timestamptz;
+
+    -- Same duplicate rule as single inserts: any lead sharing the email or phone
+    existing_id := NULL;
+    SELECT id, email INTO existing_id, existing_email
+    FROM leads
+    WHERE email = item->>'email'
+      OR (item_phone IS NOT NULL AND phone = item_phone)
+    ORDER BY (email = item->>'email') DESC
+    LIMIT 1;
+
+    IF existing_id IS NOT NULL THEN
+      results := results || jsonb_build_object(
+        'index', (item->>'index')::integer,
+        'status', CASE WHEN existing_email = item->>'email' THEN 'duplicate_email' ELSE 'duplicate_phone' END
+      );
+      CONTINUE;
+    END IF;
+
+    rule_match := match_assignment_rule(key_record.source_prefix, item->>'country_code');
+
+    INSERT INTO leads (
+      first_name, last_name, email, phone, country, brand, source, funnel, desk,
+      status, source_id, api_key_id, converted_at, assigned_to
+    )
+    VALUES (
+      item->>'first_name',
+      item->>'last_name',
+      item->>'email',
+      item_phone,
+      NULLIF(item->>'country', ''),
+      NULLIF(item->>'brand', ''),
+      key_record.source_prefix,
+      NULLIF(item->>'funnel', ''),
+      NULLIF(item->>'desk', ''),
+      'New',
+      COALESCE((item->>'source_id')::bigint, nextval('lead_source_id_seq')),
+      key_record.id,
+      converted,
+      (rule_match->>'agent_id')::uuid
+    )
+    RETURNING * INTO new_lead;
+
+    IF rule_match IS NOT NULL THEN
+      INSERT INTO lead_activities (lead_id, type, description)
+      VALUES (
+        new_lead.id,
+        'auto_assignment',
+        format('Automatically assigned to %s based on source ''%s'' and country ''%s''',
+          COALESCE(rule_match->>'agent_name', 'Unknown Agent'), rule_match->>'source_name', rule_match->>'country_code')
+      );
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      new_lead.id,
+      CASE WHEN converted IS NOT NULL THEN 'conversion' ELSE 'creation' END,
+      CASE
+        WHEN converted IS NOT NULL THEN format('Lead created with FTD at %s via API batch (%s)', to_char(converted AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), key_record.source_prefix)
+        ELSE format('Lead created via API batch (%s)', key_record.source_prefix)
+      END
+    );
+
+    results := results || jsonb_build_object(
+      'index', (item->>'index')::integer,
+      'status', 'created',
+      'id', new_lead.id,
+      'source_id', new_lead.source_id
+    );
+  END LOOP;
+
+  UPDATE api_keys SET last_used = now() WHERE id = key_record.id;
+
+  RETURN results;
+END;
+$$;
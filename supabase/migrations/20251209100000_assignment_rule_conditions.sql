@@ -0,0 +1,269 @@
+/*
+  # Richer assignment rule conditions
+
+  1. Changes to `lead_assignment_rules`
+    - `source_name` is now nullable, NULL matches any source
+    - `country_code` is replaced by `country_codes` (text[]), a lead matches when its
+      country is in the list. NULL matches any country. Country groups such as DACH
+      are stored expanded, existing rules become a list of one country. `UK` rules are
+      migrated to `GB`, the code the leads API normalizes United Kingdom to
+    - `funnel`, `brand`, `desk` (text) - Optional, matched case-insensitively
+    - `active_days` (smallint[]) - ISO days of week (1 = Monday ... 7 = Sunday), NULL means every day
+    - `active_from`, `active_until` (time) - Optional time of day window. A window where
+      `active_from` is later than `active_until` spans midnight (e.g. 22:00 - 06:00)
+    - `timezone` (text) - IANA timezone the day and time window are evaluated in. NULL, the
+      default, evaluates them in the lead's local time from its country, a set timezone wins
+
+  2. New Functions
+    - `assignment_rule_timezone(rule, country_code)` - Timezone a rule's schedule is evaluated in
+      for a lead: the rule's own, else the lead's country timezone, else UTC
+    - `assignment_rule_matches(rule, source, country_code, funnel, brand, desk, at)` - Whether a
+      rule's conditions hold for a lead at a point in time
+    - `find_assignment_rule(source, country_code, funnel, brand, desk, at)` - Highest priority
+      matching rule with a non empty pool, without picking an agent
+
+  3. Changed Functions
+    - `match_assignment_rule` takes funnel, brand and desk, and no longer needs a country
+    - `create_leads_batch` passes funnel, brand and desk of each lead
+*/
+
+ALTER TABLE lead_assignment_rules ALTER COLUMN source_name DROP NOT NULL;
+
+ALTER TABLE lead_assignment_rules
+  ADD COLUMN IF NOT EXISTS country_codes text[],
+  ADD COLUMN IF NOT EXISTS funnel text,
+  ADD COLUMN IF NOT EXISTS brand text,
+  ADD COLUMN IF NOT EXISTS desk text,
+  ADD COLUMN IF NOT EXISTS active_days smallint[],
+  ADD COLUMN IF NOT EXISTS active_from time,
+  ADD COLUMN IF NOT EXISTS active_until time,
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+UPDATE lead_assignment_rules
+SET country_codes = ARRAY[CASE WHEN upper(country_code) = 'UK' THEN 'GB' ELSE upper(country_code) END]
+WHERE country_codes IS NULL AND country_code IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_lead_assignment_rules_source_country;
+ALTER TABLE lead_assignment_rules DROP COLUMN IF EXISTS country_code;
+
+CREATE INDEX IF NOT EXISTS idx_lead_assignment_rules_source_name ON lead_assignment_rules(source_name);
+
+ALTER TABLE lead_assignment_rules ADD CONSTRAINT lead_assignment_rules_active_days_check
+  CHECK (active_days IS NULL OR active_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[]);
+
+ALTER TABLE lead_assignment_rules ADD CONSTRAINT lead_assignment_rules_time_window_check
+  CHECK ((active_from IS NULL) = (active_until IS NULL));
+
+-- Re-created by the countries migration to look up the lead's country timezone
+CREATE OR REPLACE FUNCTION assignment_rule_timezone(r lead_assignment_rules, p_country_code text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(r.timezone, 'UTC');
+$$;
+
+CREATE OR REPLACE FUNCTION assignment_rule_matches(
+  r lead_assignment_rules,
+  p_source_name text,
+  p_country_code text,
+  p_funnel text,
+  p_brand text,
+  p_desk text,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  -- A condition compared to a missing lead value yields NULL, which counts as no match
+  SELECT COALESCE(
+    (r.source_name IS NULL OR r.source_name = p_source_name)
+    AND (r.country_codes IS NULL OR upper(p_country_code) = ANY(r.country_codes))
+    AND (r.funnel IS NULL OR lower(r.funnel) = lower(p_funnel))
+    AND (r.brand IS NULL OR lower(r.brand) = lower(p_brand))
+    AND (r.desk IS NULL OR lower(r.desk) = lower(p_desk))
+    -- Day and time are evaluated in the rule's timezone, or the lead's when the rule has none
+    AND (r.active_days IS NULL
+      OR EXTRACT(ISODOW FROM p_at AT TIME ZONE z.tz)::smallint = ANY(r.active_days))
+    AND (r.active_from IS NULL OR CASE
+      WHEN r.active_from <= r.active_until THEN
+        (p_at AT TIME ZONE z.tz)::time >= r.active_from
+        AND (p_at AT TIME ZONE z.tz)::time < r.active_until
+      ELSE
+        (p_at AT TIME ZONE z.tz)::time >= r.active_from
+        OR (p_at AT TIME ZONE z.tz)::time < r.active_until
+    END),
+    false
+  )
+  FROM (SELECT assignment_rule_timezone(r, p_country_code) AS tz) z;
+$$;
+
+CREATE OR REPLACE FUNCTION find_assignment_rule(
+  p_source_name text,
+  p_country_code text,
+  p_funnel text DEFAULT NULL,
+  p_brand text DEFAULT NULL,
+  p_desk text DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS lead_assignment_rules
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT r.*
+  FROM lead_assignment_rules r
+  WHERE r.is_active = true
+    AND assignment_rule_matches(r, p_source_name, p_country_code, p_funnel, p_brand, p_desk, p_at)
+    AND EXISTS (SELECT 1 FROM lead_assignment_rule_agents ra WHERE ra.rule_id = r.id)
+  ORDER BY r.priority DESC, r.created_at
+  LIMIT 1;
+$$;
+
+DROP FUNCTION IF EXISTS match_assignment_rule(text, text);
+
+CREATE OR REPLACE FUNCTION match_assignment_rule(
+  p_source_name text,
+  p_country_code text,
+  p_funnel text DEFAULT NULL,
+  p_brand text DEFAULT NULL,
+  p_desk text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_record lead_assignment_rules;
+  picked_agent_id uuid;
+BEGIN
+  rule_record := find_assignment_rule(p_source_name, p_country_code, p_funnel, p_brand, p_desk);
+
+  IF rule_record.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  picked_agent_id := pick_rule_agent(rule_record.id);
+
+  -- source_name and country_code describe the lead, rules may match any of either
+  RETURN jsonb_build_object(
+    'rule_id', rule_record.id,
+    'source_name', p_source_name,
+    'country_code', upper(p_country_code),
+    'distribution', rule_record.distribution,
+    'agent_id', picked_agent_id,
+    'agent_name', (SELECT full_name FROM user_profiles WHERE id = picked_agent_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_assignment_rule(text, text, text, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION match_assignment_rule(text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_leads_batch(p_api_key_id uuid, p_leads jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  key_record api_keys;
+  item jsonb;
+  item_phone text;
+  converted timestamptz;
+  existing_email text;
+  existing_id bigint;
+  rule_match jsonb;
+  new_lead leads;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO key_record FROM api_keys WHERE id = p_api_key_id;
+  IF key_record.id IS NULL THEN
+    RAISE EXCEPTION 'API key % not found', p_api_key_id;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_leads)
+  LOOP
+    item_phone := NULLIF(item->>'phone', '');
+    converted := (item->>'converted_at')::timestamptz;
+
+    -- Same duplicate rule as single inserts: any lead sharing the email or phone
+    existing_id := NULL;
+    SELECT id, email INTO existing_id, existing_email
+    FROM leads
+    WHERE email = item->>'email'
+      OR (item_phone IS NOT NULL AND phone = item_phone)
+    ORDER BY (email = item->>'email') DESC
+    LIMIT 1;
+
+    IF existing_id IS NOT NULL THEN
+      results := results || jsonb_build_object(
+        'index', (item->>'index')::integer,
+        'status', CASE WHEN existing_email = item->>'email' THEN 'duplicate_email' ELSE 'duplicate_phone' END
+      );
+      CONTINUE;
+    END IF;
+
+    rule_match := match_assignment_rule(
+      key_record.source_prefix,
+      NULLIF(item->>'country_code', ''),
+      NULLIF(item->>'funnel', ''),
+      NULLIF(item->>'brand', ''),
+      NULLIF(item->>'desk', '')
+    );
+
+    INSERT INTO leads (
+      first_name, last_name, email, phone, country, brand, source, funnel, desk,
+      status, source_id, api_key_id, converted_at, assigned_to
+    )
+    VALUES (
+      item->>'first_name',
+      item->>'last_name',
+      item->>'email',
+      item_phone,
+      NULLIF(item->>'country', ''),
+      NULLIF(item->>'brand', ''),
+      key_record.source_prefix,
+      NULLIF(item->>'funnel', ''),
+      NULLIF(item->>'desk', ''),
+      'New',
+      COALESCE((item->>'source_id')::bigint, nextval('lead_source_id_seq')),
+      key_record.id,
+      converted,
+      (rule_match->>'agent_id')::uuid
+    )
+    RETURNING * INTO new_lead;
+
+    IF rule_match IS NOT NULL THEN
+      INSERT INTO lead_activities (lead_id, type, description)
+      VALUES (
+        new_lead.id,
+        'auto_assignment',
+        format('Automatically assigned to %s based on source ''%s'' and country ''%s''',
+          COALESCE(rule_match->>'agent_name', 'Unknown Agent'), rule_match->>'source_name', COALESCE(rule_match->>'country_code', 'unknown'))
+      );
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      new_lead.id,
+      CASE WHEN converted IS NOT NULL THEN 'conversion' ELSE 'creation' END,
+      CASE
+        WHEN converted IS NOT NULL THEN format('Lead created with FTD at %s via API batch (%s)', to_char(converted AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), key_record.source_prefix)
+        ELSE format('Lead created via API batch (%s)', key_record.source_prefix)
+      END
+    );
+
+    results := results || jsonb_build_object(
+      'index', (item->>'index')::integer,
+      'status', 'created',
+      'id', new_lead.id,
+      'source_id', new_lead.source_id
+    );
+  END LOOP;
+
+  UPDATE api_keys SET last_used = now() WHERE id = key_record.id;
+
+  RETURN results;
+END;
+$$;
@@ -0,0 +1,269 @@
+/*
+  # Apply assignment rules to every new lead
+
+  Rules used to run only inside the leads edge function, so imported and manually
+  created leads were never auto-assigned. A trigger now applies them to any lead
+  inserted without an agent.
+
+  1. Changes to `leads`
+    - `assignment_rule_id` (uuid) - Rule that auto-assigned the lead, NULL otherwise
+
+  2. New Functions
+    - `normalize_country_code(country)` - 2-letter code or country name to the uppercase
+      code rules match on (same mapping the leads API used)
+    - `assign_lead_by_rules()` - BEFORE INSERT trigger, picks an agent when `assigned_to` is NULL
+    - `log_rule_assignment()` - Logs the `auto_assignment` activity when a rule assigns a lead
+    - `run_assignment_rules(p_dry_run, p_limit)` - Admin only. Applies rules to existing
+      unassigned leads, oldest first. With `p_dry_run` everything is rolled back and only
+      the would-be assignments are returned, so the preview matches a real run
+
+  3. Changed Functions
+    - `create_leads_batch` leaves matching to the trigger
+*/
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS assignment_rule_id uuid REFERENCES lead_assignment_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_unassigned_created_at ON leads(created_at) WHERE assigned_to IS NULL;
+
+CREATE OR REPLACE FUNCTION normalize_country_code(p_country text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NULLIF(trim(p_country), '') IS NULL THEN NULL
+    WHEN length(trim(p_country)) <= 2 THEN upper(trim(p_country))
+    ELSE COALESCE(
+      (SELECT code FROM (VALUES
+        ('italy', 'IT'), ('france', 'FR'), ('germany', 'DE'), ('spain', 'ES'),
+        ('portugal', 'PT'), ('greece', 'GR'), ('netherlands', 'NL'), ('belgium', 'BE'),
+        ('austria', 'AT'), ('poland', 'PL'), ('romania', 'RO'), ('czech republic', 'CZ'),
+        ('hungary', 'HU'), ('sweden', 'SE'), ('denmark', 'DK'), ('finland', 'FI'),
+        ('norway', 'NO'), ('switzerland', 'CH'), ('ireland', 'IE'), ('united kingdom', 'GB'),
+        ('uk', 'GB'), ('united states', 'US'), ('usa', 'US'), ('canada', 'CA'),
+        ('australia', 'AU'), ('new zealand', 'NZ')
+      ) AS names(name, code) WHERE names.name = lower(trim(p_country))),
+      upper(trim(p_country))
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION assign_lead_by_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_match jsonb;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  rule_match := match_assignment_rule(NEW.source, normalize_country_code(NEW.country), NEW.funnel, NEW.brand, NEW.desk);
+
+  IF rule_match->>'agent_id' IS NOT NULL THEN
+    NEW.assigned_to := (rule_match->>'agent_id')::uuid;
+    NEW.assignment_rule_id := (rule_match->>'rule_id')::uuid;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_insert_assignment_rules ON leads;
+CREATE TRIGGER on_lead_insert_assignment_rules
+  BEFORE INSERT ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_lead_by_rules();
+
+CREATE OR REPLACE FUNCTION log_rule_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.assignment_rule_id IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.assignment_rule_id IS NOT DISTINCT FROM NEW.assignment_rule_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    NEW.id,
+    'auto_assignment',
+    format('Automatically assigned to %s based on source ''%s'' and country ''%s''',
+      COALESCE((SELECT full_name FROM user_profiles WHERE id = NEW.assigned_to), 'Unknown Agent'),
+      COALESCE(NEW.source, 'unknown'),
+      COALESCE(normalize_country_code(NEW.country), 'unknown'))
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_rule_assignment_activity ON leads;
+CREATE TRIGGER on_lead_rule_assignment_activity
+  AFTER INSERT OR UPDATE OF assignment_rule_id ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION log_rule_assignment();
+
+CREATE OR REPLACE FUNCTION run_assignment_rules(p_dry_run boolean DEFAULT true, p_limit integer DEFAULT 500)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lead_record leads;
+  rule_match jsonb;
+  scanned integer := 0;
+  assignments jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can run assignment rules';
+  END IF;
+
+  BEGIN
+    FOR lead_record IN
+      SELECT * FROM leads
+      WHERE assigned_to IS NULL
+      ORDER BY created_at
+      LIMIT LEAST(GREATEST(p_limit, 1), 5000)
+      FOR UPDATE SKIP LOCKED
+    LOOP
+      scanned := scanned + 1;
+      rule_match := match_assignment_rule(
+        lead_record.source,
+        normalize_country_code(lead_record.country),
+        lead_record.funnel,
+        lead_record.brand,
+        lead_record.desk
+      );
+      CONTINUE WHEN rule_match->>'agent_id' IS NULL;
+
+      UPDATE leads
+      SET assigned_to = (rule_match->>'agent_id')::uuid,
+          assignment_rule_id = (rule_match->>'rule_id')::uuid
+      WHERE id = lead_record.id;
+
+      assignments := assignments || jsonb_build_object(
+        'lead_id', lead_record.id,
+        'lead_name', concat_ws(' ', lead_record.first_name, lead_record.last_name),
+        'email', lead_record.email,
+        'source', lead_record.source,
+        'country', lead_record.country,
+        'rule_id', rule_match->>'rule_id',
+        'agent_id', rule_match->>'agent_id',
+        'agent_name', rule_match->>'agent_name'
+      );
+    END LOOP;
+
+    -- Undo the assignments and pool rotation, the collected results survive the rollback
+    IF p_dry_run THEN
+      RAISE EXCEPTION USING ERRCODE = 'DRYRN', MESSAGE = 'dry run';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'DRYRN' THEN
+    NULL;
+  END;
+
+  RETURN jsonb_build_object(
+    'dry_run', p_dry_run,
+    'scanned', scanned,
+    'assigned', jsonb_array_length(assignments),
+    'unmatched', scanned - jsonb_array_length(assignments),
+    'assignments', assignments
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_leads_batch(p_api_key_id uuid, p_leads jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  key_record api_keys;
+  item jsonb;
+  item_phone text;
+  converted timestamptz;
+  existing_email text;
+  existing_id bigint;
+  new_lead leads;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO key_record FROM api_keys WHERE id = p_api_key_id;
+  IF key_record.id IS NULL THEN
+    RAISE EXCEPTION 'API key % not found', p_api_key_id;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_leads)
+  LOOP
+    item_phone := NULLIF(item->>'phone', '');
+    converted := (item->>'converted_at')::timestamptz;
+
+    -- Same duplicate rule as single inserts: any lead sharing the email or phone
+    existing_id := NULL;
+    SELECT id, email INTO existing_id, existing_email
+    FROM leads
+    WHERE email = item->>'email'
+      OR (item_phone IS NOT NULL AND phone = item_phone)
+    ORDER BY (email = item->>'email') DESC
+    LIMIT 1;
+
+    IF existing_id IS NOT NULL THEN
+      results := results || jsonb_build_object(
+        'index', (item->>'index')::integer,
+        'status', CASE WHEN existing_email = item->>'email' THEN 'duplicate_email' ELSE 'duplicate_phone' END
+      );
+      CONTINUE;
+    END IF;
+
+    -- assigned_to is filled by the on_lead_insert_assignment_rules trigger
+    INSERT INTO leads (
+      first_name, last_name, email, phone, country, brand, source, funnel, desk,
+      status, source_id, api_key_id, converted_at
+    )
+    VALUES (
+      item->>'first_name',
+      item->>'last_name',
+      item->>'email',
+      item_phone,
+      NULLIF(item->>'country', ''),
+      NULLIF(item->>'brand', ''),
+      key_record.source_prefix,
+      NULLIF(item->>'funnel', ''),
+      NULLIF(item->>'desk', ''),
+      'New',
+      COALESCE((item->>'source_id')::bigint, nextval('lead_source_id_seq')),
+      key_record.id,
+      converted
+    )
+    RETURNING * INTO new_lead;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      new_lead.id,
+      CASE WHEN converted IS NOT NULL THEN 'conversion' ELSE 'creation' END,
+      CASE
+        WHEN converted IS NOT NULL THEN format('Lead created with FTD at %s via API batch (%s)', to_char(converted AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), key_record.source_prefix)
+        ELSE format('Lead created via API batch (%s)', key_record.source_prefix)
+      END
+    );
+
+    results := results || jsonb_build_object(
+      'index', (item->>'index')::integer,
+      'status', 'created',
+      'id', new_lead.id,
+      'source_id', new_lead.source_id
+    );
+  END LOOP;
+
+  UPDATE api_keys SET last_used = now() WHERE id = key_record.id;
+
+  RETURN results;
+END;
+$$;
@@ -0,0 +1,121 @@
+/*
+  # Assignment rule simulator
+
+  1. New Functions
+    - `simulate_assignment_rules(p_source_name, p_country, p_funnel, p_brand, p_desk, p_at)` - Admin only.
+      Evaluates every rule against a sample lead without assigning anything. Returns:
+      - `rule_id`, `agent_id`, `agent_name` - Winning rule and the agent it would pick next
+      - `rules` - Every rule, highest priority first, with a `status`:
+        - `selected` - the rule that would assign the lead
+        - `outranked` - matched, but a higher priority rule won
+        - `no_match` - at least one condition failed
+        - `inactive` - switched off
+        - `empty_pool` - matched, but has no agents so it is skipped
+        and `conditions`, one entry per condition the rule sets with `expected`, `actual` and `passed`
+*/
+
+CREATE OR REPLACE FUNCTION simulate_assignment_rules(
+  p_source_name text,
+  p_country text,
+  p_funnel text DEFAULT NULL,
+  p_brand text DEFAULT NULL,
+  p_desk text DEFAULT NULL,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  country_code text := normalize_country_code(p_country);
+  winner lead_assignment_rules;
+  picked_agent_id uuid;
+  rule_results jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can simulate assignment rules';
+  END IF;
+
+  winner := find_assignment_rule(p_source_name, country_code, p_funnel, p_brand, p_desk, p_at);
+
+  -- Pick the agent as a real lead would, then roll back the pool rotation
+  IF winner.id IS NOT NULL THEN
+    BEGIN
+      picked_agent_id := pick_rule_agent(winner.id);
+      RAISE EXCEPTION USING ERRCODE = 'DRYRN', MESSAGE = 'dry run';
+    EXCEPTION WHEN SQLSTATE 'DRYRN' THEN
+      NULL;
+    END;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(evaluated ORDER BY (evaluated->>'priority')::integer DESC, evaluated->>'created_at'), '[]'::jsonb)
+  INTO rule_results
+  FROM (
+    SELECT jsonb_build_object(
+      'rule_id', r.id,
+      'priority', r.priority,
+      'created_at', r.created_at,
+      'is_active', r.is_active,
+      'pool_size', (SELECT count(*) FROM lead_assignment_rule_agents ra WHERE ra.rule_id = r.id),
+      'status', CASE
+        WHEN r.id = winner.id THEN 'selected'
+        WHEN NOT r.is_active THEN 'inactive'
+        WHEN NOT assignment_rule_matches(r, p_source_name, country_code, p_funnel, p_brand, p_desk, p_at) THEN 'no_match'
+        WHEN NOT EXISTS (SELECT 1 FROM lead_assignment_rule_agents ra WHERE ra.rule_id = r.id) THEN 'empty_pool'
+        ELSE 'outranked'
+      END,
+      'conditions', (
+        SELECT COALESCE(jsonb_agg(c), '[]'::jsonb)
+        FROM unnest(ARRAY[
+          CASE WHEN r.source_name IS NOT NULL THEN jsonb_build_object(
+            'condition', 'source', 'expected', r.source_name, 'actual', p_source_name,
+            'passed', COALESCE(r.source_name = p_source_name, false)) END,
+          CASE WHEN r.country_codes IS NOT NULL THEN jsonb_build_object(
+            'condition', 'country', 'expected', array_to_string(r.country_codes, ', '), 'actual', country_code,
+            'passed', COALESCE(country_code = ANY(r.country_codes), false)) END,
+          CASE WHEN r.funnel IS NOT NULL THEN jsonb_build_object(
+            'condition', 'funnel', 'expected', r.funnel, 'actual', p_funnel,
+            'passed', COALESCE(lower(r.funnel) = lower(p_funnel), false)) END,
+          CASE WHEN r.brand IS NOT NULL THEN jsonb_build_object(
+            'condition', 'brand', 'expected', r.brand, 'actual', p_brand,
+            'passed', COALESCE(lower(r.brand) = lower(p_brand), false)) END,
+          CASE WHEN r.desk IS NOT NULL THEN jsonb_build_object(
+            'condition', 'desk', 'expected', r.desk, 'actual', p_desk,
+            'passed', COALESCE(lower(r.desk) = lower(p_desk), false)) END,
+          CASE WHEN r.active_days IS NOT NULL THEN jsonb_build_object(
+            'condition', 'day', 'expected', array_to_string(r.active_days, ', '),
+            'actual', EXTRACT(ISODOW FROM p_at AT TIME ZONE z.tz)::text,
+            'passed', EXTRACT(ISODOW FROM p_at AT TIME ZONE z.tz)::smallint = ANY(r.active_days)) END,
+          CASE WHEN r.active_from IS NOT NULL THEN jsonb_build_object(
+            'condition', 'time', 'expected', format('%s-%s %s', to_char(r.active_from, 'HH24:MI'), to_char(r.active_until, 'HH24:MI'), z.tz),
+            'actual', to_char(p_at AT TIME ZONE z.tz, 'HH24:MI'),
+            'passed', CASE
+              WHEN r.active_from <= r.active_until THEN
+                (p_at AT TIME ZONE z.tz)::time >= r.active_from
+                AND (p_at AT TIME ZONE z.tz)::time < r.active_until
+              ELSE
+                (p_at AT TIME ZONE z.tz)::time >= r.active_from
+                OR (p_at AT TIME ZONE z.tz)::time < r.active_until
+            END) END
+        ]) AS c
+        WHERE c IS NOT NULL
+      )
+    ) AS evaluated
+    FROM lead_assignment_rules r
+    CROSS JOIN LATERAL (SELECT assignment_rule_timezone(r, country_code) AS tz) z
+  ) rules;
+
+  RETURN jsonb_build_object(
+    'country_code', country_code,
+    'at', p_at,
+    'rule_id', winner.id,
+    'agent_id', picked_agent_id,
+    'agent_name', (SELECT full_name FROM user_profiles WHERE id = picked_agent_id),
+    'rules', rule_results
+  );
+END;
+$$;
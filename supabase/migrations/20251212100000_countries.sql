@@ -0,0 +1,401 @@
+/*
+  # Shared country dataset
+
+  1. New Tables
+    - `countries`
+      - `code` (text, primary key) - ISO 3166-1 alpha-2 (plus XK for Kosovo)
+      - `alpha3` (text) - ISO 3166-1 alpha-3
+      - `name` (text) - English name
+      - `aliases` (text[]) - Other spellings seen in lead data (UK, USA, Deutschland, ...)
+      - `phone_prefix` (text) - Dialing prefix, e.g. +49
+      - `timezone` (text) - Main IANA timezone
+      Seeded with the same rows as `src/utils/countries.ts`.
+
+  2. Changes to `leads`
+    - `country_code` (text) - Normalized from `country` on insert and whenever `country` changes,
+      NULL when the country is missing or not recognized
+
+  3. Changed Functions
+    - `normalize_country_code(country)` - Looks the value up in `countries` by code, alpha-3,
+      name or alias, case-insensitively. Unknown values now return NULL instead of the input
+    - `assign_lead_by_rules()` and `log_rule_assignment()` use `leads.country_code`
+    - `assignment_rule_timezone(rule, country_code)` - Rules without a timezone now evaluate their
+      schedule in the timezone of the lead's country, UTC when the country is unknown
+
+  4. Security
+    - Enable RLS, authenticated users can read countries
+*/
+
+CREATE TABLE IF NOT EXISTS countries (
+  code text PRIMARY KEY,
+  alpha3 text NOT NULL UNIQUE,
+  name text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  phone_prefix text NOT NULL,
+  timezone text NOT NULL
+);
+
+ALTER TABLE countries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read countries"
+  ON countries
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO countries (code, alpha3, name, aliases, phone_prefix, timezone)
+VALUES
+  ('AD', 'AND', 'Andorra', '{}', '+376', 'Europe/Andorra'),
+  ('AE', 'ARE', 'United Arab Emirates', ARRAY['UAE', 'Emirates'], '+971', 'Asia/Dubai'),
+  ('AF', 'AFG', 'Afghanistan', '{}', '+93', 'Asia/Kabul'),
+  ('AG', 'ATG', 'Antigua and Barbuda', '{}', '+1268', 'America/Antigua'),
+  ('AI', 'AIA', 'Anguilla', '{}', '+1264', 'America/Anguilla'),
+  ('AL', 'ALB', 'Albania', '{}', '+355', 'Europe/Tirane'),
+  ('AM', 'ARM', 'Armenia', '{}', '+374', 'Asia/Yerevan'),
+  ('AO', 'AGO', 'Angola', '{}', '+244', 'Africa/Luanda'),
+  ('AQ', 'ATA', 'Antarctica', '{}', '+672', 'Antarctica/McMurdo'),
+  ('AR', 'ARG', 'Argentina', '{}', '+54', 'America/Argentina/Buenos_Aires'),
+  ('AS', 'ASM', 'American Samoa', '{}', '+1684', 'Pacific/Pago_Pago'),
+  ('AT', 'AUT', 'Austria', ARRAY['Österreich', 'Osterreich'], '+43', 'Europe/Vienna'),
+  ('AU', 'AUS', 'Australia', '{}', '+61', 'Australia/Sydney'),
+  ('AW', 'ABW', 'Aruba', '{}', '+297', 'America/Aruba'),
+  ('AX', 'ALA', 'Åland Islands', '{}', '+35818', 'Europe/Mariehamn'),
+  ('AZ', 'AZE', 'Azerbaijan', '{}', '+994', 'Asia/Baku'),
+  ('BA', 'BIH', 'Bosnia and Herzegovina', ARRAY['Bosnia', 'Bosnia & Herzegovina'], '+387', 'Europe/Sarajevo'),
+  ('BB', 'BRB', 'Barbados', '{}', '+1246', 'America/Barbados'),
+  ('BD', 'BGD', 'Bangladesh', '{}', '+880', 'Asia/Dhaka'),
+  ('BE', 'BEL', 'Belgium', '{}', '+32', 'Europe/Brussels'),
+  ('BF', 'BFA', 'Burkina Faso', '{}', '+226', 'Africa/Ouagadougou'),
+  ('BG', 'BGR', 'Bulgaria', '{}', '+359', 'Europe/Sofia'),
+  ('BH', 'BHR', 'Bahrain', '{}', '+973', 'Asia/Bahrain'),
+  ('BI', 'BDI', 'Burundi', '{}', '+257', 'Africa/Bujumbura'),
+  ('BJ', 'BEN', 'Benin', '{}', '+229', 'Africa/Porto-Novo'),
+  ('BL', 'BLM', 'Saint Barthélemy', '{}', '+590', 'America/St_Barthelemy'),
+  ('BM', 'BMU', 'Bermuda', '{}', '+1441', 'Atlantic/Bermuda'),
+  ('BN', 'BRN', 'Brunei', '{}', '+673', 'Asia/Brunei'),
+  ('BO', 'BOL', 'Bolivia', ARRAY['Bolivia, Plurinational State of'], '+591', 'America/La_Paz'),
+  ('BQ', 'BES', 'Caribbean Netherlands', '{}', '+599', 'America/Kralendijk'),
+  ('BR', 'BRA', 'Brazil', ARRAY['Brasil'], '+55', 'America/Sao_Paulo'),
+  ('BS', 'BHS', 'Bahamas', '{}', '+1242', 'America/Nassau'),
+  ('BT', 'BTN', 'Bhutan', '{}', '+975', 'Asia/Thimphu'),
+  ('BV', 'BVT', 'Bouvet Island', '{}', '+47', 'Europe/Oslo'),
+  ('BW', 'BWA', 'Botswana', '{}', '+267', 'Africa/Gaborone'),
+  ('BY', 'BLR', 'Belarus', '{}', '+375', 'Europe/Minsk'),
+  ('BZ', 'BLZ', 'Belize', '{}', '+501', 'America/Belize'),
+  ('CA', 'CAN', 'Canada', '{}', '+1', 'America/Toronto'),
+  ('CC', 'CCK', 'Cocos (Keeling) Islands', '{}', '+61', 'Indian/Cocos'),
+  ('CD', 'COD', 'Democratic Republic of the Congo', ARRAY['DR Congo', 'DRC', 'Congo-Kinshasa', 'Congo, Democratic Republic of the'], '+243', 'Africa/Kinshasa'),
+  ('CF', 'CAF', 'Central African Republic', '{}', '+236', 'Africa/Bangui'),
+  ('CG', 'COG', 'Republic of the Congo', ARRAY['Congo', 'Congo-Brazzaville'], '+242', 'Africa/Brazzaville'),
+  ('CH', 'CHE', 'Switzerland', ARRAY['Schweiz', 'Suisse', 'Svizzera'], '+41', 'Europe/Zurich'),
+  ('CI', 'CIV', 'Côte d''Ivoire', ARRAY['Ivory Coast', 'Cote d''Ivoire'], '+225', 'Africa/Abidjan'),
+  ('CK', 'COK', 'Cook Islands', '{}', '+682', 'Pacific/Rarotonga'),
+  ('CL', 'CHL', 'Chile', '{}', '+56', 'America/Santiago'),
+  ('CM', 'CMR', 'Cameroon', '{}', '+237', 'Africa/Douala'),
+  ('CN', 'CHN', 'China', '{}', '+86', 'Asia/Shanghai'),
+  ('CO', 'COL', 'Colombia', '{}', '+57', 'America/Bogota'),
+  ('CR', 'CRI', 'Costa Rica', '{}', '+506', 'America/Costa_Rica'),
+  ('CU', 'CUB', 'Cuba', '{}', '+53', 'America/Havana'),
+  ('CV', 'CPV', 'Cape Verde', ARRAY['Cabo Verde'], '+238', 'Atlantic/Cape_Verde'),
+  ('CW', 'CUW', 'Curaçao', ARRAY['Curacao'], '+599', 'America/Curacao'),
+  ('CX', 'CXR', 'Christmas Island', '{}', '+61', 'Indian/Christmas'),
+  ('CY', 'CYP', 'Cyprus', '{}', '+357', 'Asia/Nicosia'),
+  ('CZ', 'CZE', 'Czech Republic', ARRAY['Czechia', 'Česko', 'Cesko'], '+420', 'Europe/Prague'),
+  ('DE', 'DEU', 'Germany', ARRAY['Deutschland'], '+49', 'Europe/Berlin'),
+  ('DJ', 'DJI', 'Djibouti', '{}', '+253', 'Africa/Djibouti'),
+  ('DK', 'DNK', 'Denmark', ARRAY['Danmark'], '+45', 'Europe/Copenhagen'),
+  ('DM', 'DMA', 'Dominica', '{}', '+1767', 'America/Dominica'),
+  ('DO', 'DOM', 'Dominican Republic', '{}', '+1809', 'America/Santo_Domingo'),
+  ('DZ', 'DZA', 'Algeria', '{}', '+213', 'Africa/Algiers'),
+  ('EC', 'ECU', 'Ecuador', '{}', '+593', 'America/Guayaquil'),
+  ('EE', 'EST', 'Estonia', '{}', '+372', 'Europe/Tallinn'),
+  ('EG', 'EGY', 'Egypt', '{}', '+20', 'Africa/Cairo'),
+  ('EH', 'ESH', 'Western Sahara', '{}', '+212', 'Africa/El_Aaiun'),
+  ('ER', 'ERI', 'Eritrea', '{}', '+291', 'Africa/Asmara'),
+  ('ES', 'ESP', 'Spain', ARRAY['España', 'Espana'], '+34', 'Europe/Madrid'),
+  ('ET', 'ETH', 'Ethiopia', '{}', '+251', 'Africa/Addis_Ababa'),
+  ('FI', 'FIN', 'Finland', ARRAY['Suomi'], '+358', 'Europe/Helsinki'),
+  ('FJ', 'FJI', 'Fiji', '{}', '+679', 'Pacific/Fiji'),
+  ('FK', 'FLK', 'Falkland Islands', '{}', '+500', 'Atlantic/Stanley'),
+  ('FM', 'FSM', 'Micronesia', '{}', '+691', 'Pacific/Chuuk'),
+  ('FO', 'FRO', 'Faroe Islands', '{}', '+298', 'Atlantic/Faroe'),
+  ('FR', 'FRA', 'France', '{}', '+33', 'Europe/Paris'),
+  ('GA', 'GAB', 'Gabon', '{}', '+241', 'Africa/Libreville'),
+  ('GB', 'GBR', 'United Kingdom', ARRAY['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'], '+44', 'Europe/London'),
+  ('GD', 'GRD', 'Grenada', '{}', '+1473', 'America/Grenada'),
+  ('GE', 'GEO', 'Georgia', '{}', '+995', 'Asia/Tbilisi'),
+  ('GF', 'GUF', 'French Guiana', '{}', '+594', 'America/Cayenne'),
+  ('GG', 'GGY', 'Guernsey', '{}', '+441481', 'Europe/Guernsey'),
+  ('GH', 'GHA', 'Ghana', '{}', '+233', 'Africa/Accra'),
+  ('GI', 'GIB', 'Gibraltar', '{}', '+350', 'Europe/Gibraltar'),
+  ('GL', 'GRL', 'Greenland', '{}', '+299', 'America/Nuuk'),
+  ('GM', 'GMB', 'Gambia', '{}', '+220', 'Africa/Banjul'),
+  ('GN', 'GIN', 'Guinea', '{}', '+224', 'Africa/Conakry'),
+  ('GP', 'GLP', 'Guadeloupe', '{}', '+590', 'America/Guadeloupe'),
+  ('GQ', 'GNQ', 'Equatorial Guinea', '{}', '+240', 'Africa/Malabo'),
+  ('GR', 'GRC', 'Greece', ARRAY['Hellas', 'Ellada'], '+30', 'Europe/Athens'),
+  ('GS', 'SGS', 'South Georgia and the South Sandwich Islands', '{}', '+500', 'Atlantic/South_Georgia'),
+  ('GT', 'GTM', 'Guatemala', '{}', '+502', 'America/Guatemala'),
+  ('GU', 'GUM', 'Guam', '{}', '+1671', 'Pacific/Guam'),
+  ('GW', 'GNB', 'Guinea-Bissau', '{}', '+245', 'Africa/Bissau'),
+  ('GY', 'GUY', 'Guyana', '{}', '+592', 'America/Guyana'),
+  ('HK', 'HKG', 'Hong Kong', '{}', '+852', 'Asia/Hong_Kong'),
+  ('HM', 'HMD', 'Heard Island and McDonald Islands', '{}', '+672', 'Indian/Kerguelen'),
+  ('HN', 'HND', 'Honduras', '{}', '+504', 'America/Tegucigalpa'),
+  ('HR', 'HRV', 'Croatia', ARRAY['Hrvatska'], '+385', 'Europe/Zagreb'),
+  ('HT', 'HTI', 'Haiti', '{}', '+509', 'America/Port-au-Prince'),
+  ('HU', 'HUN', 'Hungary', ARRAY['Magyarország', 'Magyarorszag'], '+36', 'Europe/Budapest'),
+  ('ID', 'IDN', 'Indonesia', '{}', '+62', 'Asia/Jakarta'),
+  ('IE', 'IRL', 'Ireland', '{}', '+353', 'Europe/Dublin'),
+  ('IL', 'ISR', 'Israel', '{}', '+972', 'Asia/Jerusalem'),
+  ('IM', 'IMN', 'Isle of Man', '{}', '+441624', 'Europe/Isle_of_Man'),
+  ('IN', 'IND', 'India', '{}', '+91', 'Asia/Kolkata'),
+  ('IO', 'IOT', 'British Indian Ocean Territory', '{}', '+246', 'Indian/Chagos'),
+  ('IQ', 'IRQ', 'Iraq', '{}', '+964', 'Asia/Baghdad'),
+  ('IR', 'IRN', 'Iran', ARRAY['Iran, Islamic Republic of'], '+98', 'Asia/Tehran'),
+  ('IS', 'ISL', 'Iceland', '{}', '+354', 'Atlantic/Reykjavik'),
+  ('IT', 'ITA', 'Italy', ARRAY['Italia'], '+39', 'Europe/Rome'),
+  ('JE', 'JEY', 'Jersey', '{}', '+441534', 'Europe/Jersey'),
+  ('JM', 'JAM', 'Jamaica', '{}', '+1876', 'America/Jamaica'),
+  ('JO', 'JOR', 'Jordan', '{}', '+962', 'Asia/Amman'),
+  ('JP', 'JPN', 'Japan', '{}', '+81', 'Asia/Tokyo'),
+  ('KE', 'KEN', 'Kenya', '{}', '+254', 'Africa/Nairobi'),
+  ('KG', 'KGZ', 'Kyrgyzstan', '{}', '+996', 'Asia/Bishkek'),
+  ('KH', 'KHM', 'Cambodia', '{}', '+855', 'Asia/Phnom_Penh'),
+  ('KI', 'KIR', 'Kiribati', '{}', '+686', 'Pacific/Tarawa'),
+  ('KM', 'COM', 'Comoros', '{}', '+269', 'Indian/Comoro'),
+  ('KN', 'KNA', 'Saint Kitts and Nevis', '{}', '+1869', 'America/St_Kitts'),
+  ('KP', 'PRK', 'North Korea', ARRAY['Korea, North', 'Korea, Democratic People''s Republic of'], '+850', 'Asia/Pyongyang'),
+  ('KR', 'KOR', 'South Korea', ARRAY['Korea', 'Korea, South', 'Korea, Republic of', 'Republic of Korea'], '+82', 'Asia/Seoul'),
+  ('KW', 'KWT', 'Kuwait', '{}', '+965', 'Asia/Kuwait'),
+  ('KY', 'CYM', 'Cayman Islands', '{}', '+1345', 'America/Cayman'),
+  ('KZ', 'KAZ', 'Kazakhstan', '{}', '+7', 'Asia/Almaty'),
+  ('LA', 'LAO', 'Laos', ARRAY['Lao People''s Democratic Republic'], '+856', 'Asia/Vientiane'),
+  ('LB', 'LBN', 'Lebanon', '{}', '+961', 'Asia/Beirut'),
+  ('LC', 'LCA', 'Saint Lucia', '{}', '+1758', 'America/St_Lucia'),
+  ('LI', 'LIE', 'Liechtenstein', '{}', '+423', 'Europe/Vaduz'),
+  ('LK', 'LKA', 'Sri Lanka', '{}', '+94', 'Asia/Colombo'),
+  ('LR', 'LBR', 'Liberia', '{}', '+231', 'Africa/Monrovia'),
+  ('LS', 'LSO', 'Lesotho', '{}', '+266', 'Africa/Maseru'),
+  ('LT', 'LTU', 'Lithuania', '{}', '+370', 'Europe/Vilnius'),
+  ('LU', 'LUX', 'Luxembourg', '{}', '+352', 'Europe/Luxembourg'),
+  ('LV', 'LVA', 'Latvia', '{}', '+371', 'Europe/Riga'),
+  ('LY', 'LBY', 'Libya', '{}', '+218', 'Africa/Tripoli'),
+  ('MA', 'MAR', 'Morocco', '{}', '+212', 'Africa/Casablanca'),
+  ('MC', 'MCO', 'Monaco', '{}', '+377', 'Europe/Monaco'),
+  ('MD', 'MDA', 'Moldova', ARRAY['Moldova, Republic of'], '+373', 'Europe/Chisinau'),
+  ('ME', 'MNE', 'Montenegro', '{}', '+382', 'Europe/Podgorica'),
+  ('MF', 'MAF', 'Saint Martin', '{}', '+590', 'America/Marigot'),
+  ('MG', 'MDG', 'Madagascar', '{}', '+261', 'Africa/Antananarivo'),
+  ('MH', 'MHL', 'Marshall Islands', '{}', '+692', 'Pacific/Majuro'),
+  ('MK', 'MKD', 'North Macedonia', ARRAY['Macedonia'], '+389', 'Europe/Skopje'),
+  ('ML', 'MLI', 'Mali', '{}', '+223', 'Africa/Bamako'),
+  ('MM', 'MMR', 'Myanmar', ARRAY['Burma'], '+95', 'Asia/Yangon'),
+  ('MN', 'MNG', 'Mongolia', '{}', '+976', 'Asia/Ulaanbaatar'),
+  ('MO', 'MAC', 'Macau', ARRAY['Macao'], '+853', 'Asia/Macau'),
+  ('MP', 'MNP', 'Northern Mariana Islands', '{}', '+1670', 'Pacific/Saipan'),
+  ('MQ', 'MTQ', 'Martinique', '{}', '+596', 'America/Martinique'),
+  ('MR', 'MRT', 'Mauritania', '{}', '+222', 'Africa/Nouakchott'),
+  ('MS', 'MSR', 'Montserrat', '{}', '+1664', 'America/Montserrat'),
+  ('MT', 'MLT', 'Malta', '{}', '+356', 'Europe/Malta'),
+  ('MU', 'MUS', 'Mauritius', '{}', '+230', 'Indian/Mauritius'),
+  ('MV', 'MDV', 'Maldives', '{}', '+960', 'Indian/Maldives'),
+  ('MW', 'MWI', 'Malawi', '{}', '+265', 'Africa/Blantyre'),
+  ('MX', 'MEX', 'Mexico', ARRAY['México'], '+52', 'America/Mexico_City'),
+  ('MY', 'MYS', 'Malaysia', '{}', '+60', 'Asia/Kuala_Lumpur'),
+  ('MZ', 'MOZ', 'Mozambique', '{}', '+258', 'Africa/Maputo'),
+  ('NA', 'NAM', 'Namibia', '{}', '+264', 'Africa/Windhoek'),
+  ('NC', 'NCL', 'New Caledonia', '{}', '+687', 'Pacific/Noumea'),
+  ('NE', 'NER', 'Niger', '{}', '+227', 'Africa/Niamey'),
+  ('NF', 'NFK', 'Norfolk Island', '{}', '+672', 'Pacific/Norfolk'),
+  ('NG', 'NGA', 'Nigeria', '{}', '+234', 'Africa/Lagos'),
+  ('NI', 'NIC', 'Nicaragua', '{}', '+505', 'America/Managua'),
+  ('NL', 'NLD', 'Netherlands', ARRAY['Nederland', 'Holland', 'The Netherlands'], '+31', 'Europe/Amsterdam'),
+  ('NO', 'NOR', 'Norway', ARRAY['Norge'], '+47', 'Europe/Oslo'),
+  ('NP', 'NPL', 'Nepal', '{}', '+977', 'Asia/Kathmandu'),
+  ('NR', 'NRU', 'Nauru', '{}', '+674', 'Pacific/Nauru'),
+  ('NU', 'NIU', 'Niue', '{}', '+683', 'Pacific/Niue'),
+  ('NZ', 'NZL', 'New Zealand', '{}', '+64', 'Pacific/Auckland'),
+  ('OM', 'OMN', 'Oman', '{}', '+968', 'Asia/Muscat'),
+  ('PA', 'PAN', 'Panama', '{}', '+507', 'America/Panama'),
+  ('PE', 'PER', 'Peru', '{}', '+51', 'America/Lima'),
+  ('PF', 'PYF', 'French Polynesia', '{}', '+689', 'Pacific/Tahiti'),
+  ('PG', 'PNG', 'Papua New Guinea', '{}', '+675', 'Pacific/Port_Moresby'),
+  ('PH', 'PHL', 'Philippines', '{}', '+63', 'Asia/Manila'),
+  ('PK', 'PAK', 'Pakistan', '{}', '+92', 'Asia/Karachi'),
+  ('PL', 'POL', 'Poland', ARRAY['Polska'], '+48', 'Europe/Warsaw'),
+  ('PM', 'SPM', 'Saint Pierre and Miquelon', '{}', '+508', 'America/Miquelon'),
+  ('PN', 'PCN', 'Pitcairn Islands', '{}', '+64', 'Pacific/Pitcairn'),
+  ('PR', 'PRI', 'Puerto Rico', '{}', '+1787', 'America/Puerto_Rico'),
+  ('PS', 'PSE', 'Palestine', ARRAY['Palestinian Territories', 'State of Palestine'], '+970', 'Asia/Gaza'),
+  ('PT', 'PRT', 'Portugal', '{}', '+351', 'Europe/Lisbon'),
+  ('PW', 'PLW', 'Palau', '{}', '+680', 'Pacific/Palau'),
+  ('PY', 'PRY', 'Paraguay', '{}', '+595', 'America/Asuncion'),
+  ('QA', 'QAT', 'Qatar', '{}', '+974', 'Asia/Qatar'),
+  ('RE', 'REU', 'Réunion', ARRAY['Reunion'], '+262', 'Indian/Reunion'),
+  ('RO', 'ROU', 'Romania', '{}', '+40', 'Europe/Bucharest'),
+  ('RS', 'SRB', 'Serbia', '{}', '+381', 'Europe/Belgrade'),
+  ('RU', 'RUS', 'Russia', ARRAY['Russian Federation', 'Rossiya'], '+7', 'Europe/Moscow'),
+  ('RW', 'RWA', 'Rwanda', '{}', '+250', 'Africa/Kigali'),
+  ('SA', 'SAU', 'Saudi Arabia', '{}', '+966', 'Asia/Riyadh'),
+  ('SB', 'SLB', 'Solomon Islands', '{}', '+677', 'Pacific/Guadalcanal'),
+  ('SC', 'SYC', 'Seychelles', '{}', '+248', 'Indian/Mahe'),
+  ('SD', 'SDN', 'Sudan', '{}', '+249', 'Africa/Khartoum'),
+  ('SE', 'SWE', 'Sweden', ARRAY['Sverige'], '+46', 'Europe/Stockholm'),
+  ('SG', 'SGP', 'Singapore', '{}', '+65', 'Asia/Singapore'),
+  ('SH', 'SHN', 'Saint Helena', '{}', '+290', 'Atlantic/St_Helena'),
+  ('SI', 'SVN', 'Slovenia', '{}', '+386', 'Europe/Ljubljana'),
+  ('SJ', 'SJM', 'Svalbard and Jan Mayen', '{}', '+4779', 'Arctic/Longyearbyen'),
+  ('SK', 'SVK', 'Slovakia', '{}', '+421', 'Europe/Bratislava'),
+  ('SL', 'SLE', 'Sierra Leone', '{}', '+232', 'Africa/Freetown'),
+  ('SM', 'SMR', 'San Marino', '{}', '+378', 'Europe/San_Marino'),
+  ('SN', 'SEN', 'Senegal', '{}', '+221', 'Africa/Dakar'),
+  ('SO', 'SOM', 'Somalia', '{}', '+252', 'Africa/Mogadishu'),
+  ('SR', 'SUR', 'Suriname', '{}', '+597', 'America/Paramaribo'),
+  ('SS', 'SSD', 'South Sudan', '{}', '+211', 'Africa/Juba'),
+  ('ST', 'STP', 'São Tomé and Príncipe', ARRAY['Sao Tome and Principe'], '+239', 'Africa/Sao_Tome'),
+  ('SV', 'SLV', 'El Salvador', '{}', '+503', 'America/El_Salvador'),
+  ('SX', 'SXM', 'Sint Maarten', '{}', '+1721', 'America/Lower_Princes'),
+  ('SY', 'SYR', 'Syria', ARRAY['Syrian Arab Republic'], '+963', 'Asia/Damascus'),
+  ('SZ', 'SWZ', 'Eswatini', ARRAY['Swaziland'], '+268', 'Africa/Mbabane'),
+  ('TC', 'TCA', 'Turks and Caicos Islands', '{}', '+1649', 'America/Grand_Turk'),
+  ('TD', 'TCD', 'Chad', '{}', '+235', 'Africa/Ndjamena'),
+  ('TF', 'ATF', 'French Southern Territories', '{}', '+262', 'Indian/Kerguelen'),
+  ('TG', 'TGO', 'Togo', '{}', '+228', 'Africa/Lome'),
+  ('TH', 'THA', 'Thailand', '{}', '+66', 'Asia/Bangkok'),
+  ('TJ', 'TJK', 'Tajikistan', '{}', '+992', 'Asia/Dushanbe'),
+  ('TK', 'TKL', 'Tokelau', '{}', '+690', 'Pacific/Fakaofo'),
+  ('TL', 'TLS', 'East Timor', ARRAY['Timor-Leste'], '+670', 'Asia/Dili'),
+  ('TM', 'TKM', 'Turkmenistan', '{}', '+993', 'Asia/Ashgabat'),
+  ('TN', 'TUN', 'Tunisia', '{}', '+216', 'Africa/Tunis'),
+  ('TO', 'TON', 'Tonga', '{}', '+676', 'Pacific/Tongatapu'),
+  ('TR', 'TUR', 'Turkey', ARRAY['Türkiye', 'Turkiye'], '+90', 'Europe/Istanbul'),
+  ('TT', 'TTO', 'Trinidad and Tobago', '{}', '+1868', 'America/Port_of_Spain'),
+  ('TV', 'TUV', 'Tuvalu', '{}', '+688', 'Pacific/Funafuti'),
+  ('TW', 'TWN', 'Taiwan', ARRAY['Taiwan, Province of China'], '+886', 'Asia/Taipei'),
+  ('TZ', 'TZA', 'Tanzania', ARRAY['Tanzania, United Republic of'], '+255', 'Africa/Dar_es_Salaam'),
+  ('UA', 'UKR', 'Ukraine', '{}', '+380', 'Europe/Kiev'),
+  ('UG', 'UGA', 'Uganda', '{}', '+256', 'Africa/Kampala'),
+  ('UM', 'UMI', 'United States Minor Outlying Islands', '{}', '+1', 'Pacific/Midway'),
+  ('US', 'USA', 'United States', ARRAY['United States of America', 'America', 'U.S.', 'U.S.A.'], '+1', 'America/New_York'),
+  ('UY', 'URY', 'Uruguay', '{}', '+598', 'America/Montevideo'),
+  ('UZ', 'UZB', 'Uzbekistan', '{}', '+998', 'Asia/Tashkent'),
+  ('VA', 'VAT', 'Vatican City', ARRAY['Holy See', 'Vatican'], '+379', 'Europe/Vatican'),
+  ('VC', 'VCT', 'Saint Vincent and the Grenadines', '{}', '+1784', 'America/St_Vincent'),
+  ('VE', 'VEN', 'Venezuela', ARRAY['Venezuela, Bolivarian Republic of'], '+58', 'America/Caracas'),
+  ('VG', 'VGB', 'British Virgin Islands', ARRAY['Virgin Islands (British)'], '+1284', 'America/Tortola'),
+  ('VI', 'VIR', 'U.S. Virgin Islands', ARRAY['Virgin Islands (U.S.)', 'US Virgin Islands'], '+1340', 'America/St_Thomas'),
+  ('VN', 'VNM', 'Vietnam', ARRAY['Viet Nam'], '+84', 'Asia/Ho_Chi_Minh'),
+  ('VU', 'VUT', 'Vanuatu', '{}', '+678', 'Pacific/Efate'),
+  ('WF', 'WLF', 'Wallis and Futuna', '{}', '+681', 'Pacific/Wallis'),
+  ('WS', 'WSM', 'Samoa', '{}', '+685', 'Pacific/Apia'),
+  ('XK', 'XKX', 'Kosovo', '{}', '+383', 'Europe/Belgrade'),
+  ('YE', 'YEM', 'Yemen', '{}', '+967', 'Asia/Aden'),
+  ('YT', 'MYT', 'Mayotte', '{}', '+262', 'Indian/Mayotte'),
+  ('ZA', 'ZAF', 'South Africa', '{}', '+27', 'Africa/Johannesburg'),
+  ('ZM', 'ZMB', 'Zambia', '{}', '+260', 'Africa/Lusaka'),
+  ('ZW', 'ZWE', 'Zimbabwe', '{}', '+263', 'Africa/Harare')
+ON CONFLICT (code) DO UPDATE SET
+  alpha3 = EXCLUDED.alpha3,
+  name = EXCLUDED.name,
+  aliases = EXCLUDED.aliases,
+  phone_prefix = EXCLUDED.phone_prefix,
+  timezone = EXCLUDED.timezone;
+
+CREATE OR REPLACE FUNCTION normalize_country_code(p_country text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.code
+  FROM countries c
+  WHERE lower(trim(p_country)) IN (lower(c.code), lower(c.alpha3), lower(c.name))
+    OR EXISTS (SELECT 1 FROM unnest(c.aliases) alias WHERE lower(alias) = lower(trim(p_country)))
+  LIMIT 1;
+$$;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS country_code text;
+
+CREATE INDEX IF NOT EXISTS idx_leads_country_code ON leads(country_code);
+
+CREATE OR REPLACE FUNCTION set_lead_country_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.country_code := normalize_country_code(NEW.country);
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before on_lead_insert_assignment_rules, BEFORE triggers run in name order
+DROP TRIGGER IF EXISTS on_lead_country_code ON leads;
+CREATE TRIGGER on_lead_country_code
+  BEFORE INSERT OR UPDATE OF country ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lead_country_code();
+
+UPDATE leads
+SET country_code = normalize_country_code(country)
+WHERE country IS NOT NULL;
+
+-- The rule's own timezone wins, otherwise the schedule follows the lead's local time
+CREATE OR REPLACE FUNCTION assignment_rule_timezone(r lead_assignment_rules, p_country_code text)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    r.timezone,
+    (SELECT c.timezone FROM countries c WHERE c.code = upper(p_country_code)),
+    'UTC'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION assign_lead_by_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_match jsonb;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  rule_match := match_assignment_rule(NEW.source, NEW.country_code, NEW.funnel, NEW.brand, NEW.desk);
+
+  IF rule_match->>'agent_id' IS NOT NULL THEN
+    NEW.assigned_to := (rule_match->>'agent_id')::uuid;
+    NEW.assignment_rule_id := (rule_match->>'rule_id')::uuid;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_rule_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.assignment_rule_id IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.assignment_rule_id IS NOT DISTINCT FROM NEW.assignment_rule_id) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    NEW.id,
+    'auto_assignment',
+    format('Automatically assigned to %s based on source ''%s'' and country ''%s''',
+      COALESCE((SELECT full_name FROM user_profiles WHERE id = NEW.assigned_to), 'Unknown Agent'),
+      COALESCE(NEW.source, 'unknown'),
+      COALESCE(NEW.country_code, 'unknown'))
+  );
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,315 @@
+/*
+  # Agent capacity limits and overflow routing
+
+  1. Changes to `user_profiles`
+    - `max_open_leads` (integer) - Most unconverted leads the user may hold, NULL means no limit
+    - `max_daily_leads` (integer) - Most leads the user may receive per UTC day, NULL means no limit
+    - `overflow_user_id` (uuid) - Agent, or desk whose queue, receives leads once the user is full
+
+  2. Changes to `leads`
+    - `assigned_at` (timestamptz) - When the lead was last given to its current agent, kept by
+      the `on_lead_set_assigned_at` trigger. Existing assigned leads use `created_at`
+
+  3. New Functions
+    - `agent_capacity(p_user_ids)` - Current load, limits and whether each user can take
+      another lead. All users when `p_user_ids` is NULL. Internal only
+    - `get_agent_capacity(p_user_ids)` - `agent_capacity` for the UI. Admins, desks and managers
+      get every requested user, other users only themselves
+    - `agent_has_capacity(p_user_id)` - Whether a user is below both limits
+    - `resolve_capacity_agent(p_user_id)` - The user itself when it has room, otherwise the first
+      user with room along its overflow chain, NULL when the whole chain is full
+    - `distribute_leads(p_lead_ids, p_agent_ids)` - Random bulk distribution that skips full agents
+      and overflows once every selected agent is full. Runs with the caller's permissions
+
+  4. Changed Functions
+    - `pick_rule_agent` skips pool agents at capacity. When the whole pool is full the lead goes to
+      the first overflow target with room, or stays unassigned
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS max_open_leads integer CHECK (max_open_leads IS NULL OR max_open_leads >= 0),
+  ADD COLUMN IF NOT EXISTS max_daily_leads integer CHECK (max_daily_leads IS NULL OR max_daily_leads >= 0),
+  ADD COLUMN IF NOT EXISTS overflow_user_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'user_profiles_overflow_user_check'
+  ) THEN
+    ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_overflow_user_check
+      CHECK (overflow_user_id IS DISTINCT FROM id);
+  END IF;
+END;
+$$;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+
+UPDATE leads SET assigned_at = created_at WHERE assigned_to IS NOT NULL AND assigned_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_to_assigned_at ON leads(assigned_to, assigned_at);
+
+CREATE OR REPLACE FUNCTION set_lead_assigned_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NULL THEN
+    NEW.assigned_at := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.assigned_to IS DISTINCT FROM NEW.assigned_to THEN
+    NEW.assigned_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after on_lead_insert_assignment_rules, which may fill assigned_to
+DROP TRIGGER IF EXISTS on_lead_set_assigned_at ON leads;
+CREATE TRIGGER on_lead_set_assigned_at
+  BEFORE INSERT OR UPDATE OF assigned_to ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lead_assigned_at();
+
+CREATE OR REPLACE FUNCTION agent_capacity(p_user_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  open_leads bigint,
+  today_leads bigint,
+  max_open_leads integer,
+  max_daily_leads integer,
+  overflow_user_id uuid,
+  has_capacity boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    p.id,
+    load.open_leads,
+    load.today_leads,
+    p.max_open_leads,
+    p.max_daily_leads,
+    p.overflow_user_id,
+    (p.max_open_leads IS NULL OR load.open_leads < p.max_open_leads)
+      AND (p.max_daily_leads IS NULL OR load.today_leads < p.max_daily_leads)
+  FROM user_profiles p
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE COALESCE(l.is_converted, false) = false) AS open_leads,
+      count(*) FILTER (WHERE l.assigned_at >= date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS today_leads
+    FROM leads l
+    WHERE l.assigned_to = p.id
+  ) load
+  WHERE p_user_ids IS NULL OR p.id = ANY(p_user_ids);
+$$;
+
+CREATE OR REPLACE FUNCTION get_agent_capacity(p_user_ids uuid[] DEFAULT NULL)
+RETURNS TABLE (
+  user_id uuid,
+  open_leads bigint,
+  today_leads bigint,
+  max_open_leads integer,
+  max_daily_leads integer,
+  overflow_user_id uuid,
+  has_capacity boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT c.*
+  FROM agent_capacity(p_user_ids) c
+  WHERE c.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'desk', 'manager')
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION agent_capacity(uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_agent_capacity(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_agent_capacity(uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION agent_has_capacity(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE((SELECT has_capacity FROM agent_capacity(ARRAY[p_user_id])), false);
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_capacity_agent(p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_id uuid := p_user_id;
+  visited uuid[] := ARRAY[]::uuid[];
+BEGIN
+  -- Follow the overflow chain, stopping on loops such as A -> B -> A
+  WHILE current_id IS NOT NULL AND NOT current_id = ANY(visited) LOOP
+    IF agent_has_capacity(current_id) THEN
+      RETURN current_id;
+    END IF;
+
+    visited := visited || current_id;
+    SELECT overflow_user_id INTO current_id FROM user_profiles WHERE id = current_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION pick_rule_agent(p_rule_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_distribution text;
+  picked_id uuid;
+  picked_agent uuid;
+BEGIN
+  SELECT distribution INTO rule_distribution
+  FROM lead_assignment_rules
+  WHERE id = p_rule_id
+  FOR UPDATE;
+
+  IF rule_distribution = 'weighted' THEN
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND agent_has_capacity(agent_id)
+    ORDER BY (assigned_count + 1)::numeric / weight, last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  ELSIF rule_distribution = 'least_loaded' THEN
+    SELECT ra.id, ra.agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents ra
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS open_leads
+      FROM leads l
+      WHERE l.assigned_to = ra.agent_id
+        AND COALESCE(l.is_converted, false) = false
+    ) load ON true
+    WHERE ra.rule_id = p_rule_id
+      AND agent_has_capacity(ra.agent_id)
+    ORDER BY load.open_leads, ra.last_assigned_at NULLS FIRST, ra.created_at
+    LIMIT 1;
+  ELSE
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND agent_has_capacity(agent_id)
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  -- The whole pool is full, the next agent in rotation hands the lead to its overflow
+  IF picked_id IS NULL THEN
+    SELECT id, resolve_capacity_agent(agent_id) INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND resolve_capacity_agent(agent_id) IS NOT NULL
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  IF picked_id IS NOT NULL THEN
+    UPDATE lead_assignment_rule_agents
+    SET assigned_count = assigned_count + 1,
+        last_assigned_at = clock_timestamp()
+    WHERE id = picked_id;
+  END IF;
+
+  RETURN picked_agent;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION distribute_leads(p_lead_ids bigint[], p_agent_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  agent_count integer := COALESCE(array_length(p_agent_ids, 1), 0);
+  next_index integer := 0;
+  target_lead_id bigint;
+  candidate uuid;
+  target uuid;
+  overflowed boolean;
+  per_agent jsonb := '{}'::jsonb;
+  overflow_count integer := 0;
+  skipped integer := 0;
+  inaccessible integer := 0;
+  updated_count integer;
+BEGIN
+  IF agent_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one agent';
+  END IF;
+
+  FOR target_lead_id IN SELECT unnest(p_lead_ids) ORDER BY random()
+  LOOP
+    target := NULL;
+    overflowed := false;
+
+    -- Round robin over the selected agents, skipping the ones at capacity
+    FOR i IN 0..agent_count - 1 LOOP
+      candidate := p_agent_ids[((next_index + i) % agent_count) + 1];
+      IF agent_has_capacity(candidate) THEN
+        target := candidate;
+        next_index := (next_index + i + 1) % agent_count;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF target IS NULL THEN
+      target := resolve_capacity_agent(p_agent_ids[next_index + 1]);
+      next_index := (next_index + 1) % agent_count;
+      overflowed := target IS NOT NULL;
+    END IF;
+
+    IF target IS NULL THEN
+      skipped := skipped + 1;
+      CONTINUE;
+    END IF;
+
+    UPDATE leads SET assigned_to = target WHERE id = target_lead_id;
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    -- Runs with the caller's permissions, leads their RLS policies hide are left alone
+    IF updated_count = 0 THEN
+      inaccessible := inaccessible + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      target_lead_id,
+      'assignment',
+      CASE
+        WHEN overflowed THEN format('Lead randomly assigned via bulk action, overflowed to %s because the selected agents are at capacity',
+          COALESCE((SELECT full_name FROM user_profiles WHERE id = target), 'Unknown Agent'))
+        ELSE 'Lead randomly assigned via bulk action'
+      END
+    );
+
+    IF overflowed THEN
+      overflow_count := overflow_count + 1;
+    END IF;
+    per_agent := jsonb_set(per_agent, ARRAY[target::text], to_jsonb(COALESCE((per_agent->>target::text)::integer, 0) + 1));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'assigned', (SELECT COALESCE(sum(value::integer), 0) FROM jsonb_each_text(per_agent)),
+    'overflowed', overflow_count,
+    'skipped', skipped,
+    'inaccessible', inaccessible,
+    'per_agent', per_agent
+  );
+END;
+$$;
@@ -0,0 +1,378 @@
+/*
+  # Agent availability and out of office
+
+  1. Changes to `user_profiles`
+    - `availability` (text) - `available`, `busy`, `offline` or `on_leave`
+    - `leave_starts_at`, `leave_ends_at` (timestamptz) - Optional bounds of an `on_leave` period.
+      Outside the bounds the user counts as available, so leave can be booked ahead and ends
+      by itself. Either bound may be NULL for an open ended leave
+
+  2. New Tables
+    - `lead_assignment_settings` - Single row of assignment settings
+      - `unavailable_reassign_minutes` (integer) - How long a new lead may sit untouched with an
+        unavailable agent before it is reassigned, NULL turns reassignment off
+
+  3. New Functions
+    - `agent_is_available(p_user_id)` - False while the user is offline or inside a leave period.
+      Busy users keep receiving leads
+    - `set_my_availability(p_availability, p_leave_starts_at, p_leave_ends_at)` - Lets any user
+      update their own presence
+    - `reassign_unavailable_agent_leads()` - Reassigns leads still in status `New` without comments
+      that have sat with an unavailable agent longer than the configured delay. Uses the lead's
+      rule when it has one, otherwise the matching rule. Runs every 5 minutes (pg_cron job
+      `reassign-unavailable-agent-leads`)
+
+  4. Changed Functions
+    - `pick_rule_agent`, `resolve_capacity_agent` and `distribute_leads` skip unavailable users
+    - `pick_rule_agent(rule_id, exclude_agent_id)` - Optionally leaves one agent out, so a
+      reassignment never lands back on the current agent
+
+  5. Security
+    - Enable RLS on `lead_assignment_settings`, everyone can read, only admins can update
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS availability text NOT NULL DEFAULT 'available'
+    CHECK (availability IN ('available', 'busy', 'offline', 'on_leave')),
+  ADD COLUMN IF NOT EXISTS leave_starts_at timestamptz,
+  ADD COLUMN IF NOT EXISTS leave_ends_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'user_profiles_leave_range_check'
+  ) THEN
+    ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_leave_range_check
+      CHECK (leave_starts_at IS NULL OR leave_ends_at IS NULL OR leave_starts_at < leave_ends_at);
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS lead_assignment_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  unavailable_reassign_minutes integer DEFAULT 60 CHECK (unavailable_reassign_minutes IS NULL OR unavailable_reassign_minutes > 0),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO lead_assignment_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE lead_assignment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read assignment settings"
+  ON lead_assignment_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can update assignment settings"
+  ON lead_assignment_settings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION agent_is_available(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE((
+    SELECT CASE p.availability
+      WHEN 'offline' THEN false
+      WHEN 'on_leave' THEN NOT (
+        (p.leave_starts_at IS NULL OR p.leave_starts_at <= now())
+        AND (p.leave_ends_at IS NULL OR p.leave_ends_at > now())
+      )
+      ELSE true
+    END
+    FROM user_profiles p
+    WHERE p.id = p_user_id
+  ), false);
+$$;
+
+CREATE OR REPLACE FUNCTION set_my_availability(
+  p_availability text,
+  p_leave_starts_at timestamptz DEFAULT NULL,
+  p_leave_ends_at timestamptz DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE user_profiles
+  SET availability = p_availability,
+      leave_starts_at = CASE WHEN p_availability = 'on_leave' THEN p_leave_starts_at END,
+      leave_ends_at = CASE WHEN p_availability = 'on_leave' THEN p_leave_ends_at END
+  WHERE id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_capacity_agent(p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  current_id uuid := p_user_id;
+  visited uuid[] := ARRAY[]::uuid[];
+BEGIN
+  -- Follow the overflow chain, stopping on loops such as A -> B -> A
+  WHILE current_id IS NOT NULL AND NOT current_id = ANY(visited) LOOP
+    IF agent_is_available(current_id) AND agent_has_capacity(current_id) THEN
+      RETURN current_id;
+    END IF;
+
+    visited := visited || current_id;
+    SELECT overflow_user_id INTO current_id FROM user_profiles WHERE id = current_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Takes the agent to leave out now, so reassignments do not spend the rotation on them
+DROP FUNCTION IF EXISTS pick_rule_agent(uuid);
+
+CREATE OR REPLACE FUNCTION pick_rule_agent(p_rule_id uuid, p_exclude_agent_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_distribution text;
+  picked_id uuid;
+  picked_agent uuid;
+BEGIN
+  SELECT distribution INTO rule_distribution
+  FROM lead_assignment_rules
+  WHERE id = p_rule_id
+  FOR UPDATE;
+
+  IF rule_distribution = 'weighted' THEN
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND agent_is_available(agent_id)
+      AND agent_has_capacity(agent_id)
+      AND agent_id IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY (assigned_count + 1)::numeric / weight, last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  ELSIF rule_distribution = 'least_loaded' THEN
+    SELECT ra.id, ra.agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents ra
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS open_leads
+      FROM leads l
+      WHERE l.assigned_to = ra.agent_id
+        AND COALESCE(l.is_converted, false) = false
+    ) load ON true
+    WHERE ra.rule_id = p_rule_id
+      AND agent_is_available(ra.agent_id)
+      AND agent_has_capacity(ra.agent_id)
+      AND ra.agent_id IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY load.open_leads, ra.last_assigned_at NULLS FIRST, ra.created_at
+    LIMIT 1;
+  ELSE
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND agent_is_available(agent_id)
+      AND agent_has_capacity(agent_id)
+      AND agent_id IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  -- Nobody in the pool can take the lead, the next agent in rotation hands it to its overflow
+  IF picked_id IS NULL THEN
+    SELECT id, resolve_capacity_agent(agent_id) INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND resolve_capacity_agent(agent_id) IS NOT NULL
+      AND resolve_capacity_agent(agent_id) IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  IF picked_id IS NOT NULL THEN
+    UPDATE lead_assignment_rule_agents
+    SET assigned_count = assigned_count + 1,
+        last_assigned_at = clock_timestamp()
+    WHERE id = picked_id;
+  END IF;
+
+  RETURN picked_agent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pick_rule_agent(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION distribute_leads(p_lead_ids bigint[], p_agent_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  agent_count integer := COALESCE(array_length(p_agent_ids, 1), 0);
+  next_index integer := 0;
+  target_lead_id bigint;
+  candidate uuid;
+  target uuid;
+  overflowed boolean;
+  per_agent jsonb := '{}'::jsonb;
+  overflow_count integer := 0;
+  skipped integer := 0;
+  inaccessible integer := 0;
+  updated_count integer;
+BEGIN
+  IF agent_count = 0 THEN
+    RAISE EXCEPTION 'Select at least one agent';
+  END IF;
+
+  FOR target_lead_id IN SELECT unnest(p_lead_ids) ORDER BY random()
+  LOOP
+    target := NULL;
+    overflowed := false;
+
+    -- Round robin over the selected agents, skipping the ones unavailable or at capacity
+    FOR i IN 0..agent_count - 1 LOOP
+      candidate := p_agent_ids[((next_index + i) % agent_count) + 1];
+      IF agent_is_available(candidate) AND agent_has_capacity(candidate) THEN
+        target := candidate;
+        next_index := (next_index + i + 1) % agent_count;
+        EXIT;
+      END IF;
+    END LOOP;
+
+    IF target IS NULL THEN
+      target := resolve_capacity_agent(p_agent_ids[next_index + 1]);
+      next_index := (next_index + 1) % agent_count;
+      overflowed := target IS NOT NULL;
+    END IF;
+
+    IF target IS NULL THEN
+      skipped := skipped + 1;
+      CONTINUE;
+    END IF;
+
+    UPDATE leads SET assigned_to = target WHERE id = target_lead_id;
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    -- Runs with the caller's permissions, leads their RLS policies hide are left alone
+    IF updated_count = 0 THEN
+      inaccessible := inaccessible + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      target_lead_id,
+      'assignment',
+      CASE
+        WHEN overflowed THEN format('Lead randomly assigned via bulk action, overflowed to %s because the selected agents are unavailable or at capacity',
+          COALESCE((SELECT full_name FROM user_profiles WHERE id = target), 'Unknown Agent'))
+        ELSE 'Lead randomly assigned via bulk action'
+      END
+    );
+
+    IF overflowed THEN
+      overflow_count := overflow_count + 1;
+    END IF;
+    per_agent := jsonb_set(per_agent, ARRAY[target::text], to_jsonb(COALESCE((per_agent->>target::text)::integer, 0) + 1));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'assigned', (SELECT COALESCE(sum(value::integer), 0) FROM jsonb_each_text(per_agent)),
+    'overflowed', overflow_count,
+    'skipped', skipped,
+    'inaccessible', inaccessible,
+    'per_agent', per_agent
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reassign_unavailable_agent_leads()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  delay_minutes integer;
+  lead_record leads;
+  rule_record lead_assignment_rules;
+  new_agent_id uuid;
+  reassigned integer := 0;
+BEGIN
+  SELECT unavailable_reassign_minutes INTO delay_minutes FROM lead_assignment_settings;
+  IF delay_minutes IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR lead_record IN
+    SELECT l.* FROM leads l
+    WHERE l.assigned_to IS NOT NULL
+      AND l.status = 'New'
+      AND l.assigned_at <= now() - make_interval(mins => delay_minutes)
+      AND NOT agent_is_available(l.assigned_to)
+      AND NOT EXISTS (SELECT 1 FROM lead_comments c WHERE c.lead_id = l.id AND c.created_at >= l.assigned_at)
+    ORDER BY l.assigned_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    rule_record := NULL;
+    IF lead_record.assignment_rule_id IS NOT NULL THEN
+      SELECT * INTO rule_record FROM lead_assignment_rules WHERE id = lead_record.assignment_rule_id AND is_active;
+    END IF;
+    IF rule_record.id IS NULL THEN
+      rule_record := find_assignment_rule(lead_record.source, lead_record.country_code, lead_record.funnel, lead_record.brand, lead_record.desk);
+    END IF;
+    CONTINUE WHEN rule_record.id IS NULL;
+
+    new_agent_id := pick_rule_agent(rule_record.id, p_exclude_agent_id => lead_record.assigned_to);
+    CONTINUE WHEN new_agent_id IS NULL;
+
+    UPDATE leads
+    SET assigned_to = new_agent_id,
+        assignment_rule_id = rule_record.id
+    WHERE id = lead_record.id;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      lead_record.id,
+      'reassignment',
+      format('Reassigned from %s to %s because %s is unavailable and did not touch the lead within %s minutes of assignment',
+        COALESCE((SELECT full_name FROM user_profiles WHERE id = lead_record.assigned_to), 'Unknown Agent'),
+        COALESCE((SELECT full_name FROM user_profiles WHERE id = new_agent_id), 'Unknown Agent'),
+        COALESCE((SELECT full_name FROM user_profiles WHERE id = lead_record.assigned_to), 'the agent'),
+        delay_minutes)
+    );
+
+    reassigned := reassigned + 1;
+  END LOOP;
+
+  RETURN reassigned;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reassign_unavailable_agent_leads() FROM PUBLIC, anon, authenticated;
+
+-- pg_cron is enabled by the webhooks migration
+SELECT cron.schedule('reassign-unavailable-agent-leads', '*/5 * * * *', 'SELECT reassign_unavailable_agent_leads()');
@@ -0,0 +1,174 @@
+/*
+  # Lead SLA: reassign untouched leads
+
+  1. Changes to `lead_assignment_settings`
+    - `sla_minutes` (integer) - Working minutes an agent has to touch a new lead, NULL turns the SLA off
+    - `sla_days` (smallint[]) - ISO days of week that count as working days (1 = Monday ... 7 = Sunday)
+    - `sla_work_start`, `sla_work_end` (time) - Working hours, the SLA clock stops outside them
+    - `sla_timezone` (text) - IANA timezone the working hours are evaluated in
+
+  2. Changes to `leads`
+    - `sla_breached_at` (timestamptz) - Set when a breach could not be reassigned, so the manager
+      is only notified once per agent. A reassignment restarts the clock through `assigned_at`
+
+  3. New Functions
+    - `working_minutes_between(p_from, p_to, p_days, p_work_start, p_work_end, p_timezone)` - Minutes
+      of working time between two points in time
+    - `enforce_lead_sla()` - Finds leads still in status `New` with no comment and no status change
+      since they were assigned, for longer than the SLA. Each one is reassigned to the next agent of
+      its rule's pool, or of the matching rule when it was assigned by hand or a bulk action, gets a
+      `sla_reassignment` activity, and the previous agent's manager is notified. Leads no rule can
+      reassign stay put and only the manager is notified. Runs every minute (pg_cron job
+      `enforce-lead-sla`)
+*/
+
+ALTER TABLE lead_assignment_settings
+  ADD COLUMN IF NOT EXISTS sla_minutes integer CHECK (sla_minutes IS NULL OR sla_minutes > 0),
+  ADD COLUMN IF NOT EXISTS sla_days smallint[] NOT NULL DEFAULT ARRAY[1, 2, 3, 4, 5]::smallint[]
+    CHECK (sla_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[]),
+  ADD COLUMN IF NOT EXISTS sla_work_start time NOT NULL DEFAULT '09:00',
+  ADD COLUMN IF NOT EXISTS sla_work_end time NOT NULL DEFAULT '18:00',
+  ADD COLUMN IF NOT EXISTS sla_timezone text NOT NULL DEFAULT 'UTC';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'lead_assignment_settings_sla_hours_check'
+  ) THEN
+    ALTER TABLE lead_assignment_settings ADD CONSTRAINT lead_assignment_settings_sla_hours_check
+      CHECK (sla_work_start < sla_work_end);
+  END IF;
+END;
+$$;
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS sla_breached_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_leads_new_assigned_at ON leads(assigned_at) WHERE status = 'New' AND assigned_to IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION working_minutes_between(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_days smallint[],
+  p_work_start time,
+  p_work_end time,
+  p_timezone text
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  -- Overlap of [p_from, p_to) with each working day's hours, in the given timezone
+  SELECT COALESCE(sum(EXTRACT(EPOCH FROM LEAST(p_to, hours.day_end) - GREATEST(p_from, hours.day_start)) / 60), 0)
+  FROM generate_series(
+    (p_from AT TIME ZONE p_timezone)::date,
+    (p_to AT TIME ZONE p_timezone)::date,
+    interval '1 day'
+  ) AS day
+  CROSS JOIN LATERAL (
+    SELECT
+      (day::date + p_work_start) AT TIME ZONE p_timezone AS day_start,
+      (day::date + p_work_end) AT TIME ZONE p_timezone AS day_end
+  ) hours
+  WHERE p_from < p_to
+    AND EXTRACT(ISODOW FROM day)::smallint = ANY(p_days)
+    AND LEAST(p_to, hours.day_end) > GREATEST(p_from, hours.day_start);
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_lead_sla()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  settings lead_assignment_settings;
+  lead_record leads;
+  rule_record lead_assignment_rules;
+  previous_agent user_profiles;
+  new_agent_id uuid;
+  breached integer := 0;
+BEGIN
+  SELECT * INTO settings FROM lead_assignment_settings;
+  IF settings.sla_minutes IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  FOR lead_record IN
+    SELECT l.* FROM leads l
+    WHERE l.assigned_to IS NOT NULL
+      AND l.status = 'New'
+      -- Cheap bound first, working time is always shorter than wall clock time
+      AND l.assigned_at <= now() - make_interval(mins => settings.sla_minutes)
+      AND (l.sla_breached_at IS NULL OR l.sla_breached_at < l.assigned_at)
+      AND NOT EXISTS (SELECT 1 FROM lead_comments c WHERE c.lead_id = l.id AND c.created_at >= l.assigned_at)
+      AND NOT EXISTS (
+        SELECT 1 FROM lead_activities a
+        WHERE a.lead_id = l.id AND a.type = 'status_change' AND a.created_at >= l.assigned_at
+      )
+      AND working_minutes_between(l.assigned_at, now(), settings.sla_days, settings.sla_work_start,
+        settings.sla_work_end, settings.sla_timezone) >= settings.sla_minutes
+    ORDER BY l.assigned_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT * INTO previous_agent FROM user_profiles WHERE id = lead_record.assigned_to;
+
+    rule_record := NULL;
+    IF lead_record.assignment_rule_id IS NOT NULL THEN
+      SELECT * INTO rule_record FROM lead_assignment_rules WHERE id = lead_record.assignment_rule_id AND is_active;
+    END IF;
+    IF rule_record.id IS NULL THEN
+      rule_record := find_assignment_rule(lead_record.source, lead_record.country_code, lead_record.funnel, lead_record.brand, lead_record.desk);
+    END IF;
+
+    -- The current agent is left out, so only the agent actually picked moves the rotation
+    new_agent_id := NULL;
+    IF rule_record.id IS NOT NULL THEN
+      new_agent_id := pick_rule_agent(rule_record.id, p_exclude_agent_id => lead_record.assigned_to);
+    END IF;
+
+    IF new_agent_id IS NOT NULL THEN
+      UPDATE leads
+      SET assigned_to = new_agent_id,
+          assignment_rule_id = rule_record.id
+      WHERE id = lead_record.id;
+
+      INSERT INTO lead_activities (lead_id, type, description)
+      VALUES (
+        lead_record.id,
+        'sla_reassignment',
+        format('Reassigned from %s to %s after %s working minutes without a status change or comment',
+          COALESCE(previous_agent.full_name, 'Unknown Agent'),
+          COALESCE((SELECT full_name FROM user_profiles WHERE id = new_agent_id), 'Unknown Agent'),
+          settings.sla_minutes)
+      );
+    ELSE
+      UPDATE leads SET sla_breached_at = now() WHERE id = lead_record.id;
+    END IF;
+
+    IF previous_agent.manager_id IS NOT NULL THEN
+      INSERT INTO lead_notifications (lead_id, user_id, notification_type, message)
+      VALUES (
+        lead_record.id,
+        previous_agent.manager_id,
+        'sla_breach',
+        CASE
+          WHEN new_agent_id IS NOT NULL THEN format('SLA missed: %s %s was not touched by %s within %s working minutes and was reassigned to %s',
+            lead_record.first_name, lead_record.last_name, COALESCE(previous_agent.full_name, 'Unknown Agent'), settings.sla_minutes,
+            COALESCE((SELECT full_name FROM user_profiles WHERE id = new_agent_id), 'Unknown Agent'))
+          ELSE format('SLA missed: %s %s was not touched by %s within %s working minutes and no other agent is available',
+            lead_record.first_name, lead_record.last_name, COALESCE(previous_agent.full_name, 'Unknown Agent'), settings.sla_minutes)
+        END
+      );
+    END IF;
+
+    breached := breached + 1;
+  END LOOP;
+
+  RETURN breached;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_lead_sla() FROM PUBLIC, anon, authenticated;
+
+-- pg_cron is enabled by the webhooks migration
+SELECT cron.schedule('enforce-lead-sla', '* * * * *', 'SELECT enforce_lead_sla()');
@@ -0,0 +1,465 @@
+/*
+  # Lead scoring
+
+  1. New Tables
+    - `lead_scoring_rules`
+      - `field` (text) - What the rule looks at: a lead column (`country_code`, `source`, `funnel`,
+        `brand`, `desk`, `status`, `email`, `phone`, `balance`), `deposit_total`, `deposit_count`,
+        or `answer` to a lead question
+      - `question_id` (uuid) - Question whose answer is checked, only for `answer`
+      - `operator` (text) - `equals`, `in` (comma separated list), `contains`, `gte`, `lte`,
+        `is_set` or `is_empty`. Text comparisons ignore case, `gte` and `lte` compare numbers
+      - `value` (text) - Compared value, unused by `is_set` and `is_empty`
+      - `points` (integer) - Added to the score when the rule matches, may be negative
+      - `is_active` (boolean)
+
+  2. Changes to `leads`
+    - `score` (integer) - Sum of the points of every matching active rule
+
+  3. Changes to `lead_assignment_settings`
+    - `priority_score` (integer) - Leads scoring at least this go to the least loaded available agent
+      of their rule's pool, whatever the rule's distribution. NULL turns it off
+
+  4. New Functions
+    - `lead_field_value(lead, field, question_id)` - The value a rule compares
+    - `scoring_rule_matches(rule, value)` - Whether a rule holds for a value
+    - `lead_score(lead)` - Score of a lead under the current rules
+    - `refresh_lead_score(p_lead_id)` - Recomputes one stored score
+    - `recalculate_lead_scores()` - Admin only. Recomputes every stored score after rules change,
+      returns how many changed
+    - `match_lead_assignment_rule(lead)` - `match_assignment_rule` for a lead, honouring `priority_score`
+
+  5. Triggers
+    - `on_lead_evaluate_score` - BEFORE INSERT or UPDATE of a scored column. Named to run after
+      `on_lead_country_code` and before `on_lead_insert_assignment_rules`
+    - `on_lead_answer_score`, `on_deposit_score` - Refresh the score when answers or deposits change
+
+  6. Changed Functions
+    - `pick_rule_agent(rule_id, least_loaded, exclude_agent_id)` - Picks the least loaded agent when
+      asked to
+    - `assign_lead_by_rules()` - New leads are scored before this trigger runs, so priority leads
+      are routed on insert
+    - `run_assignment_rules` assigns the highest scoring unassigned leads first, also through
+      `match_lead_assignment_rule`
+
+  7. Security
+    - Enable RLS, everyone can read rules, only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS lead_scoring_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  field text NOT NULL CHECK (field IN (
+    'country_code', 'source', 'funnel', 'brand', 'desk', 'status', 'email', 'phone', 'balance',
+    'deposit_total', 'deposit_count', 'answer'
+  )),
+  question_id uuid REFERENCES lead_questions(id) ON DELETE CASCADE,
+  operator text NOT NULL CHECK (operator IN ('equals', 'in', 'contains', 'gte', 'lte', 'is_set', 'is_empty')),
+  value text,
+  points integer NOT NULL CHECK (points BETWEEN -1000 AND 1000),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((field = 'answer') = (question_id IS NOT NULL)),
+  CHECK (operator IN ('is_set', 'is_empty') OR value IS NOT NULL)
+);
+
+ALTER TABLE lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read lead scoring rules"
+  ON lead_scoring_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can manage lead scoring rules"
+  ON lead_scoring_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS score integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_leads_score ON leads(score);
+
+DROP INDEX IF EXISTS idx_leads_unassigned_created_at;
+CREATE INDEX IF NOT EXISTS idx_leads_unassigned_score ON leads(score DESC, created_at) WHERE assigned_to IS NULL;
+
+CREATE OR REPLACE FUNCTION lead_field_value(l leads, p_field text, p_question_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT CASE p_field
+    WHEN 'country_code' THEN l.country_code
+    WHEN 'source' THEN l.source
+    WHEN 'funnel' THEN l.funnel
+    WHEN 'brand' THEN l.brand
+    WHEN 'desk' THEN l.desk
+    WHEN 'status' THEN l.status
+    WHEN 'email' THEN l.email
+    WHEN 'phone' THEN l.phone
+    WHEN 'balance' THEN l.balance::text
+    WHEN 'deposit_total' THEN (SELECT COALESCE(sum(d.amount), 0)::text FROM deposits d WHERE d.lead_id = l.id)
+    WHEN 'deposit_count' THEN (SELECT count(*)::text FROM deposits d WHERE d.lead_id = l.id)
+    WHEN 'answer' THEN (SELECT a.answer FROM lead_answers a WHERE a.lead_id = l.id AND a.question_id = p_question_id)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION scoring_rule_matches(r lead_scoring_rules, p_value text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- A missing value only matches is_empty, numbers that don't parse never match gte or lte
+  SELECT COALESCE(CASE r.operator
+    WHEN 'is_set' THEN NULLIF(trim(p_value), '') IS NOT NULL
+    WHEN 'is_empty' THEN NULLIF(trim(p_value), '') IS NULL
+    WHEN 'equals' THEN lower(trim(p_value)) = lower(trim(r.value))
+    WHEN 'in' THEN lower(trim(p_value)) IN (SELECT lower(trim(item)) FROM unnest(string_to_array(r.value, ',')) AS item)
+    WHEN 'contains' THEN p_value ILIKE '%' || r.value || '%'
+    WHEN 'gte' THEN CASE WHEN trim(p_value) ~ '^-?\d+(\.\d+)?$' AND trim(r.value) ~ '^-?\d+(\.\d+)?$'
+      THEN trim(p_value)::numeric >= trim(r.value)::numeric END
+    WHEN 'lte' THEN CASE WHEN trim(p_value) ~ '^-?\d+(\.\d+)?$' AND trim(r.value) ~ '^-?\d+(\.\d+)?$'
+      THEN trim(p_value)::numeric <= trim(r.value)::numeric END
+  END, false);
+$$;
+
+CREATE OR REPLACE FUNCTION lead_score(l leads)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(sum(r.points), 0)::integer
+  FROM lead_scoring_rules r
+  WHERE r.is_active
+    AND scoring_rule_matches(r, lead_field_value(l, r.field, r.question_id));
+$$;
+
+CREATE OR REPLACE FUNCTION set_lead_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  NEW.score := lead_score(NEW);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_evaluate_score ON leads;
+CREATE TRIGGER on_lead_evaluate_score
+  BEFORE INSERT OR UPDATE OF country, country_code, source, funnel, brand, desk, status, email, phone, balance ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lead_score();
+
+CREATE OR REPLACE FUNCTION refresh_lead_score(p_lead_id bigint)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE leads l
+  SET score = lead_score(l)
+  WHERE l.id = p_lead_id
+    AND l.score IS DISTINCT FROM lead_score(l);
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_related_lead_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_lead_score(OLD.lead_id);
+  ELSE
+    PERFORM refresh_lead_score(NEW.lead_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_answer_score ON lead_answers;
+CREATE TRIGGER on_lead_answer_score
+  AFTER INSERT OR UPDATE OR DELETE ON lead_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_related_lead_score();
+
+DROP TRIGGER IF EXISTS on_deposit_score ON deposits;
+CREATE TRIGGER on_deposit_score
+  AFTER INSERT OR UPDATE OR DELETE ON deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_related_lead_score();
+
+CREATE OR REPLACE FUNCTION recalculate_lead_scores()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  changed integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can recalculate lead scores';
+  END IF;
+
+  UPDATE leads l
+  SET score = lead_score(l)
+  WHERE l.score IS DISTINCT FROM lead_score(l);
+
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  RETURN changed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_lead_score(bigint) FROM PUBLIC, anon, authenticated;
+
+-- Sortable and filterable in get_visible_leads
+CREATE OR REPLACE FUNCTION lead_column_expression(p_column text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_column
+    WHEN 'id' THEN 'l.id'
+    WHEN 'source_id' THEN 'l.source_id'
+    WHEN 'full_name' THEN $e$(l.first_name || ' ' || l.last_name)$e$
+    WHEN 'email' THEN 'l.email'
+    WHEN 'phone' THEN 'l.phone'
+    WHEN 'country' THEN 'l.country'
+    WHEN 'source' THEN 'l.source'
+    WHEN 'funnel' THEN 'l.funnel'
+    WHEN 'desk' THEN 'l.desk'
+    WHEN 'brand' THEN 'l.brand'
+    WHEN 'status' THEN 'l.status'
+    WHEN 'balance' THEN 'l.balance'
+    WHEN 'score' THEN 'l.score'
+    WHEN 'assigned_to_name' THEN $e$COALESCE(u.full_name, 'Unassigned')$e$
+    WHEN 'created_at' THEN 'l.created_at'
+    WHEN 'converted_at' THEN 'l.converted_at'
+    ELSE NULL
+  END;
+$$;
+
+ALTER TABLE lead_assignment_settings ADD COLUMN IF NOT EXISTS priority_score integer;
+
+-- Takes a least loaded flag now, callers passing only the rule keep the rule's distribution
+DROP FUNCTION IF EXISTS pick_rule_agent(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION pick_rule_agent(
+  p_rule_id uuid,
+  p_least_loaded boolean DEFAULT false,
+  p_exclude_agent_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_distribution text;
+  picked_id uuid;
+  picked_agent uuid;
+BEGIN
+  SELECT distribution INTO rule_distribution
+  FROM lead_assignment_rules
+  WHERE id = p_rule_id
+  FOR UPDATE;
+
+  IF rule_distribution = 'least_loaded' OR p_least_loaded THEN
+    SELECT ra.id, ra.agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents ra
+    LEFT JOIN LATERAL (
+      SELECT count(*) AS open_leads
+      FROM leads l
+      WHERE l.assigned_to = ra.agent_id
+        AND COALESCE(l.is_converted, false) = false
+    ) load ON true
+    WHERE ra.rule_id = p_rule_id
+      AND agent_is_available(ra.agent_id)
+      AND agent_has_capacity(ra.agent_id)
+      AND ra.agent_id IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY load.open_leads, ra.last_assigned_at NULLS FIRST, ra.created_at
+    LIMIT 1;
+  ELSIF rule_distribution = 'weighted' THEN
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND agent_is_available(agent_id)
+      AND agent_has_capacity(agent_id)
+      AND agent_id IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY (assigned_count + 1)::numeric / weight, last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  ELSE
+    SELECT id, agent_id INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND agent_is_available(agent_id)
+      AND agent_has_capacity(agent_id)
+      AND agent_id IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  -- Nobody in the pool can take the lead, the next agent in rotation hands it to its overflow
+  IF picked_id IS NULL THEN
+    SELECT id, resolve_capacity_agent(agent_id) INTO picked_id, picked_agent
+    FROM lead_assignment_rule_agents
+    WHERE rule_id = p_rule_id
+      AND resolve_capacity_agent(agent_id) IS NOT NULL
+      AND resolve_capacity_agent(agent_id) IS DISTINCT FROM p_exclude_agent_id
+    ORDER BY last_assigned_at NULLS FIRST, created_at
+    LIMIT 1;
+  END IF;
+
+  IF picked_id IS NOT NULL THEN
+    UPDATE lead_assignment_rule_agents
+    SET assigned_count = assigned_count + 1,
+        last_assigned_at = clock_timestamp()
+    WHERE id = picked_id;
+  END IF;
+
+  RETURN picked_agent;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_lead_assignment_rule(l leads)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_record lead_assignment_rules;
+  is_priority boolean;
+  picked_agent_id uuid;
+BEGIN
+  rule_record := find_assignment_rule(l.source, l.country_code, l.funnel, l.brand, l.desk);
+
+  IF rule_record.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  is_priority := COALESCE(l.score >= (SELECT priority_score FROM lead_assignment_settings), false);
+  picked_agent_id := pick_rule_agent(rule_record.id, is_priority);
+
+  RETURN jsonb_build_object(
+    'rule_id', rule_record.id,
+    'priority', is_priority,
+    'agent_id', picked_agent_id,
+    'agent_name', (SELECT full_name FROM user_profiles WHERE id = picked_agent_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION pick_rule_agent(uuid, boolean, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION match_lead_assignment_rule(leads) FROM PUBLIC, anon, authenticated;
+
+-- Runs after on_lead_evaluate_score, so NEW.score is already set
+CREATE OR REPLACE FUNCTION assign_lead_by_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  rule_match jsonb;
+BEGIN
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  rule_match := match_lead_assignment_rule(NEW);
+
+  IF rule_match->>'agent_id' IS NOT NULL THEN
+    NEW.assigned_to := (rule_match->>'agent_id')::uuid;
+    NEW.assignment_rule_id := (rule_match->>'rule_id')::uuid;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION run_assignment_rules(p_dry_run boolean DEFAULT true, p_limit integer DEFAULT 500)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lead_record leads;
+  rule_match jsonb;
+  scanned integer := 0;
+  assignments jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can run assignment rules';
+  END IF;
+
+  BEGIN
+    -- Best leads first, so when pools run out of capacity they go to the leads worth calling
+    FOR lead_record IN
+      SELECT * FROM leads
+      WHERE assigned_to IS NULL
+      ORDER BY score DESC, created_at
+      LIMIT LEAST(GREATEST(p_limit, 1), 5000)
+      FOR UPDATE SKIP LOCKED
+    LOOP
+      scanned := scanned + 1;
+      rule_match := match_lead_assignment_rule(lead_record);
+      CONTINUE WHEN rule_match->>'agent_id' IS NULL;
+
+      UPDATE leads
+      SET assigned_to = (rule_match->>'agent_id')::uuid,
+          assignment_rule_id = (rule_match->>'rule_id')::uuid
+      WHERE id = lead_record.id;
+
+      assignments := assignments || jsonb_build_object(
+        'lead_id', lead_record.id,
+        'lead_name', concat_ws(' ', lead_record.first_name, lead_record.last_name),
+        'email', lead_record.email,
+        'source', lead_record.source,
+        'country', lead_record.country,
+        'score', lead_record.score,
+        'priority', (rule_match->>'priority')::boolean,
+        'rule_id', rule_match->>'rule_id',
+        'agent_id', rule_match->>'agent_id',
+        'agent_name', rule_match->>'agent_name'
+      );
+    END LOOP;
+
+    -- Undo the assignments and pool rotation, the collected results survive the rollback
+    IF p_dry_run THEN
+      RAISE EXCEPTION USING ERRCODE = 'DRYRN', MESSAGE = 'dry run';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'DRYRN' THEN
+    NULL;
+  END;
+
+  RETURN jsonb_build_object(
+    'dry_run', p_dry_run,
+    'scanned', scanned,
+    'assigned', jsonb_array_length(assignments),
+    'unmatched', scanned - jsonb_array_length(assignments),
+    'assignments', assignments
+  );
+END;
+$$;
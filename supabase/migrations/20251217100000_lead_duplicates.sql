@@ -0,0 +1,410 @@
+/*
+  # Fuzzy duplicate detection and lead merge
+
+  1. Changes to `leads`
+    - `email_normalized` (text) - Trimmed, lower case email
+    - `phone_normalized` (text) - Digits only with the international dialing code, so
+      "+39 333 1234567", "0039 3331234567" and "333 1234567" for an Italian lead all match.
+      National numbers get the dialing code of `country_code`, dropping the trunk 0 except
+      where it is part of the number (Italy, San Marino, Vatican). NULL below 6 digits
+    Both are kept up to date by the `on_lead_normalize_contact` trigger and backfilled here.
+
+  2. Changes to `countries`
+    - `phone_lengths` (smallint[]) - Possible lengths of national numbers without the trunk
+      prefix, from the libphonenumber metadata. NULL where the dialing prefix is not the
+      plain calling code (Åland, Guernsey, Isle of Man, Jersey, Svalbard, Vatican) or no data exists
+    A number written without + or 00 already carries the dialing code only when it starts with
+    it, has a national length once the code is removed and does not have one as it is. Otherwise
+    it is national and gets the code, whatever digits it starts with:
+      - IT "393 1234567" -> 393931234567, the same as "+39 393 1234567"
+      - IT "39 333 1234567" -> 39393331234567, 12 digits are also a valid Italian number
+      - FR "33 6 12 34 56 78" -> 33612345678, the same as "06 12 34 56 78"
+      - US "1 212 555 0100" -> 12125550100, the same as "212 555 0100"
+
+  3. New Functions
+    - `normalize_email(email)`, `normalize_phone(phone, country_code)` - Mirrored by
+      `src/utils/duplicates.ts` for the import preview
+    - `find_contact_duplicate(email, phone, country)` - First lead sharing the normalized email
+      or phone, with `duplicate_on` = `email` or `phone`. Used by the API and the batch insert
+    - `find_lead_duplicates(lead_id)` - Possible duplicates of a lead: same normalized email,
+      same normalized phone or a similar name (trigram similarity >= 0.6), with the reasons.
+      Runs with the caller's rights, so agents only see leads they can already read
+    - `merge_leads(survivor_id, duplicate_id)` - Admins only. Moves activities, comments,
+      deposits, notifications and webhook deliveries to the survivor, plus the answers to
+      questions the survivor has not answered. Empty survivor fields are filled from the
+      duplicate, balances and deposit totals are added up, a `merge` activity is logged and
+      the duplicate is deleted
+
+  4. Changed Functions
+    - `create_leads_batch` uses `find_contact_duplicate`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION normalize_email(p_email text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(lower(trim(p_email)), '');
+$$;
+
+ALTER TABLE countries
+  ADD COLUMN IF NOT EXISTS phone_lengths smallint[];
+
+UPDATE countries c
+SET phone_lengths = v.phone_lengths::smallint[]
+FROM (VALUES
+  ('AD', '{6,8,9}'), ('AE', '{5,6,7,8,9,10,11,12}'), ('AF', '{9}'), ('AG', '{10}'), ('AI', '{10}'),
+  ('AL', '{6,7,8,9}'), ('AM', '{8}'), ('AO', '{9}'), ('AR', '{10,11}'), ('AS', '{10}'),
+  ('AT', '{4,5,6,7,8,9,10,11,12,13}'), ('AU', '{5,6,7,8,9,10,12}'), ('AW', '{7}'), ('AZ', '{9}'),
+  ('BA', '{8,9}'), ('BB', '{10}'), ('BD', '{6,7,8,9,10}'), ('BE', '{8,9}'), ('BF', '{8}'),
+  ('BG', '{6,7,8,9,12}'), ('BH', '{8}'), ('BI', '{8}'), ('BJ', '{8,10}'), ('BL', '{9}'),
+  ('BM', '{10}'), ('BN', '{7}'), ('BO', '{8,9}'), ('BQ', '{7}'), ('BR', '{8,9,10,11}'),
+  ('BS', '{10}'), ('BT', '{7,8}'), ('BW', '{7,8,10}'), ('BY', '{6,7,8,9,10,11}'), ('BZ', '{7,11}'),
+  ('CA', '{7,10}'), ('CC', '{6,7,8,9,10,12}'), ('CD', '{7,8,9,10}'), ('CF', '{8}'), ('CG', '{9}'),
+  ('CH', '{9,12}'), ('CI', '{10}'), ('CK', '{5}'), ('CL', '{9,10,11}'), ('CM', '{8,9}'),
+  ('CN', '{7,8,9,10,11,12}'), ('CO', '{8,10,11}'), ('CR', '{8,10}'), ('CU', '{6,7,8,10}'),
+  ('CV', '{7}'), ('CW', '{7,8}'), ('CX', '{6,7,8,9,10,12}'), ('CY', '{8}'), ('CZ', '{9,10,11,12}'),
+  ('DE', '{4,5,6,7,8,9,10,11,12,13,14,15}'), ('DJ', '{8}'), ('DK', '{8}'), ('DM', '{10}'),
+  ('DO', '{10}'), ('DZ', '{8,9}'), ('EC', '{8,9,10,11}'), ('EE', '{7,8,10}'), ('EG', '{8,9,10}'),
+  ('EH', '{9}'), ('ER', '{7}'), ('ES', '{9}'), ('ET', '{9}'), ('FI', '{5,6,7,8,9,10,11,12}'),
+  ('FJ', '{7,11}'), ('FK', '{5}'), ('FM', '{7}'), ('FO', '{6}'), ('FR', '{9}'), ('GA', '{7,8}'),
+  ('GB', '{7,9,10}'), ('GD', '{10}'), ('GE', '{9}'), ('GF', '{9}'), ('GH', '{8,9}'), ('GI', '{8}'),
+  ('GL', '{6}'), ('GM', '{7,9}'), ('GN', '{8,9}'), ('GP', '{9}'), ('GQ', '{9}'),
+  ('GR', '{10,11,12}'), ('GT', '{8,11}'), ('GU', '{10}'), ('GW', '{7,9}'), ('GY', '{7}'),
+  ('HK', '{5,6,7,8,9,11}'), ('HN', '{8,11}'), ('HR', '{7,8,9}'), ('HT', '{8}'), ('HU', '{8,9}'),
+  ('ID', '{7,8,9,10,11,12,13,14,15,16,17}'), ('IE', '{7,8,9,10}'), ('IL', '{7,8,9,10,11,12}'),
+  ('IN', '{8,9,10,11,12,13}'), ('IO', '{7}'), ('IQ', '{8,9,10}'), ('IR', '{4,5,6,7,10}'),
+  ('IS', '{7,9}'), ('IT', '{6,7,8,9,10,11,12}'), ('JM', '{10}'), ('JO', '{8,9}'),
+  ('JP', '{8,9,10,11,12,13,14,15,16,17}'), ('KE', '{7,8,9,10}'), ('KG', '{9,10}'),
+  ('KH', '{8,9,10}'), ('KI', '{5,8}'), ('KM', '{7}'), ('KN', '{10}'), ('KP', '{8,10}'),
+  ('KR', '{5,6,8,9,10,11,12,13,14}'), ('KW', '{7,8}'), ('KY', '{10}'), ('KZ', '{10,14}'),
+  ('LA', '{8,9,10}'), ('LB', '{7,8}'), ('LC', '{10}'), ('LI', '{7,9}'), ('LK', '{9}'),
+  ('LR', '{7,8,9}'), ('LS', '{8}'), ('LT', '{8}'), ('LU', '{4,5,6,7,8,9,10,11}'), ('LV', '{8}'),
+  ('LY', '{9}'), ('MA', '{9}'), ('MC', '{8,9}'), ('MD', '{8}'), ('ME', '{8,9}'), ('MF', '{9}'),
+  ('MG', '{9}'), ('MH', '{7}'), ('MK', '{8}'), ('ML', '{8}'), ('MM', '{6,7,8,9,10}'),
+  ('MN', '{8,9,10}'), ('MO', '{7,8}'), ('MP', '{10}'), ('MQ', '{9}'), ('MR', '{8}'), ('MS', '{10}'),
+  ('MT', '{8}'), ('MU', '{7,8,10}'), ('MV', '{7,10}'), ('MW', '{7,9}'), ('MX', '{10}'),
+  ('MY', '{8,9,10}'), ('MZ', '{8,9}'), ('NA', '{8,9}'), ('NC', '{6}'), ('NE', '{8}'), ('NF', '{6}'),
+  ('NG', '{10,11,12,13,14}'), ('NI', '{8}'), ('NL', '{5,6,7,8,9,10,11}'), ('NO', '{5,8}'),
+  ('NP', '{8,10,11}'), ('NR', '{7}'), ('NU', '{4,7}'), ('NZ', '{5,6,7,8,9,10}'), ('OM', '{7,8,9}'),
+  ('PA', '{7,8,10,11}'), ('PE', '{8,9}'), ('PF', '{6,8,9}'), ('PG', '{7,8}'),
+  ('PH', '{6,8,9,10,11,12,13}'), ('PK', '{8,9,10,11,12}'), ('PL', '{6,7,8,9,10}'), ('PM', '{6,9}'),
+  ('PR', '{10}'), ('PS', '{8,9,10}'), ('PT', '{9}'), ('PW', '{7}'), ('PY', '{6,7,8,9,10,11}'),
+  ('QA', '{7,8,9,11}'), ('RE', '{9}'), ('RO', '{6,9}'), ('RS', '{6,7,8,9,10,11,12}'),
+  ('RU', '{10,14}'), ('RW', '{8,9}'), ('SA', '{9,10}'), ('SB', '{5,7}'), ('SC', '{7}'),
+  ('SD', '{9}'), ('SE', '{6,7,8,9,10,12}'), ('SG', '{8,10,11}'), ('SH', '{4,5}'),
+  ('SI', '{5,6,7,8}'), ('SK', '{6,7,9}'), ('SL', '{8}'), ('SM', '{8,10}'), ('SN', '{9}'),
+  ('SO', '{6,7,8,9}'), ('SR', '{6,7}'), ('SS', '{9}'), ('ST', '{7}'), ('SV', '{7,8,11}'),
+  ('SX', '{10}'), ('SY', '{8,9}'), ('SZ', '{8,9}'), ('TC', '{10}'), ('TD', '{8}'), ('TG', '{8}'),
+  ('TH', '{8,9,10,13}'), ('TJ', '{9}'), ('TK', '{4,5,6,7}'), ('TL', '{7,8}'), ('TM', '{8}'),
+  ('TN', '{8}'), ('TO', '{5,7}'), ('TR', '{7,10,12,13}'), ('TT', '{10}'), ('TV', '{5,6,7}'),
+  ('TW', '{7,8,9,10,11}'), ('TZ', '{9}'), ('UA', '{9,10}'), ('UG', '{9}'), ('US', '{10}'),
+  ('UY', '{4,5,6,7,8,9,10,11,12,13}'), ('UZ', '{9}'), ('VC', '{10}'), ('VE', '{10}'),
+  ('VG', '{10}'), ('VI', '{10}'), ('VN', '{7,8,9,10}'), ('VU', '{5,7}'), ('WF', '{6,9}'),
+  ('WS', '{5,6,7,10}'), ('XK', '{8,9,10,11,12}'), ('YE', '{7,8,9}'), ('YT', '{9}'),
+  ('ZA', '{5,6,7,8,9,10}'), ('ZM', '{9}'), ('ZW', '{7,9,10}')
+) AS v(code, phone_lengths)
+WHERE c.code = v.code;
+
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text, p_country_code text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  digits text;
+  dialing_code text;
+  national_lengths smallint[];
+BEGIN
+  digits := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+
+  IF trim(p_phone) LIKE '+%' THEN
+    NULL;
+  ELSIF digits LIKE '00%' THEN
+    digits := substr(digits, 3);
+  ELSE
+    -- North American prefixes include the area code (+1268), the dialing code is just 1
+    SELECT CASE WHEN phone_prefix LIKE '+1%' THEN '1' ELSE substr(phone_prefix, 2) END, phone_lengths
+    INTO dialing_code, national_lengths
+    FROM countries
+    WHERE code = p_country_code;
+
+    IF dialing_code IS NOT NULL THEN
+      IF digits LIKE '0%' AND p_country_code NOT IN ('IT', 'SM', 'VA') THEN
+        digits := dialing_code || substr(digits, 2);
+      -- Starting with the dialing code is not enough, an Italian mobile can start with 39
+      ELSIF NOT COALESCE(
+        digits LIKE dialing_code || '%'
+          AND length(digits) - length(dialing_code) = ANY (national_lengths)
+          AND NOT length(digits) = ANY (national_lengths),
+        false
+      ) THEN
+        digits := dialing_code || digits;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN CASE WHEN length(digits) >= 6 THEN digits END;
+END;
+$$;
+
+ALTER TABLE leads
+  ADD COLUMN IF NOT EXISTS email_normalized text,
+  ADD COLUMN IF NOT EXISTS phone_normalized text;
+
+CREATE INDEX IF NOT EXISTS idx_leads_email_normalized ON leads(email_normalized);
+CREATE INDEX IF NOT EXISTS idx_leads_phone_normalized ON leads(phone_normalized);
+CREATE INDEX IF NOT EXISTS idx_leads_full_name_trgm ON leads USING gin (lower(first_name || ' ' || last_name) gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION set_lead_contact_normalized()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.email_normalized := normalize_email(NEW.email);
+  NEW.phone_normalized := normalize_phone(NEW.phone, NEW.country_code);
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after on_lead_country_code, the phone needs the normalized country
+DROP TRIGGER IF EXISTS on_lead_normalize_contact ON leads;
+CREATE TRIGGER on_lead_normalize_contact
+  BEFORE INSERT OR UPDATE OF email, phone, country ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION set_lead_contact_normalized();
+
+UPDATE leads
+SET email_normalized = normalize_email(email),
+    phone_normalized = normalize_phone(phone, country_code);
+
+CREATE OR REPLACE FUNCTION find_contact_duplicate(p_email text, p_phone text, p_country text)
+RETURNS TABLE (id bigint, duplicate_on text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.id, CASE WHEN l.email_normalized = normalize_email(p_email) THEN 'email' ELSE 'phone' END
+  FROM leads l
+  WHERE l.email_normalized = normalize_email(p_email)
+    OR l.phone_normalized = normalize_phone(p_phone, normalize_country_code(p_country))
+  ORDER BY (l.email_normalized = normalize_email(p_email)) DESC, l.id
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION find_lead_duplicates(p_lead_id bigint)
+RETURNS TABLE (
+  id bigint,
+  first_name text,
+  last_name text,
+  email text,
+  phone text,
+  country text,
+  status text,
+  assigned_to uuid,
+  created_at timestamptz,
+  reasons text[],
+  name_similarity real
+)
+LANGUAGE sql
+STABLE
+SET pg_trgm.similarity_threshold = 0.6
+AS $$
+  SELECT
+    l.id, l.first_name, l.last_name, l.email, l.phone, l.country, l.status, l.assigned_to, l.created_at,
+    array_remove(ARRAY[
+      CASE WHEN l.email_normalized = target.email_normalized THEN 'email' END,
+      CASE WHEN l.phone_normalized = target.phone_normalized THEN 'phone' END,
+      CASE WHEN lower(l.first_name || ' ' || l.last_name) % target.full_name THEN 'name' END
+    ], NULL),
+    similarity(lower(l.first_name || ' ' || l.last_name), target.full_name)
+  FROM (
+    SELECT t.id, t.email_normalized, t.phone_normalized, lower(t.first_name || ' ' || t.last_name) AS full_name
+    FROM leads t
+    WHERE t.id = p_lead_id
+  ) target
+  JOIN leads l ON l.id <> target.id
+    AND (
+      l.email_normalized = target.email_normalized
+      OR l.phone_normalized = target.phone_normalized
+      OR lower(l.first_name || ' ' || l.last_name) % target.full_name
+    )
+  ORDER BY
+    (l.email_normalized = target.email_normalized) DESC NULLS LAST,
+    (l.phone_normalized = target.phone_normalized) DESC NULLS LAST,
+    similarity(lower(l.first_name || ' ' || l.last_name), target.full_name) DESC,
+    l.created_at
+  LIMIT 20;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id bigint, p_duplicate_id bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor leads;
+  duplicate leads;
+  moved_activities integer;
+  moved_comments integer;
+  moved_answers integer;
+  moved_deposits integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead % or % not found', p_survivor_id, p_duplicate_id;
+  END IF;
+
+  UPDATE lead_activities SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE lead_comments SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_comments = ROW_COUNT;
+
+  -- The survivor's own answer wins, the duplicate's answers to the same questions go with it
+  UPDATE lead_answers a SET lead_id = survivor.id
+  WHERE a.lead_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM lead_answers s WHERE s.lead_id = survivor.id AND s.question_id = a.question_id
+    );
+  GET DIAGNOSTICS moved_answers = ROW_COUNT;
+
+  UPDATE deposits SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_deposits = ROW_COUNT;
+
+  UPDATE lead_notifications SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  UPDATE webhook_deliveries SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+
+  UPDATE leads
+  SET phone = COALESCE(NULLIF(survivor.phone, ''), duplicate.phone),
+      country = COALESCE(NULLIF(survivor.country, ''), duplicate.country),
+      brand = COALESCE(NULLIF(survivor.brand, ''), duplicate.brand),
+      source = COALESCE(NULLIF(survivor.source, ''), duplicate.source),
+      funnel = COALESCE(NULLIF(survivor.funnel, ''), duplicate.funnel),
+      desk = COALESCE(NULLIF(survivor.desk, ''), duplicate.desk),
+      assigned_to = COALESCE(survivor.assigned_to, duplicate.assigned_to),
+      balance = COALESCE(survivor.balance, 0) + COALESCE(duplicate.balance, 0),
+      total_deposits = COALESCE(survivor.total_deposits, 0) + COALESCE(duplicate.total_deposits, 0),
+      has_deposited = survivor.has_deposited OR duplicate.has_deposited,
+      is_converted = COALESCE(survivor.is_converted, false) OR COALESCE(duplicate.is_converted, false),
+      converted_at = LEAST(survivor.converted_at, duplicate.converted_at),
+      ftd_date = LEAST(survivor.ftd_date, duplicate.ftd_date)
+  WHERE id = survivor.id;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    survivor.id,
+    'merge',
+    format('Merged duplicate lead #%s (%s %s, %s) into this lead', duplicate.id,
+      duplicate.first_name, duplicate.last_name, duplicate.email)
+  );
+
+  DELETE FROM leads WHERE id = duplicate.id;
+
+  RETURN jsonb_build_object(
+    'survivor_id', survivor.id,
+    'activities', moved_activities,
+    'comments', moved_comments,
+    'answers', moved_answers,
+    'deposits', moved_deposits
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_leads_batch(p_api_key_id uuid, p_leads jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  key_record api_keys;
+  item jsonb;
+  item_phone text;
+  converted timestamptz;
+  existing_on text;
+  existing_id bigint;
+  new_lead leads;
+  results jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO key_record FROM api_keys WHERE id = p_api_key_id;
+  IF key_record.id IS NULL THEN
+    RAISE EXCEPTION 'API key % not found', p_api_key_id;
+  END IF;
+
+  FOR item IN SELECT value FROM jsonb_array_elements(p_leads)
+  LOOP
+    item_phone := NULLIF(item->>'phone', '');
+    converted := (item->>'converted_at')::timestamptz;
+
+    -- Same duplicate rule as single inserts: any lead sharing the normalized email or phone
+    existing_id := NULL;
+    SELECT d.id, d.duplicate_on INTO existing_id, existing_on
+    FROM find_contact_duplicate(item->>'email', item_phone, NULLIF(item->>'country', '')) d;
+
+    IF existing_id IS NOT NULL THEN
+      results := results || jsonb_build_object(
+        'index', (item->>'index')::integer,
+        'status', 'duplicate_' || existing_on
+      );
+      CONTINUE;
+    END IF;
+
+    -- assigned_to is filled by the on_lead_insert_assignment_rules trigger
+    INSERT INTO leads (
+      first_name, last_name, email, phone, country, brand, source, funnel, desk,
+      status, source_id, api_key_id, converted_at
+    )
+    VALUES (
+      item->>'first_name',
+      item->>'last_name',
+      item->>'email',
+      item_phone,
+      NULLIF(item->>'country', ''),
+      NULLIF(item->>'brand', ''),
+      key_record.source_prefix,
+      NULLIF(item->>'funnel', ''),
+      NULLIF(item->>'desk', ''),
+      'New',
+      COALESCE((item->>'source_id')::bigint, nextval('lead_source_id_seq')),
+      key_record.id,
+      converted
+    )
+    RETURNING * INTO new_lead;
+
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      new_lead.id,
+      CASE WHEN converted IS NOT NULL THEN 'conversion' ELSE 'creation' END,
+      CASE
+        WHEN converted IS NOT NULL THEN format('Lead created with FTD at %s via API batch (%s)', to_char(converted AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), key_record.source_prefix)
+        ELSE format('Lead created via API batch (%s)', key_record.source_prefix)
+      END
+    );
+
+    results := results || jsonb_build_object(
+      'index', (item->>'index')::integer,
+      'status', 'created',
+      'id', new_lead.id,
+      'source_id', new_lead.source_id
+    );
+  END LOOP;
+
+  UPDATE api_keys SET last_used = now() WHERE id = key_record.id;
+
+  RETURN results;
+END;
+$$;
@@ -0,0 +1,321 @@
+/*
+  # Lead tasks and callbacks
+
+  1. New Tables
+    - `lead_tasks`
+      - `lead_id` (bigint) - Lead the task is about
+      - `assigned_to` (uuid) - Who has to do it, defaults to the creator
+      - `type` (text) - `callback`, `follow_up`, `email` or `meeting`
+      - `title` (text), `notes` (text)
+      - `due_at` (timestamptz) - Stored in UTC, shown in the lead's timezone
+      - `remind_minutes_before` (integer) - Lead time of the reminder, NULL for none
+      - `reminder_sent_at` (timestamptz) - Set once the reminder notification went out
+      - `completed_at` (timestamptz), `completed_by` (uuid) - NULL while open
+      - `created_by` (uuid), `created_at` (timestamptz)
+
+  2. Changes to `leads`
+    - `next_task_at` (timestamptz) - Due time of the earliest open task, kept up to date by
+      `on_lead_task_change` so lead lists can sort by it and flag overdue leads
+
+  3. New Functions
+    - `refresh_lead_next_task(lead_id)` - Recomputes `next_task_at`
+    - `log_lead_task_activity()` - Logs `task_created` and `task_completed` activities
+    - `send_task_reminders()` - Sends a `task_reminder` notification to the assignee of every open
+      task whose reminder time has passed. Runs every minute (pg_cron job
+      `send-task-reminders`)
+
+  4. Changed Functions
+    - `merge_leads` also moves the duplicate's tasks
+    - `lead_column_expression` knows `next_task_at`
+
+  5. Security
+    - Enable RLS, users can see and manage the tasks of the leads they can see
+*/
+
+CREATE TABLE IF NOT EXISTS lead_tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id bigint NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  assigned_to uuid REFERENCES user_profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  type text NOT NULL DEFAULT 'callback' CHECK (type IN ('callback', 'follow_up', 'email', 'meeting')),
+  title text NOT NULL,
+  notes text,
+  due_at timestamptz NOT NULL,
+  remind_minutes_before integer DEFAULT 15 CHECK (remind_minutes_before IS NULL OR remind_minutes_before >= 0),
+  reminder_sent_at timestamptz,
+  completed_at timestamptz,
+  completed_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_lead_id ON lead_tasks(lead_id);
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_open_assigned_due ON lead_tasks(assigned_to, due_at) WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_lead_tasks_pending_reminder ON lead_tasks(due_at)
+  WHERE completed_at IS NULL AND reminder_sent_at IS NULL AND remind_minutes_before IS NOT NULL;
+
+ALTER TABLE lead_tasks ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the caller's leads policies, so task access follows lead access
+CREATE POLICY "Users can manage tasks of leads they can see"
+  ON lead_tasks
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_tasks.lead_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_tasks.lead_id));
+
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS next_task_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_leads_next_task_at ON leads(next_task_at) WHERE next_task_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION refresh_lead_next_task(p_lead_id bigint)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE leads l
+  SET next_task_at = (
+    SELECT min(t.due_at) FROM lead_tasks t WHERE t.lead_id = l.id AND t.completed_at IS NULL
+  )
+  WHERE l.id = p_lead_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_lead_next_task(bigint) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_task_lead()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM refresh_lead_next_task(OLD.lead_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.lead_id <> OLD.lead_id) THEN
+    PERFORM refresh_lead_next_task(NEW.lead_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_task_change ON lead_tasks;
+CREATE TRIGGER on_lead_task_change
+  AFTER INSERT OR UPDATE OF lead_id, due_at, completed_at OR DELETE ON lead_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_task_lead();
+
+CREATE OR REPLACE FUNCTION log_lead_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lead_timezone text;
+BEGIN
+  SELECT COALESCE(c.timezone, 'UTC') INTO lead_timezone
+  FROM leads l
+  LEFT JOIN countries c ON c.code = l.country_code
+  WHERE l.id = NEW.lead_id;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      NEW.lead_id,
+      'task_created',
+      format('%s scheduled for %s (%s) for %s: %s',
+        initcap(replace(NEW.type, '_', ' ')),
+        to_char(NEW.due_at AT TIME ZONE lead_timezone, 'Dy DD Mon YYYY HH24:MI'),
+        lead_timezone,
+        COALESCE((SELECT full_name FROM user_profiles WHERE id = NEW.assigned_to), 'Unassigned'),
+        NEW.title)
+    );
+  ELSIF OLD.completed_at IS NULL AND NEW.completed_at IS NOT NULL THEN
+    INSERT INTO lead_activities (lead_id, type, description)
+    VALUES (
+      NEW.lead_id,
+      'task_completed',
+      format('%s completed by %s: %s',
+        initcap(replace(NEW.type, '_', ' ')),
+        COALESCE((SELECT full_name FROM user_profiles WHERE id = NEW.completed_by), 'Unknown User'),
+        NEW.title)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_task_activity ON lead_tasks;
+CREATE TRIGGER on_lead_task_activity
+  AFTER INSERT OR UPDATE OF completed_at ON lead_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION log_lead_task_activity();
+
+CREATE OR REPLACE FUNCTION send_task_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  task_record record;
+  sent integer := 0;
+BEGIN
+  FOR task_record IN
+    SELECT t.*, l.first_name, l.last_name, COALESCE(c.timezone, 'UTC') AS lead_timezone
+    FROM lead_tasks t
+    JOIN leads l ON l.id = t.lead_id
+    LEFT JOIN countries c ON c.code = l.country_code
+    WHERE t.completed_at IS NULL
+      AND t.reminder_sent_at IS NULL
+      AND t.remind_minutes_before IS NOT NULL
+      AND t.assigned_to IS NOT NULL
+      AND t.due_at - make_interval(mins => t.remind_minutes_before) <= now()
+    ORDER BY t.due_at
+    FOR UPDATE OF t SKIP LOCKED
+  LOOP
+    INSERT INTO lead_notifications (lead_id, user_id, notification_type, message)
+    VALUES (
+      task_record.lead_id,
+      task_record.assigned_to,
+      'task_reminder',
+      format('%s %s %s at %s client time (%s): %s',
+        initcap(replace(task_record.type, '_', ' ')),
+        task_record.first_name,
+        task_record.last_name,
+        to_char(task_record.due_at AT TIME ZONE task_record.lead_timezone, 'HH24:MI'),
+        task_record.lead_timezone,
+        task_record.title)
+    );
+
+    UPDATE lead_tasks SET reminder_sent_at = now() WHERE id = task_record.id;
+    sent := sent + 1;
+  END LOOP;
+
+  RETURN sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_task_reminders() FROM PUBLIC, anon, authenticated;
+
+-- pg_cron is enabled by the webhooks migration
+SELECT cron.schedule('send-task-reminders', '* * * * *', 'SELECT send_task_reminders()');
+
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id bigint, p_duplicate_id bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor leads;
+  duplicate leads;
+  moved_activities integer;
+  moved_comments integer;
+  moved_answers integer;
+  moved_deposits integer;
+  moved_tasks integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead % or % not found', p_survivor_id, p_duplicate_id;
+  END IF;
+
+  UPDATE lead_activities SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE lead_comments SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_comments = ROW_COUNT;
+
+  -- The survivor's own answer wins, the duplicate's answers to the same questions go with it
+  UPDATE lead_answers a SET lead_id = survivor.id
+  WHERE a.lead_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM lead_answers s WHERE s.lead_id = survivor.id AND s.question_id = a.question_id
+    );
+  GET DIAGNOSTICS moved_answers = ROW_COUNT;
+
+  UPDATE deposits SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_deposits = ROW_COUNT;
+
+  UPDATE lead_tasks SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_tasks = ROW_COUNT;
+
+  UPDATE lead_notifications SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  UPDATE webhook_deliveries SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+
+  UPDATE leads
+  SET phone = COALESCE(NULLIF(survivor.phone, ''), duplicate.phone),
+      country = COALESCE(NULLIF(survivor.country, ''), duplicate.country),
+      brand = COALESCE(NULLIF(survivor.brand, ''), duplicate.brand),
+      source = COALESCE(NULLIF(survivor.source, ''), duplicate.source),
+      funnel = COALESCE(NULLIF(survivor.funnel, ''), duplicate.funnel),
+      desk = COALESCE(NULLIF(survivor.desk, ''), duplicate.desk),
+      assigned_to = COALESCE(survivor.assigned_to, duplicate.assigned_to),
+      balance = COALESCE(survivor.balance, 0) + COALESCE(duplicate.balance, 0),
+      total_deposits = COALESCE(survivor.total_deposits, 0) + COALESCE(duplicate.total_deposits, 0),
+      has_deposited = survivor.has_deposited OR duplicate.has_deposited,
+      is_converted = COALESCE(survivor.is_converted, false) OR COALESCE(duplicate.is_converted, false),
+      converted_at = LEAST(survivor.converted_at, duplicate.converted_at),
+      ftd_date = LEAST(survivor.ftd_date, duplicate.ftd_date)
+  WHERE id = survivor.id;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    survivor.id,
+    'merge',
+    format('Merged duplicate lead #%s (%s %s, %s) into this lead', duplicate.id,
+      duplicate.first_name, duplicate.last_name, duplicate.email)
+  );
+
+  DELETE FROM leads WHERE id = duplicate.id;
+
+  RETURN jsonb_build_object(
+    'survivor_id', survivor.id,
+    'activities', moved_activities,
+    'comments', moved_comments,
+    'answers', moved_answers,
+    'deposits', moved_deposits,
+    'tasks', moved_tasks
+  );
+END;
+$$;
+
+-- Sortable in get_visible_leads
+CREATE OR REPLACE FUNCTION lead_column_expression(p_column text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_column
+    WHEN 'id' THEN 'l.id'
+    WHEN 'source_id' THEN 'l.source_id'
+    WHEN 'full_name' THEN $e$(l.first_name || ' ' || l.last_name)$e$
+    WHEN 'email' THEN 'l.email'
+    WHEN 'phone' THEN 'l.phone'
+    WHEN 'country' THEN 'l.country'
+    WHEN 'source' THEN 'l.source'
+    WHEN 'funnel' THEN 'l.funnel'
+    WHEN 'desk' THEN 'l.desk'
+    WHEN 'brand' THEN 'l.brand'
+    WHEN 'status' THEN 'l.status'
+    WHEN 'balance' THEN 'l.balance'
+    WHEN 'score' THEN 'l.score'
+    WHEN 'next_task_at' THEN 'l.next_task_at'
+    WHEN 'assigned_to_name' THEN $e$COALESCE(u.full_name, 'Unassigned')$e$
+    WHEN 'created_at' THEN 'l.created_at'
+    WHEN 'converted_at' THEN 'l.converted_at'
+    ELSE NULL
+  END;
+$$;
@@ -0,0 +1,111 @@
+/*
+  # Click-to-call logging
+
+  1. Changes to `lead_activities`
+    - `metadata` (jsonb) - Structured details of an activity. `call` activities carry `provider`,
+      `provider_call_id`, `user_id`, `phone`, `outcome` (`answered`, `no_answer`, `busy`, `failed`
+      or `cancelled`), `started_at`, `answered_at`, `ended_at`, `duration_seconds` and
+      `recording_url`
+
+  2. Changes to `leads`
+    - `call_count` (integer) - Number of `call` activities, including unanswered attempts
+    - `last_call_at` (timestamptz) - Time of the latest one
+    Both are kept up to date by `on_lead_call_activity` and backfilled here.
+
+  3. New Functions
+    - `refresh_lead_call_stats(lead_id)` - Recounts `call_count` and `last_call_at`
+
+  4. Changed Functions
+    - `lead_column_expression` knows `call_count`
+*/
+
+ALTER TABLE lead_activities ADD COLUMN IF NOT EXISTS metadata jsonb;
+
+ALTER TABLE leads
+  ADD COLUMN IF NOT EXISTS call_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_call_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_lead_activities_calls ON lead_activities(lead_id, created_at) WHERE type = 'call';
+
+CREATE OR REPLACE FUNCTION refresh_lead_call_stats(p_lead_id bigint)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE leads l
+  SET call_count = stats.calls,
+      last_call_at = stats.last_call
+  FROM (
+    SELECT count(*) AS calls, max(a.created_at) AS last_call
+    FROM lead_activities a
+    WHERE a.lead_id = p_lead_id AND a.type = 'call'
+  ) stats
+  WHERE l.id = p_lead_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_lead_call_stats(bigint) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION refresh_activity_call_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.type = 'call' THEN
+    PERFORM refresh_lead_call_stats(OLD.lead_id);
+  END IF;
+  -- Covers merges too, they move activities to the surviving lead
+  IF TG_OP <> 'DELETE' AND NEW.type = 'call'
+    AND (TG_OP = 'INSERT' OR NEW.lead_id <> OLD.lead_id OR OLD.type <> 'call') THEN
+    PERFORM refresh_lead_call_stats(NEW.lead_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_lead_call_activity ON lead_activities;
+CREATE TRIGGER on_lead_call_activity
+  AFTER INSERT OR UPDATE OF lead_id, type OR DELETE ON lead_activities
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_activity_call_stats();
+
+UPDATE leads l
+SET call_count = stats.calls,
+    last_call_at = stats.last_call
+FROM (
+  SELECT lead_id, count(*) AS calls, max(created_at) AS last_call
+  FROM lead_activities
+  WHERE type = 'call'
+  GROUP BY lead_id
+) stats
+WHERE l.id = stats.lead_id;
+
+-- Sortable in get_visible_leads
+CREATE OR REPLACE FUNCTION lead_column_expression(p_column text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_column
+    WHEN 'id' THEN 'l.id'
+    WHEN 'source_id' THEN 'l.source_id'
+    WHEN 'full_name' THEN $e$(l.first_name || ' ' || l.last_name)$e$
+    WHEN 'email' THEN 'l.email'
+    WHEN 'phone' THEN 'l.phone'
+    WHEN 'country' THEN 'l.country'
+    WHEN 'source' THEN 'l.source'
+    WHEN 'funnel' THEN 'l.funnel'
+    WHEN 'desk' THEN 'l.desk'
+    WHEN 'brand' THEN 'l.brand'
+    WHEN 'status' THEN 'l.status'
+    WHEN 'balance' THEN 'l.balance'
+    WHEN 'score' THEN 'l.score'
+    WHEN 'next_task_at' THEN 'l.next_task_at'
+    WHEN 'call_count' THEN 'l.call_count'
+    WHEN 'assigned_to_name' THEN $e$COALESCE(u.full_name, 'Unassigned')$e$
+    WHEN 'created_at' THEN 'l.created_at'
+    WHEN 'converted_at' THEN 'l.converted_at'
+    ELSE NULL
+  END;
+$$;
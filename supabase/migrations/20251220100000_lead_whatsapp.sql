@@ -0,0 +1,260 @@
+/*
+  # WhatsApp messaging
+
+  1. New Tables
+    - `whatsapp_templates` - Message templates approved in WhatsApp Business Manager
+      - `name` (text), `language` (text) - Identify the template at the provider
+      - `body` (text) - Template text with `{{1}}`, `{{2}}`... placeholders, shown to agents and
+        stored with sent messages
+      - `is_active` (boolean)
+    - `whatsapp_messages` - Conversation thread of a lead
+      - `lead_id` (bigint)
+      - `direction` (text) - `inbound` or `outbound`
+      - `body` (text) - Message text, the rendered template for template messages
+      - `template_id` (uuid) - Template an outbound message was sent from
+      - `status` (text) - `sent`, `delivered`, `read` or `failed` for outbound messages, updated by
+        the provider's status webhooks. `received` for inbound ones
+      - `error` (text) - Provider error of a failed message
+      - `provider_message_id` (text) - WhatsApp message id, unique so webhook retries are ignored
+      - `sent_by` (uuid) - Agent who sent an outbound message
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `has_permission(section, action)` - Whether the current user has a `user_permissions` flag,
+      admins have all of them
+    - `record_whatsapp_inbound(from, body, provider_message_id, received_at)` - Stores an inbound
+      message on the newest lead with that normalized phone number and notifies its agent. Returns
+      the lead id, NULL for unknown senders. Called by the `whatsapp` edge function only
+
+  3. Changed Functions
+    - `merge_leads` also moves the duplicate's WhatsApp messages
+
+  4. Security
+    - Enable RLS. Users with the `clients.whatsapp` permission can read the messages of the leads
+      they can see, messages are only written by the `whatsapp` edge function
+    - Everyone can read templates, only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS whatsapp_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  language text NOT NULL DEFAULT 'en_US',
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (name, language)
+);
+
+ALTER TABLE whatsapp_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read WhatsApp templates"
+  ON whatsapp_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can manage WhatsApp templates"
+  ON whatsapp_templates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS whatsapp_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id bigint NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  direction text NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  body text NOT NULL,
+  template_id uuid REFERENCES whatsapp_templates(id) ON DELETE SET NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'delivered', 'read', 'failed', 'received')),
+  error text,
+  provider_message_id text UNIQUE,
+  sent_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_lead_created ON whatsapp_messages(lead_id, created_at);
+
+CREATE OR REPLACE FUNCTION has_permission(p_section text, p_action text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) OR COALESCE((
+    SELECT (permissions -> p_section ->> p_action)::boolean
+    FROM user_permissions
+    WHERE user_id = auth.uid()
+  ), false);
+$$;
+
+ALTER TABLE whatsapp_messages ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the caller's leads policies, so message access follows lead access
+CREATE POLICY "Users with the WhatsApp permission can read messages of leads they can see"
+  ON whatsapp_messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_permission('clients', 'whatsapp')
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = whatsapp_messages.lead_id)
+  );
+
+CREATE OR REPLACE FUNCTION record_whatsapp_inbound(
+  p_from text,
+  p_body text,
+  p_provider_message_id text,
+  p_received_at timestamptz
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target leads;
+  inserted_id uuid;
+BEGIN
+  -- WhatsApp sends the international number without the plus, like phone_normalized
+  SELECT * INTO target
+  FROM leads
+  WHERE phone_normalized = normalize_phone('+' || p_from, NULL)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF target.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO whatsapp_messages (lead_id, direction, body, status, provider_message_id, created_at)
+  VALUES (target.id, 'inbound', p_body, 'received', p_provider_message_id, COALESCE(p_received_at, now()))
+  ON CONFLICT (provider_message_id) DO NOTHING
+  RETURNING id INTO inserted_id;
+
+  IF inserted_id IS NOT NULL AND target.assigned_to IS NOT NULL THEN
+    INSERT INTO lead_notifications (lead_id, user_id, notification_type, message)
+    VALUES (
+      target.id,
+      target.assigned_to,
+      'whatsapp_message',
+      format('New WhatsApp message from %s %s: %s', target.first_name, target.last_name, left(p_body, 100))
+    );
+  END IF;
+
+  RETURN target.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_whatsapp_inbound(text, text, text, timestamptz) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id bigint, p_duplicate_id bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor leads;
+  duplicate leads;
+  moved_activities integer;
+  moved_comments integer;
+  moved_answers integer;
+  moved_deposits integer;
+  moved_tasks integer;
+  moved_messages integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead % or % not found', p_survivor_id, p_duplicate_id;
+  END IF;
+
+  UPDATE lead_activities SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE lead_comments SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_comments = ROW_COUNT;
+
+  -- The survivor's own answer wins, the duplicate's answers to the same questions go with it
+  UPDATE lead_answers a SET lead_id = survivor.id
+  WHERE a.lead_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM lead_answers s WHERE s.lead_id = survivor.id AND s.question_id = a.question_id
+    );
+  GET DIAGNOSTICS moved_answers = ROW_COUNT;
+
+  UPDATE deposits SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_deposits = ROW_COUNT;
+
+  UPDATE lead_tasks SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_tasks = ROW_COUNT;
+
+  UPDATE whatsapp_messages SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_messages = ROW_COUNT;
+
+  UPDATE lead_notifications SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  UPDATE webhook_deliveries SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+
+  UPDATE leads
+  SET phone = COALESCE(NULLIF(survivor.phone, ''), duplicate.phone),
+      country = COALESCE(NULLIF(survivor.country, ''), duplicate.country),
+      brand = COALESCE(NULLIF(survivor.brand, ''), duplicate.brand),
+      source = COALESCE(NULLIF(survivor.source, ''), duplicate.source),
+      funnel = COALESCE(NULLIF(survivor.funnel, ''), duplicate.funnel),
+      desk = COALESCE(NULLIF(survivor.desk, ''), duplicate.desk),
+      assigned_to = COALESCE(survivor.assigned_to, duplicate.assigned_to),
+      balance = COALESCE(survivor.balance, 0) + COALESCE(duplicate.balance, 0),
+      total_deposits = COALESCE(survivor.total_deposits, 0) + COALESCE(duplicate.total_deposits, 0),
+      has_deposited = survivor.has_deposited OR duplicate.has_deposited,
+      is_converted = COALESCE(survivor.is_converted, false) OR COALESCE(duplicate.is_converted, false),
+      converted_at = LEAST(survivor.converted_at, duplicate.converted_at),
+      ftd_date = LEAST(survivor.ftd_date, duplicate.ftd_date)
+  WHERE id = survivor.id;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    survivor.id,
+    'merge',
+    format('Merged duplicate lead #%s (%s %s, %s) into this lead', duplicate.id,
+      duplicate.first_name, duplicate.last_name, duplicate.email)
+  );
+
+  DELETE FROM leads WHERE id = duplicate.id;
+
+  RETURN jsonb_build_object(
+    'survivor_id', survivor.id,
+    'activities', moved_activities,
+    'comments', moved_comments,
+    'answers', moved_answers,
+    'deposits', moved_deposits,
+    'tasks', moved_tasks,
+    'messages', moved_messages
+  );
+END;
+$$;
@@ -0,0 +1,273 @@
+/*
+  # Email sending and templates
+
+  1. New Tables
+    - `email_templates` - Admin managed templates
+      - `name` (text), `subject` (text), `body` (text) - Subject and body may contain placeholders,
+        see `render_lead_template`
+      - `is_active` (boolean)
+    - `lead_emails` - Every email sent to a lead
+      - `id` (uuid) - Also the tracking token of the open pixel and the Message-ID
+      - `lead_id` (bigint), `template_id` (uuid)
+      - `to_email` (text) - Lowercased recipient address
+      - `subject` (text), `body` (text) - As sent, placeholders filled in
+      - `status` (text) - `pending` until the provider accepted or rejected the email, then
+        `sent` or `failed`, and `bounced`
+      - `error` (text) - Provider error or bounce reason
+      - `opened_at` (timestamptz) - First time the open pixel was loaded
+      - `sent_by` (uuid), `created_at` (timestamptz)
+
+  2. New Functions
+    - `render_lead_template(lead_id, text)` - Fills in `{{first_name}}`, `{{last_name}}`,
+      `{{full_name}}`, `{{email}}`, `{{phone}}`, `{{country}}`, `{{brand}}`, `{{status}}`,
+      `{{source}}`, `{{funnel}}`, `{{desk}}`, `{{balance}}` and `{{agent_name}}`, and the lead's
+      answer to a question with `{{answer:Question text}}`. Missing values become empty, unknown
+      placeholders are left as they are
+    - `render_lead_emails(lead_ids, subject, body)` - Renders an email for each lead the caller can
+      see, used for previews and by the `email` edge function
+
+  3. Changed Functions
+    - `merge_leads` also moves the duplicate's emails
+
+  4. Security
+    - Enable RLS. Users with the `clients.email` permission can read the emails of the leads they
+      can see, emails are only written by the `email` edge function, which also logs
+      `email_sent`, `email_opened` and `email_bounced` activities
+    - Everyone can read templates, only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  subject text NOT NULL,
+  body text NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read email templates"
+  ON email_templates
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Only admins can manage email templates"
+  ON email_templates
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role = 'admin'
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS lead_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id bigint NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+  template_id uuid REFERENCES email_templates(id) ON DELETE SET NULL,
+  to_email text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL CHECK (status IN ('pending', 'sent', 'failed', 'bounced')),
+  error text,
+  opened_at timestamptz,
+  sent_by uuid REFERENCES user_profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_emails_lead_created ON lead_emails(lead_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_lead_emails_bounced ON lead_emails(to_email) WHERE status = 'bounced';
+
+ALTER TABLE lead_emails ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the caller's leads policies, so email access follows lead access
+CREATE POLICY "Users with the email permission can read emails of leads they can see"
+  ON lead_emails
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_permission('clients', 'email')
+    AND EXISTS (SELECT 1 FROM leads WHERE leads.id = lead_emails.lead_id)
+  );
+
+-- Runs with the caller's rights, leads they cannot see are not found
+CREATE OR REPLACE FUNCTION render_lead_template(p_lead_id bigint, p_text text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  target leads;
+  agent_name text;
+  match text[];
+  field text;
+  value text;
+  result text := p_text;
+BEGIN
+  SELECT * INTO target FROM leads WHERE id = p_lead_id;
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Lead % not found', p_lead_id;
+  END IF;
+
+  SELECT full_name INTO agent_name FROM user_profiles WHERE id = target.assigned_to;
+
+  FOR match IN SELECT DISTINCT m FROM regexp_matches(p_text, '(\{\{\s*([^{}]+?)\s*\}\})', 'g') AS m LOOP
+    field := lower(match[2]);
+
+    IF field LIKE 'answer:%' THEN
+      SELECT a.answer INTO value
+      FROM lead_answers a
+      JOIN lead_questions q ON q.id = a.question_id
+      WHERE a.lead_id = target.id
+        AND lower(q.question) = lower(trim(substr(match[2], 8)));
+    ELSIF field IN ('first_name', 'last_name', 'full_name', 'email', 'phone', 'country', 'brand',
+      'status', 'source', 'funnel', 'desk', 'balance', 'agent_name') THEN
+      value := CASE field
+        WHEN 'first_name' THEN target.first_name
+        WHEN 'last_name' THEN target.last_name
+        WHEN 'full_name' THEN concat_ws(' ', target.first_name, target.last_name)
+        WHEN 'email' THEN target.email
+        WHEN 'phone' THEN target.phone
+        WHEN 'country' THEN target.country
+        WHEN 'brand' THEN target.brand
+        WHEN 'status' THEN target.status
+        WHEN 'source' THEN target.source
+        WHEN 'funnel' THEN target.funnel
+        WHEN 'desk' THEN target.desk
+        WHEN 'balance' THEN target.balance::text
+        WHEN 'agent_name' THEN agent_name
+      END;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    result := replace(result, match[1], COALESCE(value, ''));
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION render_lead_emails(p_lead_ids bigint[], p_subject text, p_body text)
+RETURNS TABLE (lead_id bigint, email text, subject text, body text)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT l.id, l.email, render_lead_template(l.id, p_subject), render_lead_template(l.id, p_body)
+  FROM leads l
+  WHERE l.id = ANY(p_lead_ids)
+  ORDER BY l.id;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id bigint, p_duplicate_id bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor leads;
+  duplicate leads;
+  moved_activities integer;
+  moved_comments integer;
+  moved_answers integer;
+  moved_deposits integer;
+  moved_tasks integer;
+  moved_messages integer;
+  moved_emails integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead % or % not found', p_survivor_id, p_duplicate_id;
+  END IF;
+
+  UPDATE lead_activities SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE lead_comments SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_comments = ROW_COUNT;
+
+  -- The survivor's own answer wins, the duplicate's answers to the same questions go with it
+  UPDATE lead_answers a SET lead_id = survivor.id
+  WHERE a.lead_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM lead_answers s WHERE s.lead_id = survivor.id AND s.question_id = a.question_id
+    );
+  GET DIAGNOSTICS moved_answers = ROW_COUNT;
+
+  UPDATE deposits SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_deposits = ROW_COUNT;
+
+  UPDATE lead_tasks SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_tasks = ROW_COUNT;
+
+  UPDATE whatsapp_messages SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_messages = ROW_COUNT;
+
+  UPDATE lead_emails SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_emails = ROW_COUNT;
+
+  UPDATE lead_notifications SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  UPDATE webhook_deliveries SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+
+  UPDATE leads
+  SET phone = COALESCE(NULLIF(survivor.phone, ''), duplicate.phone),
+      country = COALESCE(NULLIF(survivor.country, ''), duplicate.country),
+      brand = COALESCE(NULLIF(survivor.brand, ''), duplicate.brand),
+      source = COALESCE(NULLIF(survivor.source, ''), duplicate.source),
+      funnel = COALESCE(NULLIF(survivor.funnel, ''), duplicate.funnel),
+      desk = COALESCE(NULLIF(survivor.desk, ''), duplicate.desk),
+      assigned_to = COALESCE(survivor.assigned_to, duplicate.assigned_to),
+      balance = COALESCE(survivor.balance, 0) + COALESCE(duplicate.balance, 0),
+      total_deposits = COALESCE(survivor.total_deposits, 0) + COALESCE(duplicate.total_deposits, 0),
+      has_deposited = survivor.has_deposited OR duplicate.has_deposited,
+      is_converted = COALESCE(survivor.is_converted, false) OR COALESCE(duplicate.is_converted, false),
+      converted_at = LEAST(survivor.converted_at, duplicate.converted_at),
+      ftd_date = LEAST(survivor.ftd_date, duplicate.ftd_date)
+  WHERE id = survivor.id;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    survivor.id,
+    'merge',
+    format('Merged duplicate lead #%s (%s %s, %s) into this lead', duplicate.id,
+      duplicate.first_name, duplicate.last_name, duplicate.email)
+  );
+
+  DELETE FROM leads WHERE id = duplicate.id;
+
+  RETURN jsonb_build_object(
+    'survivor_id', survivor.id,
+    'activities', moved_activities,
+    'comments', moved_comments,
+    'answers', moved_answers,
+    'deposits', moved_deposits,
+    'tasks', moved_tasks,
+    'messages', moved_messages,
+    'emails', moved_emails
+  );
+END;
+$$;
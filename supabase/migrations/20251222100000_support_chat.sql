@@ -0,0 +1,385 @@
+/*
+  # Internal support chat
+
+  1. New Tables
+    - `chat_rooms`
+      - `type` (text) - `direct` between two users, or `desk` for a desk and everyone below it
+      - `desk_user_id` (uuid) - Desk user owning a `desk` room, one room per desk
+    - `chat_room_members`
+      - `room_id` (uuid), `user_id` (uuid)
+      - `last_read_at` (timestamptz) - Messages after it count as unread
+    - `chat_messages`
+      - `room_id` (uuid), `sender_id` (uuid), `body` (text)
+      - `lead_id` (bigint) - Optional lead the message is about
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `is_chat_member(room_id)` - Whether the current user is in a room
+    - `get_chat_contacts()` - Users the current user may message directly: their managers up the
+      hierarchy and everyone below them, admins may message anyone
+    - `get_or_create_direct_room(user_id)` - The direct room with a contact, created under an
+      advisory lock on the pair of users so concurrent calls share one room
+    - `get_my_chat_rooms()` - Rooms of the current user with the latest message and unread count.
+      Adds them to the room of their desk (their own for desk users, every desk for admins) and
+      removes them from desk rooms they no longer belong to
+
+  3. Changed Functions
+    - `merge_leads` also relinks chat messages about the duplicate to the surviving lead
+
+  4. Security
+    - Enable RLS. Members with the `support.chat` permission can read and post messages, posting
+      about a lead requires seeing it. Members with `support.deleteChat` can delete messages
+    - `chat_messages` is added to the realtime publication
+*/
+
+CREATE TABLE IF NOT EXISTS chat_rooms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL CHECK (type IN ('direct', 'desk')),
+  desk_user_id uuid UNIQUE REFERENCES user_profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((type = 'desk') = (desk_user_id IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS chat_room_members (
+  room_id uuid NOT NULL REFERENCES chat_rooms(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_room_members_user_id ON chat_room_members(user_id);
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES chat_rooms(id) ON DELETE CASCADE,
+  sender_id uuid REFERENCES user_profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  lead_id bigint REFERENCES leads(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_room_created ON chat_messages(room_id, created_at);
+
+-- SECURITY DEFINER so the policies below do not recurse into chat_room_members' own policy
+CREATE OR REPLACE FUNCTION is_chat_member(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM chat_room_members
+    WHERE room_id = p_room_id AND user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE chat_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_room_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their chat rooms"
+  ON chat_rooms
+  FOR SELECT
+  TO authenticated
+  USING (is_chat_member(id));
+
+CREATE POLICY "Members can see who is in their chat rooms"
+  ON chat_room_members
+  FOR SELECT
+  TO authenticated
+  USING (is_chat_member(room_id));
+
+CREATE POLICY "Users can mark their chat rooms as read"
+  ON chat_room_members
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Members with the chat permission can read messages"
+  ON chat_messages
+  FOR SELECT
+  TO authenticated
+  USING (is_chat_member(room_id) AND has_permission('support', 'chat'));
+
+-- The leads subquery runs under the sender's leads policies
+CREATE POLICY "Members with the chat permission can post messages"
+  ON chat_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND is_chat_member(room_id)
+    AND has_permission('support', 'chat')
+    AND (lead_id IS NULL OR EXISTS (SELECT 1 FROM leads WHERE leads.id = chat_messages.lead_id))
+  );
+
+CREATE POLICY "Members with the delete chat permission can delete messages"
+  ON chat_messages
+  FOR DELETE
+  TO authenticated
+  USING (is_chat_member(room_id) AND has_permission('support', 'deleteChat'));
+
+CREATE OR REPLACE FUNCTION get_chat_contacts()
+RETURNS TABLE (id uuid, full_name text, role text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  WITH RECURSIVE managers AS (
+    SELECT up.manager_id AS id
+    FROM user_profiles up
+    WHERE up.id = auth.uid() AND up.manager_id IS NOT NULL
+
+    UNION
+
+    SELECT up.manager_id
+    FROM user_profiles up
+    INNER JOIN managers m ON up.id = m.id
+    WHERE up.manager_id IS NOT NULL
+  )
+  SELECT up.id, up.full_name, up.role::text
+  FROM user_profiles up
+  WHERE up.id <> auth.uid()
+    AND (
+      EXISTS (SELECT 1 FROM user_profiles me WHERE me.id = auth.uid() AND me.role = 'admin')
+      OR up.id IN (SELECT managers.id FROM managers)
+      OR up.id IN (SELECT subordinate_id FROM get_user_subordinates(auth.uid()))
+    )
+  ORDER BY up.full_name;
+$$;
+
+CREATE OR REPLACE FUNCTION get_or_create_direct_room(p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  direct_room_id uuid;
+BEGIN
+  IF NOT has_permission('support', 'chat') THEN
+    RAISE EXCEPTION 'You do not have permission to use the chat';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM get_chat_contacts() c WHERE c.id = p_user_id) THEN
+    RAISE EXCEPTION 'You can only message your managers and your team';
+  END IF;
+
+  -- Serializes lookups for the same pair, so two users opening the chat at the same time
+  -- do not both create a room. The lookup below runs after the lock with a fresh snapshot
+  PERFORM pg_advisory_xact_lock(hashtext(
+    LEAST(auth.uid(), p_user_id)::text || ':' || GREATEST(auth.uid(), p_user_id)::text
+  ));
+
+  SELECT r.id INTO direct_room_id
+  FROM chat_rooms r
+  JOIN chat_room_members mine ON mine.room_id = r.id AND mine.user_id = auth.uid()
+  JOIN chat_room_members theirs ON theirs.room_id = r.id AND theirs.user_id = p_user_id
+  WHERE r.type = 'direct'
+  LIMIT 1;
+
+  IF direct_room_id IS NULL THEN
+    INSERT INTO chat_rooms (type) VALUES ('direct') RETURNING id INTO direct_room_id;
+    INSERT INTO chat_room_members (room_id, user_id)
+    VALUES (direct_room_id, auth.uid()), (direct_room_id, p_user_id);
+  END IF;
+
+  RETURN direct_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_chat_rooms()
+RETURNS TABLE (
+  id uuid,
+  type text,
+  name text,
+  other_user_id uuid,
+  last_message text,
+  last_message_at timestamptz,
+  unread_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  me user_profiles;
+  desk_ids uuid[];
+BEGIN
+  SELECT * INTO me FROM user_profiles WHERE user_profiles.id = auth.uid();
+  IF me.id IS NULL OR NOT has_permission('support', 'chat') THEN
+    RETURN;
+  END IF;
+
+  -- Desks the user belongs to: their own, or the desk users above them in the hierarchy
+  desk_ids := ARRAY(
+    SELECT d.id FROM user_profiles d
+    WHERE d.role = 'desk'
+      AND (me.role = 'admin' OR d.id = me.id OR me.id IN (SELECT subordinate_id FROM get_user_subordinates(d.id)))
+  );
+
+  INSERT INTO chat_rooms (type, desk_user_id)
+  SELECT 'desk', d FROM unnest(desk_ids) AS d
+  ON CONFLICT (desk_user_id) DO NOTHING;
+
+  INSERT INTO chat_room_members (room_id, user_id)
+  SELECT r.id, me.id FROM chat_rooms r WHERE r.desk_user_id = ANY(desk_ids)
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM chat_room_members m
+  USING chat_rooms r
+  WHERE m.room_id = r.id AND m.user_id = me.id
+    AND r.type = 'desk' AND NOT (r.desk_user_id = ANY(desk_ids));
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.type,
+    CASE WHEN r.type = 'desk' THEN desk.full_name || ' desk' ELSE other.full_name END,
+    other.id,
+    last.body,
+    last.created_at,
+    (
+      SELECT count(*)::integer FROM chat_messages msg
+      WHERE msg.room_id = r.id AND msg.created_at > mine.last_read_at AND msg.sender_id IS DISTINCT FROM me.id
+    )
+  FROM chat_room_members mine
+  JOIN chat_rooms r ON r.id = mine.room_id
+  LEFT JOIN user_profiles desk ON desk.id = r.desk_user_id
+  LEFT JOIN LATERAL (
+    SELECT up.id, up.full_name FROM chat_room_members o
+    JOIN user_profiles up ON up.id = o.user_id
+    WHERE r.type = 'direct' AND o.room_id = r.id AND o.user_id <> me.id
+    LIMIT 1
+  ) other ON true
+  LEFT JOIN LATERAL (
+    SELECT msg.body, msg.created_at FROM chat_messages msg
+    WHERE msg.room_id = r.id
+    ORDER BY msg.created_at DESC
+    LIMIT 1
+  ) last ON true
+  WHERE mine.user_id = me.id
+  ORDER BY last.created_at DESC NULLS LAST, r.type, 3;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_leads(p_survivor_id bigint, p_duplicate_id bigint)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor leads;
+  duplicate leads;
+  moved_activities integer;
+  moved_comments integer;
+  moved_answers integer;
+  moved_deposits integer;
+  moved_tasks integer;
+  moved_messages integer;
+  moved_emails integer;
+  moved_chat_messages integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_profiles.id = auth.uid()
+    AND user_profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge leads';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor FROM leads WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO duplicate FROM leads WHERE id = p_duplicate_id FOR UPDATE;
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead % or % not found', p_survivor_id, p_duplicate_id;
+  END IF;
+
+  UPDATE lead_activities SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_activities = ROW_COUNT;
+
+  UPDATE lead_comments SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_comments = ROW_COUNT;
+
+  -- The survivor's own answer wins, the duplicate's answers to the same questions go with it
+  UPDATE lead_answers a SET lead_id = survivor.id
+  WHERE a.lead_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM lead_answers s WHERE s.lead_id = survivor.id AND s.question_id = a.question_id
+    );
+  GET DIAGNOSTICS moved_answers = ROW_COUNT;
+
+  UPDATE deposits SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_deposits = ROW_COUNT;
+
+  UPDATE lead_tasks SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_tasks = ROW_COUNT;
+
+  UPDATE whatsapp_messages SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_messages = ROW_COUNT;
+
+  UPDATE lead_emails SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_emails = ROW_COUNT;
+
+  UPDATE chat_messages SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  GET DIAGNOSTICS moved_chat_messages = ROW_COUNT;
+
+  UPDATE lead_notifications SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+  UPDATE webhook_deliveries SET lead_id = survivor.id WHERE lead_id = duplicate.id;
+
+  UPDATE leads
+  SET phone = COALESCE(NULLIF(survivor.phone, ''), duplicate.phone),
+      country = COALESCE(NULLIF(survivor.country, ''), duplicate.country),
+      brand = COALESCE(NULLIF(survivor.brand, ''), duplicate.brand),
+      source = COALESCE(NULLIF(survivor.source, ''), duplicate.source),
+      funnel = COALESCE(NULLIF(survivor.funnel, ''), duplicate.funnel),
+      desk = COALESCE(NULLIF(survivor.desk, ''), duplicate.desk),
+      assigned_to = COALESCE(survivor.assigned_to, duplicate.assigned_to),
+      balance = COALESCE(survivor.balance, 0) + COALESCE(duplicate.balance, 0),
+      total_deposits = COALESCE(survivor.total_deposits, 0) + COALESCE(duplicate.total_deposits, 0),
+      has_deposited = survivor.has_deposited OR duplicate.has_deposited,
+      is_converted = COALESCE(survivor.is_converted, false) OR COALESCE(duplicate.is_converted, false),
+      converted_at = LEAST(survivor.converted_at, duplicate.converted_at),
+      ftd_date = LEAST(survivor.ftd_date, duplicate.ftd_date)
+  WHERE id = survivor.id;
+
+  INSERT INTO lead_activities (lead_id, type, description)
+  VALUES (
+    survivor.id,
+    'merge',
+    format('Merged duplicate lead #%s (%s %s, %s) into this lead', duplicate.id,
+      duplicate.first_name, duplicate.last_name, duplicate.email)
+  );
+
+  DELETE FROM leads WHERE id = duplicate.id;
+
+  RETURN jsonb_build_object(
+    'survivor_id', survivor.id,
+    'activities', moved_activities,
+    'comments', moved_comments,
+    'answers', moved_answers,
+    'deposits', moved_deposits,
+    'tasks', moved_tasks,
+    'messages', moved_messages,
+    'emails', moved_emails,
+    'chat_messages', moved_chat_messages
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_chat_contacts() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_or_create_direct_room(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_chat_rooms() TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
+  END IF;
+END;
+$$;